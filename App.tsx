@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { View, User, Course, CourseLevel } from './types';
+import { View, User, Course, Cohort, WaitlistEntry, LiveSession, LearningPath, CourseLevel, Lesson, Order, Coupon, InboxNotification, CompletionReview, ReviewChecklistItem, UserRole } from './types';
 import { Navbar } from './components/Navbar';
 import { CourseCard } from './components/CourseCard';
 import { Auth } from './components/Auth';
@@ -9,8 +9,60 @@ import { Certificate } from './components/Certificate';
 import { CourseEditor } from './components/CourseEditor';
 import { CourseDetailsModal } from './components/CourseDetailsModal';
 import { VideoGenerator } from './components/VideoGenerator';
+import { Checkout } from './components/Checkout';
+import { OrderStatus } from './components/OrderStatus';
+import { RevenueReport } from './components/RevenueReport';
+import { PaymentHistory } from './components/PaymentHistory';
+import { CouponManager } from './components/CouponManager';
+import { CertificateRegistry } from './components/CertificateRegistry';
+import { CertificateTemplateDesigner } from './components/CertificateTemplateDesigner';
+import { SignatoryManager } from './components/SignatoryManager';
+import { VerifyCertificate } from './components/VerifyCertificate';
+import { EmailLog } from './components/EmailLog';
+import { EmailTemplateEditor } from './components/EmailTemplateEditor';
+import { ResetPassword } from './components/ResetPassword';
+import { NotificationInbox } from './components/NotificationInbox';
+import { CompletionReviewModal } from './components/CompletionReviewModal';
+import { CourseAssignments } from './components/CourseAssignments';
+import { AssignmentManager } from './components/AssignmentManager';
+import { CourseQuizzes } from './components/CourseQuizzes';
+import { CourseDiscussions } from './components/CourseDiscussions';
+import { DiscussionThreadView } from './components/DiscussionThreadView';
+import { QuizManager } from './components/QuizManager';
+import { RoleManager } from './components/RoleManager';
+import { UserManager } from './components/UserManager';
+import { AuditLogViewer } from './components/AuditLogViewer';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { LearningPaths } from './components/LearningPaths';
+import { PathProgressPanel } from './components/PathProgressPanel';
+import { PathManager } from './components/PathManager';
+import { CohortPicker } from './components/CohortPicker';
+import { WaitlistPanel } from './components/WaitlistPanel';
+import { SessionCalendar } from './components/SessionCalendar';
+import { SessionManager } from './components/SessionManager';
+import { AttendanceRoster } from './components/AttendanceRoster';
+import { RatingManager } from './components/RatingManager';
+import { CohortManager } from './components/CohortManager';
+import { CatalogFilterPanel } from './components/CatalogFilterPanel';
 import { NotificationContainer, Notification } from './components/NotificationContainer';
 import { supabase, getSignedUrl, uploadToStorage } from './supabaseClient';
+import { useRoute, navigate, navigateBack, buildPath, resolveRouteGuard, getNextPath, getLoginPath } from './router';
+import { fetchCurriculumByCourse, saveCurriculum } from './services/curriculumService';
+import { fetchSignatoryIdsByCourse, saveCourseSignatories } from './services/signatoryService';
+import { issueCertificate } from './services/certificateService';
+import { submitCompletionReview, mapCompletionReview } from './services/reviewService';
+import { fetchAssignments, fetchMySubmissions, hasPassedAllAssignments } from './services/assignmentService';
+import { fetchQuizzes, fetchMyAttempts, hasPassedAllQuizzes } from './services/quizService';
+import { canTeach, canManageCourse, isUserRole } from './services/userService';
+import { recordCourseView } from './services/analyticsService';
+import { fetchLearningPaths, fetchPrerequisitesByCourse, saveCoursePrerequisites, getMissingPrerequisites, getStartedPaths, getPathProgress } from './services/pathService';
+import { fetchCohortsByCourse, fetchMyWaitlist, joinWaitlist, leaveWaitlist, isRegistrationOpen, isFull, hasActiveOffer } from './services/cohortService';
+import { fetchLiveSessions, getUserSessions, getUpcomingSessions } from './services/liveSessionService';
+import { fetchRatingSummaries } from './services/ratingService';
+import { fetchEnrollmentCounts, parseCatalogFilters, serializeCatalogFilters, applyCatalogFilters, CatalogFilters, CatalogSort, SORT_OPTIONS, EMPTY_CATALOG_FILTERS } from './services/catalogService';
+import { fetchNotifications, subscribeToNotifications, markNotificationsRead, deleteNotification, sendComment } from './services/notificationService';
+import { previewCoupon, fetchAssignedCoupons, quoteCoursePrice, describeCoupon } from './services/couponService';
+import { fetchLessonProgress, setLessonCompleted, recordLessonView, recordVideoWatchTime, computeCourseProgress, findLesson, findLessonsForVideo } from './services/progressService';
 
 // Home Content Configuration
 interface Feature {
@@ -44,14 +96,27 @@ const DEFAULT_HOME_CONTENT: HomeContent = {
 };
 
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<View>(View.HOME);
+  const route = useRoute();
+  const currentView = route.view;
+  const [isAuthReady, setIsAuthReady] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const [allUsers, setAllUsers] = useState<User[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
-  const [selectedCertificateCourseId, setSelectedCertificateCourseId] = useState<string | null>(null);
+  const [learningPaths, setLearningPaths] = useState<LearningPath[]>([]);
+  const [liveSessions, setLiveSessions] = useState<LiveSession[]>([]);
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
   const [courseToDelete, setCourseToDelete] = useState<string | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [inbox, setInbox] = useState<InboxNotification[]>([]);
+  const [commentTarget, setCommentTarget] = useState<{ userId: string; userName: string; courseTitle: string } | null>(null);
+  const [commentText, setCommentText] = useState('');
+  const [reviewTarget, setReviewTarget] = useState<{ user: User; course: Course } | null>(null);
+  const [cohortPickerCourseId, setCohortPickerCourseId] = useState<string | null>(null);
+
+  // Pricing State: a code entered by the visitor plus scholarships assigned to the student
+  const [appliedCoupon, setAppliedCoupon] = useState<Coupon | null>(null);
+  const [assignedCoupons, setAssignedCoupons] = useState<Coupon[]>([]);
+  const [couponInput, setCouponInput] = useState('');
   
   // Home Page Customization State
   const DEFAULT_HERO_IMAGE = 'https://images.unsplash.com/photo-1551434678-e076c223a692?ixlib=rb-1.2.1&ixid=eyJhcHBfaWQiOjEyMDd9&auto=format&fit=crop&w=2850&q=80';
@@ -63,8 +128,12 @@ const App: React.FC = () => {
   const [isEditingHome, setIsEditingHome] = useState(false);
   const [tempHomeContent, setTempHomeContent] = useState<HomeContent>(DEFAULT_HOME_CONTENT);
 
-  // Modal State
-  const [viewingCourse, setViewingCourse] = useState<Course | null>(null);
+  const cohortPickerCourse = courses.find(c => c.id === cohortPickerCourseId);
+
+  // Modal State (deep-linked via /courses/:id)
+  const viewingCourse = (currentView === View.COURSES && route.params.id)
+      ? courses.find(c => c.id === route.params.id) || null
+      : null;
 
   // --- Data Fetching Functions ---
 
@@ -74,10 +143,12 @@ const App: React.FC = () => {
           console.error('Error fetching courses:', error);
           addNotification('Failed to load training programs from database.', 'info');
       } else if (data) {
+          const [curriculumByCourse, signatoryIdsByCourse, enrollmentCounts, prerequisitesByCourse, paths, cohortsByCourse, ratingSummaries] = await Promise.all([
+              fetchCurriculumByCourse(), fetchSignatoryIdsByCourse(), fetchEnrollmentCounts(), fetchPrerequisitesByCourse(), fetchLearningPaths(), fetchCohortsByCourse(), fetchRatingSummaries()
+          ]);
+
           // Process courses to sign URLs
           const processedCourses = await Promise.all(data.map(async (c: any) => {
-              const signatureUrl = c.signature_image ? await getSignedUrl(c.signature_image) : undefined;
-              
               // Handle Course Image (URL vs Path)
               let imageUrl = c.image;
               let imagePath = undefined;
@@ -89,13 +160,26 @@ const App: React.FC = () => {
               return {
                   ...c,
                   instructorBio: c.instructor_bio,
+                  instructorId: c.instructor_id || undefined,
                   image: imageUrl || c.image,
                   imagePath: imagePath,
-                  signatureImage: signatureUrl,
-                  signaturePath: c.signature_image
+                  signatoryIds: signatoryIdsByCourse[c.id] || [],
+                  certificateTemplateId: c.certificate_template || undefined,
+                  requirePassingAssignments: !!c.require_passing_assignments,
+                  requirePassingQuizzes: !!c.require_passing_quizzes,
+                  minAttendancePercent: c.min_attendance_percent ?? undefined,
+                  createdAt: c.created_at,
+                  enrollmentCount: enrollmentCounts[c.id] || 0,
+                  averageRating: ratingSummaries[c.id]?.average,
+                  ratingCount: ratingSummaries[c.id]?.count || 0,
+                  prerequisiteIds: prerequisitesByCourse[c.id] || [],
+                  prerequisiteRule: c.prerequisite_rule === 'block' ? 'block' : 'warn',
+                  cohorts: cohortsByCourse[c.id] || [],
+                  curriculum: curriculumByCourse[c.id] || []
               };
           }));
           setCourses(processedCourses);
+          setLearningPaths(paths);
       }
   };
 
@@ -127,22 +211,26 @@ const App: React.FC = () => {
       
       let name = 'Student';
       let email = '';
-      let role: 'student' | 'admin' = 'student';
+      let role: UserRole = 'student';
+
+      // Deactivated accounts are banned at sign-in; end any session that is still valid
+      if (profile?.deactivated_at) {
+          await supabase.auth.signOut();
+          addNotification('This account has been deactivated. Contact us if you think this is a mistake.', 'info');
+          return null;
+      }
 
       // Robust fallback strategy if profile is missing
       if (profile) {
           name = profile.name;
           email = profile.email;
-          role = profile.role as 'student' | 'admin';
+          role = isUserRole(profile.role) ? profile.role : 'student';
       } else {
           // Fallback to session data
           const user = sessionUser || (await supabase.auth.getUser()).data.user;
           if (user && user.id === userId) {
               name = user.user_metadata?.name || user.email?.split('@')[0] || 'Student';
               email = user.email || '';
-              if (email.toLowerCase() === 'deepmetricsanalyticsinstitute@gmail.com') {
-                  role = 'admin';
-              }
           } else {
               // No user data available
               return null;
@@ -162,10 +250,22 @@ const App: React.FC = () => {
       const pending = enrollments?.filter(e => e.status === 'pending').map(e => e.course_id) || [];
       const completed = enrollments?.filter(e => e.status === 'completed').map(e => e.course_id) || [];
       const progressMap: {[key: string]: number} = {};
+      const reviewMap: User['courseReviews'] = {};
+      const quizScoreMap: {[key: string]: number} = {};
+      const cohortMap: {[key: string]: string} = {};
+      const attendanceMap: {[key: string]: number} = {};
       enrollments?.forEach(e => {
           progressMap[e.course_id] = e.progress || 0;
+          if (e.cohort_id) cohortMap[e.course_id] = e.cohort_id;
+          if (e.attendance_percent !== null && e.attendance_percent !== undefined) attendanceMap[e.course_id] = Number(e.attendance_percent);
+          if (e.quiz_score !== null && e.quiz_score !== undefined) quizScoreMap[e.course_id] = Number(e.quiz_score);
+          const review = mapCompletionReview(e);
+          if (review) reviewMap[e.course_id] = review;
       });
 
+      // 4. Lesson-level progress (enrollments.progress is kept in sync by a DB trigger) and cohort waitlists
+      const [lessonProgress, waitlist] = await Promise.all([fetchLessonProgress(userId), fetchMyWaitlist(userId)]);
+
       const userObj: User = {
           id: userId,
           name: name,
@@ -174,14 +274,21 @@ const App: React.FC = () => {
           registeredCourseIds: registered,
           pendingCourseIds: pending,
           completedCourseIds: completed,
-          courseProgress: progressMap
+          courseReviews: reviewMap,
+          courseProgress: progressMap,
+          courseQuizScores: quizScoreMap,
+          completedLessonIds: lessonProgress.completedLessonIds,
+          resumeLesson: lessonProgress.resumeLesson,
+          courseCohorts: cohortMap,
+          courseAttendance: attendanceMap,
+          waitlist
       };
 
       return userObj;
   };
 
   const fetchAllUsersForAdmin = async () => {
-      if (user?.role !== 'admin') return;
+      if (!canTeach(user)) return;
 
       const { data: profiles, error: profilesError } = await supabase.from('profiles').select('*');
       if (profilesError) return;
@@ -197,11 +304,12 @@ const App: React.FC = () => {
               id: p.id,
               name: p.name,
               email: p.email,
-              role: p.role as 'student' | 'admin',
+              role: isUserRole(p.role) ? p.role : 'student',
               registeredCourseIds: userEnrollments.map(e => e.course_id),
               pendingCourseIds: userEnrollments.filter(e => e.status === 'pending').map(e => e.course_id),
               completedCourseIds: userEnrollments.filter(e => e.status === 'completed').map(e => e.course_id),
-              courseProgress: progressMap
+              courseProgress: progressMap,
+              completedLessonIds: {}
           };
       });
 
@@ -225,47 +333,126 @@ const App: React.FC = () => {
                 setUser(userData);
             }
         }
+        setIsAuthReady(true);
     };
     
     initData();
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
         if (session) {
              const userData = await fetchUserData(session.user.id, session.user);
              setUser(userData);
              // Re-fetch courses/home to ensure signed URLs are valid for this user context
              fetchCourses();
              fetchHomeContent();
+             // Recovery links sign the user in; send them to choose a new password
+             if (event === 'PASSWORD_RECOVERY') navigate(buildPath(View.RESET_PASSWORD), { replace: true });
         } else {
              setUser(null);
              setAllUsers([]);
-             setCurrentView(View.HOME);
+             // Only an explicit sign-out leaves the page; a missing initial session keeps deep links intact
+             if (event === 'SIGNED_OUT') navigate(buildPath(View.HOME));
         }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  // Admin Data Fetcher
+  // Admin Data Fetcher (instructors see their own students; RLS scopes the rows)
   useEffect(() => {
-      if (user?.role === 'admin') {
+      if (canTeach(user)) {
           fetchAllUsersForAdmin();
       }
   }, [user?.role, user?.id]);
 
-  // Protect private routes
   useEffect(() => {
-    const protectedViews = [View.DASHBOARD, View.CERTIFICATE, View.EDIT_COURSE, View.CREATE_COURSE];
-    if (protectedViews.includes(currentView)) {
-         supabase.auth.getSession().then(({ data: { session } }) => {
-            if (!session) {
-                setCurrentView(View.LOGIN);
-                addNotification("Please log in to access this page.", "info");
-            }
-         });
+      if (user?.email && user.role !== 'admin') {
+          fetchAssignedCoupons(user.email).then(setAssignedCoupons);
+      } else {
+          setAssignedCoupons([]);
+      }
+  }, [user?.email, user?.role]);
+
+  // Live sessions are only visible to enrolled students (RLS), so reload when enrollments change
+  const registeredKey = user?.registeredCourseIds.join(',');
+  useEffect(() => {
+      if (!user?.id) {
+          setLiveSessions([]);
+          return;
+      }
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      fetchLiveSessions({ from: since }).then(setLiveSessions);
+  }, [user?.id, registeredKey]);
+
+  // Inbox: load on sign-in, then receive new notifications live
+  useEffect(() => {
+      if (!user?.id) {
+          setInbox([]);
+          return;
+      }
+      const userId = user.id;
+      fetchNotifications(userId).then(setInbox);
+      return subscribeToNotifications(userId, async (incoming) => {
+          setInbox(prev => prev.some(n => n.id === incoming.id) ? prev : [incoming, ...prev]);
+          addNotification(incoming.title, 'info');
+          // Approvals and rejections change the enrollment, so refresh the dashboard
+          if (incoming.kind !== 'comment') {
+              const updatedUser = await fetchUserData(userId);
+              if (updatedUser) setUser(updatedUser);
+          }
+      });
+  }, [user?.id]);
+
+  // Shared promo links: /courses?coupon=CODE
+  const couponParam = route.query.get('coupon');
+  useEffect(() => {
+      if (couponParam) handleApplyCoupon(couponParam);
+  }, [couponParam]);
+
+  // Route Guards
+  useEffect(() => {
+    if (!isAuthReady) return;
+    const redirect = resolveRouteGuard(route, user);
+    if (!redirect) return;
+
+    if (route.access !== 'public' && route.access !== 'guest') {
+        addNotification(user ? "You do not have access to this page." : "Please log in to access this page.", "info");
     }
-  }, [currentView]);
+    navigate(redirect, { replace: true });
+  }, [route, user, isAuthReady]);
+
+  // Program detail views feed the analytics funnel; staff browsing is left out
+  useEffect(() => {
+    if (!isAuthReady || !viewingCourse || (user && user.role !== 'student')) return;
+    recordCourseView(viewingCourse.id, user?.id);
+  }, [viewingCourse?.id, isAuthReady]);
+
+  // Snapshot the course being edited so background refreshes don't reset the form
+  useEffect(() => {
+    if (currentView !== View.EDIT_COURSE) return;
+    if (editingCourse?.id === route.params.id) return;
+    setEditingCourse(courses.find(c => c.id === route.params.id) || null);
+  }, [currentView, route.params.id, courses]);
+
+  const changeView = (view: View) => navigate(buildPath(view));
+
+  // Opening a program from the catalog keeps the current search, so the list behind the modal stays filtered
+  const openCourseDetails = (course: Course) => {
+      const search = currentView === View.COURSES && !route.params.id ? window.location.search : '';
+      navigate(buildPath(View.COURSES, { id: course.id }) + search);
+  };
+
+  // Catalog search, facets and sort live in the URL so results can be shared
+  const updateCatalogFilters = (filters: CatalogFilters) => {
+      navigate(buildPath(View.COURSES) + serializeCatalogFilters(filters), { replace: true, preserveScroll: true });
+  };
+
+  // The lesson filter lives in the URL so syllabus "Discuss" links land on the right threads
+  const openDiscussions = (courseId: string, lessonFilter?: string, replace = false) => {
+      const path = buildPath(View.COURSE_DISCUSSIONS, { id: courseId });
+      navigate(lessonFilter ? `${path}?lesson=${encodeURIComponent(lessonFilter)}` : path, { replace, preserveScroll: replace });
+  };
 
   // Notification System
   const addNotification = (message: string, type: 'success' | 'info' | 'email' = 'info') => {
@@ -280,13 +467,13 @@ const App: React.FC = () => {
       setNotifications(prev => prev.filter(n => n.id !== id));
   };
 
-  const sendEmailSimulation = (to: string, subject: string, body: string) => {
-      console.log(`%c[EMAIL SIMULATION]\nTo: ${to}\nSubject: ${subject}\nBody: ${body}`, 'color: #4f46e5; font-weight: bold; padding: 4px;');
-      addNotification(`Email sent to ${to}: ${subject}`, 'email');
+  // The emails themselves are queued by database triggers (see services/emailTemplates.ts)
+  const notifyEmailQueued = (to: string, description: string) => {
+      addNotification(`${description} is on its way to ${to}.`, 'email');
   };
 
-  const handleAuthSuccess = async (name: string, email: string, isAdmin: boolean) => {
-      setCurrentView(View.HOME); // Redirect to Home as per requirement
+  const handleAuthSuccess = async (name: string) => {
+      navigate(getNextPath(route) || buildPath(View.HOME)); // Home unless a guarded page sent us here
       addNotification(`Welcome, ${name}!`, 'success');
   };
 
@@ -297,7 +484,7 @@ const App: React.FC = () => {
 
   const handleRegisterCourse = async (courseId: string) => {
     if (!user) {
-      setCurrentView(View.LOGIN);
+      navigate(getLoginPath(route));
       return;
     }
 
@@ -307,50 +494,198 @@ const App: React.FC = () => {
     }
 
     const course = courses.find(c => c.id === courseId);
+
+    // Missing prerequisites either refuse registration or ask the student to confirm; staff are not checked
+    const missingPrerequisites = course && !canTeach(user) ? getMissingPrerequisites(course, user, courses) : [];
+    if (course && missingPrerequisites.length > 0) {
+        const titles = missingPrerequisites.map(c => c.title).join(', ');
+        if (course.prerequisiteRule === 'block') {
+            addNotification(`Complete ${titles} before registering for ${course.title}.`, 'info');
+            return;
+        }
+        if (!window.confirm(`${course.title} builds on ${titles}, which you have not completed yet. Register anyway?`)) return;
+    }
+
+    // Programs that run in cohorts register into a chosen cohort
+    if (course?.cohorts?.length) {
+        setCohortPickerCourseId(course.id);
+        return;
+    }
+
+    await enrollInCourse(courseId);
+  };
+
+  const enrollInCourse = async (courseId: string, cohort?: Cohort) => {
+    if (!user) return;
+    const course = courses.find(c => c.id === courseId);
+
+    // Paid programs enroll through checkout once the payment is confirmed
+    if (course && course.price > 0) {
+        navigate(`${buildPath(View.CHECKOUT, { id: courseId })}${cohort ? `?cohort=${cohort.id}` : ''}`);
+        return;
+    }
     
     // Supabase Insert
     const { error } = await supabase.from('enrollments').insert({
         user_id: user.id,
         course_id: courseId,
+        cohort_id: cohort?.id || null,
         status: 'registered',
         progress: 0
     });
 
     if (error) {
-        addNotification("Failed to register. Please try again.", 'info');
         console.error(error);
+        if (cohort) {
+            // Seats and deadlines are enforced by the database; refresh so the schedule reflects it
+            fetchCourses();
+            throw new Error(error.message || 'Failed to register. Please try again.');
+        }
+        addNotification("Failed to register. Please try again.", 'info');
         return;
     }
 
     const updatedUser = await fetchUserData(user.id);
     if(updatedUser) setUser(updatedUser);
+    if (cohort) fetchCourses(); // Seat counts
     
-    addNotification(`Successfully registered for ${course?.title || 'training program'}!`, 'success');
+    addNotification(`Successfully registered for ${course?.title || 'training program'}${cohort ? ` (${cohort.name})` : ''}!`, 'success');
     
-    if (course) {
-        sendEmailSimulation(
-            user.email, 
-            "Training Registration Confirmation", 
-            `Dear ${user.name},\n\nYou have successfully registered for ${course.title}. We are excited to have you on board!\n\nBest,\nDeepmetrics Team`
-        );
+    notifyEmailQueued(user.email, 'A registration confirmation');
+  };
+
+  const handleChooseCohort = async (cohort: Cohort) => {
+    await enrollInCourse(cohort.courseId, cohort);
+    setCohortPickerCourseId(null);
+  };
+
+  const handleJoinWaitlist = async (cohort: Cohort) => {
+    if (!user) return;
+    await joinWaitlist(cohort.id);
+    const [updatedUser] = await Promise.all([fetchUserData(user.id), fetchCourses()]);
+    if (updatedUser) setUser(updatedUser);
+    setCohortPickerCourseId(null);
+    if (updatedUser?.registeredCourseIds.includes(cohort.courseId)) {
+        addNotification(`A seat was free after all. You are registered for ${cohort.name}!`, 'success');
+    } else if (updatedUser?.waitlist?.some(w => w.cohortId === cohort.id && hasActiveOffer(w))) {
+        navigate(`${buildPath(View.CHECKOUT, { id: cohort.courseId })}?cohort=${cohort.id}`, { replace: currentView === View.CHECKOUT });
+        addNotification(`A seat in ${cohort.name} is held for you for two days. Complete checkout to claim it.`, 'success');
+    } else {
+        addNotification(`You are on the waitlist for ${cohort.name}. We will notify you when a seat opens.`, 'info');
     }
   };
 
-  const handleProgressChange = async (courseId: string, progress: number) => {
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
     if (!user) return;
+    if (!window.confirm(entry.offeredAt ? 'Give up the seat held for you?' : 'Leave this waitlist?')) return;
+    try {
+        await leaveWaitlist(entry.id);
+        const [updatedUser] = await Promise.all([fetchUserData(user.id), fetchCourses()]);
+        if (updatedUser) setUser(updatedUser);
+        addNotification('You have left the waitlist.', 'info');
+    } catch (err) {
+        console.error(err);
+        addNotification('Failed to leave the waitlist.', 'info');
+    }
+  };
 
-    setUser(prev => prev ? ({
-        ...prev,
-        courseProgress: { ...prev.courseProgress, [courseId]: progress }
-    }) : null);
+  const handleApplyCoupon = async (code: string) => {
+    try {
+        const coupon = await previewCoupon(code);
+        setAppliedCoupon(coupon);
+        setCouponInput('');
+        addNotification(`Coupon ${coupon.code} applied: ${describeCoupon(coupon)}`, 'success');
+    } catch (err: any) {
+        addNotification(err.message || 'This coupon code is not valid.', 'info');
+    }
+  };
 
-    const { error } = await supabase
-        .from('enrollments')
-        .update({ progress })
-        .match({ user_id: user.id, course_id: courseId });
-    
-    if (error) {
-        console.error("Failed to save progress", error);
+  const activeCoupons = appliedCoupon ? [...assignedCoupons, appliedCoupon] : assignedCoupons;
+  const getPriceQuote = (course: Course) => quoteCoursePrice(course, activeCoupons);
+
+  // Scholarships and full-discount coupons enroll straight from checkout
+  const handleCheckoutEnrolled = async (course: Course) => {
+    if (!user) return;
+    const updatedUser = await fetchUserData(user.id);
+    if (updatedUser) setUser(updatedUser);
+    setAppliedCoupon(null);
+    if (course.cohorts?.length) fetchCourses(); // Seat counts
+    navigate(buildPath(View.DASHBOARD), { replace: true });
+    addNotification(`Successfully registered for ${course.title}!`, 'success');
+    notifyEmailQueued(user.email, 'A registration confirmation');
+  };
+
+  // Called once an order is confirmed; the webhook has already created the enrollment
+  const handleOrderPaid = async (order: Order) => {
+    if (!user) return;
+    const updatedUser = await fetchUserData(user.id);
+    if (updatedUser) setUser(updatedUser);
+
+    setAppliedCoupon(null);
+    const course = courses.find(c => c.id === order.courseId);
+    if (course?.cohorts?.length) fetchCourses(); // Seat counts
+    addNotification(`Payment received. You are registered for ${course?.title || 'your training program'}!`, 'success');
+    notifyEmailQueued(user.email, `Receipt ${order.invoiceNumber}`);
+  };
+
+  // Updates lesson completion locally and recomputes the course percentage from it
+  const applyLessonCompletion = (courseId: string, lessonId: string, completed: boolean) => {
+    const course = courses.find(c => c.id === courseId);
+    setUser(prev => {
+        if (!prev) return null;
+        const current = prev.completedLessonIds[courseId] || [];
+        const nextIds = completed
+            ? (current.includes(lessonId) ? current : [...current, lessonId])
+            : current.filter(id => id !== lessonId);
+        return {
+            ...prev,
+            completedLessonIds: { ...prev.completedLessonIds, [courseId]: nextIds },
+            courseProgress: { ...prev.courseProgress, [courseId]: computeCourseProgress(course, nextIds, prev.courseProgress[courseId] || 0) }
+        };
+    });
+  };
+
+  const handleToggleLesson = async (courseId: string, lessonId: string, completed: boolean) => {
+    if (!user) return;
+    applyLessonCompletion(courseId, lessonId, completed);
+
+    try {
+        await setLessonCompleted(user.id, courseId, lessonId, completed);
+    } catch (err) {
+        console.error("Failed to save lesson progress", err);
+        applyLessonCompletion(courseId, lessonId, !completed);
+        addNotification('Failed to save lesson progress.', 'info');
+    }
+  };
+
+  const handleOpenLesson = async (courseId: string, lesson: Lesson) => {
+    if (user?.registeredCourseIds.includes(courseId)) {
+        setUser(prev => prev ? ({ ...prev, resumeLesson: { courseId, lessonId: lesson.id } }) : null);
+        recordLessonView(user.id, courseId, lesson.id);
+    }
+
+    if (lesson.videoId) {
+        navigate(`${buildPath(View.VIDEO_GENERATOR)}?video=${encodeURIComponent(lesson.videoId)}`);
+    } else if (lesson.resourceUrl) {
+        const url = await getSignedUrl(lesson.resourceUrl);
+        if (url) window.open(url, '_blank', 'noopener,noreferrer');
+    } else {
+        navigate(buildPath(View.COURSES, { id: courseId }));
+    }
+  };
+
+  // Gallery playback auto-completes every enrolled lesson that uses the video
+  const handleVideoProgress = async (videoId: string, playedRanges: [number, number][], durationSeconds: number) => {
+    if (!user) return;
+    const matches = findLessonsForVideo(courses, user.registeredCourseIds, videoId);
+
+    for (const { course, lesson } of matches) {
+        const alreadyDone = user.completedLessonIds[course.id]?.includes(lesson.id);
+        const completedNow = await recordVideoWatchTime(user.id, course.id, lesson.id, playedRanges, durationSeconds);
+        if (completedNow && !alreadyDone) {
+            applyLessonCompletion(course.id, lesson.id, true);
+            addNotification(`Lesson completed: ${lesson.title}`, 'success');
+        }
     }
   };
 
@@ -362,33 +697,52 @@ const App: React.FC = () => {
         return;
     }
     
+    const course = courses.find(c => c.id === courseId);
+
+    // The database enforces these too; checking first lets us send the student to the work that is missing
+    if (course?.requirePassingAssignments) {
+        const [assignments, submissions] = await Promise.all([fetchAssignments(courseId), fetchMySubmissions(user.id, courseId)]);
+        if (!hasPassedAllAssignments(assignments, submissions)) {
+            addNotification(`Pass every assignment in ${course.title} before requesting completion.`, 'info');
+            navigate(buildPath(View.COURSE_ASSIGNMENTS, { id: courseId }));
+            return;
+        }
+    }
+
+    if (course?.requirePassingQuizzes) {
+        const [quizzes, attempts] = await Promise.all([fetchQuizzes(courseId), fetchMyAttempts(user.id, courseId)]);
+        if (!hasPassedAllQuizzes(quizzes, attempts)) {
+            addNotification(`Pass every quiz in ${course.title} before requesting completion.`, 'info');
+            navigate(buildPath(View.COURSE_QUIZZES, { id: courseId }));
+            return;
+        }
+    }
+
+    if (course?.minAttendancePercent && (user.courseAttendance?.[courseId] ?? 0) < course.minAttendancePercent) {
+        addNotification(`Attend at least ${course.minAttendancePercent}% of the live sessions in ${course.title} before requesting completion.`, 'info');
+        return;
+    }
+
     const { error } = await supabase
         .from('enrollments')
         .update({ status: 'pending' })
         .match({ user_id: user.id, course_id: courseId });
 
     if (error) {
-        addNotification('Failed to submit request.', 'info');
+        addNotification(`Failed to submit request: ${error.message}`, 'info');
         return;
     }
 
     const updatedUser = await fetchUserData(user.id);
     if(updatedUser) setUser(updatedUser);
     
-    const course = courses.find(c => c.id === courseId);
-    addNotification(`Completion request sent for ${course?.title}`, 'info');
+    const isResubmission = user.courseReviews?.[courseId]?.status === 'rejected';
+    addNotification(`${isResubmission ? 'Completion request resubmitted' : 'Completion request sent'} for ${course?.title}`, 'info');
   };
 
-  const handleApproveCompletion = async (targetUserId: string, courseId: string) => {
-      const { error } = await supabase
-          .from('enrollments')
-          .update({ status: 'completed', progress: 100 })
-          .match({ user_id: targetUserId, course_id: courseId });
-
-      if (error) {
-          addNotification('Failed to approve.', 'info');
-          return;
-      }
+  // Approves or rejects a completion request; the modal shows the error if the update fails
+  const handleReviewCompletion = async (targetUserId: string, courseId: string, decision: CompletionReview['status'], note: string, checklist: ReviewChecklistItem[]) => {
+      await submitCompletionReview(targetUserId, courseId, decision, note, checklist);
 
       fetchAllUsersForAdmin();
 
@@ -399,48 +753,79 @@ const App: React.FC = () => {
 
       const targetUser = allUsers.find(u => u.id === targetUserId);
       const course = courses.find(c => c.id === courseId);
-      
+
+      if (decision === 'rejected') {
+          addNotification(`Rejected completion for ${targetUser?.name}`, 'info');
+          if (targetUser) notifyEmailQueued(targetUser.email, 'A notice');
+          return;
+      }
+
       addNotification(`Approved completion for ${targetUser?.name}.`, 'success');
       
       if (targetUser && course) {
-          sendEmailSimulation(
-              targetUser.email,
-              `🎉 Congratulations! You have completed ${course.title}`,
-              `Dear ${targetUser.name},\n\nWe are thrilled to congratulate you on successfully completing the training program "${course.title}".\n\nWarm regards,\nThe Deepmetrics Team`
-          );
+          // Issuing the certificate queues the congratulations email with its serial
+          try {
+              await issueCertificate({ id: targetUser.id, name: targetUser.name }, { id: course.id, title: course.title });
+              notifyEmailQueued(targetUser.email, 'A congratulations email');
+          } catch (err) {
+              console.error('Certificate issue failed', err);
+              addNotification(`Could not issue the certificate for ${targetUser.name}.`, 'info');
+          }
       }
   };
 
-  const handleRejectCompletion = async (targetUserId: string, courseId: string) => {
-      const { error } = await supabase
-          .from('enrollments')
-          .update({ status: 'registered' })
-          .match({ user_id: targetUserId, course_id: courseId });
-
-      if (error) {
-          addNotification('Failed to reject.', 'info');
-          return;
+  const handleOpenInboxNotification = async (notification: InboxNotification) => {
+      if (!notification.readAt) {
+          const readAt = new Date().toISOString();
+          setInbox(prev => prev.map(n => n.id === notification.id ? { ...n, readAt } : n));
+          markNotificationsRead([notification.id]).catch(err => console.error('Failed to mark notification read', err));
       }
+      if (notification.link) navigate(notification.link);
+  };
 
-      fetchAllUsersForAdmin();
+  const handleMarkAllNotificationsRead = async () => {
+      const unreadIds = inbox.filter(n => !n.readAt).map(n => n.id);
+      const readAt = new Date().toISOString();
+      setInbox(prev => prev.map(n => n.readAt ? n : { ...n, readAt }));
+      try {
+          await markNotificationsRead(unreadIds);
+      } catch (err) {
+          console.error(err);
+          addNotification('Failed to update notifications.', 'info');
+      }
+  };
 
-      if (user && user.id === targetUserId) {
-          const updatedUser = await fetchUserData(user.id);
-          if (updatedUser) setUser(updatedUser);
+  const handleDeleteInboxNotification = async (notification: InboxNotification) => {
+      setInbox(prev => prev.filter(n => n.id !== notification.id));
+      try {
+          await deleteNotification(notification.id);
+      } catch (err) {
+          console.error(err);
+          setInbox(prev => [...prev, notification].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+          addNotification('Failed to delete the notification.', 'info');
       }
+  };
 
-      const targetUser = allUsers.find(u => u.id === targetUserId);
-      addNotification(`Rejected completion for ${targetUser?.name}`, 'info');
+  const handleSendComment = async () => {
+      if (!commentTarget || !commentText.trim()) return;
+      try {
+          await sendComment(commentTarget.userId, commentTarget.courseTitle, commentText);
+          addNotification(`Comment sent to ${commentTarget.userName}.`, 'success');
+          setCommentTarget(null);
+          setCommentText('');
+      } catch (err) {
+          console.error(err);
+          addNotification('Failed to send the comment.', 'info');
+      }
   };
 
   const handleViewCertificate = (courseId: string) => {
-    setSelectedCertificateCourseId(courseId);
-    setCurrentView(View.CERTIFICATE);
+    navigate(buildPath(View.CERTIFICATE, { courseId }));
   };
 
   const handleEditCourse = (course: Course) => {
     setEditingCourse(course);
-    setCurrentView(View.EDIT_COURSE);
+    navigate(buildPath(View.EDIT_COURSE, { id: course.id }));
   };
 
   const handleDeleteCourse = async (courseId: string) => {
@@ -462,8 +847,9 @@ const App: React.FC = () => {
   };
 
   const handleSaveCourse = async (updatedCourse: Course) => {
-    const { error } = await supabase.from('courses').upsert({
-        id: updatedCourse.id,
+    const isAdmin = user?.role === 'admin';
+    // Instructors may update their own programs but not create them, so this must not be an upsert
+    const { error } = await supabase.from('courses').update({
         title: updatedCourse.title,
         description: updatedCourse.description,
         outline: updatedCourse.outline,
@@ -474,8 +860,14 @@ const App: React.FC = () => {
         price: updatedCourse.price,
         tags: updatedCourse.tags,
         image: updatedCourse.image,
-        signature_image: updatedCourse.signaturePath // Use path for DB
-    });
+        certificate_template: updatedCourse.certificateTemplateId || null,
+        require_passing_assignments: !!updatedCourse.requirePassingAssignments,
+        require_passing_quizzes: !!updatedCourse.requirePassingQuizzes,
+        min_attendance_percent: updatedCourse.minAttendancePercent ?? null,
+        prerequisite_rule: updatedCourse.prerequisiteRule || 'warn',
+        // Only admins assign programs to instructors
+        ...(isAdmin ? { instructor_id: updatedCourse.instructorId || null } : {})
+    }).eq('id', updatedCourse.id);
 
     if (error) {
         addNotification('Failed to update course.', 'info');
@@ -483,11 +875,38 @@ const App: React.FC = () => {
         return;
     }
 
+    if (updatedCourse.curriculum) {
+        try {
+            await saveCurriculum(updatedCourse.id, updatedCourse.curriculum);
+        } catch (err) {
+            console.error(err);
+            addNotification('Course saved, but the curriculum could not be updated.', 'info');
+        }
+    }
+
+    if (updatedCourse.prerequisiteIds) {
+        try {
+            await saveCoursePrerequisites(updatedCourse.id, updatedCourse.prerequisiteIds);
+        } catch (err) {
+            console.error(err);
+            addNotification('Course saved, but the prerequisites could not be updated.', 'info');
+        }
+    }
+
+    if (isAdmin && updatedCourse.signatoryIds) {
+        try {
+            await saveCourseSignatories(updatedCourse.id, updatedCourse.signatoryIds);
+        } catch (err) {
+            console.error(err);
+            addNotification('Course saved, but the signatories could not be updated.', 'info');
+        }
+    }
+
     fetchCourses();
     
     if (currentView === View.EDIT_COURSE || currentView === View.CREATE_COURSE) {
         setEditingCourse(null);
-        setCurrentView(View.COURSES);
+        navigate(buildPath(View.COURSES));
     }
 
     addNotification('Training program updated successfully', 'success');
@@ -506,7 +925,12 @@ const App: React.FC = () => {
         price: newCourse.price,
         tags: newCourse.tags,
         image: newCourse.image,
-        signature_image: newCourse.signaturePath // Use path for DB
+        certificate_template: newCourse.certificateTemplateId || null,
+        require_passing_assignments: !!newCourse.requirePassingAssignments,
+        require_passing_quizzes: !!newCourse.requirePassingQuizzes,
+        min_attendance_percent: newCourse.minAttendancePercent ?? null,
+        prerequisite_rule: newCourse.prerequisiteRule || 'warn',
+        instructor_id: newCourse.instructorId || null
     });
 
     if (error) {
@@ -515,8 +939,35 @@ const App: React.FC = () => {
         return;
     }
 
+    if (newCourse.curriculum && newCourse.curriculum.length > 0) {
+        try {
+            await saveCurriculum(newCourse.id, newCourse.curriculum);
+        } catch (err) {
+            console.error(err);
+            addNotification('Course created, but the curriculum could not be saved.', 'info');
+        }
+    }
+
+    if (newCourse.prerequisiteIds && newCourse.prerequisiteIds.length > 0) {
+        try {
+            await saveCoursePrerequisites(newCourse.id, newCourse.prerequisiteIds);
+        } catch (err) {
+            console.error(err);
+            addNotification('Course created, but the prerequisites could not be saved.', 'info');
+        }
+    }
+
+    if (newCourse.signatoryIds && newCourse.signatoryIds.length > 0) {
+        try {
+            await saveCourseSignatories(newCourse.id, newCourse.signatoryIds);
+        } catch (err) {
+            console.error(err);
+            addNotification('Course created, but the signatories could not be saved.', 'info');
+        }
+    }
+
     fetchCourses();
-    setCurrentView(View.COURSES);
+    navigate(buildPath(View.COURSES));
     addNotification('New training program created successfully', 'success');
   };
 
@@ -622,11 +1073,15 @@ const App: React.FC = () => {
       setTempHomeContent({ ...tempHomeContent, features: newFeatures });
   };
 
-  const adminPendingCount = (user?.role === 'admin' && allUsers.length > 0)
-      ? allUsers.reduce((acc, u) => acc + (u.pendingCourseIds?.length || 0), 0)
+  const adminPendingCount = (canTeach(user) && allUsers.length > 0)
+      ? allUsers.reduce((acc, u) => acc + (u.pendingCourseIds || []).filter(cid => courses.some(c => c.id === cid && canManageCourse(user, c))).length, 0)
       : 0;
 
   const renderView = () => {
+    // Guarded routes wait for the session and render nothing while a redirect is pending
+    if (route.access !== 'public' && !isAuthReady) return null;
+    if (isAuthReady && resolveRouteGuard(route, user)) return null;
+
     switch (currentView) {
       case View.HOME:
         return (
@@ -717,8 +1172,8 @@ const App: React.FC = () => {
                  )}
                  
                  <div className="mt-10 flex justify-center gap-4">
-                   <Button size="lg" onClick={() => setCurrentView(View.COURSES)}>Browse Training Programs</Button>
-                   <Button size="lg" variant="outline" className="bg-transparent text-white border-white hover:bg-white hover:text-indigo-900" onClick={() => setCurrentView(View.REGISTER)}>Join Institute</Button>
+                   <Button size="lg" onClick={() => changeView(View.COURSES)}>Browse Training Programs</Button>
+                   <Button size="lg" variant="outline" className="bg-transparent text-white border-white hover:bg-white hover:text-indigo-900" onClick={() => changeView(View.REGISTER)}>Join Institute</Button>
                  </div>
                </div>
             </section>
@@ -764,7 +1219,9 @@ const App: React.FC = () => {
           </div>
         );
 
-      case View.COURSES:
+      case View.COURSES: {
+        const catalogFilters = parseCatalogFilters(route.query);
+        const catalogCourses = applyCatalogFilters(courses, catalogFilters);
         return (
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
             <div className="text-center mb-12">
@@ -775,70 +1232,138 @@ const App: React.FC = () => {
                             <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                             Admin Mode: Manage Training Programs
                         </div>
-                        <Button onClick={() => setCurrentView(View.CREATE_COURSE)} className="flex items-center gap-2 shadow-md hover:shadow-lg transform hover:-translate-y-0.5 transition-all">
+                        <Button onClick={() => changeView(View.CREATE_COURSE)} className="flex items-center gap-2 shadow-md hover:shadow-lg transform hover:-translate-y-0.5 transition-all">
                             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
                             Create New Training Program
                         </Button>
                     </div>
                 ) : (
-                    <p className="mt-4 text-xl text-gray-500">Find the perfect program to accelerate your data career.</p>
+                    <>
+                        <p className="mt-4 text-xl text-gray-500">Find the perfect program to accelerate your data career.</p>
+                        {appliedCoupon ? (
+                            <div className="mt-4 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-green-100 text-green-800 text-sm font-medium">
+                                Coupon <span className="font-mono">{appliedCoupon.code}</span> applied: {describeCoupon(appliedCoupon)}
+                                <button onClick={() => setAppliedCoupon(null)} className="text-green-600 hover:text-red-600" title="Remove coupon">&times;</button>
+                            </div>
+                        ) : (
+                            <form
+                                onSubmit={(e) => { e.preventDefault(); if (couponInput.trim()) handleApplyCoupon(couponInput); }}
+                                className="mt-4 inline-flex gap-2"
+                            >
+                                <input
+                                    type="text"
+                                    value={couponInput}
+                                    onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                                    placeholder="Have a coupon code?"
+                                    className="rounded-md border border-gray-300 px-3 py-2 text-sm font-mono uppercase"
+                                />
+                                <Button type="submit" size="sm" variant="outline">Apply</Button>
+                            </form>
+                        )}
+                    </>
                 )}
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-              {courses.map(course => (
-                <CourseCard 
-                    key={course.id} 
-                    course={course} 
-                    onRegister={handleRegisterCourse}
-                    isRegistered={user?.registeredCourseIds.includes(course.id) || false}
-                    isCompleted={user?.completedCourseIds?.includes(course.id) || false}
-                    isPending={user?.pendingCourseIds?.includes(course.id) || false}
-                    progress={user?.courseProgress?.[course.id] || 0}
-                    onRequestCompletion={handleRequestCompletion}
-                    onViewDetails={() => setViewingCourse(course)}
-                    isAdmin={user?.role === 'admin'}
-                    onEdit={user?.role === 'admin' ? handleEditCourse : undefined}
-                    onDelete={user?.role === 'admin' ? handleDeleteCourse : undefined}
-                />
-              ))}
+            <div className="flex flex-col lg:flex-row gap-8">
+              <CatalogFilterPanel courses={courses} filters={catalogFilters} onChange={updateCatalogFilters} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-4 mb-6">
+                    <p className="text-sm text-gray-500">
+                        {catalogCourses.length === courses.length
+                            ? `${courses.length} programs`
+                            : `${catalogCourses.length} of ${courses.length} programs`}
+                    </p>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Sort by
+                        <select
+                            value={catalogFilters.sort}
+                            onChange={(e) => updateCatalogFilters({ ...catalogFilters, sort: e.target.value as CatalogSort })}
+                            className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+                        >
+                            {SORT_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                        </select>
+                    </label>
+                </div>
+                {catalogCourses.length > 0 ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                      {catalogCourses.map(course => (
+                        <CourseCard 
+                            key={course.id} 
+                            course={course} 
+                            onRegister={handleRegisterCourse}
+                            isRegistered={user?.registeredCourseIds.includes(course.id) || false}
+                            isCompleted={user?.completedCourseIds?.includes(course.id) || false}
+                            isPending={user?.pendingCourseIds?.includes(course.id) || false}
+                            progress={user?.courseProgress?.[course.id] || 0}
+                            cohortId={user?.courseCohorts?.[course.id]}
+                            onRequestCompletion={handleRequestCompletion}
+                            onViewDetails={openCourseDetails}
+                            isAdmin={user?.role === 'admin'}
+                            onEdit={canManageCourse(user, course) ? handleEditCourse : undefined}
+                            onDelete={user?.role === 'admin' ? handleDeleteCourse : undefined}
+                            pricing={getPriceQuote(course)}
+                        />
+                      ))}
+                    </div>
+                ) : (
+                    <div className="text-center py-16 bg-white rounded-xl border border-dashed border-gray-300">
+                        <p className="text-gray-500">{courses.length > 0 ? 'No programs match your search.' : 'No training programs yet.'}</p>
+                        {courses.length > 0 && (
+                            <button onClick={() => updateCatalogFilters({ ...EMPTY_CATALOG_FILTERS, sort: catalogFilters.sort })} className="mt-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium">
+                                Clear search and filters
+                            </button>
+                        )}
+                    </div>
+                )}
+              </div>
             </div>
           </div>
         );
+      }
 
       case View.LOGIN:
       case View.REGISTER:
+      case View.FORGOT_PASSWORD:
         return (
           <div className="animate-fade-in">
-             <Auth view={currentView} onSwitch={setCurrentView} onAuthSuccess={handleAuthSuccess} />
+             <Auth view={currentView} onSwitch={changeView} onAuthSuccess={handleAuthSuccess} />
           </div>
         );
         
       case View.VIDEO_GENERATOR:
-        return <VideoGenerator user={user} />;
+        return <VideoGenerator user={user} initialVideoId={route.query.get('video') || undefined} onVideoProgress={handleVideoProgress} />;
 
       case View.DASHBOARD: {
         if (!user) return null;
         const myCourses = courses.filter(c => user.registeredCourseIds.includes(c.id));
-        const pendingRequests = user.role === 'admin' 
+        const myPaths = getStartedPaths(learningPaths, user);
+        const mySessions = getUpcomingSessions(getUserSessions(liveSessions, user, courses));
+        const hasLiveSessions = mySessions.length > 0 || courses.some(c => c.instructorId === user.id || user.registeredCourseIds.includes(c.id));
+        const pendingRequests = canTeach(user)
           ? allUsers.flatMap(u => (u.pendingCourseIds || []).map(cid => ({
               user: u,
               courseId: cid,
               course: courses.find(c => c.id === cid)
-            }))).filter(req => req.course)
+            }))).filter(req => req.course && canManageCourse(user, req.course))
           : [];
 
+        // Resume entry: the most recently opened lesson of a course still in progress
+        const resumeCourse = user.resumeLesson
+            ? myCourses.find(c => c.id === user.resumeLesson!.courseId && !user.completedCourseIds.includes(c.id))
+            : undefined;
+        const resumeLesson = resumeCourse ? findLesson(resumeCourse, user.resumeLesson!.lessonId) : undefined;
+
         return (
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
              <div className="flex items-center justify-between mb-8">
                 <h1 className="text-3xl font-bold text-gray-900">My Dashboard</h1>
-                {user.role === 'admin' && (
-                    <Button variant="secondary" onClick={() => setCurrentView(View.COURSES)}>
+                {canTeach(user) && (
+                    <Button variant="secondary" onClick={() => changeView(View.COURSES)}>
                         Manage Training Programs
                     </Button>
                 )}
             </div>
             
-            {user.role === 'admin' && (
+            {canTeach(user) && (
                  <div className="mb-12 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                     <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
                         <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">Completion Requests</h2>
@@ -849,8 +1374,8 @@ const App: React.FC = () => {
                                 <li key={`${req.user.id}-${req.courseId}-${idx}`} className="px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors">
                                     <div><p className="font-semibold">{req.course?.title}</p> <p className="text-sm text-gray-500">{req.user.name}</p></div>
                                     <div className="flex gap-2">
-                                        <Button size="sm" variant="outline" onClick={() => handleRejectCompletion(req.user.id, req.courseId)}>Reject</Button>
-                                        <Button size="sm" variant="secondary" onClick={() => handleApproveCompletion(req.user.id, req.courseId)}>Approve</Button>
+                                        <Button size="sm" variant="outline" onClick={() => { setCommentTarget({ userId: req.user.id, userName: req.user.name, courseTitle: req.course?.title || 'your training program' }); setCommentText(''); }}>Comment</Button>
+                                        <Button size="sm" variant="secondary" onClick={() => setReviewTarget({ user: req.user, course: req.course! })}>Review</Button>
                                     </div>
                                 </li>
                             ))}
@@ -859,6 +1384,40 @@ const App: React.FC = () => {
                  </div>
             )}
             
+            {resumeCourse && resumeLesson && (
+                <div className="mb-8 bg-gradient-to-r from-indigo-600 to-indigo-800 rounded-xl shadow-md p-6 text-white flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <p className="text-xs font-semibold uppercase tracking-wider text-indigo-200">Resume where you left off</p>
+                        <h2 className="text-xl font-bold mt-1">{resumeLesson.title}</h2>
+                        <p className="text-sm text-indigo-100 mt-1">{resumeCourse.title} · {user.courseProgress?.[resumeCourse.id] || 0}% complete</p>
+                    </div>
+                    <Button variant="outline" className="bg-white text-indigo-700 border-white hover:bg-indigo-50" onClick={() => handleOpenLesson(resumeCourse.id, resumeLesson)}>
+                        Resume Lesson
+                    </Button>
+                </div>
+            )}
+
+            {myPaths.length > 0 && (
+                <PathProgressPanel
+                    paths={myPaths}
+                    courses={courses}
+                    user={user}
+                    onOpenPath={(pathId) => navigate(buildPath(View.LEARNING_PATHS, { id: pathId }))}
+                    onViewCertificate={(pathId) => navigate(buildPath(View.PATH_CERTIFICATE, { id: pathId }))}
+                />
+            )}
+
+            {hasLiveSessions && <SessionCalendar sessions={mySessions} courses={courses} />}
+
+            {!!user.waitlist?.length && (
+                <WaitlistPanel
+                    entries={user.waitlist}
+                    courses={courses}
+                    onCheckout={(cohort) => navigate(`${buildPath(View.CHECKOUT, { id: cohort.courseId })}?cohort=${cohort.id}`)}
+                    onLeave={handleLeaveWaitlist}
+                />
+            )}
+
             {myCourses.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
                     {myCourses.map(course => (
@@ -870,51 +1429,313 @@ const App: React.FC = () => {
                             isCompleted={user.completedCourseIds?.includes(course.id)}
                             isPending={user.pendingCourseIds?.includes(course.id)}
                             progress={user.courseProgress?.[course.id] || 0}
-                            onProgressChange={(val) => handleProgressChange(course.id, val)}
+                            review={user.courseReviews?.[course.id]}
+                            cohortId={user.courseCohorts?.[course.id]}
+                            attendance={user.courseAttendance?.[course.id]}
+                            quizScore={user.courseQuizScores?.[course.id]}
                             onRequestCompletion={handleRequestCompletion}
                             onViewCertificate={handleViewCertificate}
-                            onViewDetails={() => setViewingCourse(course)}
+                            onViewAssignments={(courseId) => navigate(buildPath(View.COURSE_ASSIGNMENTS, { id: courseId }))}
+                            onViewQuizzes={(courseId) => navigate(buildPath(View.COURSE_QUIZZES, { id: courseId }))}
+                            onViewDiscussions={(courseId) => openDiscussions(courseId)}
+                            onViewDetails={openCourseDetails}
                         />
                     ))}
                 </div>
             ) : (
                 <div className="text-center py-20 bg-gray-50 rounded-xl border-dashed border-2 border-gray-300">
                     <h3 className="text-gray-900 font-medium">No training programs registered</h3>
-                    <Button className="mt-4" onClick={() => setCurrentView(View.COURSES)}>Browse Catalog</Button>
+                    <Button className="mt-4" onClick={() => changeView(View.COURSES)}>Browse Catalog</Button>
                 </div>
             )}
+
+            <PaymentHistory user={user} courses={courses} onViewOrder={(orderId) => navigate(buildPath(View.ORDER_STATUS, { orderId }))} />
           </div>
         );
       }
+
+      case View.CHECKOUT: {
+        const checkoutCourse = courses.find(c => c.id === route.params.id);
+        if (!checkoutCourse) return <div>Training Program not found</div>;
+        if (user?.registeredCourseIds.includes(checkoutCourse.id)) {
+            return (
+                <div className="max-w-xl mx-auto px-4 py-24 text-center">
+                    <p className="text-gray-600">You are already registered for {checkoutCourse.title}.</p>
+                    <Button className="mt-4" onClick={() => changeView(View.DASHBOARD)}>Go to Dashboard</Button>
+                </div>
+            );
+        }
+        // Checkout is reachable by URL, so blocking prerequisites are checked here as well as on registration
+        const blockingPrerequisites = checkoutCourse.prerequisiteRule === 'block' && !canTeach(user)
+            ? getMissingPrerequisites(checkoutCourse, user, courses)
+            : [];
+        if (blockingPrerequisites.length > 0) {
+            return (
+                <div className="max-w-xl mx-auto px-4 py-24 text-center">
+                    <p className="text-gray-600">Complete {blockingPrerequisites.map(c => c.title).join(', ')} before registering for {checkoutCourse.title}.</p>
+                    <Button className="mt-4" onClick={() => navigate(buildPath(View.COURSES))}>Browse Catalog</Button>
+                </div>
+            );
+        }
+        // Programs with cohorts check out for a chosen cohort (?cohort=); a seat held from the waitlist may be taken even when full
+        const checkoutCohort = checkoutCourse.cohorts?.find(c => c.id === route.query.get('cohort'));
+        const holdsSeat = !!checkoutCohort && !!user?.waitlist?.some(w => w.cohortId === checkoutCohort.id && hasActiveOffer(w));
+        if (checkoutCourse.cohorts?.length && (!checkoutCohort || !isRegistrationOpen(checkoutCohort) || (isFull(checkoutCohort) && !holdsSeat))) {
+            return (
+                <CohortPicker
+                    course={checkoutCourse}
+                    waitlist={user?.waitlist || []}
+                    onChoose={(cohort) => navigate(`${buildPath(View.CHECKOUT, { id: checkoutCourse.id })}?cohort=${cohort.id}`, { replace: true })}
+                    onJoinWaitlist={handleJoinWaitlist}
+                    onClose={() => navigateBack(buildPath(View.COURSES))}
+                />
+            );
+        }
+        return (
+            <Checkout
+                course={checkoutCourse}
+                cohort={checkoutCohort}
+                coupons={activeCoupons}
+                onApplyCoupon={setAppliedCoupon}
+                onCancel={() => navigateBack(buildPath(View.COURSES))}
+                onOrderSettled={(orderId) => navigate(buildPath(View.ORDER_STATUS, { orderId }), { replace: true })}
+                onEnrolled={() => handleCheckoutEnrolled(checkoutCourse)}
+            />
+        );
+      }
+
+      case View.ORDER_STATUS:
+        if (!user) return null;
+        return (
+            <OrderStatus
+                key={route.params.orderId}
+                orderId={route.params.orderId}
+                user={user}
+                courses={courses}
+                onPaid={handleOrderPaid}
+                onGoToDashboard={() => changeView(View.DASHBOARD)}
+            />
+        );
+
+      case View.COURSE_ASSIGNMENTS: {
+        const assignmentsCourse = courses.find(c => c.id === route.params.id);
+        if (!user) return null;
+        if (!assignmentsCourse) return <div>Training Program not found</div>;
+        return <CourseAssignments key={assignmentsCourse.id} course={assignmentsCourse} user={user} onBack={() => navigateBack(buildPath(View.DASHBOARD))} />;
+      }
+
+      case View.ADMIN_ASSIGNMENTS:
+        return <AssignmentManager courses={courses.filter(c => canManageCourse(user, c))} />;
+
+      case View.ADMIN_SESSIONS:
+        return (
+          <SessionManager
+            courses={courses.filter(c => canManageCourse(user, c))}
+            onOpenAttendance={(sessionId) => navigate(buildPath(View.SESSION_ATTENDANCE, { id: sessionId }))}
+          />
+        );
+
+      case View.SESSION_ATTENDANCE:
+        return (
+          <AttendanceRoster
+            key={route.params.id}
+            sessionId={route.params.id}
+            courses={courses}
+            onBack={() => navigateBack(buildPath(View.ADMIN_SESSIONS))}
+          />
+        );
+
+      case View.ADMIN_COHORTS:
+        return <CohortManager courses={courses.filter(c => canManageCourse(user, c))} onChanged={fetchCourses} />;
+
+      case View.COURSE_QUIZZES: {
+        const quizzesCourse = courses.find(c => c.id === route.params.id);
+        if (!user) return null;
+        if (!quizzesCourse) return <div>Training Program not found</div>;
+        return (
+          <CourseQuizzes
+            key={quizzesCourse.id}
+            course={quizzesCourse}
+            user={user}
+            onBack={() => {
+              // Finished attempts change the quiz average shown on the dashboard
+              fetchUserData(user.id).then(updatedUser => updatedUser && setUser(updatedUser));
+              navigateBack(buildPath(View.DASHBOARD));
+            }}
+          />
+        );
+      }
+
+      case View.COURSE_DISCUSSIONS: {
+        const discussionsCourse = courses.find(c => c.id === route.params.id);
+        if (!user) return null;
+        if (!discussionsCourse) return <div>Training Program not found</div>;
+        return (
+          <CourseDiscussions
+            key={discussionsCourse.id}
+            course={discussionsCourse}
+            user={user}
+            lessonFilter={route.query.get('lesson') || ''}
+            onChangeLessonFilter={(lessonFilter) => openDiscussions(discussionsCourse.id, lessonFilter, true)}
+            onOpenThread={(threadId) => navigate(buildPath(View.DISCUSSION_THREAD, { id: discussionsCourse.id, threadId }))}
+            onBack={() => navigateBack(buildPath(View.DASHBOARD))}
+          />
+        );
+      }
+
+      case View.DISCUSSION_THREAD: {
+        const threadCourse = courses.find(c => c.id === route.params.id);
+        if (!user) return null;
+        if (!threadCourse) return <div>Training Program not found</div>;
+        return (
+          <DiscussionThreadView
+            key={route.params.threadId}
+            course={threadCourse}
+            threadId={route.params.threadId}
+            user={user}
+            canModerate={canManageCourse(user, threadCourse)}
+            onBack={() => navigateBack(buildPath(View.COURSE_DISCUSSIONS, { id: threadCourse.id }))}
+          />
+        );
+      }
+
+      case View.ADMIN_QUIZZES:
+        return <QuizManager courses={courses.filter(c => canManageCourse(user, c))} />;
+
+      case View.ADMIN_REVENUE:
+        return <RevenueReport courses={courses} />;
+
+      case View.ADMIN_COUPONS:
+        return <CouponManager courses={courses} />;
+
+      case View.ADMIN_CERTIFICATES:
+        return <CertificateRegistry courses={courses} />;
+
+      case View.ADMIN_CERTIFICATE_TEMPLATES:
+        return <CertificateTemplateDesigner courses={courses} />;
+
+      case View.ADMIN_SIGNATORIES:
+        return <SignatoryManager courses={courses} />;
+
+      case View.ADMIN_ROLES:
+        if (!user) return null;
+        return <RoleManager currentUser={user} courses={courses} />;
+
+      case View.ADMIN_USERS:
+        if (!user) return null;
+        return (
+          <UserManager
+            currentUser={user}
+            courses={courses}
+            selectedUserId={route.params.id}
+            onSelectUser={(userId) => navigate(userId ? buildPath(View.ADMIN_USERS, { id: userId }) : buildPath(View.ADMIN_USERS))}
+          />
+        );
+
+      case View.ADMIN_AUDIT:
+        return <AuditLogViewer />;
+
+      case View.ADMIN_ANALYTICS:
+        return <AnalyticsDashboard courses={courses} />;
+
+      case View.ADMIN_RATINGS:
+        return <RatingManager courses={courses} onChanged={fetchCourses} />;
+
+      case View.NOTIFICATIONS:
+        return (
+          <NotificationInbox
+            notifications={inbox}
+            onOpen={handleOpenInboxNotification}
+            onMarkAllRead={handleMarkAllNotificationsRead}
+            onDelete={handleDeleteInboxNotification}
+          />
+        );
+
+      case View.ADMIN_EMAILS:
+        return <EmailLog onChangeView={changeView} />;
+
+      case View.ADMIN_EMAIL_TEMPLATES:
+        return <EmailTemplateEditor onChangeView={changeView} />;
+
+      case View.VERIFY_CERTIFICATE:
+        return <VerifyCertificate serial={route.params.serial} />;
+
+      case View.RESET_PASSWORD:
+        return (
+          <ResetPassword
+            user={user}
+            isAuthReady={isAuthReady}
+            onDone={() => {
+              navigate(buildPath(View.DASHBOARD), { replace: true });
+              addNotification('Your password has been updated.', 'success');
+            }}
+            onRequestNewLink={() => changeView(View.FORGOT_PASSWORD)}
+          />
+        );
       
       case View.CERTIFICATE: {
-         if (!user || !selectedCertificateCourseId) return null;
-         const certCourse = courses.find(c => c.id === selectedCertificateCourseId);
+         if (!user) return null;
+         const certCourse = courses.find(c => c.id === route.params.courseId);
          if (!certCourse) return <div>Training Program not found</div>;
 
          return (
              <Certificate 
                 user={user} 
                 course={certCourse} 
-                onClose={() => setCurrentView(View.DASHBOARD)}
-                onUpdateCourse={handleSaveCourse}
-                allCourses={courses}
+                onClose={() => changeView(View.DASHBOARD)}
              />
          );
       }
       
+      case View.PATH_CERTIFICATE: {
+         if (!user) return null;
+         const certPath = learningPaths.find(p => p.id === route.params.id);
+         // Path certificates are signed like the path's final program
+         const signingCourse = certPath && courses.find(c => c.id === certPath.courseIds[certPath.courseIds.length - 1]);
+         if (!certPath || !signingCourse) return <div>Learning path not found</div>;
+
+         return (
+             <Certificate
+                user={user}
+                course={signingCourse}
+                path={certPath}
+                onClose={() => changeView(View.DASHBOARD)}
+             />
+         );
+      }
+
+      case View.LEARNING_PATHS:
+        return (
+            <LearningPaths
+                paths={learningPaths}
+                courses={courses}
+                user={user}
+                selectedPathId={route.params.id}
+                onSelectPath={(pathId) => navigate(buildPath(View.LEARNING_PATHS, pathId ? { id: pathId } : {}))}
+                onViewCourse={openCourseDetails}
+                onRegister={handleRegisterCourse}
+                onViewCertificate={(pathId) => navigate(buildPath(View.PATH_CERTIFICATE, { id: pathId }))}
+            />
+        );
+
+      case View.ADMIN_PATHS:
+        return <PathManager paths={learningPaths} courses={courses} onChanged={fetchCourses} />;
+
       case View.EDIT_COURSE:
-        if (!editingCourse || user?.role !== 'admin') return null;
+        if (!editingCourse) return <div>Training Program not found</div>;
+        // Instructors pass the route guard but may only edit programs assigned to them
+        if (!canManageCourse(user, editingCourse)) return <div className="p-8 text-center text-gray-500">You do not have access to this training program.</div>;
         return (
             <CourseEditor 
                 course={editingCourse} 
+                isAdmin={user?.role === 'admin'}
+                courses={courses}
                 onSave={handleSaveCourse}
-                onCancel={() => setCurrentView(View.COURSES)}
+                onCancel={() => changeView(View.COURSES)}
             />
         );
       
       case View.CREATE_COURSE:
-        if (user?.role !== 'admin') return null;
         return (
             <CourseEditor
                 course={{
@@ -929,8 +1750,10 @@ const App: React.FC = () => {
                     tags: [],
                     image: 'https://picsum.photos/seed/new/800/600',
                 }}
+                isAdmin={user?.role === 'admin'}
+                courses={courses}
                 onSave={handleSaveNewCourse}
-                onCancel={() => setCurrentView(View.COURSES)}
+                onCancel={() => changeView(View.COURSES)}
                 isCreating={true}
             />
         );
@@ -943,19 +1766,69 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 font-sans">
       <NotificationContainer notifications={notifications} onClose={removeNotification} />
-      {currentView !== View.CERTIFICATE && (
-          <Navbar currentView={currentView} onChangeView={setCurrentView} user={user} onLogout={handleLogout} pendingRequestCount={adminPendingCount} />
+      {currentView !== View.CERTIFICATE && currentView !== View.PATH_CERTIFICATE && (
+          <Navbar currentView={currentView} onChangeView={changeView} user={user} onLogout={handleLogout} pendingRequestCount={adminPendingCount} unreadNotificationCount={inbox.filter(n => !n.readAt).length} />
       )}
       <main>{renderView()}</main>
       {viewingCourse && (
         <CourseDetailsModal 
             course={viewingCourse} 
-            onClose={() => setViewingCourse(null)} 
-            onRegister={() => { setViewingCourse(null); handleRegisterCourse(viewingCourse.id); }}
+            onClose={() => navigateBack(buildPath(View.COURSES))} 
+            onRegister={() => { navigate(buildPath(View.COURSES)); handleRegisterCourse(viewingCourse.id); }}
             isRegistered={user?.registeredCourseIds.includes(viewingCourse.id) || false}
+            pricing={getPriceQuote(viewingCourse)}
+            prerequisites={courses
+                .filter(c => viewingCourse.prerequisiteIds?.includes(c.id))
+                .map(c => ({ course: c, isCompleted: !!user?.completedCourseIds.includes(c.id) }))}
+            userId={user?.id}
+            canRate={!!user?.completedCourseIds.includes(viewingCourse.id)}
+            onRatingsChanged={fetchCourses}
+            onOpenDiscussions={user && (user.registeredCourseIds.includes(viewingCourse.id) || canManageCourse(user, viewingCourse))
+                ? (lessonId) => openDiscussions(viewingCourse.id, lessonId)
+                : undefined}
+            completedLessonIds={user?.completedLessonIds[viewingCourse.id]}
+            onToggleLesson={user?.registeredCourseIds.includes(viewingCourse.id)
+                ? (lessonId, completed) => handleToggleLesson(viewingCourse.id, lessonId, completed)
+                : undefined}
+            onOpenLesson={user?.registeredCourseIds.includes(viewingCourse.id)
+                ? (lesson) => handleOpenLesson(viewingCourse.id, lesson)
+                : undefined}
+        />
+      )}
+      {cohortPickerCourse && (
+        <CohortPicker
+            course={cohortPickerCourse}
+            waitlist={user?.waitlist || []}
+            onChoose={handleChooseCohort}
+            onJoinWaitlist={handleJoinWaitlist}
+            onClose={() => setCohortPickerCourseId(null)}
+        />
+      )}
+      {reviewTarget && (
+        <CompletionReviewModal
+            userId={reviewTarget.user.id}
+            courseId={reviewTarget.course.id}
+            studentName={reviewTarget.user.name}
+            courseTitle={reviewTarget.course.title}
+            progress={reviewTarget.user.courseProgress[reviewTarget.course.id] || 0}
+            onDecision={(decision, note, checklist) => handleReviewCompletion(reviewTarget.user.id, reviewTarget.course.id, decision, note, checklist)}
+            onClose={() => setReviewTarget(null)}
         />
       )}
-      {currentView !== View.CERTIFICATE && currentView !== View.EDIT_COURSE && currentView !== View.CREATE_COURSE && currentView !== View.VIDEO_GENERATOR && <AIChat courses={courses} />}
+      {commentTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+            <h3 className="text-lg font-bold text-gray-900">Comment to {commentTarget.userName}</h3>
+            <p className="text-sm text-gray-500 mt-1">{commentTarget.courseTitle} · delivered to the student's notification inbox</p>
+            <textarea value={commentText} onChange={e => setCommentText(e.target.value)} rows={4} className="mt-4 w-full rounded-md border border-gray-300 px-3 py-2 text-sm" placeholder="e.g. Please finish the capstone project before requesting completion." />
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" onClick={() => setCommentTarget(null)}>Cancel</Button>
+              <Button onClick={handleSendComment} disabled={!commentText.trim()}>Send Comment</Button>
+            </div>
+          </div>
+        </div>
+      )}
+      {currentView !== View.CERTIFICATE && currentView !== View.EDIT_COURSE && currentView !== View.CREATE_COURSE && currentView !== View.VIDEO_GENERATOR && currentView !== View.VERIFY_CERTIFICATE && <AIChat courses={courses} />}
     </div>
   );
 };
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Course } from '../types';
+import { Button } from './Button';
+import {
+  fetchAnalyticsData, filterByCourse, buildSeries, buildFunnel, buildProgressBands, summarizePrograms,
+  daysToComplete, median, AnalyticsData, DateRange,
+} from '../services/analyticsService';
+import { formatAmount } from '../services/paymentService';
+import { downloadCsv } from '../services/csv';
+
+interface AnalyticsDashboardProps {
+  courses: Course[];
+}
+
+type RangePreset = '30d' | '90d' | '12m' | 'all' | 'custom';
+
+const PRESETS: { id: RangePreset; label: string }[] = [
+  { id: '30d', label: 'Last 30 days' },
+  { id: '90d', label: 'Last 90 days' },
+  { id: '12m', label: 'Last 12 months' },
+  { id: 'all', label: 'All time' },
+  { id: 'custom', label: 'Custom range' },
+];
+
+// Custom dates are whole calendar days in the admin's time zone.
+const resolveRange = (preset: RangePreset, from: string, to: string): DateRange => {
+  const now = new Date();
+  const daysAgo = (days: number) => new Date(now.getFullYear(), now.getMonth(), now.getDate() - days);
+  switch (preset) {
+    case '30d': return { from: daysAgo(29) };
+    case '90d': return { from: daysAgo(89) };
+    case '12m': return { from: new Date(now.getFullYear() - 1, now.getMonth() + 1, 1) };
+    case 'all': return {};
+    case 'custom': return {
+      from: from ? new Date(`${from}T00:00`) : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+    };
+  }
+};
+
+const formatPercent = (value: number) => `${Math.round(value)}%`;
+const formatDays = (value?: number) => (value === undefined ? '—' : `${value < 10 ? value.toFixed(1) : Math.round(value)} days`);
+const fileDate = () => new Date().toISOString().slice(0, 10);
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className="text-2xl font-bold text-gray-900 mt-1">{value}</p>
+    {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+  </div>
+);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ courses }) => {
+  const [preset, setPreset] = useState<RangePreset>('90d');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = resolveRange(preset, customFrom, customTo);
+  const rangeKey = `${range.from?.getTime()}-${range.to?.getTime()}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchAnalyticsData(range)
+      .then(result => { if (!cancelled) setData(result); })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError('Failed to load analytics.');
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [rangeKey]);
+
+  const scoped = data ? filterByCourse(data, courseId) : null;
+  const series = scoped ? buildSeries(scoped, range) : null;
+  const funnel = scoped ? buildFunnel(scoped) : [];
+  const bands = scoped ? buildProgressBands(scoped) : [];
+  const programs = data ? summarizePrograms(data, courseId ? courses.filter(c => c.id === courseId) : courses) : [];
+
+  const enrollmentCount = scoped?.enrollments.length || 0;
+  const completedCount = scoped?.enrollments.filter(e => e.status === 'completed').length || 0;
+  const medianDays = scoped ? median(scoped.completions.map(daysToComplete).filter((d): d is number => d !== undefined)) : undefined;
+  const revenue = scoped?.payments.reduce((sum, p) => sum + p.amount, 0) || 0;
+  const peak = series ? Math.max(1, ...series.points.map(p => Math.max(p.enrollments, p.completions))) : 1;
+  const openCount = bands.reduce((sum, b) => sum + b.count, 0);
+
+  const exportPrograms = () => downloadCsv(`program-analytics-${fileDate()}.csv`, [
+    ['Program', 'Detail page visitors', 'Enrollments', 'Completed', 'Completion rate (%)', 'Median days to complete', 'Paid orders', 'Revenue (GHC)'],
+    ...programs.map(p => [
+      p.title, p.visitors, p.enrollments, p.completions, p.completionRate.toFixed(1),
+      p.medianDaysToComplete?.toFixed(1), p.paidOrders, p.revenue.toFixed(2),
+    ]),
+  ]);
+
+  const exportSeries = () => series && downloadCsv(`enrollments-${series.interval}-${fileDate()}.csv`, [
+    [`${series.interval[0].toUpperCase()}${series.interval.slice(1)} starting`, 'New accounts', 'Enrollments', 'Completions'],
+    ...series.points.map(p => [p.start.toLocaleDateString('en-CA'), p.signups, p.enrollments, p.completions]),
+  ]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select value={courseId} onChange={e => setCourseId(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2">
+            <option value="">All programs</option>
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+          <select value={preset} onChange={e => setPreset(e.target.value as RangePreset)} className="rounded-md border border-gray-300 px-3 py-2">
+            {PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          {preset === 'custom' && (
+            <>
+              <input type="date" value={customFrom} onChange={e => setCustomFrom(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1.5" aria-label="From" />
+              <span className="text-gray-400">to</span>
+              <input type="date" value={customTo} onChange={e => setCustomTo(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1.5" aria-label="To" />
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {isLoading && !data ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : scoped && series && (
+        <div className={isLoading ? 'opacity-60 transition-opacity' : ''}>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+            <StatCard label="New accounts" value={String(scoped.signups.length)} hint={courseId ? 'Across all programs' : undefined} />
+            <StatCard label="Enrollments" value={String(enrollmentCount)} />
+            <StatCard label="Completion rate" value={enrollmentCount ? formatPercent((completedCount / enrollmentCount) * 100) : '—'} hint={`${completedCount} of the range's enrollments`} />
+            <StatCard label="Median time to complete" value={formatDays(medianDays)} hint={`${scoped.completions.length} approved in range`} />
+            <StatCard label="Revenue" value={formatAmount(revenue)} hint={`${scoped.payments.length} paid orders`} />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-8">
+            <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+              <h2 className="text-lg font-bold text-gray-900">Enrollments Over Time</h2>
+              <div className="flex items-center gap-4">
+                <span className="flex items-center gap-1 text-xs text-gray-500"><span className="w-3 h-3 rounded-sm bg-indigo-500"></span>Enrollments</span>
+                <span className="flex items-center gap-1 text-xs text-gray-500"><span className="w-3 h-3 rounded-sm bg-green-500"></span>Completions</span>
+                <Button size="sm" variant="outline" onClick={exportSeries}>Export CSV</Button>
+              </div>
+            </div>
+            {series.points.length > 0 ? (
+              <div className="p-6 overflow-x-auto">
+                <div className="flex items-end gap-1 h-48 min-w-full" style={{ minWidth: `${series.points.length * 18}px` }}>
+                  {series.points.map(p => (
+                    <div key={p.start.getTime()} className="flex-1 h-full flex items-end justify-center gap-px" title={`${p.label}: ${p.enrollments} enrollments, ${p.completions} completions, ${p.signups} new accounts`}>
+                      <div className="w-1/2 bg-indigo-500 rounded-t" style={{ height: `${(p.enrollments / peak) * 100}%` }}></div>
+                      <div className="w-1/2 bg-green-500 rounded-t" style={{ height: `${(p.completions / peak) * 100}%` }}></div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-400 mt-2">
+                  <span>{series.points[0].label}</span>
+                  <span>Peak: {peak} per {series.interval}</span>
+                  <span>{series.points[series.points.length - 1].label}</span>
+                </div>
+              </div>
+            ) : (
+              <div className="p-8 text-center text-gray-500">No activity in this range</div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+              <h2 className="px-6 py-4 border-b border-gray-200 bg-gray-50 text-lg font-bold text-gray-900">Funnel</h2>
+              <div className="p-6 space-y-4">
+                {funnel.map((step, index) => {
+                  const top = funnel[0].count || funnel[1].count || 1;
+                  const previous = index > 0 ? funnel[index - 1].count : 0;
+                  return (
+                    <div key={step.label}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-700">{step.label}</span>
+                        <span className="text-gray-900 font-medium">
+                          {step.count}
+                          {index > 0 && previous > 0 && <span className="text-gray-400 font-normal"> · {formatPercent((step.count / previous) * 100)} of previous step</span>}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded h-3">
+                        <div className="bg-indigo-600 h-3 rounded" style={{ width: `${Math.min(100, (step.count / top) * 100)}%` }}></div>
+                      </div>
+                    </div>
+                  );
+                })}
+                <p className="text-xs text-gray-400">Visitors are counted once per browser. Registrations include enrollments made without a detail page visit, such as checkout links and manual enrollments.</p>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+              <h2 className="px-6 py-4 border-b border-gray-200 bg-gray-50 text-lg font-bold text-gray-900">Drop-off by Progress</h2>
+              <div className="p-6 space-y-3">
+                {bands.map(band => (
+                  <div key={band.label} className="flex items-center gap-3 text-sm">
+                    <span className="w-32 text-gray-700">{band.label}</span>
+                    <div className="flex-1 bg-gray-100 rounded h-3">
+                      <div className="bg-amber-500 h-3 rounded" style={{ width: `${openCount ? (band.count / openCount) * 100 : 0}%` }}></div>
+                    </div>
+                    <span className="w-20 text-right text-gray-900">{band.count}{openCount > 0 && <span className="text-gray-400"> ({formatPercent((band.count / openCount) * 100)})</span>}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-400">Enrollments from this range that are not completed, by share of lessons done.</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+              <h2 className="text-lg font-bold text-gray-900">By Training Program</h2>
+              <Button size="sm" variant="outline" onClick={exportPrograms}>Export CSV</Button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-6 py-3">Program</th>
+                    <th className="px-6 py-3 text-right">Visitors</th>
+                    <th className="px-6 py-3 text-right">Enrollments</th>
+                    <th className="px-6 py-3 text-right">Completion rate</th>
+                    <th className="px-6 py-3 text-right">Median time to complete</th>
+                    <th className="px-6 py-3 text-right">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {programs.map(p => (
+                    <tr key={p.courseId}>
+                      <td className="px-6 py-4 font-medium text-gray-900">{p.title}</td>
+                      <td className="px-6 py-4 text-right text-gray-600">{p.visitors}</td>
+                      <td className="px-6 py-4 text-right text-gray-600">{p.enrollments}</td>
+                      <td className="px-6 py-4 text-right text-gray-600">{p.enrollments ? `${formatPercent(p.completionRate)} (${p.completions})` : '—'}</td>
+                      <td className="px-6 py-4 text-right text-gray-600">{formatDays(p.medianDaysToComplete)}</td>
+                      <td className="px-6 py-4 text-right text-gray-900">{formatAmount(p.revenue)}{p.paidOrders > 0 && <span className="text-gray-400"> · {p.paidOrders}</span>}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { Assignment, AssignmentSubmission, Course } from '../types';
+import { Button } from './Button';
+import {
+  fetchAssignments, saveAssignment, deleteAssignment, fetchSubmissions, gradeSubmission, getSubmissionFileUrl,
+  getRubricTotal, scoreSubmission, isOverdue, SUBMISSION_TYPES,
+} from '../services/assignmentService';
+
+interface AssignmentManagerProps {
+  courses: Course[];
+  initialCourseId?: string;
+}
+
+const newCriterion = () => ({ id: crypto.randomUUID(), criterion: '', maxPoints: 10 });
+
+const emptyAssignment = (courseId: string, position: number): Assignment => ({
+  id: '',
+  courseId,
+  title: '',
+  instructions: '',
+  submissionType: 'either',
+  rubric: [newCriterion()],
+  passPercent: 50,
+  position,
+});
+
+// datetime-local works in local time without a zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const AssignmentManager: React.FC<AssignmentManagerProps> = ({ courses, initialCourseId }) => {
+  const [courseId, setCourseId] = useState(initialCourseId || courses[0]?.id || '');
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [draft, setDraft] = useState<Assignment | null>(null);
+  const [selected, setSelected] = useState<Assignment | null>(null);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const [grading, setGrading] = useState<AssignmentSubmission | null>(null);
+  const [scores, setScores] = useState<{ [criterionId: string]: number }>({});
+  const [feedback, setFeedback] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!courseId && courses.length > 0) setCourseId(initialCourseId || courses[0].id);
+  }, [courses]);
+
+  useEffect(() => {
+    if (!courseId) return;
+    setDraft(null);
+    setSelected(null);
+    fetchAssignments(courseId).then(setAssignments);
+  }, [courseId]);
+
+  useEffect(() => {
+    setSubmissions([]);
+    if (selected) fetchSubmissions(selected.id).then(setSubmissions);
+  }, [selected?.id]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.title.trim()) {
+      setError('Give the assignment a title.');
+      return;
+    }
+    if (draft.rubric.some(c => !c.criterion.trim() || c.maxPoints <= 0)) {
+      setError('Every rubric criterion needs a name and positive points.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveAssignment(draft);
+      setAssignments(prev => (prev.some(a => a.id === saved.id) ? prev.map(a => (a.id === saved.id ? saved : a)) : [...prev, saved]));
+      setDraft(null);
+      if (selected?.id === saved.id) setSelected(saved);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save the assignment.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    if (!window.confirm(`Delete "${assignment.title}" and all of its submissions?`)) return;
+    try {
+      await deleteAssignment(assignment.id);
+      setAssignments(prev => prev.filter(a => a.id !== assignment.id));
+      if (selected?.id === assignment.id) setSelected(null);
+    } catch (err) {
+      console.error(err);
+      window.alert('Failed to delete the assignment.');
+    }
+  };
+
+  const openGrading = (submission: AssignmentSubmission) => {
+    setGrading(submission);
+    setScores(submission.rubricScores);
+    setFeedback(submission.feedback || '');
+    setError(null);
+  };
+
+  const handleGrade = async () => {
+    if (!selected || !grading) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await gradeSubmission(selected, grading, scores, feedback);
+      setSubmissions(await fetchSubmissions(selected.id));
+      setGrading(null);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save the grade.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openFile = async (submission: AssignmentSubmission) => {
+    const url = await getSubmissionFileUrl(submission);
+    if (url) window.open(url, '_blank', 'noopener');
+  };
+
+  const updateCriterion = (id: string, changes: Partial<Assignment['rubric'][number]>) =>
+    setDraft(prev => prev && { ...prev, rubric: prev.rubric.map(c => (c.id === id ? { ...c, ...changes } : c)) });
+
+  const preview = selected && grading ? scoreSubmission(selected, scores) : null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Assignments</h1>
+        <div className="flex gap-3">
+          <select value={courseId} onChange={e => setCourseId(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+          <Button onClick={() => { setDraft(emptyAssignment(courseId, assignments.length)); setError(null); }} disabled={!courseId}>New Assignment</Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden h-fit">
+          {assignments.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {assignments.map(a => (
+                <li key={a.id} className={`px-4 py-3 ${selected?.id === a.id ? 'bg-indigo-50' : ''}`}>
+                  <button onClick={() => { setSelected(a); setDraft(null); }} className="text-left w-full">
+                    <p className="font-medium text-gray-900">{a.title}</p>
+                    <p className="text-xs text-gray-500">{a.dueAt ? `Due ${new Date(a.dueAt).toLocaleDateString()}` : 'No due date'} · {getRubricTotal(a.rubric)} points</p>
+                  </button>
+                  <div className="flex gap-3 mt-1 text-xs">
+                    <button onClick={() => { setDraft(a); setError(null); }} className="text-indigo-600 hover:text-indigo-800 font-medium">Edit</button>
+                    <button onClick={() => handleDelete(a)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="p-6 text-center text-sm text-gray-500">No assignments for this training program</div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {draft ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+              <h2 className="text-lg font-bold text-gray-900">{draft.id ? 'Edit Assignment' : 'New Assignment'}</h2>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" placeholder="e.g. Final Capstone Project" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Instructions</label>
+                <textarea value={draft.instructions} onChange={e => setDraft({ ...draft, instructions: e.target.value })} rows={5} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Due</label>
+                  <input type="datetime-local" value={toLocalInput(draft.dueAt)} onChange={e => setDraft({ ...draft, dueAt: e.target.value ? new Date(e.target.value).toISOString() : undefined })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Submission</label>
+                  <select value={draft.submissionType} onChange={e => setDraft({ ...draft, submissionType: e.target.value as Assignment['submissionType'] })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm">
+                    {SUBMISSION_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Pass mark (%)</label>
+                  <input type="number" min={0} max={100} value={draft.passPercent} onChange={e => setDraft({ ...draft, passPercent: Math.min(100, Math.max(0, Number(e.target.value))) })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                </div>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-gray-700">Rubric ({getRubricTotal(draft.rubric)} points)</label>
+                  <Button size="sm" variant="outline" onClick={() => setDraft({ ...draft, rubric: [...draft.rubric, newCriterion()] })}>Add Criterion</Button>
+                </div>
+                <div className="space-y-2">
+                  {draft.rubric.map(c => (
+                    <div key={c.id} className="grid grid-cols-12 gap-2 items-start">
+                      <input value={c.criterion} onChange={e => updateCriterion(c.id, { criterion: e.target.value })} placeholder="Criterion" className="col-span-4 rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                      <input value={c.description || ''} onChange={e => updateCriterion(c.id, { description: e.target.value || undefined })} placeholder="What earns full marks" className="col-span-5 rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                      <input type="number" min={1} value={c.maxPoints} onChange={e => updateCriterion(c.id, { maxPoints: Number(e.target.value) })} className="col-span-2 rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                      <button onClick={() => setDraft({ ...draft, rubric: draft.rubric.filter(r => r.id !== c.id) })} className="col-span-1 py-2 text-xs text-gray-400 hover:text-red-600">Remove</button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>Cancel</Button>
+                <Button onClick={handleSave} isLoading={isSaving}>Save Assignment</Button>
+              </div>
+            </div>
+          ) : selected ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h2 className="text-lg font-bold text-gray-900">{selected.title}: Submissions</h2>
+                <p className="text-sm text-gray-500">{submissions.filter(s => s.gradedAt).length} of {submissions.length} graded</p>
+              </div>
+              {submissions.length > 0 ? (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <tr>
+                      <th className="px-6 py-3">Student</th>
+                      <th className="px-6 py-3">Submitted</th>
+                      <th className="px-6 py-3">Work</th>
+                      <th className="px-6 py-3">Grade</th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {submissions.map(s => (
+                      <tr key={s.id}>
+                        <td className="px-6 py-4 text-gray-900">{s.studentName || 'Student'}</td>
+                        <td className="px-6 py-4 text-gray-600 whitespace-nowrap">
+                          {new Date(s.submittedAt).toLocaleString()}
+                          {isOverdue(selected, s) && <span className="ml-2 text-xs font-medium text-red-600">Late</span>}
+                        </td>
+                        <td className="px-6 py-4 space-y-1">
+                          {s.fileName && <button onClick={() => openFile(s)} className="block text-indigo-600 hover:text-indigo-800 font-medium">{s.fileName}</button>}
+                          {s.linkUrl && <a href={s.linkUrl} target="_blank" rel="noreferrer" className="block text-indigo-600 hover:text-indigo-800 font-medium truncate max-w-xs">{s.linkUrl}</a>}
+                        </td>
+                        <td className="px-6 py-4">
+                          {s.gradedAt ? (
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${s.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                              {s.score}/{getRubricTotal(selected.rubric)}
+                            </span>
+                          ) : (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Ungraded</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <button onClick={() => openGrading(s)} className="text-indigo-600 hover:text-indigo-800 font-medium">{s.gradedAt ? 'Regrade' : 'Grade'}</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="p-8 text-center text-gray-500">No submissions yet</div>
+              )}
+            </div>
+          ) : (
+            <div className="p-8 text-center text-gray-500 bg-white rounded-xl border border-gray-200">Select an assignment to see its submissions</div>
+          )}
+        </div>
+      </div>
+
+      {grading && selected && preview && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+            <h3 className="text-lg font-bold text-gray-900">Grade Submission</h3>
+            <p className="text-sm text-gray-500 mt-1">{grading.studentName || 'Student'} · {selected.title}</p>
+            {grading.note && <p className="mt-3 text-sm text-gray-700 bg-gray-50 rounded-md p-3">“{grading.note}”</p>}
+            <div className="mt-4 space-y-3">
+              {selected.rubric.map(c => (
+                <div key={c.id} className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <p className="text-sm text-gray-900">{c.criterion}</p>
+                    {c.description && <p className="text-xs text-gray-500">{c.description}</p>}
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={c.maxPoints}
+                    value={scores[c.id] ?? ''}
+                    onChange={e => setScores(prev => ({ ...prev, [c.id]: Math.min(c.maxPoints, Math.max(0, Number(e.target.value))) }))}
+                    className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+                  />
+                  <span className="text-sm text-gray-500 w-10">/ {c.maxPoints}</span>
+                </div>
+              ))}
+            </div>
+            <p className={`mt-4 text-sm font-medium ${preview.passed ? 'text-green-700' : 'text-red-700'}`}>
+              {preview.score} / {preview.total} ({preview.percent}%) · {preview.passed ? 'Pass' : 'Not passed'} at {selected.passPercent}%
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Comments</label>
+            <textarea value={feedback} onChange={e => setFeedback(e.target.value)} rows={3} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+            {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" onClick={() => setGrading(null)} disabled={isSaving}>Cancel</Button>
+              <Button onClick={handleGrade} isLoading={isSaving}>Save Grade</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
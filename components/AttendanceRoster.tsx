@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AttendanceStatus, Course, LiveSession } from '../types';
+import { Button } from './Button';
+import { fetchLiveSession, formatSessionTime } from '../services/liveSessionService';
+import {
+  fetchSessionRoster, saveAttendance, importMeetingReport, exportAttendanceCsv, ATTENDANCE_STATUSES, LATE_AFTER_MINUTES, RosterEntry,
+} from '../services/attendanceService';
+
+interface AttendanceRosterProps {
+  sessionId: string;
+  courses: Course[];
+  onBack: () => void;
+}
+
+type Edits = { [userId: string]: { status: AttendanceStatus | null; note: string } };
+
+export const AttendanceRoster: React.FC<AttendanceRosterProps> = ({ sessionId, courses, onBack }) => {
+  const [session, setSession] = useState<LiveSession | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [edits, setEdits] = useState<Edits>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await fetchLiveSession(sessionId);
+      setSession(loaded);
+      setRoster(loaded ? await fetchSessionRoster(loaded) : []);
+      setEdits({});
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to load the session.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [sessionId]);
+
+  const course = courses.find(c => c.id === session?.courseId);
+  const statusOf = (entry: RosterEntry) => (entry.userId in edits ? edits[entry.userId].status : entry.record?.status || null);
+  const noteOf = (entry: RosterEntry) => (entry.userId in edits ? edits[entry.userId].note : entry.record?.note || '');
+  const setMark = (entry: RosterEntry, changes: Partial<Edits[string]>) =>
+    setEdits(prev => ({ ...prev, [entry.userId]: { status: statusOf(entry), note: noteOf(entry), ...changes } }));
+  const changedCount = Object.keys(edits).length;
+
+  const markAll = (status: AttendanceStatus) => {
+    const next: Edits = { ...edits };
+    roster.filter(r => !statusOf(r)).forEach(r => { next[r.userId] = { status, note: noteOf(r) }; });
+    setEdits(next);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !session) return;
+    setError(null);
+    try {
+      const result = importMeetingReport(await file.text(), roster, session);
+      const next: Edits = { ...edits };
+      roster.forEach(r => {
+        if (statusOf(r) === 'excused') return; // Excusals are kept
+        next[r.userId] = { status: result.statuses[r.userId], note: noteOf(r) };
+      });
+      setEdits(next);
+      const attended = Object.values(result.statuses).filter(s => s !== 'absent').length;
+      setImportSummary(
+        `Matched ${attended} of ${roster.length} students from ${file.name}.` +
+        (result.unmatched.length ? ` Not on the roster: ${result.unmatched.join(', ')}.` : '') +
+        ' Review the marks, then save.'
+      );
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not read the participant report.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!session) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveAttendance(session.id, Object.entries(edits).map(([userId, edit]) => ({ userId, status: edit.status, note: edit.note.trim() })));
+      setImportSummary(null);
+      await load();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save attendance.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && !session) return <div className="max-w-5xl mx-auto px-4 py-12 text-gray-500">Loading roster...</div>;
+  if (!session) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        <p className="text-gray-600">{error || 'This session no longer exists.'}</p>
+        <Button className="mt-4" variant="outline" onClick={onBack}>Back to Sessions</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <button onClick={onBack} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-6">&larr; Back to Sessions</button>
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Attendance</h1>
+          <p className="text-gray-600 mt-1">{course?.title} · {session.title}</p>
+          <p className="text-sm text-gray-500">{formatSessionTime(session, session.timeZone)} · {session.durationMinutes} min</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input ref={fileInput} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>Import Meeting CSV</Button>
+          <Button variant="outline" size="sm" onClick={() => exportAttendanceCsv(session, course, roster)} disabled={roster.length === 0}>Export CSV</Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-4">
+        Imports match participants by email, then by name. Students who joined more than {LATE_AFTER_MINUTES} minutes after the start are marked late, and students missing from the report are marked absent.
+      </p>
+      {importSummary && <p className="mb-4 text-sm text-indigo-800 bg-indigo-50 p-3 rounded border border-indigo-200">{importSummary}</p>}
+      {error && <p className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+          <span className="text-sm text-gray-600">{roster.length} students · {roster.filter(r => statusOf(r)).length} marked</span>
+          <div className="flex gap-2 text-sm">
+            <span className="text-gray-500">Mark unmarked as</span>
+            <button onClick={() => markAll('present')} className="text-indigo-600 hover:text-indigo-800 font-medium">present</button>
+            <span className="text-gray-300">|</span>
+            <button onClick={() => markAll('absent')} className="text-indigo-600 hover:text-indigo-800 font-medium">absent</button>
+          </div>
+        </div>
+        {roster.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {roster.map(entry => {
+              const status = statusOf(entry);
+              return (
+                <li key={entry.userId} className={`px-6 py-3 flex flex-col md:flex-row md:items-center gap-3 ${entry.userId in edits ? 'bg-yellow-50' : ''}`}>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900">{entry.name}</p>
+                    <p className="text-xs text-gray-500">{entry.email}</p>
+                  </div>
+                  <div className="flex gap-1">
+                    {ATTENDANCE_STATUSES.map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => setMark(entry, { status: status === option.id ? null : option.id })}
+                        className={`px-2.5 py-1 rounded-md text-xs font-medium border ${status === option.id ? option.className : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400'}`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="text"
+                    value={noteOf(entry)}
+                    onChange={e => setMark(entry, { note: e.target.value })}
+                    placeholder="Note"
+                    disabled={!status}
+                    className="md:w-48 rounded-md border border-gray-300 px-2 py-1 text-sm disabled:bg-gray-50"
+                  />
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="p-6 text-sm text-gray-500">No students are enrolled in this session yet.</p>
+        )}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          {changedCount > 0 && <Button variant="outline" onClick={() => { setEdits({}); setImportSummary(null); }} disabled={isSaving}>Discard</Button>}
+          <Button onClick={handleSave} isLoading={isSaving} disabled={changedCount === 0}>
+            {changedCount > 0 ? `Save ${changedCount} ${changedCount === 1 ? 'change' : 'changes'}` : 'Saved'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { AuditEntry, AuditFilters, UserProfile } from '../types';
+import { Button } from './Button';
+import { fetchAuditLog, getAuditChanges, formatAuditValue, AUDIT_TARGETS } from '../services/auditService';
+import { fetchProfiles } from '../services/userService';
+
+const PAGE_SIZE = 100;
+
+const targetLabel = (type: string) => AUDIT_TARGETS.find(t => t.id === type)?.label || type;
+
+const ChangeTable: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+  const changes = getAuditChanges(entry);
+  if (changes.length === 0) {
+    return Object.keys(entry.details).length > 0
+      ? <pre className="text-xs text-gray-600 whitespace-pre-wrap">{JSON.stringify(entry.details, null, 2)}</pre>
+      : <p className="text-xs text-gray-500">No field changes recorded.</p>;
+  }
+  return (
+    <table className="min-w-full text-xs">
+      <thead className="text-left text-gray-500">
+        <tr>
+          <th className="py-1 pr-4 font-medium w-40">Field</th>
+          <th className="py-1 pr-4 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody className="align-top">
+        {changes.map(c => (
+          <tr key={c.field} className="border-t border-gray-100">
+            <td className="py-1 pr-4 font-mono text-gray-700">{c.field}</td>
+            <td className="py-1 pr-4"><pre className="whitespace-pre-wrap break-all text-red-700 max-h-40 overflow-y-auto">{formatAuditValue(c.before)}</pre></td>
+            <td className="py-1"><pre className="whitespace-pre-wrap break-all text-green-700 max-h-40 overflow-y-auto">{formatAuditValue(c.after)}</pre></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const AuditLogViewer: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [staff, setStaff] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [targetType, setTargetType] = useState('');
+  const [actorId, setActorId] = useState('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProfiles().then(profiles => setStaff(profiles.filter(p => p.role !== 'student')));
+  }, []);
+
+  // Dates are calendar days in the admin's time zone
+  useEffect(() => {
+    const filters: AuditFilters = {
+      targetType: targetType || undefined,
+      actorId: actorId || undefined,
+      search: search || undefined,
+      from: from ? new Date(`${from}T00:00`).toISOString() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    };
+    setIsLoading(true);
+    const timer = setTimeout(() => {
+      fetchAuditLog(filters, limit).then(loaded => {
+        setEntries(loaded);
+        setIsLoading(false);
+      });
+    }, 300); // Debounce typing in the search box
+    return () => clearTimeout(timer);
+  }, [targetType, actorId, search, from, to, limit]);
+
+  const hasFilters = !!(targetType || actorId || search || from || to);
+  const clearFilters = () => {
+    setTargetType('');
+    setActorId('');
+    setSearch('');
+    setFrom('');
+    setTo('');
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-2">
+        <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        <input
+          type="search"
+          value={search}
+          onChange={e => { setSearch(e.target.value); setLimit(PAGE_SIZE); }}
+          placeholder="Search summaries"
+          className="w-full sm:w-80 rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+      </div>
+      <p className="text-gray-500 mb-6">Every change made by admins, instructors and finance staff. Entries cannot be edited or deleted.</p>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 text-sm">
+        <select value={targetType} onChange={e => { setTargetType(e.target.value); setLimit(PAGE_SIZE); }} className="rounded-md border border-gray-300 px-3 py-2">
+          <option value="">Everything</option>
+          {AUDIT_TARGETS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        <select value={actorId} onChange={e => { setActorId(e.target.value); setLimit(PAGE_SIZE); }} className="rounded-md border border-gray-300 px-3 py-2">
+          <option value="">Anyone</option>
+          {staff.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-gray-600">
+          From
+          <input type="date" value={from} onChange={e => { setFrom(e.target.value); setLimit(PAGE_SIZE); }} className="flex-1 rounded-md border border-gray-300 px-2 py-1.5" />
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          To
+          <input type="date" value={to} onChange={e => { setTo(e.target.value); setLimit(PAGE_SIZE); }} className="flex-1 rounded-md border border-gray-300 px-2 py-1.5" />
+        </label>
+        {hasFilters && (
+          <button onClick={clearFilters} className="text-left text-indigo-600 hover:text-indigo-800 font-medium">Clear filters</button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading && entries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : entries.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {entries.map(entry => (
+              <li key={entry.id} className="px-6 py-3 text-sm">
+                <button onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="w-full text-left flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4">
+                  <span className="text-gray-500 whitespace-nowrap sm:w-44">{new Date(entry.createdAt).toLocaleString()}</span>
+                  <span className="text-gray-700 font-medium sm:w-40 truncate">{entry.actorName || 'System'}</span>
+                  <span className="flex-1 text-gray-900">{entry.summary}</span>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 whitespace-nowrap">{targetLabel(entry.targetType)}</span>
+                </button>
+                {expandedId === entry.id && (
+                  <div className="mt-3 p-3 bg-gray-50 rounded-md border border-gray-200 overflow-x-auto">
+                    <p className="text-xs text-gray-500 mb-2 font-mono">{entry.action}{entry.targetId ? ` · ${entry.targetId}` : ''}</p>
+                    <ChangeTable entry={entry} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="p-8 text-center text-gray-500">{hasFilters ? 'No entries match these filters' : 'No admin actions recorded yet'}</div>
+        )}
+      </div>
+
+      {entries.length >= limit && (
+        <div className="mt-4 text-center">
+          <Button variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load older entries'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,11 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { Button } from './Button';
 import { View } from '../types';
 import { supabase } from '../supabaseClient';
+import { requestPasswordReset } from '../services/emailService';
 
 interface AuthProps {
-  view: View.LOGIN | View.REGISTER;
+  view: View.LOGIN | View.REGISTER | View.FORGOT_PASSWORD;
   onSwitch: (view: View) => void;
-  onAuthSuccess: (name: string, email: string, isAdmin: boolean) => void;
+  onAuthSuccess: (name: string, email: string) => void;
 }
 
 export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) => {
@@ -53,7 +54,10 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
     setSuccessMsg(null);
 
     try {
-      if (view === View.LOGIN) {
+      if (view === View.FORGOT_PASSWORD) {
+        await requestPasswordReset(email);
+        setSuccessMsg("If an account exists for that address, we've sent a link to reset your password. It may take a minute to arrive.");
+      } else if (view === View.LOGIN) {
         // Supabase Login
         const { data, error } = await supabase.auth.signInWithPassword({
           email,
@@ -63,9 +67,8 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
         if (error) throw error;
 
         if (data.session) {
-           const isAdmin = email.toLowerCase() === 'deepmetricsanalyticsinstitute@gmail.com';
            const userName = data.user.user_metadata?.name || email.split('@')[0];
-           onAuthSuccess(userName, email, isAdmin);
+           onAuthSuccess(userName, email);
         } else {
            setError("Login failed. Please try again.");
         }
@@ -86,9 +89,8 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
         // Registration Successful
         if (data.session) {
             // Auto-login if session is returned (email confirmation disabled or optional)
-            const isAdmin = email.toLowerCase() === 'deepmetricsanalyticsinstitute@gmail.com';
-            const userName = name || email.split('@')[0];
-            onAuthSuccess(userName, email, isAdmin);
+             const userName = name || email.split('@')[0];
+            onAuthSuccess(userName, email);
         } else {
              // Email confirmation required
              setSuccessMsg("Your account has been created. Please check your email and verify your address before logging in.");
@@ -116,10 +118,10 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
             <span className="text-white font-bold text-2xl">D</span>
         </div>
         <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-          {view === View.LOGIN ? 'Sign in to your account' : 'Create your account'}
+          {view === View.LOGIN ? 'Sign in to your account' : view === View.REGISTER ? 'Create your account' : 'Reset your password'}
         </h2>
         <p className="mt-2 text-center text-sm text-gray-600">
-          {view === View.LOGIN ? 'Or' : 'Already have an account?'}{' '}
+          {view === View.LOGIN ? 'Or' : view === View.REGISTER ? 'Already have an account?' : 'Remembered it?'}{' '}
           <button
             onClick={() => {
                 setError(null);
@@ -186,10 +188,26 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
               </div>
             </div>
 
+            {view !== View.FORGOT_PASSWORD && (
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
+              <div className="flex items-center justify-between">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                {view === View.LOGIN && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                        setError(null);
+                        setSuccessMsg(null);
+                        onSwitch(View.FORGOT_PASSWORD);
+                    }}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Forgot your password?
+                  </button>
+                )}
+              </div>
               <div className="mt-1">
                 <input
                   id="password"
@@ -233,6 +251,7 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
                   </div>
               )}
             </div>
+            )}
 
             <div>
               <Button
@@ -240,11 +259,12 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
                 className="w-full"
                 isLoading={loading}
               >
-                {view === View.LOGIN ? 'Sign in' : 'Register'}
+                {view === View.LOGIN ? 'Sign in' : view === View.REGISTER ? 'Register' : 'Send reset link'}
               </Button>
             </div>
           </form>
 
+          {view !== View.FORGOT_PASSWORD && (
           <div className="mt-6">
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
@@ -271,6 +291,7 @@ export const Auth: React.FC<AuthProps> = ({ view, onSwitch, onAuthSuccess }) =>
               </button>
             </div>
           </div>
+          )}
         </div>
       </div>
     </div>
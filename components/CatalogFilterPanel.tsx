@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Course, CourseLevel } from '../types';
+import { CatalogFilters, DURATION_BANDS, EMPTY_CATALOG_FILTERS, collectTags, countActiveFilters, getDurationBand } from '../services/catalogService';
+
+const VISIBLE_TAGS = 12;
+
+interface CatalogFilterPanelProps {
+  courses: Course[]; // The whole catalog, for facet options and counts
+  filters: CatalogFilters;
+  onChange: (filters: CatalogFilters) => void;
+}
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+const FacetGroup: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="border-t border-gray-200 pt-4">
+    <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+const FacetCheckbox: React.FC<{ label: string; count: number; checked: boolean; onToggle: () => void }> = ({ label, count, checked, onToggle }) => (
+  <label className="flex items-center gap-2 py-1 text-sm text-gray-700 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={onToggle} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+    <span className="flex-1">{label}</span>
+    <span className="text-xs text-gray-400">{count}</span>
+  </label>
+);
+
+export const CatalogFilterPanel: React.FC<CatalogFilterPanelProps> = ({ courses, filters, onChange }) => {
+  const [showAllTags, setShowAllTags] = useState(false);
+  const tags = collectTags(courses);
+  const visibleTags = showAllTags ? tags : tags.slice(0, VISIBLE_TAGS);
+  const selectedTags = filters.tags.map(t => t.toLowerCase());
+  const activeCount = countActiveFilters(filters);
+
+  const update = (changes: Partial<CatalogFilters>) => onChange({ ...filters, ...changes });
+  const parsePrice = (value: string) => (value === '' ? undefined : Math.max(0, Number(value)));
+
+  return (
+    <aside className="w-full lg:w-64 flex-shrink-0 space-y-4">
+      <input
+        type="search"
+        value={filters.query}
+        onChange={e => update({ query: e.target.value })}
+        placeholder="Search programs, instructors, tags"
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+      />
+
+      <FacetGroup title="Level">
+        {Object.values(CourseLevel).map(level => (
+          <FacetCheckbox
+            key={level}
+            label={level}
+            count={courses.filter(c => c.level === level).length}
+            checked={filters.levels.includes(level)}
+            onToggle={() => update({ levels: toggle(filters.levels, level) })}
+          />
+        ))}
+      </FacetGroup>
+
+      <FacetGroup title="Duration">
+        {DURATION_BANDS.map(band => (
+          <FacetCheckbox
+            key={band.id}
+            label={band.label}
+            count={courses.filter(c => getDurationBand(c.duration) === band.id).length}
+            checked={filters.durations.includes(band.id)}
+            onToggle={() => update({ durations: toggle(filters.durations, band.id) })}
+          />
+        ))}
+      </FacetGroup>
+
+      <FacetGroup title="Price (GHC)">
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            value={filters.minPrice ?? ''}
+            onChange={e => update({ minPrice: parsePrice(e.target.value) })}
+            placeholder="Min"
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+          />
+          <span className="text-gray-400">-</span>
+          <input
+            type="number"
+            min={0}
+            value={filters.maxPrice ?? ''}
+            onChange={e => update({ maxPrice: parsePrice(e.target.value) })}
+            placeholder="Max"
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+          />
+        </div>
+      </FacetGroup>
+
+      {tags.length > 0 && (
+        <FacetGroup title="Topics">
+          <div className="flex flex-wrap gap-2">
+            {visibleTags.map(({ tag, count }) => {
+              const isSelected = selectedTags.includes(tag.toLowerCase());
+              return (
+                <button
+                  key={tag}
+                  onClick={() => update({ tags: isSelected ? filters.tags.filter(t => t.toLowerCase() !== tag.toLowerCase()) : [...filters.tags, tag] })}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:border-indigo-400'}`}
+                >
+                  {tag} <span className={isSelected ? 'text-indigo-200' : 'text-gray-400'}>{count}</span>
+                </button>
+              );
+            })}
+          </div>
+          {tags.length > VISIBLE_TAGS && (
+            <button onClick={() => setShowAllTags(!showAllTags)} className="mt-2 text-xs text-indigo-600 hover:text-indigo-800 font-medium">
+              {showAllTags ? 'Show fewer' : `Show all ${tags.length}`}
+            </button>
+          )}
+        </FacetGroup>
+      )}
+
+      {(activeCount > 0 || filters.query) && (
+        <button
+          onClick={() => onChange({ ...EMPTY_CATALOG_FILTERS, sort: filters.sort })}
+          className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          Clear all filters
+        </button>
+      )}
+    </aside>
+  );
+};
@@ -1,194 +1,123 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Course, User } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Course, IssuedCertificate, LearningPath, Signatory, User } from '../types';
 import { Button } from './Button';
-import { uploadToStorage, getSignedUrl, deleteFromStorage } from '../supabaseClient';
-
-// ... (Keep existing props and constants like templates, aspect ratios, etc.)
+import {
+  fetchActiveCertificate, fetchActivePathCertificate, getRenderData, getCertificateSvgUrl, loadTemplateImages,
+  downloadCertificatePdf, downloadCertificatePng,
+} from '../services/certificateService';
+import { fetchCertificateTemplates } from '../services/certificateTemplateService';
+import { fetchSignatories, getCourseSignatories } from '../services/signatoryService';
+import { BUILT_IN_TEMPLATES, CertificateTemplate, SvgImage, findTemplate } from '../services/certificateRenderer';
 
 interface CertificateProps {
   user: User;
-  course: Course;
+  course: Course; // For a path certificate, the path's final program, which signs it
+  path?: LearningPath;
   onClose: () => void;
-  onUpdateCourse?: (updatedCourse: Course) => void;
-  allCourses?: Course[];
 }
 
-// ... (Rest of component setup)
-
-export const Certificate: React.FC<CertificateProps> = ({ user, course, onClose, onUpdateCourse, allCourses }) => {
-  // ... (existing refs and state) ...
-  const certificateRef = useRef<HTMLDivElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [scale, setScale] = useState(1);
-  const [template, setTemplate] = useState<'classic' | 'modern' | 'elegant'>('classic');
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const [downloadQuality, setDownloadQuality] = useState<'standard' | 'high'>('high');
-
-  // ... (Crop state) ...
-  const [showCropModal, setShowCropModal] = useState(false);
-  const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [pendingImage, setPendingImage] = useState<string | null>(null);
-  const [isCroppedPreview, setIsCroppedPreview] = useState(false);
-  const [removeBackground, setRemoveBackground] = useState(true);
-  const [cropBox, setCropBox] = useState({ x: 0, y: 0, width: 0, height: 0 });
-  const [imgDimensions, setImgDimensions] = useState({ width: 0, height: 0, naturalWidth: 0, naturalHeight: 0 });
-  const [interactionMode, setInteractionMode] = useState<'move' | 'resize' | null>(null);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [initialBox, setInitialBox] = useState({ x: 0, y: 0, width: 0, height: 0 });
-  const imgRef = useRef<HTMLImageElement>(null);
-  const [showSignatureManager, setShowSignatureManager] = useState(false);
-  const [uploadTargetId, setUploadTargetId] = useState<string | null>(null);
-
-  // ... (Existing useEffects for resize, etc.) ...
-  
-  // Need to mimic the exact existing component logic but update the handlers
-
-  const handleSignatureUpload = async (e: React.ChangeEvent<HTMLInputElement>, targetId?: string) => {
-      setUploadError(null);
-      const file = e.target.files?.[0];
-      if (!file) return;
-
-      if (!['image/jpeg', 'image/png', 'image/svg+xml'].includes(file.type)) {
-          setUploadError('Invalid format. Use JPG, PNG, or SVG.');
-          if (fileInputRef.current) fileInputRef.current.value = '';
-          return;
-      }
+export const Certificate: React.FC<CertificateProps> = ({ user, course, path, onClose }) => {
+  const [generating, setGenerating] = useState<'pdf' | 'png' | null>(null);
+  const [customTemplates, setCustomTemplates] = useState<CertificateTemplate[]>([]);
+  const [templateOverride, setTemplateOverride] = useState<string | undefined>(undefined); // Admin preview of another template
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [registry, setRegistry] = useState<Signatory[]>([]);
+  const [images, setImages] = useState<{ [key: string]: SvgImage | undefined }>({});
+
+  // Issued certificate record (serial + issue date)
+  const [certificate, setCertificate] = useState<IssuedCertificate | null>(null);
+  const [isLoadingCertificate, setIsLoadingCertificate] = useState(true);
+
+  useEffect(() => {
+    setIsLoadingCertificate(true);
+    (path ? fetchActivePathCertificate(user.id, path.id) : fetchActiveCertificate(user.id, course.id)).then(found => {
+      setCertificate(found);
+      setIsLoadingCertificate(false);
+    });
+  }, [user.id, course.id, path?.id]);
+
+  useEffect(() => {
+    fetchCertificateTemplates().then(setCustomTemplates);
+    fetchSignatories().then(setRegistry);
+  }, []);
+
+  const defaultTemplateId = path ? path.certificateTemplateId || course.certificateTemplateId : course.certificateTemplateId;
+  const template = findTemplate(templateOverride || defaultTemplateId, customTemplates);
+  const signatories = getCourseSignatories(course, registry);
+  const signatureKey = signatories.map(s => s.signatureImage || '').join('|');
+
+  useEffect(() => {
+    setImages({});
+    let cancelled = false;
+    loadTemplateImages(template.definition, signatories).then(loaded => {
+      if (!cancelled) setImages(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [template, signatureKey]);
+
+  const isAdmin = user.role === 'admin';
+
+  // Admins without a certificate of their own still get a preview with placeholder details
+  const renderData = getRenderData(
+    certificate || {
+      id: '', serial: 'PREVIEW', userId: user.id, courseId: path ? undefined : course.id, pathId: path?.id,
+      recipientName: user.name, courseTitle: path?.title || course.title, issuedAt: new Date().toISOString(),
+    },
+    course,
+    signatories
+  );
 
-      if (file.size > 2 * 1024 * 1024) {
-          setUploadError('Image too large. Max 2MB.');
-          if (fileInputRef.current) fileInputRef.current.value = '';
-          return;
+  const handleDownload = async (format: 'pdf' | 'png') => {
+      if (!certificate) return;
+      setGenerating(format);
+      setDownloadError(null);
+      try {
+          if (format === 'pdf') await downloadCertificatePdf(certificate, templateOverride);
+          else await downloadCertificatePng(renderData, template.definition, images);
+      } catch (err) {
+          console.error('Certificate download failed', err);
+          setDownloadError(err instanceof Error ? err.message : 'Failed to generate the certificate.');
+      } finally {
+          setGenerating(null);
       }
-
-      if (targetId) setUploadTargetId(targetId);
-      else setUploadTargetId(null);
-      
-      // Store file for crop processing, but eventually upload to Supabase
-      const reader = new FileReader();
-      reader.onloadend = () => {
-          const result = reader.result as string;
-          setOriginalImage(result);
-          setPendingImage(result);
-          setIsCroppedPreview(false);
-          setShowCropModal(true);
-      };
-      reader.readAsDataURL(file);
   };
 
-  // Helper to convert dataURL to File for upload
-  const dataURLtoFile = (dataurl: string, filename: string) => {
-        let arr = dataurl.split(','), mime = arr[0].match(/:(.*?);/)?.[1],
-            bstr = atob(arr[1]), n = bstr.length, u8arr = new Uint8Array(n);
-        while(n--){
-            u8arr[n] = bstr.charCodeAt(n);
-        }
-        return new File([u8arr], filename, {type:mime});
-  };
-
-  const handleCropSave = async () => {
-      if (!onUpdateCourse) return;
-      let finalImage = pendingImage;
-      // ... (generateCroppedImage logic if needed) ...
-      
-      if (finalImage) {
-          const idToUpdate = uploadTargetId || course.id;
-          const courseToUpdate = allCourses ? allCourses.find(c => c.id === idToUpdate) : course;
-          
-          if (courseToUpdate) {
-               // Upload to Supabase
-               try {
-                   const file = dataURLtoFile(finalImage, 'signature.png');
-                   const path = await uploadToStorage(file, 'signatures', idToUpdate);
-                   const url = await getSignedUrl(path);
-
-                   onUpdateCourse({ 
-                       ...courseToUpdate, 
-                       signaturePath: path,
-                       signatureImage: url 
-                   });
-               } catch (err) {
-                   console.error("Signature upload failed", err);
-                   setUploadError("Failed to save to cloud storage.");
-               }
-          }
-          // Reset crop modal
-          setShowCropModal(false); 
-          setPendingImage(null);
-          setOriginalImage(null);
-          setIsCroppedPreview(false);
-          setRemoveBackground(true);
-          if (fileInputRef.current) fileInputRef.current.value = '';
-      }
-  };
-  
-  const handleRemoveSignature = async (e: React.MouseEvent, targetId?: string) => {
-      e.stopPropagation();
-      setUploadError(null);
-      if (onUpdateCourse) {
-           const idToUpdate = targetId || course.id;
-           const courseToUpdate = allCourses ? allCourses.find(c => c.id === idToUpdate) : course;
-           if (courseToUpdate && courseToUpdate.signaturePath) {
-               await deleteFromStorage(courseToUpdate.signaturePath);
-               onUpdateCourse({ 
-                   ...courseToUpdate, 
-                   signatureImage: undefined,
-                   signaturePath: undefined
-                });
-           }
-      }
-      if (fileInputRef.current) fileInputRef.current.value = '';
-  };
+  return (
+      <div className="min-h-screen bg-gray-900 flex flex-col items-center py-8 px-4 relative overflow-y-auto">
+         <div className="w-full max-w-6xl flex flex-wrap items-center justify-between gap-3 mb-6 no-print">
+             <button onClick={onClose} className="text-gray-300 hover:text-white text-sm font-medium">&larr; Back to Dashboard</button>
+             <div className="flex flex-wrap items-center gap-3">
+                 {isAdmin && (
+                     <select
+                         value={template.id}
+                         onChange={e => setTemplateOverride(e.target.value)}
+                         className="rounded-lg border border-gray-700 bg-gray-800 text-gray-200 text-sm px-3 py-1.5"
+                     >
+                         {[...BUILT_IN_TEMPLATES, ...customTemplates].map(t => (
+                             <option key={t.id} value={t.id}>{t.name}{t.id === defaultTemplateId ? (path ? ' (path default)' : ' (program default)') : ''}</option>
+                         ))}
+                     </select>
+                 )}
+                 <Button size="sm" variant="outline" onClick={() => handleDownload('png')} isLoading={generating === 'png'} disabled={!certificate || !!generating}>Download PNG</Button>
+                 <Button size="sm" onClick={() => handleDownload('pdf')} isLoading={generating === 'pdf'} disabled={!certificate || !!generating}>Download PDF</Button>
+             </div>
+         </div>
 
-  // ... (Include the rest of the existing component code: generateCroppedImage, useEffects, render...)
-  // Since I need to return full content, I will paste the entire component updated logic below.
-  // Note: I am omitting the SVG constants for brevity in this thought block, but will include in XML.
-  
-  // --- RE-INSERTING SVG CONSTANTS & RENDER LOGIC FROM ORIGINAL ---
-  // (Assuming standard imports and helper functions are present)
+         {downloadError && <p className="w-full max-w-6xl mb-4 text-sm text-red-400 no-print">{downloadError}</p>}
 
-  return (
-      // ... Same UI structure ...
-      // Updated handleCropSave and handleRemoveSignature are the key logic changes.
-      // Reusing the rest of the UI.
-      // See full content below.
-      <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center py-8 px-4 relative overflow-y-auto">
-         {/* ... (Existing UI Code) ... */}
-         {/* Using the updated handlers passed above */}
-         {/* Logic is identical to original file, just swapping local state set for Supabase calls */}
-         
-         {/* ... render ... */}
-         
-         {/* Cropper Modal */}
-         {showCropModal && pendingImage && (
-             <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in no-print">
-                 <div className="bg-white rounded-xl shadow-2xl overflow-hidden max-w-3xl w-full flex flex-col max-h-[90vh]">
-                     {/* ... Header ... */}
-                     <div className="p-8 flex flex-col items-center gap-6 overflow-y-auto flex-1">
-                         {/* ... Image & Cropper UI ... */}
-                         <div className="flex gap-3 w-full justify-end pt-4 border-t border-gray-100 mt-auto items-center">
-                              {/* ... Buttons ... */}
-                             <Button onClick={handleCropSave} className="px-8">
-                                 Save Signature
-                             </Button>
-                         </div>
-                     </div>
-                 </div>
+         {!isLoadingCertificate && !certificate && (
+             <div className="w-full max-w-6xl mb-4 rounded-lg bg-amber-100 text-amber-900 text-sm px-4 py-3 no-print">
+                 {isAdmin
+                     ? `Preview only: no certificate has been issued for this account and ${path ? 'learning path' : 'program'}.`
+                     : path
+                         ? 'Your path certificate is issued once every program on the path is completed.'
+                         : 'Your certificate has not been issued yet. It will appear here once your completion is approved.'}
              </div>
          )}
+
+         <div className="w-full max-w-6xl">
+             <img src={getCertificateSvgUrl(renderData, template.definition, images)} alt={`Certificate for ${renderData.recipientName}`} className="w-full h-auto shadow-2xl bg-white" />
+         </div>
       </div>
   );
 };
-
-// ... Wait, I cannot partially render. I must provide full file content. 
-// I will copy the original file content and inject the Supabase logic.
-
-const logoUrl = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCA2MDAgMTUwIiB3aWR0aD0iNjAwIiBoZWlnaHQ9IjE1MCI+PGRlZnM+PGxpbmVhckdyYWRpZW50IGlkPSJnb2xkIiB4MT0iMCUiIHkxPSIwJSIgeDI9IjEwMCUiIHkyPSIxMDAlIj48c3RvcCBvZmZzZXQ9IjAlIiBzdG9wLWNvbG9yPSIjRkNEMzREIi8+PHN0b3Agb2Zmc2V0PSI1MCUiIHN0b3AtY29sb3I9IiNGNTlFMEIiLz48c3RvcCBvZmZzZXQ9IjEwMCUiIHN0b3AtY29sb3I9IiNCNDUzMDkiLz48L2xpbmVhckdyYWRpZW50PjwvZGVmcz48ZyB0cmFuc2Zvcm09InRyYW5zbGF0ZSgxMCwgMTApIj48cGF0aCBkPSJNMjAsMTAgTDcwLDEwIEMxMDAsMTAgMTIwLDMwIDEyMCw2NSBDMTIwLDEwMCAxMDAsMTIwIDcwLDEyMCBMMjAsMTIwIFogTTM1LDI1IEwzNSwxMDUgTDcwLDEwNSBDOTAsMTA1IDEwNSw5MCAxMDUsNjUgQzEwNSw0MCA5MCwyNSA3MCwyNSBaIiBmaWxsPSJ1cmwoI2dvbGQpIi8+PHJlY3QgeD0iNDIiIHk9IjcwIiB3aWR0aD0iMTAiIGhlaWdodD0iMzUiIHJ4PSIxIiBmaWxsPSJ1cmwoI2dvbGQpIi8+PHJlY3QgeD0iNTgiIHk9IjU1IiB3aWR0aD0iMTAiIGhlaWdodD0iNTAiIHJ4PSIxIiBmaWxsPSJ1cmwoI2dvbGQpIi8+PHJlY3QgeD0iNzQiIHk9IjQwIiB3aWR0aD0iMTAiIGhlaWdodD0iNjUiIHJ4PSIxIiBmaWxsPSJ1cmwoI2dvbGQpIi8+PGNpcmNsZSBjeD0iNDciIGN5PSI3MCIgcj0iNCIgZmlsbD0idXJsKCNnb2xkKSIvPjxjaXJjbGUgY3g9IjYzIiBjeT0iNTUiIHI9IjQiIGZpbGw9InVybCgjZ29sZCkiLz48Y2lyY2xlIGN4PSI3OSIgY3k9IjQwIiByPSI0IiBmaWxsPSJ1cmwoI2dvbGQpIi8+PHBvbHlsaW5lIHBvaW50cz0iNDcsNzAgNjMsNTUgNzksNDAgMTA1LDIwIiBmaWxsPSJub25lIiBzdHJva2U9InVybCgjZ29sZCkiIHN0cm9rZS13aWR0aD0iNCIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIi8+PGNpcmNsZSBjeD0iMTA1IiBjeT0iMjAiIHI9IjQiIGZpbGw9InVybCgjZ29sZCkiLz48L2c+PGcgdHJhbnNmb3JtPSJ0cmFuc2xhdGUoMTQwLCAxNSkiPjx0ZXh0IHg9IjAiIHk9Ijc1IiBmb250LWZhbWlseT0ic2VyaWYiIGZvbnQtd2VpZ2h0PSJib2xkIiBmb250LXNpemU9Ijg1IiBmaWxsPSIjMWUxYjRiIj5EZWVwbWV0cmljczwvdGV4dD48dGV4dCB4PSI1IiB5PSIxMDUiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXdlaWdodD0iYm9sZCIgZm9udC1zaXplPSIyMiIgbGV0dGVyLXNwYWNpbmc9IjUiIGZpbGw9IiNCNDUzMDkiPkFOQUxZVElDUyBJTlNUSVRVVEU8L3RleHQ+PC9nPjwvc3ZnPg==";
-const noiseTexture = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI1MTIiIGhlaWdodD0iNTEyIj48ZmlsdGVyIGlkPSJub2lzZSI+PGZlVHVyYnVsZW5jZSB0eXBlPSJmcmFjdGFsTm9pc2UiIGJhc2VGcmVxdWVuY3k9IjAuNjUiIG51bU9jdGF2ZXM9IjMiIHN0aXRjaFRpbGVzPSJzdGl0Y2giLz48L2ZpbHRlcj48cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWx0ZXI9InVybCgjbm9pc2UpIiBvcGFjaXR5PSIwLjQiLz48L3N2Zz4=";
-const dotPattern = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCI+PGNpcmNsZSBjeD0iMiIgY3k9IjIiIHI9IjEiIGZpbGw9InJnYmEoMCwwLDAsMC4wNSkiLz48L3N2Zz4=";
-const classicWatermark = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAwIiBoZWlnaHQ9IjUwMCIgdmlld0JveD0iMCAwIDUwMCA1MDAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+ICA8ZyBmaWxsPSJub25lIiBzdHJva2U9IiMwMDAiIHN0cm9rZS13aWR0aD0iMSI+ICAgIDxjaXJjbGUgY3g9IjI1MCIgY3k9IjI1MCIgcj0iMjAwIiBvcGFjaXR5PSIwLjMiLz4gICAgPGNpcmNsZSBjeD0iMjUwIiBjeT0iMjUwIiByPSIxODAiIG9wYWNpdHk9IjAuMyIvPiAgICA8cGF0aCBkPSJNMjUwIDUwIEwyNTAgNDUwIE01MCAyNTAgTDQ1MCAyNTAgTTEwOCAxMDggTDM5MiAzOTIgTTEwOCAzOTIgTDM5MiAxMDgiIG9wYWNpdHk9IjAuMiIvPiAgICA8Y2lyY2xlIGN4PSIyNTAiIGN5PSIyNTAiIHI9IjEwMCIgb3BhY2l0eT0iMC4yIi8+ICAgIDxwYXRoIGQ9Ik0yNTAgMTUwIFEzNTAgMjUwIDI1MCAzNTAgQTE1MCAyNTAgMjUwIDE1MCIgb3BhY2l0eT0iMC4yIi8+ICAgIDxwYXRoIGQ9Ik0xNTAgMjUwIFEyNTAgMTUwIDM1MCAyNTAgQTI1MCAzNTAgMTUwIDI1MCIgb3BhY2l0eT0iMC4yIi8+ICA8L2c+PC9zdmc+";
-const modernWatermark = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAwIiBoZWlnaHQ9IjUwMCIgdmlld0JveD0iMCAwIDUwMCA1MDAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+ICA8ZGVmcz4gICAgPHBhdHRlcm4gaWQ9Im1vZGVybkdyaWQiIHg9IjAiIHk9IjAiIHdpZHRoPSI1MCIgaGVpZ2h0PSI1MCIgcGF0dGVyblVuaXRzPSJ1c2VyU3BhY2VPblVzZSI+ICAgICAgPHBhdGggZD0iTSA1MCAwIEwgMCAwIDAgNTAiIGZpbGw9Im5vbmUiIHN0cm9rZT0iIzAwMCIgc3Ryb2tlLXdpZHRoPSIwLjUiIG9wYWNpdHk9IjAuMyIvPiAgICAgIDxjaXJjbGUgY3g9IjAiIGN5PSIwIiByPSIxIiBmaWxsPSIjMDAwIiBvcGFjaXR5PSIwLjUiLz4gICAgPC9wYXR0ZXJuPiAgPC9kZWZzPiAgPHJlY3Qgd2lkdGg9IjEwMCUiIGhlaWdodD0iMTAwJSIgZmlsbD0idXJsKCNtb2Rlcm5HcmlkKSIgLz4gIDxwYXRoIGQ9Ik0wIDUwMCBMNTAwIDAiIHN0cm9rZT0iIzAwMCIgc3Ryb2tlLXdpZHRoPSIxIiBvcGFjaXR5PSIwLjEiLz4gIDxjaXJjbGUgY3g9IjQwMCIgY3k9IjEwMCIgcj0iNTAiIHN0cm9rZT0iIzAwMCIgc3Ryb2tlLXdpZHRoPSIxIiBmaWxsPSJub25lIiBvcGFjaXR5PSIwLjEiLz48L3N2Zz4=";
-const elegantWatermark = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTAwIiBoZWlnaHQ9IjUwMCIgdmlld0JveD0iMCAwIDUwMCA1MDAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+ICA8ZyBmaWxsPSJub25lIiBzdHJva2U9IiMwMDAiIHN0cm9rZS13aWR0aD0iMSIgb3BhY2l0eT0iMC4yIj4gICAgICA8IS0tIFN0eWxpemVkIExhdXJlbCBXcmVhdGggYXBwcm94aW1hdGlvbiAtLT4gICAgICA8cGF0aCBkPSJNMTUwIDQwMCBDIDEwMCAzMDAsIDEwMCAxNTAsIDI1MCAxMDAiIC8+ICAgICAgPHBhdGggZD0iTTM1MCA0MDAgQyA0MDAgMzAwLCA0MDAgMTUwIDI1MCAxMDAiIC8+ICAgICAgPCEtLSBMZWF2ZXMgLS0+ICAgICAgPHBhdGggZD0iTTE1MCAzNTAgTDEzMCAzNDAgTTE2MCAzMDAgTDE0MCAyOTAgTTE3MCAyNTAgTDE1MCAyNDAiIC8+ICAgICAgPHBhdGggZD0iTTM1MCAzNTAgTDM3MCAzNDAgTTM0MCAzMDAgTDM2MCAyOTAgTTMzMCAyNTAgTDM1MCAyNDAiIC8+ICA8L2c+PC9zdmc+";
-const SIGNATURE_ASPECT_RATIO = 512 / 224;
-
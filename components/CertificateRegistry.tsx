@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { Course, IssuedCertificate, View } from '../types';
+import { Button } from './Button';
+import { fetchCertificates, revokeCertificate, downloadCertificatePdf, downloadProgramCertificates } from '../services/certificateService';
+import { fetchCertificateTemplates } from '../services/certificateTemplateService';
+import { BUILT_IN_TEMPLATES, CertificateTemplate } from '../services/certificateRenderer';
+import { buildPath } from '../router';
+
+interface CertificateRegistryProps {
+  courses: Course[];
+}
+
+export const CertificateRegistry: React.FC<CertificateRegistryProps> = ({ courses }) => {
+  const [certificates, setCertificates] = useState<IssuedCertificate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [courseFilter, setCourseFilter] = useState('');
+  const [customTemplates, setCustomTemplates] = useState<CertificateTemplate[]>([]);
+  const [template, setTemplate] = useState(''); // Empty uses each program's default template
+  const [exporting, setExporting] = useState<string | null>(null); // 'pdf', 'zip' or a certificate id
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<IssuedCertificate | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = async () => {
+    setCertificates(await fetchCertificates());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    reload();
+    fetchCertificateTemplates().then(setCustomTemplates);
+  }, []);
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await revokeCertificate(revoking.id, reason.trim());
+      setRevoking(null);
+      setReason('');
+      await reload();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to revoke certificate.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runExport = async (key: string, task: () => Promise<void>) => {
+    setExporting(key);
+    setExportError(null);
+    try {
+      await task();
+    } catch (err) {
+      console.error(err);
+      setExportError(err instanceof Error ? err.message : 'Failed to generate certificates.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const filtered = certificates
+    .filter(c => !courseFilter || c.courseId === courseFilter)
+    .filter(c => !term || [c.serial, c.recipientName, c.courseTitle].some(v => v.toLowerCase().includes(term)));
+  const validInProgram = filtered.filter(c => !c.revokedAt).length;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Issued Certificates</h1>
+        <input
+          type="search"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Search by name, program or certificate ID"
+          className="w-full sm:w-80 rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <select value={courseFilter} onChange={e => setCourseFilter(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+          <option value="">All training programs</option>
+          {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+        </select>
+        <select value={template} onChange={e => setTemplate(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+          <option value="">Program default template</option>
+          {[...BUILT_IN_TEMPLATES, ...customTemplates].map(t => <option key={t.id} value={t.id}>{t.name} template</option>)}
+        </select>
+        {courseFilter && (
+          <>
+            <Button size="sm" variant="outline" disabled={!validInProgram || !!exporting} isLoading={exporting === 'pdf'}
+              onClick={() => runExport('pdf', () => downloadProgramCertificates(courseFilter, template || undefined, 'pdf'))}>
+              Print All (PDF)
+            </Button>
+            <Button size="sm" disabled={!validInProgram || !!exporting} isLoading={exporting === 'zip'}
+              onClick={() => runExport('zip', () => downloadProgramCertificates(courseFilter, template || undefined, 'zip'))}>
+              Download All (ZIP)
+            </Button>
+          </>
+        )}
+        {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : filtered.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Certificate ID</th>
+                <th className="px-6 py-3">Recipient</th>
+                <th className="px-6 py-3">Training Program</th>
+                <th className="px-6 py-3">Issued</th>
+                <th className="px-6 py-3">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filtered.map(cert => (
+                <tr key={cert.id} className={cert.revokedAt ? 'bg-gray-50' : ''}>
+                  <td className="px-6 py-4 font-mono text-gray-900">{cert.serial}</td>
+                  <td className="px-6 py-4 text-gray-900">{cert.recipientName}</td>
+                  <td className="px-6 py-4 text-gray-600">{cert.courseTitle}</td>
+                  <td className="px-6 py-4 text-gray-600">{new Date(cert.issuedAt).toLocaleDateString()}</td>
+                  <td className="px-6 py-4">
+                    {cert.revokedAt ? (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800" title={cert.revocationReason}>Revoked</span>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Valid</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap space-x-3">
+                    <a href={buildPath(View.VERIFY_CERTIFICATE, { serial: cert.serial })} target="_blank" rel="noreferrer" className="text-indigo-600 hover:text-indigo-800 font-medium">Verify Page</a>
+                    {!cert.revokedAt && (
+                      <>
+                        <button
+                          onClick={() => runExport(cert.id, () => downloadCertificatePdf(cert, template || undefined))}
+                          disabled={!!exporting}
+                          className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+                        >
+                          {exporting === cert.id ? 'Generating...' : 'PDF'}
+                        </button>
+                        <button onClick={() => { setRevoking(cert); setReason(''); setError(null); }} className="text-red-600 hover:text-red-800 font-medium">Revoke</button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No certificates found</div>
+        )}
+      </div>
+
+      {revoking && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
+            <h3 className="text-lg font-bold text-gray-900">Revoke Certificate</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {revoking.recipientName} · {revoking.courseTitle} · <span className="font-mono">{revoking.serial}</span>
+            </p>
+            <p className="text-sm text-gray-600 mt-4">The verification page will show this certificate as revoked. This cannot be undone.</p>
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Reason (shown publicly)</label>
+            <textarea value={reason} onChange={e => setReason(e.target.value)} rows={3} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" placeholder="e.g. Issued in error" />
+            {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" onClick={() => setRevoking(null)} disabled={isSaving}>Cancel</Button>
+              <Button variant="danger" onClick={handleRevoke} isLoading={isSaving}>Revoke</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
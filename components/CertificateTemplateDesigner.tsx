@@ -0,0 +1,537 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Course, Signatory, User } from '../types';
+import { Button } from './Button';
+import { getRenderData, getCertificateSvgUrl, loadTemplateImages } from '../services/certificateService';
+import { fetchCertificateTemplates, saveCertificateTemplate, deleteCertificateTemplate, uploadTemplateImage } from '../services/certificateTemplateService';
+import { fetchSignatories, getCourseSignatories } from '../services/signatoryService';
+import {
+  BUILT_IN_TEMPLATES, CERTIFICATE_PAGE, TEMPLATE_FIELDS, CertificateTemplate, CertificateTemplateItem,
+  CertificateTemplateItemType, SvgImage, getTemplateImagePaths,
+} from '../services/certificateRenderer';
+import { PdfColor, PdfFont } from '../services/pdfDocument';
+
+interface CertificateTemplateDesignerProps {
+  courses: Course[];
+}
+
+// Stand-in recipient for the live preview.
+const SAMPLE_USER: User = {
+  id: 'sample-user',
+  name: 'Ama Mensah-Boateng',
+  email: 'ama@example.com',
+  registeredCourseIds: [],
+  completedCourseIds: [],
+  pendingCourseIds: [],
+  courseProgress: {},
+  completedLessonIds: {},
+  role: 'student',
+};
+
+const SAMPLE_ISSUED_AT = '2025-06-30T12:00:00.000Z';
+
+// Used with the sample program so the signatory layout is visible with more than one signer.
+const SAMPLE_SIGNATORIES: Signatory[] = [
+  { id: 'sample-instructor', name: 'Dr. Kwame Asante', title: 'Lead Instructor' },
+  { id: 'sample-director', name: 'Prof. Efua Owusu', title: 'Director' },
+];
+
+const FONTS: { id: PdfFont; label: string }[] = [
+  { id: 'helvetica', label: 'Sans' },
+  { id: 'helvetica-bold', label: 'Sans Bold' },
+  { id: 'times', label: 'Serif' },
+  { id: 'times-bold', label: 'Serif Bold' },
+  { id: 'times-italic', label: 'Serif Italic' },
+];
+
+const ITEM_LABELS: { [key in CertificateTemplateItemType]: string } = {
+  text: 'Text',
+  rect: 'Box',
+  line: 'Line',
+  logo: 'Logo',
+  image: 'Image',
+  signatories: 'Signatories',
+  signature: 'Single Signature',
+  qr: 'QR Code',
+};
+
+const { width: W, height: H } = CERTIFICATE_PAGE;
+
+// New items start centred on the page with sensible defaults.
+const newItem = (type: Exclude<CertificateTemplateItemType, 'image'>, id: string): CertificateTemplateItem => {
+  switch (type) {
+    case 'text': return { id, type, x: W / 2 - 150, y: H / 2 - 12, w: 300, h: 24, text: 'New text', font: 'helvetica', size: 16, color: [17, 24, 39], align: 'center' };
+    case 'rect': return { id, type, x: W / 2 - 100, y: H / 2 - 50, w: 200, h: 100, stroke: [180, 83, 9], lineWidth: 1 };
+    case 'line': return { id, type, x: W / 2 - 100, y: H / 2, w: 200, h: 0, stroke: [180, 83, 9], lineWidth: 0.75 };
+    case 'logo': return { id, type, x: W / 2 - 100, y: 50, w: 200, h: 44, variant: 'full', color: [30, 27, 75], accent: [180, 83, 9] };
+    case 'signatories': return { id, type, x: W / 2 - 220, y: H - 160, w: 440, h: 92, align: 'center', lineColor: [180, 83, 9], labelColor: [107, 114, 128] };
+    case 'signature': return { id, type, x: W / 2 - 90, y: H / 2 - 28, w: 180, h: 56, index: 0 };
+    case 'qr': return { id, type, x: W / 2 - 38, y: H / 2 - 38, w: 76, h: 76 };
+  }
+};
+
+const nextItemId = (items: CertificateTemplateItem[]) =>
+  `item-${items.reduce((max, item) => Math.max(max, Number(item.id.replace('item-', '')) || 0), 0) + 1}`;
+
+const toHex = (c: PdfColor) => `#${c.map(v => v.toString(16).padStart(2, '0')).join('')}`;
+const fromHex = (hex: string): PdfColor => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as PdfColor;
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm';
+
+export const CertificateTemplateDesigner: React.FC<CertificateTemplateDesignerProps> = ({ courses }) => {
+  const [templates, setTemplates] = useState<CertificateTemplate[]>([]);
+  const [draft, setDraft] = useState<CertificateTemplate | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [previewCourseId, setPreviewCourseId] = useState(courses[0]?.id || '');
+  const [images, setImages] = useState<{ [key: string]: SvgImage | undefined }>({});
+  const [registry, setRegistry] = useState<Signatory[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const drag = useRef<{ id: string; mode: 'move' | 'resize'; startX: number; startY: number; origin: CertificateTemplateItem } | null>(null);
+
+  const reload = async () => setTemplates(await fetchCertificateTemplates());
+
+  useEffect(() => {
+    reload();
+    fetchSignatories().then(setRegistry);
+  }, []);
+
+  const previewCourse = courses.find(c => c.id === previewCourseId);
+  const previewSignatories = previewCourse ? getCourseSignatories(previewCourse, registry) : SAMPLE_SIGNATORIES;
+  const signatureKey = previewSignatories.map(s => s.signatureImage || '').join('|');
+  const imagePathsKey = draft ? getTemplateImagePaths(draft.definition).join('|') : '';
+
+  // Only reload images when the set of uploaded images or the preview signatures change
+  useEffect(() => {
+    if (!draft) return;
+    let cancelled = false;
+    loadTemplateImages(draft.definition, previewSignatories).then(loaded => {
+      if (!cancelled) setImages(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [imagePathsKey, signatureKey, !!draft]);
+
+  const openTemplate = (template: CertificateTemplate, asCopy: boolean) => {
+    setDraft({
+      id: asCopy ? '' : template.id,
+      name: asCopy ? `${template.name} (copy)` : template.name,
+      definition: JSON.parse(JSON.stringify(template.definition)),
+    });
+    setSelectedId(null);
+    setError(null);
+  };
+
+  const updateDefinition = (patch: Partial<CertificateTemplate['definition']>) => {
+    if (draft) setDraft({ ...draft, definition: { ...draft.definition, ...patch } });
+  };
+
+  const updateItem = (id: string, patch: Partial<CertificateTemplateItem>) => {
+    if (!draft) return;
+    updateDefinition({ items: draft.definition.items.map(item => (item.id === id ? { ...item, ...patch } as CertificateTemplateItem : item)) });
+  };
+
+  const addItem = (item: CertificateTemplateItem) => {
+    if (!draft) return;
+    updateDefinition({ items: [...draft.definition.items, item] });
+    setSelectedId(item.id);
+  };
+
+  const removeItem = (id: string) => {
+    if (!draft) return;
+    updateDefinition({ items: draft.definition.items.filter(item => item.id !== id) });
+    setSelectedId(null);
+  };
+
+  // Later items are drawn on top, so moving forward means moving towards the end of the list.
+  const moveItem = (id: string, offset: number) => {
+    if (!draft) return;
+    const items = [...draft.definition.items];
+    const index = items.findIndex(item => item.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= items.length) return;
+    [items[index], items[target]] = [items[target], items[index]];
+    updateDefinition({ items });
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!draft || !file) return;
+    if (!file.type.startsWith('image/')) {
+      setError('Choose an image file.');
+      return;
+    }
+    setIsUploading(true);
+    setError(null);
+    try {
+      const path = await uploadTemplateImage(file, draft.id || 'unsaved');
+      // The draft may have changed while uploading
+      setDraft(current => {
+        if (!current) return current;
+        const id = nextItemId(current.definition.items);
+        setSelectedId(id);
+        const image: CertificateTemplateItem = { id, type: 'image', x: W / 2 - 60, y: H / 2 - 60, w: 120, h: 120, path };
+        return { ...current, definition: { ...current.definition, items: [...current.definition.items, image] } };
+      });
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to upload image.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('Give the template a name.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveCertificateTemplate(draft);
+      setDraft({ ...saved, definition: draft.definition });
+      await reload();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save template.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: CertificateTemplate) => {
+    const usedBy = courses.filter(c => c.certificateTemplateId === template.id).length;
+    const warning = usedBy > 0 ? ` ${usedBy} training program(s) will fall back to the default template.` : '';
+    if (!window.confirm(`Delete template "${template.name}"?${warning}`)) return;
+    try {
+      await deleteCertificateTemplate(template.id);
+      if (draft?.id === template.id) setDraft(null);
+      await reload();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete template.');
+    }
+  };
+
+  // --- Dragging ---
+  // Pointer movement is converted from screen pixels to points using the rendered preview width.
+
+  const startDrag = (e: React.PointerEvent, item: CertificateTemplateItem, mode: 'move' | 'resize') => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setSelectedId(item.id);
+    drag.current = { id: item.id, mode, startX: e.clientX, startY: e.clientY, origin: item };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const state = drag.current;
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!state || !rect) return;
+    const scale = W / rect.width;
+    const dx = Math.round((e.clientX - state.startX) * scale);
+    const dy = Math.round((e.clientY - state.startY) * scale);
+    const { origin } = state;
+    if (state.mode === 'move') updateItem(state.id, { x: origin.x + dx, y: origin.y + dy });
+    else updateItem(state.id, { w: Math.max(origin.type === 'line' ? -W : 4, origin.w + dx), h: Math.max(origin.type === 'line' ? -H : 4, origin.h + dy) });
+  };
+
+  const endDrag = () => { drag.current = null; };
+
+  const renderData = getRenderData(
+    {
+      id: '',
+      serial: 'DMI-2025-SAMPLE01',
+      userId: SAMPLE_USER.id,
+      courseId: previewCourse?.id || '',
+      recipientName: SAMPLE_USER.name,
+      courseTitle: previewCourse?.title || 'Applied Data Analytics with Python',
+      issuedAt: SAMPLE_ISSUED_AT,
+    },
+    previewCourse || { instructor: 'Dr. Kwame Asante' },
+    previewSignatories
+  );
+
+  const selected = draft?.definition.items.find(item => item.id === selectedId);
+
+  const renderProperties = (item: CertificateTemplateItem) => (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2">
+        {(['x', 'y', 'w', 'h'] as const).map(key => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-500 uppercase mb-1">{key}</label>
+            <input type="number" value={item[key]} onChange={e => updateItem(item.id, { [key]: Number(e.target.value) })} className={inputClass} />
+          </div>
+        ))}
+      </div>
+
+      {item.type === 'text' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Text</label>
+            <textarea value={item.text} rows={2} onChange={e => updateItem(item.id, { text: e.target.value })} className={inputClass} />
+            <div className="flex flex-wrap gap-1 mt-1">
+              {TEMPLATE_FIELDS.map(f => (
+                <button key={f.key} type="button" onClick={() => updateItem(item.id, { text: `${item.text}{${f.key}}` })} className="text-xs px-2 py-0.5 rounded bg-indigo-50 text-indigo-700 hover:bg-indigo-100">
+                  + {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Font</label>
+              <select value={item.font} onChange={e => updateItem(item.id, { font: e.target.value as PdfFont })} className={inputClass}>
+                {FONTS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Size</label>
+              <input type="number" min={4} value={item.size} onChange={e => updateItem(item.id, { size: Math.max(4, Number(e.target.value)) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Align</label>
+              <select value={item.align} onChange={e => updateItem(item.id, { align: e.target.value as typeof item.align })} className={inputClass}>
+                <option value="left">Left</option>
+                <option value="center">Center</option>
+                <option value="right">Right</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+              <input type="color" value={toHex(item.color)} onChange={e => updateItem(item.id, { color: fromHex(e.target.value) })} className="h-9 w-full" />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Text wraps onto as many lines as the box height allows, then shrinks to fit.</p>
+        </>
+      )}
+
+      {item.type === 'rect' && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={!!item.fill} onChange={e => updateItem(item.id, { fill: e.target.checked ? [255, 255, 255] : undefined })} />
+            Fill
+          </label>
+          {item.fill ? <input type="color" value={toHex(item.fill)} onChange={e => updateItem(item.id, { fill: fromHex(e.target.value) })} className="h-9 w-full" /> : <span />}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={!!item.stroke} onChange={e => updateItem(item.id, { stroke: e.target.checked ? [17, 24, 39] : undefined })} />
+            Border
+          </label>
+          {item.stroke ? <input type="color" value={toHex(item.stroke)} onChange={e => updateItem(item.id, { stroke: fromHex(e.target.value) })} className="h-9 w-full" /> : <span />}
+          {item.stroke && (
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Border width</label>
+              <input type="number" min={0.25} step={0.25} value={item.lineWidth ?? 1} onChange={e => updateItem(item.id, { lineWidth: Number(e.target.value) })} className={inputClass} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {item.type === 'line' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+            <input type="color" value={toHex(item.stroke)} onChange={e => updateItem(item.id, { stroke: fromHex(e.target.value) })} className="h-9 w-full" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Width</label>
+            <input type="number" min={0.25} step={0.25} value={item.lineWidth} onChange={e => updateItem(item.id, { lineWidth: Number(e.target.value) })} className={inputClass} />
+          </div>
+        </div>
+      )}
+
+      {item.type === 'logo' && (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Style</label>
+            <select value={item.variant} onChange={e => updateItem(item.id, { variant: e.target.value as typeof item.variant })} className={inputClass}>
+              <option value="full">Full</option>
+              <option value="mark">Mark</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input type="color" value={toHex(item.color)} onChange={e => updateItem(item.id, { color: fromHex(e.target.value) })} className="h-9 w-full" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Accent</label>
+            <input type="color" value={toHex(item.accent)} onChange={e => updateItem(item.id, { accent: fromHex(e.target.value) })} className="h-9 w-full" />
+          </div>
+        </div>
+      )}
+
+      {item.type === 'signatories' && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Align</label>
+              <select value={item.align} onChange={e => updateItem(item.id, { align: e.target.value as typeof item.align })} className={inputClass}>
+                <option value="left">Left</option>
+                <option value="center">Center</option>
+                <option value="right">Right</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Line</label>
+              <input type="color" value={toHex(item.lineColor)} onChange={e => updateItem(item.id, { lineColor: fromHex(e.target.value) })} className="h-9 w-full" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Titles</label>
+              <input type="color" value={toHex(item.labelColor)} onChange={e => updateItem(item.id, { labelColor: fromHex(e.target.value) })} className="h-9 w-full" />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Each of the program's signatories gets a column with their signature, a line, their name and title. Programs without signatories show the instructor.</p>
+        </>
+      )}
+      {item.type === 'signature' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Signatory</label>
+            <select value={item.index || 0} onChange={e => updateItem(item.id, { index: Number(e.target.value) })} className={inputClass}>
+              {[0, 1, 2, 3].map(i => <option key={i} value={i}>Signatory {i + 1}</option>)}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500">Only the signature image, or the signatory's name when none was uploaded. Nothing is drawn if the program has fewer signatories.</p>
+        </>
+      )}
+      {item.type === 'qr' && <p className="text-xs text-gray-500">Links to the certificate's public verification page.</p>}
+      {item.type === 'image' && <p className="text-xs text-gray-500">Images keep their aspect ratio inside the box.</p>}
+
+      <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-100">
+        <Button size="sm" variant="outline" onClick={() => moveItem(item.id, 1)}>Bring Forward</Button>
+        <Button size="sm" variant="outline" onClick={() => moveItem(item.id, -1)}>Send Back</Button>
+        <Button size="sm" variant="danger" onClick={() => removeItem(item.id)}>Delete</Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Certificate Templates</h1>
+        {draft && (
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => setDraft(null)}>Close</Button>
+            <Button onClick={handleSave} isLoading={isSaving}>{draft.id ? 'Save Template' : 'Create Template'}</Button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mb-6 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      {!draft ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[...BUILT_IN_TEMPLATES, ...templates].map(t => {
+            const usedBy = courses.filter(c => c.certificateTemplateId === t.id).map(c => c.title);
+            return (
+              <div key={t.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <img src={getCertificateSvgUrl(renderData, t.definition)} alt={t.name} className="w-full border-b border-gray-100" />
+                <div className="p-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <h2 className="font-semibold text-gray-900 truncate">{t.name}</h2>
+                    {t.builtIn && <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Built-in</span>}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1 truncate">{usedBy.length > 0 ? `Default for ${usedBy.join(', ')}` : 'Not assigned to a program'}</p>
+                  <div className="flex gap-3 mt-3 text-sm font-medium">
+                    {!t.builtIn && <button onClick={() => openTemplate(t, false)} className="text-indigo-600 hover:text-indigo-800">Edit</button>}
+                    <button onClick={() => openTemplate(t, true)} className="text-indigo-600 hover:text-indigo-800">Duplicate</button>
+                    {!t.builtIn && <button onClick={() => handleDelete(t)} className="text-red-600 hover:text-red-800">Delete</button>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {(['text', 'logo', 'signatories', 'signature', 'qr', 'rect', 'line'] as const).map(type => (
+                <Button key={type} size="sm" variant="outline" onClick={() => addItem(newItem(type, nextItemId(draft.definition.items)))}>+ {ITEM_LABELS[type]}</Button>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => imageInputRef.current?.click()} isLoading={isUploading}>+ Image</Button>
+              <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+            </div>
+
+            <div
+              ref={canvasRef}
+              className="relative select-none shadow-lg"
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerDown={() => setSelectedId(null)}
+            >
+              <img src={getCertificateSvgUrl(renderData, draft.definition, images)} alt="Template preview" className="w-full h-auto block" draggable={false} />
+              {draft.definition.items.map(item => {
+                const x = Math.min(item.x, item.x + item.w);
+                const y = Math.min(item.y, item.y + item.h);
+                return (
+                  <div
+                    key={item.id}
+                    onPointerDown={e => startDrag(e, item, 'move')}
+                    title={ITEM_LABELS[item.type]}
+                    className={`absolute cursor-move ${item.id === selectedId ? 'outline outline-2 outline-indigo-500' : 'hover:outline hover:outline-1 hover:outline-indigo-300'}`}
+                    style={{
+                      left: `${(x / W) * 100}%`,
+                      top: `${(y / H) * 100}%`,
+                      width: `${(Math.abs(item.w) / W) * 100}%`,
+                      height: `${(Math.abs(item.h) / H) * 100}%`,
+                      minWidth: 6,
+                      minHeight: 6,
+                    }}
+                  >
+                    {item.id === selectedId && (
+                      <span onPointerDown={e => startDrag(e, item, 'resize')} className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-indigo-500 border border-white cursor-nwse-resize" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500">Drag items to move them; drag the corner handle to resize. Positions are in points on an A4 landscape page ({W} x {H}).</p>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Template Name</label>
+                <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Background</label>
+                <input type="color" value={toHex(draft.definition.background)} onChange={e => updateDefinition({ background: fromHex(e.target.value) })} className="h-9 w-full" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Preview Program</label>
+                <select value={previewCourseId} onChange={e => setPreviewCourseId(e.target.value)} className={inputClass}>
+                  <option value="">Sample program</option>
+                  {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="font-semibold text-gray-900">{selected ? ITEM_LABELS[selected.type] : 'Items'}</h2>
+                {selected && <button onClick={() => setSelectedId(null)} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium">All items</button>}
+              </div>
+              {selected ? renderProperties(selected) : (
+                <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                  {[...draft.definition.items].reverse().map(item => (
+                    <li key={item.id}>
+                      <button onClick={() => setSelectedId(item.id)} className="w-full text-left py-1.5 text-sm text-gray-700 hover:text-indigo-600 truncate">
+                        {ITEM_LABELS[item.type]}{item.type === 'text' ? `: ${item.text}` : ''}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
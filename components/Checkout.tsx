@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Cohort, Coupon, Course, PaymentMethod } from '../types';
+import { Button } from './Button';
+import { PAYMENT_METHODS, CheckoutSession, startCheckout, completeMockPayment, isMockPaymentsEnabled, formatAmount } from '../services/paymentService';
+import { formatCohortDates } from '../services/cohortService';
+import { previewCoupon, quoteCoursePrice, isCouponApplicable, describeCoupon } from '../services/couponService';
+
+interface CheckoutProps {
+  course: Course;
+  cohort?: Cohort; // Required for programs that run in cohorts
+  coupons: Coupon[]; // Entered and assigned coupons; the best applicable one is used
+  onApplyCoupon: (coupon: Coupon | null) => void;
+  onCancel: () => void;
+  onOrderSettled: (orderId: string) => void;
+  onEnrolled: () => void;
+}
+
+export const Checkout: React.FC<CheckoutProps> = ({ course, cohort, coupons, onApplyCoupon, onCancel, onOrderSettled, onEnrolled }) => {
+  const methods = PAYMENT_METHODS.filter(m => !m.devOnly || isMockPaymentsEnabled());
+  const [method, setMethod] = useState<PaymentMethod>(methods[0].id);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mockSession, setMockSession] = useState<CheckoutSession | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState(false);
+
+  const quote = quoteCoursePrice(course, coupons);
+  const appliedCoupon = coupons.find(c => c.code === quote.couponCode);
+  const isFree = quote.finalPrice <= 0;
+
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponInput.trim()) return;
+    setIsCheckingCoupon(true);
+    setCouponError(null);
+    try {
+      const coupon = await previewCoupon(couponInput);
+      if (!isCouponApplicable(coupon, course)) {
+        setCouponError('This coupon code does not apply to this training program.');
+        return;
+      }
+      onApplyCoupon(coupon);
+      setCouponInput('');
+    } catch (err: any) {
+      setCouponError(err.message || 'This coupon code is not valid.');
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
+  const handlePay = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const session = await startCheckout(course.id, method, quote.couponCode, cohort?.id);
+      if (session.enrolled) {
+        onEnrolled();
+        return;
+      }
+      if (session.checkoutUrl) {
+        // Hosted provider page; it redirects back to /orders/:orderId when done
+        window.location.href = session.checkoutUrl;
+        return;
+      }
+      setMockSession(session);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not start the payment. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMockResult = async (succeeded: boolean) => {
+    if (!mockSession?.reference || !mockSession.orderId) return;
+    setIsSubmitting(true);
+    try {
+      await completeMockPayment(mockSession.reference, succeeded);
+      onOrderSettled(mockSession.orderId);
+    } catch (err) {
+      console.error(err);
+      setError('Mock provider could not confirm the payment.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-12 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        <div className="bg-indigo-900 px-6 py-4 border-b border-indigo-800">
+          <h2 className="text-xl font-bold text-white">Checkout</h2>
+        </div>
+
+        <div className="p-6 grid grid-cols-1 md:grid-cols-5 gap-6">
+          <div className="md:col-span-3 space-y-4">
+            <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Payment Method</h3>
+            {isFree ? (
+              <div className="p-4 rounded-lg border border-green-200 bg-green-50 text-sm text-green-800">
+                {appliedCoupon?.kind === 'scholarship' ? 'Your scholarship' : `Coupon ${quote.couponCode}`} covers the full fee. No payment is needed.
+              </div>
+            ) : mockSession ? (
+              <div className="p-4 rounded-lg border border-yellow-200 bg-yellow-50 space-y-3">
+                <p className="text-sm text-yellow-800">
+                  Test payment <span className="font-mono">{mockSession.reference}</span> is waiting for the mock provider.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="secondary" isLoading={isSubmitting} onClick={() => handleMockResult(true)}>Simulate Success</Button>
+                  <Button size="sm" variant="danger" disabled={isSubmitting} onClick={() => handleMockResult(false)}>Simulate Failure</Button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {methods.map(m => (
+                  <label
+                    key={m.id}
+                    className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors ${method === m.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <input type="radio" name="method" value={m.id} checked={method === m.id} onChange={() => setMethod(m.id)} className="mt-1 text-indigo-600 focus:ring-indigo-500" />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900">{m.label}</span>
+                      <span className="block text-xs text-gray-500">{m.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+          </div>
+
+          <div className="md:col-span-2">
+            <div className="bg-gray-50 rounded-lg border border-gray-200 p-4">
+              <img src={course.image} alt={course.title} className="w-full h-28 object-cover rounded-md mb-3" />
+              <p className="font-semibold text-gray-900">{course.title}</p>
+              <p className={`text-xs text-gray-500 ${cohort ? 'mb-1' : 'mb-4'}`}>{course.level} · {course.duration}</p>
+              {cohort && <p className="text-xs text-indigo-700 mb-4">{cohort.name} cohort · {formatCohortDates(cohort)}</p>}
+              {quote.discount > 0 && (
+                <div className="space-y-1 border-t border-gray-200 pt-3 mb-3 text-sm">
+                  <div className="flex items-center justify-between text-gray-500">
+                    <span>Price</span>
+                    <span>{formatAmount(quote.originalPrice)}</span>
+                  </div>
+                  <div className="flex items-center justify-between text-green-700">
+                    <span className="flex items-center gap-2">
+                      {quote.couponCode} <span className="text-xs">({appliedCoupon ? describeCoupon(appliedCoupon) : 'discount'})</span>
+                      {!appliedCoupon?.recipientEmail && !mockSession && (
+                        <button onClick={() => onApplyCoupon(null)} className="text-xs text-gray-400 hover:text-red-600" title="Remove coupon">&times;</button>
+                      )}
+                    </span>
+                    <span>- {formatAmount(quote.discount)}</span>
+                  </div>
+                </div>
+              )}
+              <div className="flex items-center justify-between border-t border-gray-200 pt-3">
+                <span className="text-sm text-gray-500">Total</span>
+                <span className="text-xl font-bold text-gray-900">{formatAmount(quote.finalPrice)}</span>
+              </div>
+            </div>
+            {!mockSession && !isFree && (
+              <form onSubmit={handleApplyCoupon} className="mt-3">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={couponInput}
+                    onChange={e => setCouponInput(e.target.value.toUpperCase())}
+                    placeholder="Coupon code"
+                    className="flex-1 min-w-0 rounded-md border border-gray-300 px-3 py-2 text-sm font-mono uppercase"
+                  />
+                  <Button type="submit" size="sm" variant="outline" isLoading={isCheckingCoupon}>Apply</Button>
+                </div>
+                {couponError && <p className="text-xs text-red-600 mt-1">{couponError}</p>}
+              </form>
+            )}
+            <p className="text-xs text-gray-400 mt-3">You will be enrolled as soon as the payment provider confirms your payment.</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-100">
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>Cancel</Button>
+          {!mockSession && (
+            <Button onClick={handlePay} isLoading={isSubmitting}>{isFree ? 'Confirm Registration' : `Pay ${formatAmount(quote.finalPrice)}`}</Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
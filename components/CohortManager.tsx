@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { Cohort, Course } from '../types';
+import { Button } from './Button';
+import { saveCohort, deleteCohort, formatCohortDates, formatCohortDate, registrationCloses, isRegistrationOpen } from '../services/cohortService';
+
+interface CohortManagerProps {
+  courses: Course[]; // Programs the current user manages
+  onChanged: () => Promise<void> | void; // Reload courses (and their cohorts) after a change
+}
+
+type CohortDraft = Omit<Cohort, 'id' | 'seatsTaken' | 'waitlisted'> & { id?: string };
+
+const emptyCohort = (courseId: string): CohortDraft => ({ courseId, name: '', startsOn: '' });
+
+export const CohortManager: React.FC<CohortManagerProps> = ({ courses, onChanged }) => {
+  const [courseId, setCourseId] = useState(courses[0]?.id || '');
+  const [draft, setDraft] = useState<CohortDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!courseId && courses.length > 0) setCourseId(courses[0].id);
+  }, [courses]);
+
+  const course = courses.find(c => c.id === courseId);
+  const cohorts = course?.cohorts || [];
+
+  const openEditor = (cohort: Cohort | null) => {
+    setDraft(cohort
+      ? { id: cohort.id, courseId: cohort.courseId, name: cohort.name, startsOn: cohort.startsOn, endsOn: cohort.endsOn, registrationDeadline: cohort.registrationDeadline, capacity: cohort.capacity }
+      : emptyCohort(courseId));
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.startsOn) {
+      setError('Name and start date are required.');
+      return;
+    }
+    if (draft.endsOn && draft.endsOn < draft.startsOn) {
+      setError('The end date must be on or after the start date.');
+      return;
+    }
+    if (draft.registrationDeadline && draft.registrationDeadline > draft.startsOn) {
+      setError('Registration must close on or before the start date.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveCohort({ ...draft, name: draft.name.trim() });
+      setDraft(null);
+      await onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save cohort.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (cohort: Cohort) => {
+    const warning = cohort.seatsTaken > 0
+      ? ` Its ${cohort.seatsTaken} enrolled students stay registered without a cohort, and its waitlist is cleared.`
+      : '';
+    if (!window.confirm(`Delete the ${cohort.name} cohort?${warning}`)) return;
+    try {
+      await deleteCohort(cohort.id);
+      await onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete cohort.');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Cohorts</h1>
+          <p className="text-sm text-gray-500 mt-1">Scheduled runs of a program. Programs without cohorts are self-paced. When a full cohort frees a seat, the next student on its waitlist gets it.</p>
+        </div>
+        <div className="flex gap-3">
+          <select value={courseId} onChange={e => { setCourseId(e.target.value); setDraft(null); }} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+          <Button onClick={() => openEditor(null)} disabled={!courseId}>New Cohort</Button>
+        </div>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-900">{draft.id ? `Edit ${draft.name}` : `New cohort of ${course?.title}`}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} required className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="e.g. January 2027" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+              <input
+                type="number"
+                min={1}
+                value={draft.capacity ?? ''}
+                onChange={e => setDraft({ ...draft, capacity: e.target.value === '' ? undefined : Math.max(1, Number(e.target.value)) })}
+                className="w-full rounded-md border border-gray-300 px-3 py-2"
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+              <input type="date" value={draft.startsOn} onChange={e => setDraft({ ...draft, startsOn: e.target.value })} required className="w-full rounded-md border border-gray-300 px-3 py-2" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+              <input type="date" value={draft.endsOn || ''} onChange={e => setDraft({ ...draft, endsOn: e.target.value || undefined })} className="w-full rounded-md border border-gray-300 px-3 py-2" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Registration Deadline</label>
+              <input type="date" value={draft.registrationDeadline || ''} onChange={e => setDraft({ ...draft, registrationDeadline: e.target.value || undefined })} className="w-full rounded-md border border-gray-300 px-3 py-2" />
+              <p className="text-xs text-gray-500 mt-1">Defaults to the start date.</p>
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button type="submit" isLoading={isSaving}>Save Cohort</Button>
+          </div>
+        </form>
+      )}
+
+      {!draft && error && <p className="mb-6 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {cohorts.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Cohort</th>
+                <th className="px-6 py-3">Registration</th>
+                <th className="px-6 py-3">Seats</th>
+                <th className="px-6 py-3">Waitlist</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {cohorts.map(cohort => (
+                <tr key={cohort.id}>
+                  <td className="px-6 py-3">
+                    <p className="font-medium text-gray-900">{cohort.name}</p>
+                    <p className="text-xs text-gray-500">{formatCohortDates(cohort)}</p>
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">
+                    {isRegistrationOpen(cohort) ? `Open until ${formatCohortDate(registrationCloses(cohort))}` : 'Closed'}
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">{cohort.capacity ? `${cohort.seatsTaken} / ${cohort.capacity}` : `${cohort.seatsTaken} (unlimited)`}</td>
+                  <td className="px-6 py-3 text-gray-600">{cohort.waitlisted}</td>
+                  <td className="px-6 py-3 text-right whitespace-nowrap">
+                    <button onClick={() => openEditor(cohort)} className="text-indigo-600 hover:text-indigo-800 font-medium mr-4">Edit</button>
+                    <button onClick={() => handleDelete(cohort)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="p-6 text-sm text-gray-500">{course ? `${course.title} has no cohorts and is self-paced.` : 'No training programs to schedule.'}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Cohort, Course, WaitlistEntry } from '../types';
+import { Button } from './Button';
+import { getOpenCohorts, seatsLeft, isFull, formatCohortDates, formatCohortDate, registrationCloses } from '../services/cohortService';
+
+interface CohortPickerProps {
+  course: Course;
+  waitlist: WaitlistEntry[]; // The student's waitlist entries
+  onChoose: (cohort: Cohort) => Promise<void> | void;
+  onJoinWaitlist: (cohort: Cohort) => Promise<void>;
+  onClose: () => void;
+}
+
+// Lets a student pick the run of a program to register for, or queue for a full one.
+export const CohortPicker: React.FC<CohortPickerProps> = ({ course, waitlist, onChoose, onJoinWaitlist, onClose }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cohorts = getOpenCohorts(course);
+
+  const run = async (cohort: Cohort, action: (cohort: Cohort) => Promise<void> | void) => {
+    setBusyId(cohort.id);
+    setError(null);
+    try {
+      await action(cohort);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+        <h3 className="text-lg font-bold text-gray-900">Choose a cohort</h3>
+        <p className="text-sm text-gray-500 mt-1">{course.title} runs in scheduled cohorts. Pick the one you want to join.</p>
+
+        {cohorts.length > 0 ? (
+          <ul className="mt-6 space-y-3">
+            {cohorts.map(cohort => {
+              const left = seatsLeft(cohort);
+              const isWaiting = waitlist.some(w => w.cohortId === cohort.id);
+              return (
+                <li key={cohort.id} className="flex items-center gap-4 p-4 rounded-lg border border-gray-200">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-900">{cohort.name}</p>
+                    <p className="text-sm text-gray-600">{formatCohortDates(cohort)}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Register by {formatCohortDate(registrationCloses(cohort))}
+                      {left === undefined ? '' : isFull(cohort) ? ` · Full${cohort.waitlisted ? `, ${cohort.waitlisted} waiting` : ''}` : ` · ${left} of ${cohort.capacity} seats left`}
+                    </p>
+                  </div>
+                  {isWaiting ? (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">On waitlist</span>
+                  ) : isFull(cohort) ? (
+                    <Button size="sm" variant="outline" isLoading={busyId === cohort.id} disabled={!!busyId} onClick={() => run(cohort, onJoinWaitlist)}>Join Waitlist</Button>
+                  ) : (
+                    <Button size="sm" isLoading={busyId === cohort.id} disabled={!!busyId} onClick={() => run(cohort, onChoose)}>Choose</Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="mt-6 p-4 rounded-lg bg-gray-50 border border-gray-200 text-sm text-gray-600">No cohorts are open for registration right now. Check back soon.</p>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+        <div className="flex justify-end mt-6">
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { CompletionReview, EnrollmentStatusChange, ReviewChecklistItem } from '../types';
+import { Button } from './Button';
+import { fetchStatusHistory, DEFAULT_REVIEW_CHECKLIST, STATUS_LABELS } from '../services/reviewService';
+
+interface CompletionReviewModalProps {
+  userId: string;
+  courseId: string;
+  studentName: string;
+  courseTitle: string;
+  progress: number;
+  onDecision: (decision: CompletionReview['status'], note: string, checklist: ReviewChecklistItem[]) => Promise<void>;
+  onClose: () => void;
+}
+
+export const CompletionReviewModal: React.FC<CompletionReviewModalProps> = ({ userId, courseId, studentName, courseTitle, progress, onDecision, onClose }) => {
+  const [history, setHistory] = useState<EnrollmentStatusChange[]>([]);
+  const [checklist, setChecklist] = useState<ReviewChecklistItem[]>(
+    DEFAULT_REVIEW_CHECKLIST.map((label, i) => ({ label, met: i === 0 && progress >= 100 }))
+  );
+  const [newItem, setNewItem] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState<CompletionReview['status'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStatusHistory(userId, courseId).then(setHistory);
+  }, [userId, courseId]);
+
+  const addItem = () => {
+    if (!newItem.trim()) return;
+    setChecklist(prev => [...prev, { label: newItem.trim(), met: false }]);
+    setNewItem('');
+  };
+
+  const decide = async (decision: CompletionReview['status']) => {
+    if (decision === 'rejected' && !note.trim()) {
+      setError('Tell the student why so they can resubmit.');
+      return;
+    }
+    setSaving(decision);
+    setError(null);
+    try {
+      await onDecision(decision, note, checklist);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save the review.');
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6">
+        <h3 className="text-lg font-bold text-gray-900">Review Completion Request</h3>
+        <p className="text-sm text-gray-500 mt-1">{studentName} · {courseTitle} · {progress}% of lessons completed</p>
+
+        <div className="mt-6">
+          <p className="text-sm font-medium text-gray-700 mb-2">Checklist</p>
+          <ul className="space-y-2">
+            {checklist.map((item, i) => (
+              <li key={i} className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={item.met}
+                  onChange={e => setChecklist(prev => prev.map((it, j) => j === i ? { ...it, met: e.target.checked } : it))}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600"
+                />
+                <span className={`flex-1 text-sm ${item.met ? 'text-gray-900' : 'text-gray-600'}`}>{item.label}</span>
+                <button onClick={() => setChecklist(prev => prev.filter((_, j) => j !== i))} className="text-xs text-gray-400 hover:text-red-600">Remove</button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2 mt-3">
+            <input
+              value={newItem}
+              onChange={e => setNewItem(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addItem(); } }}
+              placeholder="Add a requirement"
+              className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+            />
+            <Button size="sm" variant="outline" onClick={addItem} disabled={!newItem.trim()}>Add</Button>
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Feedback for the student (required to reject)</label>
+          <textarea value={note} onChange={e => setNote(e.target.value)} rows={3} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" placeholder="e.g. The capstone project is missing its final report." />
+        </div>
+
+        {history.length > 0 && (
+          <div className="mt-6">
+            <p className="text-sm font-medium text-gray-700 mb-2">History</p>
+            <ol className="border-l-2 border-gray-200 pl-4 space-y-3">
+              {history.map(change => (
+                <li key={change.id} className="text-sm">
+                  <p className="text-gray-900">
+                    {change.fromStatus ? `${STATUS_LABELS[change.fromStatus] || change.fromStatus} → ` : ''}
+                    <span className="font-medium">{STATUS_LABELS[change.toStatus] || change.toStatus}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">{change.actorName || 'System'} · {new Date(change.createdAt).toLocaleString()}</p>
+                  {change.note && <p className="text-gray-600 mt-1">“{change.note}”</p>}
+                  {change.checklist.some(item => !item.met) && (
+                    <p className="text-xs text-gray-500 mt-1">Not met: {change.checklist.filter(item => !item.met).map(item => item.label).join(', ')}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+        <div className="flex justify-end gap-3 mt-6">
+          <Button variant="outline" onClick={onClose} disabled={!!saving}>Cancel</Button>
+          <Button variant="danger" onClick={() => decide('rejected')} isLoading={saving === 'rejected'} disabled={!!saving}>Reject</Button>
+          <Button variant="secondary" onClick={() => decide('completed')} isLoading={saving === 'completed'} disabled={!!saving}>Approve</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
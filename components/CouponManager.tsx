@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { Coupon, CouponRedemption, Course, CourseLevel } from '../types';
+import { Button } from './Button';
+import { DISCOUNT_KINDS, describeCoupon, fetchCoupons, fetchRedemptions, saveCoupon, deleteCoupon, normalizeCouponCode } from '../services/couponService';
+import { formatAmount } from '../services/paymentService';
+
+interface CouponManagerProps {
+  courses: Course[];
+}
+
+const EMPTY_COUPON: Coupon = {
+  code: '',
+  kind: 'percent',
+  value: 10,
+  courseIds: [],
+  levels: [],
+  active: true,
+};
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+export const CouponManager: React.FC<CouponManagerProps> = ({ courses }) => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [redemptions, setRedemptions] = useState<CouponRedemption[]>([]);
+  const [draft, setDraft] = useState<Coupon | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = async () => {
+    const [couponRows, redemptionRows] = await Promise.all([fetchCoupons(), fetchRedemptions()]);
+    setCoupons(couponRows);
+    setRedemptions(redemptionRows);
+  };
+
+  useEffect(() => { reload(); }, []);
+
+  const openEditor = (coupon: Coupon | null) => {
+    setDraft(coupon ? { ...coupon } : { ...EMPTY_COUPON });
+    setIsNew(!coupon);
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const code = normalizeCouponCode(draft.code);
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      setError('Codes are 3-32 letters, digits, dashes or underscores.');
+      return;
+    }
+    if (isNew && coupons.some(c => c.code === code)) {
+      setError('A coupon with this code already exists.');
+      return;
+    }
+    if (draft.kind === 'percent' && (draft.value <= 0 || draft.value > 100)) {
+      setError('Percentage must be between 1 and 100.');
+      return;
+    }
+    if (draft.kind === 'fixed' && draft.value <= 0) {
+      setError('Discount amount must be greater than zero.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveCoupon({ ...draft, code });
+      setDraft(null);
+      await reload();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save coupon.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      await saveCoupon({ ...coupon, active: !coupon.active });
+      await reload();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!window.confirm(`Delete coupon ${coupon.code}?`)) return;
+    try {
+      await deleteCoupon(coupon.code);
+      await reload();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const courseTitle = (id: string) => courses.find(c => c.id === id)?.title || id;
+
+  const describeScope = (coupon: Coupon) => {
+    const parts: string[] = [];
+    if (coupon.courseIds.length > 0) parts.push(coupon.courseIds.map(courseTitle).join(', '));
+    if (coupon.levels.length > 0) parts.push(coupon.levels.join(', '));
+    return parts.length > 0 ? parts.join(' · ') : 'All training programs';
+  };
+
+  const discountByCoupon = redemptions.reduce<{ [code: string]: number }>((acc, r) => {
+    acc[r.couponCode] = (acc[r.couponCode] || 0) + r.discountAmount;
+    return acc;
+  }, {});
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Coupons &amp; Scholarships</h1>
+        <Button onClick={() => openEditor(null)}>New Coupon</Button>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-900">{isNew ? 'New Coupon' : `Edit ${draft.code}`}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+              <input type="text" value={draft.code} disabled={!isNew} onChange={e => setDraft({ ...draft, code: e.target.value.toUpperCase() })} required className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono uppercase disabled:bg-gray-100" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input type="text" value={draft.description || ''} onChange={e => setDraft({ ...draft, description: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="e.g. Early bird 2025" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as Coupon['kind'] })} className="w-full rounded-md border border-gray-300 px-3 py-2">
+                {DISCOUNT_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+              </select>
+            </div>
+            {draft.kind !== 'scholarship' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{draft.kind === 'percent' ? 'Percentage (%)' : 'Amount (GHC)'}</label>
+                <input type="number" min={0} step="0.01" value={draft.value} onChange={e => setDraft({ ...draft, value: Number(e.target.value) })} className="w-full rounded-md border border-gray-300 px-3 py-2" />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires On</label>
+              <input
+                type="date"
+                value={draft.expiresAt ? draft.expiresAt.slice(0, 10) : ''}
+                onChange={e => setDraft({ ...draft, expiresAt: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : undefined })}
+                className="w-full rounded-md border border-gray-300 px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Redemptions</label>
+              <input type="number" min={1} value={draft.maxRedemptions ?? ''} onChange={e => setDraft({ ...draft, maxRedemptions: e.target.value ? Number(e.target.value) : undefined })} className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="Unlimited" />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Recipient Email</label>
+              <input type="email" value={draft.recipientEmail || ''} onChange={e => setDraft({ ...draft, recipientEmail: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="Leave empty for a shareable code" />
+              <p className="text-xs text-gray-500 mt-1">Assigned coupons are applied automatically for that student.</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Training Programs <span className="text-gray-400 font-normal">(none selected = all)</span></p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {courses.map(c => (
+                <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={draft.courseIds.includes(c.id)} onChange={() => setDraft({ ...draft, courseIds: toggle(draft.courseIds, c.id) })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                  {c.title}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Levels <span className="text-gray-400 font-normal">(none selected = all)</span></p>
+            <div className="flex gap-4">
+              {Object.values(CourseLevel).map(level => (
+                <label key={level} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={draft.levels.includes(level)} onChange={() => setDraft({ ...draft, levels: toggle(draft.levels, level) })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                  {level}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button type="submit" isLoading={isSaving}>Save Coupon</Button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {coupons.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Code</th>
+                <th className="px-6 py-3">Discount</th>
+                <th className="px-6 py-3">Applies To</th>
+                <th className="px-6 py-3 text-right">Redeemed</th>
+                <th className="px-6 py-3 text-right">Total Discount</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {coupons.map(coupon => {
+                const expired = coupon.expiresAt && new Date(coupon.expiresAt) < new Date();
+                return (
+                  <tr key={coupon.code} className={coupon.active && !expired ? '' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-6 py-4">
+                      <p className="font-mono font-semibold text-gray-900">{coupon.code}</p>
+                      <p className="text-xs text-gray-500">
+                        {coupon.description || (coupon.recipientEmail ? `For ${coupon.recipientEmail}` : '')}
+                        {expired ? ' · Expired' : coupon.expiresAt ? ` · Until ${new Date(coupon.expiresAt).toLocaleDateString()}` : ''}
+                        {!coupon.active && ' · Inactive'}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">{describeCoupon(coupon)}</td>
+                    <td className="px-6 py-4 text-gray-600">{describeScope(coupon)}</td>
+                    <td className="px-6 py-4 text-right">{coupon.redemptionCount || 0}{coupon.maxRedemptions ? ` / ${coupon.maxRedemptions}` : ''}</td>
+                    <td className="px-6 py-4 text-right">{formatAmount(discountByCoupon[coupon.code] || 0)}</td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap space-x-3">
+                      <button onClick={() => openEditor(coupon)} className="text-indigo-600 hover:text-indigo-800 font-medium">Edit</button>
+                      <button onClick={() => handleToggleActive(coupon)} className="text-gray-600 hover:text-gray-900 font-medium">{coupon.active ? 'Deactivate' : 'Activate'}</button>
+                      {!coupon.redemptionCount && (
+                        <button onClick={() => handleDelete(coupon)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No coupons yet</div>
+        )}
+      </div>
+
+      {redemptions.length > 0 && (
+        <div className="mt-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+            <h2 className="text-lg font-bold text-gray-900">Recent Redemptions</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {redemptions.slice(0, 50).map(r => (
+              <li key={r.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <div>
+                  <p className="text-gray-900"><span className="font-mono font-semibold">{r.couponCode}</span> · {courseTitle(r.courseId)}</p>
+                  <p className="text-gray-500">{new Date(r.createdAt).toLocaleDateString()}</p>
+                </div>
+                <p className="text-gray-600">
+                  <span className="line-through text-gray-400 mr-2">{formatAmount(r.originalPrice)}</span>
+                  <span className="font-semibold text-gray-900">{formatAmount(r.finalPrice)}</span>
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
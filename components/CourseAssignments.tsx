@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Assignment, AssignmentSubmission, Course, User } from '../types';
+import { Button } from './Button';
+import {
+  fetchAssignments, fetchMySubmissions, submitAssignment, getSubmissionFileUrl, getRubricTotal, isOverdue, MAX_SUBMISSION_MB,
+} from '../services/assignmentService';
+
+interface CourseAssignmentsProps {
+  course: Course;
+  user: User;
+  onBack: () => void;
+}
+
+interface SubmissionFormProps {
+  assignment: Assignment;
+  previous?: AssignmentSubmission;
+  onSubmitted: (submission: AssignmentSubmission) => void;
+}
+
+const SubmissionForm: React.FC<SubmissionFormProps> = ({ assignment, previous, onSubmitted }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [linkUrl, setLinkUrl] = useState(previous?.linkUrl || '');
+  const [note, setNote] = useState(previous?.note || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const acceptsFile = assignment.submissionType !== 'link';
+  const acceptsLink = assignment.submissionType !== 'file';
+  const hasWork = !!file || !!linkUrl.trim() || (acceptsFile && !!previous?.filePath);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (linkUrl.trim() && !/^https?:\/\//i.test(linkUrl.trim())) {
+      setError('Links must start with http:// or https://');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      onSubmitted(await submitAssignment(assignment, { file: file || undefined, linkUrl, note }, previous));
+      setFile(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to submit your work.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3 border-t border-gray-100 pt-4">
+      {acceptsFile && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">File (max {MAX_SUBMISSION_MB} MB)</label>
+          <input type="file" onChange={e => setFile(e.target.files?.[0] || null)} className="block w-full text-sm text-gray-600" />
+          {previous?.fileName && !file && <p className="text-xs text-gray-500 mt-1">Current file: {previous.fileName}</p>}
+        </div>
+      )}
+      {acceptsLink && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Link</label>
+          <input value={linkUrl} onChange={e => setLinkUrl(e.target.value)} placeholder="https://github.com/you/project" className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Note for the grader (optional)</label>
+        <textarea value={note} onChange={e => setNote(e.target.value)} rows={2} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex items-center justify-end gap-3">
+        {previous && <p className="text-xs text-gray-500">Resubmitting replaces your previous work and its grade.</p>}
+        <Button type="submit" size="sm" isLoading={isSaving} disabled={!hasWork}>{previous ? 'Resubmit' : 'Submit'}</Button>
+      </div>
+    </form>
+  );
+};
+
+export const CourseAssignments: React.FC<CourseAssignmentsProps> = ({ course, user, onBack }) => {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null); // Assignment id whose form is open
+
+  useEffect(() => {
+    Promise.all([fetchAssignments(course.id), fetchMySubmissions(user.id, course.id)]).then(([loadedAssignments, loadedSubmissions]) => {
+      setAssignments(loadedAssignments);
+      setSubmissions(loadedSubmissions);
+      setIsLoading(false);
+    });
+  }, [course.id, user.id]);
+
+  const handleSubmitted = (submission: AssignmentSubmission) => {
+    setSubmissions(prev => [...prev.filter(s => s.assignmentId !== submission.assignmentId), submission]);
+    setEditing(null);
+  };
+
+  const openFile = async (submission: AssignmentSubmission) => {
+    const url = await getSubmissionFileUrl(submission);
+    if (url) window.open(url, '_blank', 'noopener');
+  };
+
+  const passedCount = assignments.filter(a => submissions.some(s => s.assignmentId === a.id && s.passed)).length;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <button onClick={onBack} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-4">← Back to dashboard</button>
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-2 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Assignments</h1>
+          <p className="text-gray-500 mt-1">{course.title}</p>
+        </div>
+        {assignments.length > 0 && <p className="text-sm text-gray-600">{passedCount} of {assignments.length} passed</p>}
+      </div>
+
+      {course.requirePassingAssignments && assignments.length > 0 && (
+        <div className="mb-6 rounded-lg border border-indigo-200 bg-indigo-50 p-4 text-sm text-indigo-800">
+          Pass every assignment before requesting completion of this training program.
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : assignments.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 bg-white rounded-xl border border-gray-200">This training program has no assignments.</div>
+      ) : (
+        <div className="space-y-6">
+          {assignments.map(assignment => {
+            const submission = submissions.find(s => s.assignmentId === assignment.id);
+            const total = getRubricTotal(assignment.rubric);
+            const isGraded = submission?.score !== undefined;
+            return (
+              <div key={assignment.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-bold text-gray-900">{assignment.title}</h2>
+                    <p className="text-sm text-gray-500 mt-0.5">
+                      {assignment.dueAt ? `Due ${new Date(assignment.dueAt).toLocaleString()}` : 'No due date'} · {total} points · pass at {assignment.passPercent}%
+                    </p>
+                  </div>
+                  {!submission ? (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${isOverdue(assignment) ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'}`}>
+                      {isOverdue(assignment) ? 'Overdue' : 'Not submitted'}
+                    </span>
+                  ) : isGraded ? (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${submission.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                      {submission.passed ? 'Passed' : 'Not passed'} · {submission.score}/{total}
+                    </span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      Awaiting grade{isOverdue(assignment, submission) ? ' · late' : ''}
+                    </span>
+                  )}
+                </div>
+
+                {assignment.instructions && <p className="text-sm text-gray-700 mt-4 whitespace-pre-line">{assignment.instructions}</p>}
+
+                {assignment.rubric.length > 0 && (
+                  <table className="mt-4 w-full text-sm">
+                    <thead className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <tr><th className="py-1">Criterion</th><th className="py-1 text-right">{isGraded ? 'Score' : 'Points'}</th></tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {assignment.rubric.map(c => (
+                        <tr key={c.id}>
+                          <td className="py-1.5">
+                            <p className="text-gray-900">{c.criterion}</p>
+                            {c.description && <p className="text-xs text-gray-500">{c.description}</p>}
+                          </td>
+                          <td className="py-1.5 text-right text-gray-700 whitespace-nowrap">
+                            {isGraded ? `${submission!.rubricScores[c.id] ?? 0} / ${c.maxPoints}` : c.maxPoints}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {submission && (
+                  <div className="mt-4 rounded-lg bg-gray-50 border border-gray-200 p-4 text-sm space-y-1">
+                    <p className="text-gray-500">Submitted {new Date(submission.submittedAt).toLocaleString()}</p>
+                    {submission.fileName && (
+                      <button onClick={() => openFile(submission)} className="block text-indigo-600 hover:text-indigo-800 font-medium">{submission.fileName}</button>
+                    )}
+                    {submission.linkUrl && (
+                      <a href={submission.linkUrl} target="_blank" rel="noreferrer" className="block text-indigo-600 hover:text-indigo-800 font-medium break-all">{submission.linkUrl}</a>
+                    )}
+                    {submission.feedback && (
+                      <p className="text-gray-700 pt-2"><span className="font-medium">Grader feedback:</span> {submission.feedback}</p>
+                    )}
+                  </div>
+                )}
+
+                {editing === assignment.id || !submission ? (
+                  <SubmissionForm assignment={assignment} previous={submission} onSubmitted={handleSubmitted} />
+                ) : !submission.passed && (
+                  <div className="mt-4 flex justify-end">
+                    <Button size="sm" variant="outline" onClick={() => setEditing(assignment.id)}>Replace submission</Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
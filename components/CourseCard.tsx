@@ -1,6 +1,9 @@
 import React from 'react';
-import { Course, CourseLevel } from '../types';
+import { Course, CourseLevel, PriceQuote, CompletionReview } from '../types';
 import { Button } from './Button';
+import { StarRating } from './StarRating';
+import { getNextCohort, seatsLeft, isFull, formatCohortDate, formatCohortDates } from '../services/cohortService';
+import { formatAverageRating } from '../services/ratingService';
 
 interface CourseCardProps {
   course: Course;
@@ -9,13 +12,20 @@ interface CourseCardProps {
   isCompleted?: boolean;
   isPending?: boolean;
   progress?: number;
-  onProgressChange?: (progress: number) => void;
+  review?: CompletionReview; // Latest reviewer decision on a completion request
+  quizScore?: number; // Average best quiz percentage
+  cohortId?: string; // The student's cohort, for programs that run in cohorts
+  attendance?: number; // Live session attendance percentage, once any is marked
   onRequestCompletion?: (courseId: string) => void;
   onViewCertificate?: (courseId: string) => void;
+  onViewAssignments?: (courseId: string) => void;
+  onViewQuizzes?: (courseId: string) => void;
+  onViewDiscussions?: (courseId: string) => void;
   onViewDetails?: (course: Course) => void;
   onEdit?: (course: Course) => void;
   onDelete?: (courseId: string) => void;
   isAdmin?: boolean;
+  pricing?: PriceQuote; // Discounted price for the current visitor, when a coupon applies
 }
 
 export const CourseCard: React.FC<CourseCardProps> = ({ 
@@ -25,14 +35,28 @@ export const CourseCard: React.FC<CourseCardProps> = ({
   isCompleted, 
   isPending,
   progress = 0,
-  onProgressChange,
+  review,
+  quizScore,
+  cohortId,
+  attendance,
   onRequestCompletion, 
   onViewCertificate,
+  onViewAssignments,
+  onViewQuizzes,
+  onViewDiscussions,
   onViewDetails,
   onEdit,
   onDelete,
-  isAdmin
+  isAdmin,
+  pricing
 }) => {
+  const isRejected = review?.status === 'rejected' && !isPending && !isCompleted;
+  const showFeedback = isRegistered && !!review && (isRejected || (isCompleted && !!review.note));
+  const unmetItems = review?.checklist.filter(item => !item.met) || [];
+  const myCohort = course.cohorts?.find(c => c.id === cohortId);
+  const nextCohort = course.cohorts?.length ? getNextCohort(course) : undefined;
+  const nextSeats = nextCohort ? seatsLeft(nextCohort) : undefined;
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow duration-300 flex flex-col h-full relative group">
       <div className="relative h-48 cursor-pointer" onClick={() => onViewDetails && onViewDetails(course)}>
@@ -57,7 +81,7 @@ export const CourseCard: React.FC<CourseCardProps> = ({
                  Pending Approval
              </div>
         )}
-        {isAdmin && (
+        {(onEdit || onDelete) && (
              <div className="absolute bottom-4 right-4 flex gap-2 z-10">
                 {onDelete && (
                     <button
@@ -91,6 +115,13 @@ export const CourseCard: React.FC<CourseCardProps> = ({
                 ))}
             </div>
             <h3 className="text-xl font-bold text-gray-900 mb-2 group-hover:text-indigo-600 transition-colors cursor-pointer" onClick={() => onViewDetails && onViewDetails(course)}>{course.title}</h3>
+            {course.ratingCount && course.averageRating !== undefined ? (
+                <div className="flex items-center gap-1.5 mb-2 text-sm">
+                    <span className="font-semibold text-amber-600">{formatAverageRating(course.averageRating)}</span>
+                    <StarRating value={course.averageRating} />
+                    <span className="text-gray-400">({course.ratingCount})</span>
+                </div>
+            ) : null}
             <div 
                 className="text-gray-600 text-sm mb-4 line-clamp-3 [&>ul]:list-disc [&>ul]:pl-5 [&>ol]:list-decimal [&>ol]:pl-5 [&>h1]:font-bold [&>h2]:font-bold [&>b]:font-bold [&>strong]:font-bold [&>i]:italic [&>em]:italic"
                 dangerouslySetInnerHTML={{ __html: course.description }}
@@ -105,12 +136,54 @@ export const CourseCard: React.FC<CourseCardProps> = ({
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                     <span>{course.duration}</span>
                 </div>
+                {isRegistered && myCohort ? (
+                    <div className="flex items-center gap-2">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                        <span>{myCohort.name} · {formatCohortDates(myCohort)}</span>
+                    </div>
+                ) : !isRegistered && !!course.cohorts?.length && (
+                    <div className="flex items-center gap-2">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                        {nextCohort ? (
+                            <span>
+                                Next cohort starts {formatCohortDate(nextCohort.startsOn)}
+                                {isFull(nextCohort)
+                                    ? <span className="text-amber-700"> · Full, waitlist open</span>
+                                    : nextSeats !== undefined && <span className={nextSeats <= 5 ? 'text-amber-700' : ''}> · {nextSeats} {nextSeats === 1 ? 'seat' : 'seats'} left</span>}
+                            </span>
+                        ) : (
+                            <span>No upcoming cohorts</span>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
 
         <div className="mt-auto pt-4 border-t border-gray-100">
+            {showFeedback && review && (
+                <div className={`mb-3 rounded-lg border p-3 text-sm ${isRejected ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+                    <p className={`font-semibold ${isRejected ? 'text-amber-800' : 'text-green-800'}`}>
+                        {isRejected ? 'Completion not approved yet' : 'Reviewer feedback'}
+                    </p>
+                    {review.note && <p className="text-gray-700 mt-1 whitespace-pre-line">{review.note}</p>}
+                    {isRejected && unmetItems.length > 0 && (
+                        <ul className="mt-2 space-y-0.5 text-xs text-amber-900">
+                            {unmetItems.map(item => <li key={item.label}>✗ {item.label}</li>)}
+                        </ul>
+                    )}
+                    <p className="text-xs text-gray-400 mt-2">Reviewed {new Date(review.reviewedAt).toLocaleDateString()}</p>
+                </div>
+            )}
+
             <div className="flex items-center justify-between mb-3">
-                <span className="text-2xl font-bold text-gray-900">GHC {course.price}</span>
+                {pricing && pricing.discount > 0 && !isRegistered ? (
+                    <div className="flex items-baseline gap-2">
+                        <span className="text-2xl font-bold text-green-700">{pricing.finalPrice > 0 ? `GHC ${pricing.finalPrice}` : 'Free'}</span>
+                        <span className="text-sm text-gray-400 line-through">GHC {pricing.originalPrice}</span>
+                    </div>
+                ) : (
+                    <span className="text-2xl font-bold text-gray-900">GHC {course.price}</span>
+                )}
                 {isRegistered && !isCompleted && !isPending && (
                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
                         In Progress
@@ -127,22 +200,38 @@ export const CourseCard: React.FC<CourseCardProps> = ({
                                 <span>Training Progress</span>
                                 <span>{progress}%</span>
                             </div>
-                            {onProgressChange ? (
-                                <input 
-                                    type="range" 
-                                    min="0" 
-                                    max="100" 
-                                    value={progress} 
-                                    onChange={(e) => onProgressChange(Number(e.target.value))}
-                                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                                />
-                            ) : (
-                                <div className="w-full bg-gray-200 rounded-full h-2">
-                                    <div 
-                                        className="bg-indigo-600 h-2 rounded-full transition-all duration-500 ease-out" 
-                                        style={{ width: `${progress}%` }}
-                                    ></div>
-                                </div>
+                            <div className="w-full bg-gray-200 rounded-full h-2">
+                                <div 
+                                    className="bg-indigo-600 h-2 rounded-full transition-all duration-500 ease-out" 
+                                    style={{ width: `${progress}%` }}
+                                ></div>
+                            </div>
+                        </div>
+                    )}
+
+                    {(attendance !== undefined || course.minAttendancePercent) && !isCompleted && (
+                        <p className={`text-xs ${course.minAttendancePercent && (attendance ?? 0) < course.minAttendancePercent ? 'text-amber-700' : 'text-gray-500'}`}>
+                            Live session attendance: {attendance !== undefined ? `${attendance}%` : 'not marked yet'}
+                            {course.minAttendancePercent ? ` (${course.minAttendancePercent}% required)` : ''}
+                        </p>
+                    )}
+
+                    {(onViewAssignments || onViewQuizzes || onViewDiscussions) && (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm font-medium">
+                            {onViewAssignments && (
+                                <button onClick={() => onViewAssignments(course.id)} className="text-indigo-600 hover:text-indigo-800">
+                                    Assignments{course.requirePassingAssignments ? ' (required)' : ''} &rarr;
+                                </button>
+                            )}
+                            {onViewQuizzes && (
+                                <button onClick={() => onViewQuizzes(course.id)} className="text-indigo-600 hover:text-indigo-800">
+                                    Quizzes{course.requirePassingQuizzes ? ' (required)' : ''}{quizScore !== undefined ? ` · ${quizScore}% avg` : ''} &rarr;
+                                </button>
+                            )}
+                            {onViewDiscussions && (
+                                <button onClick={() => onViewDiscussions(course.id)} className="text-indigo-600 hover:text-indigo-800">
+                                    Discussions &rarr;
+                                </button>
                             )}
                         </div>
                     )}
@@ -164,7 +253,7 @@ export const CourseCard: React.FC<CourseCardProps> = ({
                             </Button>
                         ) : onRequestCompletion ? (
                             <Button variant="secondary" size="sm" className="flex-1" onClick={() => onRequestCompletion(course.id)}>
-                                Complete
+                                {isRejected ? 'Resubmit' : 'Complete'}
                             </Button>
                         ) : (
                              <div className="flex-1 text-center py-2 bg-gray-50 text-gray-500 text-sm rounded-lg border border-gray-100">
@@ -1,15 +1,30 @@
 import React from 'react';
-import { Course } from '../types';
+import { Course, Lesson, PriceQuote } from '../types';
 import { Button } from './Button';
+import { CourseSyllabus } from './CourseSyllabus';
+import { CourseReviews } from './CourseReviews';
+import { StarRating } from './StarRating';
+import { formatAverageRating } from '../services/ratingService';
 
 interface CourseDetailsModalProps {
   course: Course;
   onClose: () => void;
   onRegister?: () => void;
   isRegistered: boolean;
+  completedLessonIds?: string[];
+  onToggleLesson?: (lessonId: string, completed: boolean) => void;
+  onOpenLesson?: (lesson: Lesson) => void;
+  pricing?: PriceQuote;
+  prerequisites?: { course: Course; isCompleted: boolean }[]; // In catalog order; completion is the viewer's
+  userId?: string;
+  canRate?: boolean; // The viewer completed the program
+  onRatingsChanged: () => void;
+  onOpenDiscussions?: (lessonId?: string) => void; // Set for the program's students, instructor and admins
 }
 
-export const CourseDetailsModal: React.FC<CourseDetailsModalProps> = ({ course, onClose, onRegister, isRegistered }) => {
+export const CourseDetailsModal: React.FC<CourseDetailsModalProps> = ({ course, onClose, onRegister, isRegistered, completedLessonIds, onToggleLesson, onOpenLesson, pricing, prerequisites = [], userId, canRate = false, onRatingsChanged, onOpenDiscussions }) => {
+  const hasCurriculum = (course.curriculum?.length || 0) > 0;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
       <div className="bg-white rounded-xl shadow-2xl overflow-hidden max-w-4xl w-full max-h-[90vh] flex flex-col">
@@ -55,16 +70,27 @@ export const CourseDetailsModal: React.FC<CourseDetailsModalProps> = ({ course,
                        />
                    </div>
 
-                   {course.outline && (
+                   {(hasCurriculum || course.outline) && (
                        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
                            <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2">
                                <svg className="w-5 h-5 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" /></svg>
-                               Program Outline
+                               {hasCurriculum ? 'Syllabus' : 'Program Outline'}
                            </h3>
-                           <div 
-                               className="prose prose-indigo prose-sm sm:prose-base text-gray-600 max-w-none [&>ul]:list-disc [&>ul]:pl-5 [&>ol]:list-decimal [&>ol]:pl-5"
-                               dangerouslySetInnerHTML={{ __html: course.outline }}
-                           />
+                           {hasCurriculum ? (
+                               <CourseSyllabus
+                                   modules={course.curriculum!}
+                                   completedLessonIds={completedLessonIds}
+                                   onToggleLesson={onToggleLesson}
+                                   onOpenLesson={onOpenLesson}
+                                   onDiscussLesson={onOpenDiscussions && (lesson => onOpenDiscussions(lesson.id))}
+                               />
+                           ) : (
+                               // Fallback for programs whose outline has not been imported yet
+                               <div 
+                                   className="prose prose-indigo prose-sm sm:prose-base text-gray-600 max-w-none [&>ul]:list-disc [&>ul]:pl-5 [&>ol]:list-decimal [&>ol]:pl-5"
+                                   dangerouslySetInnerHTML={{ __html: course.outline || '' }}
+                               />
+                           )}
                        </div>
                    )}
 
@@ -85,6 +111,8 @@ export const CourseDetailsModal: React.FC<CourseDetailsModalProps> = ({ course,
                            </div>
                        </div>
                    )}
+
+                   <CourseReviews course={course} userId={userId} canRate={canRate} onChanged={onRatingsChanged} />
                </div>
 
                {/* Sidebar Info */}
@@ -96,15 +124,51 @@ export const CourseDetailsModal: React.FC<CourseDetailsModalProps> = ({ course,
                                <dt className="text-gray-500 text-sm">Instructor</dt>
                                <dd className="font-medium text-gray-900 text-sm text-right">{course.instructor}</dd>
                            </div>
+                           {course.ratingCount && course.averageRating !== undefined ? (
+                               <div className="flex items-center justify-between">
+                                   <dt className="text-gray-500 text-sm">Rating</dt>
+                                   <dd className="flex items-center gap-1.5 font-medium text-gray-900 text-sm">
+                                       <StarRating value={course.averageRating} />
+                                       {formatAverageRating(course.averageRating)} ({course.ratingCount})
+                                   </dd>
+                               </div>
+                           ) : null}
                            <div className="flex items-center justify-between">
                                <dt className="text-gray-500 text-sm">Duration</dt>
                                <dd className="font-medium text-gray-900 text-sm text-right">{course.duration}</dd>
                            </div>
                            <div className="flex items-center justify-between">
                                <dt className="text-gray-500 text-sm">Price</dt>
-                               <dd className="font-bold text-indigo-600 text-lg text-right">GHC {course.price}</dd>
+                               {pricing && pricing.discount > 0 && !isRegistered ? (
+                                   <dd className="text-right">
+                                       <span className="block text-sm text-gray-400 line-through">GHC {pricing.originalPrice}</span>
+                                       <span className="font-bold text-green-700 text-lg">{pricing.finalPrice > 0 ? `GHC ${pricing.finalPrice}` : 'Free'}</span>
+                                       {pricing.couponCode && <span className="block text-xs text-green-700">with {pricing.couponCode}</span>}
+                                   </dd>
+                               ) : (
+                                   <dd className="font-bold text-indigo-600 text-lg text-right">GHC {course.price}</dd>
+                               )}
                            </div>
                        </dl>
+
+                       {prerequisites.length > 0 && (
+                           <div className="mt-6 pt-6 border-t border-gray-100">
+                               <h4 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Prerequisites</h4>
+                               <ul className="space-y-2">
+                                   {prerequisites.map(({ course: prerequisite, isCompleted }) => (
+                                       <li key={prerequisite.id} className="flex items-center gap-2 text-sm">
+                                           {isCompleted
+                                               ? <svg className="w-4 h-4 text-green-600 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+                                               : <span className="w-4 h-4 rounded-full border-2 border-gray-300 flex-shrink-0" />}
+                                           <span className={isCompleted ? 'text-gray-500' : 'text-gray-900'}>{prerequisite.title}</span>
+                                       </li>
+                                   ))}
+                               </ul>
+                               <p className="text-xs text-gray-500 mt-2">
+                                   {course.prerequisiteRule === 'block' ? 'Complete these programs before registering.' : 'Recommended before starting this program.'}
+                               </p>
+                           </div>
+                       )}
                        
                        <div className="mt-6 pt-6 border-t border-gray-100">
                            {isRegistered ? (
@@ -121,6 +185,11 @@ export const CourseDetailsModal: React.FC<CourseDetailsModalProps> = ({ course,
                                    Read Only
                                </div>
                            )}
+                           {onOpenDiscussions && (
+                               <Button variant="outline" onClick={() => onOpenDiscussions()} className="w-full justify-center mt-3">
+                                   Discussions
+                               </Button>
+                           )}
                        </div>
                    </div>
 
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { Course, DiscussionParticipant, DiscussionThread, User } from '../types';
+import { Button } from './Button';
+import { MentionTextarea } from './MentionTextarea';
+import { fetchThreads, fetchParticipants, createThread, sortThreads, formatPostTime, THREAD_SORTS, ThreadSort } from '../services/discussionService';
+
+interface CourseDiscussionsProps {
+  course: Course;
+  user: User;
+  lessonFilter: string; // '' for every thread, 'general' for threads about no lesson, or a lesson id
+  onChangeLessonFilter: (lessonFilter: string) => void;
+  onOpenThread: (threadId: string) => void;
+  onBack: () => void;
+}
+
+export const CourseDiscussions: React.FC<CourseDiscussionsProps> = ({ course, user, lessonFilter, onChangeLessonFilter, onOpenThread, onBack }) => {
+  const [threads, setThreads] = useState<DiscussionThread[]>([]);
+  const [participants, setParticipants] = useState<DiscussionParticipant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sort, setSort] = useState<ThreadSort>('activity');
+  const [search, setSearch] = useState('');
+  const [unansweredOnly, setUnansweredOnly] = useState(false);
+  const [draft, setDraft] = useState<{ title: string; body: string; lessonId: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([fetchThreads(course.id), fetchParticipants(course.id)]).then(([loadedThreads, loadedParticipants]) => {
+      setThreads(loadedThreads);
+      setParticipants(loadedParticipants);
+      setIsLoading(false);
+    });
+  }, [course.id]);
+
+  const modules = course.curriculum || [];
+  const lessons = modules.flatMap(m => m.lessons);
+  const lessonTitle = (lessonId?: string) => lessons.find(l => l.id === lessonId)?.title;
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const visible = sortThreads(threads, sort).filter(thread =>
+    (!lessonFilter || (lessonFilter === 'general' ? !thread.lessonId : thread.lessonId === lessonFilter)) &&
+    (!unansweredOnly || !thread.answerPostId) &&
+    terms.every(term => `${thread.title} ${thread.body}`.toLowerCase().includes(term))
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!draft.title.trim() || !draft.body.trim()) {
+      setError('Add a title and describe your question.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const threadId = await createThread({ ...draft, courseId: course.id, lessonId: draft.lessonId || undefined }, participants);
+      setDraft(null);
+      onOpenThread(threadId);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to post your question.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const lessonOptions = modules.map(module => (
+    <optgroup key={module.id} label={module.title}>
+      {module.lessons.map(lesson => <option key={lesson.id} value={lesson.id}>{lesson.title}</option>)}
+    </optgroup>
+  ));
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <button onClick={onBack} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-4">← Back</button>
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Discussions</h1>
+          <p className="text-gray-600 mt-1">{course.title}</p>
+          <p className="text-xs text-gray-500 mt-1">Visible to the program's students, its instructor and admins. Type @ to mention someone.</p>
+        </div>
+        {!draft && (
+          <Button onClick={() => { setDraft({ title: '', body: '', lessonId: lessonFilter === 'general' ? '' : lessonFilter }); setError(null); }}>
+            Ask a Question
+          </Button>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleCreate} className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-900">New discussion</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} maxLength={200} className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="e.g. Why does my regression show negative R²?" autoFocus />
+          </div>
+          {lessons.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">About</label>
+              <select value={draft.lessonId} onChange={e => setDraft({ ...draft, lessonId: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2">
+                <option value="">The program in general</option>
+                {lessonOptions}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+            <MentionTextarea value={draft.body} onChange={body => setDraft({ ...draft, body })} participants={participants.filter(p => p.id !== user.id)} rows={5} placeholder="What have you tried so far?" />
+          </div>
+          {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button type="submit" isLoading={isSaving}>Post</Button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-3">
+          <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search discussions" className="flex-1 min-w-[10rem] rounded-md border border-gray-300 px-3 py-1.5 text-sm" />
+          {lessons.length > 0 && (
+            <select value={lessonFilter} onChange={e => onChangeLessonFilter(e.target.value)} className="rounded-md border border-gray-300 px-3 py-1.5 text-sm max-w-[14rem]">
+              <option value="">All topics</option>
+              <option value="general">General</option>
+              {lessonOptions}
+            </select>
+          )}
+          <select value={sort} onChange={e => setSort(e.target.value as ThreadSort)} className="rounded-md border border-gray-300 px-3 py-1.5 text-sm">
+            {THREAD_SORTS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={unansweredOnly} onChange={e => setUnansweredOnly(e.target.checked)} className="rounded border-gray-300 text-indigo-600" />
+            Unanswered
+          </label>
+        </div>
+
+        {isLoading ? (
+          <p className="p-6 text-sm text-gray-500">Loading discussions...</p>
+        ) : visible.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {visible.map(thread => (
+              <li key={thread.id}>
+                <button onClick={() => onOpenThread(thread.id)} className={`w-full text-left px-6 py-4 flex gap-4 hover:bg-gray-50 ${thread.isHidden ? 'opacity-60' : ''}`}>
+                  <div className="w-12 flex-shrink-0 text-center">
+                    <p className="text-lg font-semibold text-gray-900">{thread.upvotes}</p>
+                    <p className="text-[10px] uppercase tracking-wide text-gray-400">votes</p>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {thread.isPinned && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">Pinned</span>}
+                      {thread.answerPostId && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">Answered</span>}
+                      {thread.isLocked && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Locked</span>}
+                      {thread.isHidden && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">Hidden</span>}
+                      <span className="font-semibold text-gray-900 truncate">{thread.title}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {thread.authorName}{thread.isStaff && ' (Instructor)'}
+                      {lessonTitle(thread.lessonId) && ` · ${lessonTitle(thread.lessonId)}`}
+                      {` · ${thread.replyCount} ${thread.replyCount === 1 ? 'reply' : 'replies'} · active ${formatPostTime(thread.lastActivityAt)}`}
+                    </p>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="p-6 text-sm text-gray-500">
+            {threads.length === 0 ? 'No discussions yet. Ask the first question.' : 'No discussions match these filters.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
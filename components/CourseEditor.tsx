@@ -1,13 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Course, CourseLevel } from '../types';
+import { Course, CourseLevel, PrerequisiteRule, Signatory, UserProfile } from '../types';
 import { Button } from './Button';
 import { uploadToStorage, getSignedUrl, deleteFromStorage } from '../supabaseClient';
+import { CurriculumEditor } from './CurriculumEditor';
+import { fetchCertificateTemplates } from '../services/certificateTemplateService';
+import { fetchSignatories } from '../services/signatoryService';
+import { fetchInstructors } from '../services/userService';
+import { BUILT_IN_TEMPLATES, CertificateTemplate, DEFAULT_TEMPLATE_ID } from '../services/certificateRenderer';
 
 interface CourseEditorProps {
   course: Course;
   onSave: (updatedCourse: Course) => void;
   onCancel: () => void;
   isCreating?: boolean;
+  // Instructors edit content only; pricing, certificates and instructor assignment are admin fields
+  isAdmin?: boolean;
+  courses?: Course[]; // The catalog, to choose prerequisites from
 }
 
 // ... EditorToolbarButton and RichTextEditor components remain unchanged ...
@@ -50,12 +58,20 @@ const RichTextEditor = ({ label, value, onChange, placeholder }: { label: string
     );
 };
 
-export const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onCancel, isCreating = false }) => {
+export const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onCancel, isCreating = false, isAdmin = false, courses = [] }) => {
   const [formData, setFormData] = useState<Course>(course);
-  const [signatureError, setSignatureError] = useState<string | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
   const [imageError, setImageError] = useState<string | null>(null);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const [customTemplates, setCustomTemplates] = useState<CertificateTemplate[]>([]);
+  const [signatories, setSignatories] = useState<Signatory[]>([]);
+  const [instructors, setInstructors] = useState<UserProfile[]>([]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    fetchCertificateTemplates().then(setCustomTemplates);
+    fetchSignatories().then(setSignatories);
+    fetchInstructors().then(setInstructors);
+  }, [isAdmin]);
 
   useEffect(() => {
     setFormData(course);
@@ -117,50 +133,20 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onCa
       }
   };
 
-  const handleSignatureUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-      setSignatureError(null);
-      const file = e.target.files?.[0];
-      if (file) {
-          if (!['image/jpeg', 'image/png', 'image/svg+xml'].includes(file.type)) {
-              setSignatureError("Invalid format. Use JPG, PNG, or SVG.");
-              e.target.value = '';
-              return;
-          }
-          if (file.size > 2 * 1024 * 1024) {
-              setSignatureError("Image too large. Max 2MB.");
-              e.target.value = '';
-              return;
-          }
+  const selectedSignatoryIds = formData.signatoryIds || [];
 
-          setIsUploading(true);
-          try {
-             // 1. Upload to Supabase Storage
-             const path = await uploadToStorage(file, 'signatures', formData.id);
-             
-             // 2. Get Signed URL for display
-             const url = await getSignedUrl(path);
+  const setSignatoryIds = (signatoryIds: string[]) => setFormData(prev => ({ ...prev, signatoryIds }));
 
-             // 3. Update State (store path in signaturePath)
-             setFormData(prev => ({ 
-                 ...prev, 
-                 signaturePath: path,
-                 signatureImage: url // temporary display URL
-             }));
-          } catch (err) {
-              console.error(err);
-              setSignatureError("Upload failed. Please try again.");
-          } finally {
-              setIsUploading(false);
-          }
-      }
-  };
+  const selectedPrerequisiteIds = formData.prerequisiteIds || [];
+  const setPrerequisiteIds = (prerequisiteIds: string[]) => setFormData(prev => ({ ...prev, prerequisiteIds }));
 
-  const handleRemoveSignature = async () => {
-      if (formData.signaturePath) {
-          await deleteFromStorage(formData.signaturePath);
-      }
-      setFormData(prev => ({ ...prev, signatureImage: undefined, signaturePath: undefined }));
-      setSignatureError(null);
+  // Signatories appear on the certificate left to right in this order
+  const moveSignatory = (index: number, offset: number) => {
+      const ids = [...selectedSignatoryIds];
+      const target = index + offset;
+      if (target < 0 || target >= ids.length) return;
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      setSignatoryIds(ids);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -183,7 +169,12 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onCa
             </div>
 
             <RichTextEditor label="Description" value={formData.description} onChange={(val) => setFormData(prev => ({ ...prev, description: val }))} />
-            <RichTextEditor label="Course Outline" value={formData.outline || ''} onChange={(val) => setFormData(prev => ({ ...prev, outline: val }))} />
+            <CurriculumEditor
+                courseId={formData.id}
+                modules={formData.curriculum || []}
+                onChange={(modules) => setFormData(prev => ({ ...prev, curriculum: modules }))}
+                legacyOutline={formData.outline}
+            />
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Instructor</label>
@@ -192,6 +183,21 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onCa
 
             <RichTextEditor label="Instructor Bio" value={formData.instructorBio || ''} onChange={(val) => setFormData(prev => ({ ...prev, instructorBio: val }))} />
 
+            {isAdmin && (
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Instructor Account</label>
+                <select
+                  value={formData.instructorId || ''}
+                  onChange={e => setFormData(prev => ({ ...prev, instructorId: e.target.value || undefined }))}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2"
+                >
+                  <option value="">Unassigned (admins only)</option>
+                  {instructors.map(i => <option key={i.id} value={i.id}>{i.name} ({i.email})</option>)}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">The assigned instructor can edit this program, grade its work and review its students. Give accounts the Instructor role on the Roles page.</p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
               <input type="text" name="duration" value={formData.duration} onChange={handleChange} required className="w-full rounded-md border border-gray-300 px-3 py-2" />
@@ -206,7 +212,7 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onCa
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Price (GHC)</label>
-              <input type="number" name="price" value={formData.price} onChange={handleChange} className="w-full rounded-md border border-gray-300 px-3 py-2" />
+              <input type="number" name="price" value={formData.price} onChange={handleChange} disabled={!isAdmin} className="w-full rounded-md border border-gray-300 px-3 py-2 disabled:bg-gray-100 disabled:text-gray-500" />
             </div>
 
             <div className="col-span-2">
@@ -233,26 +239,141 @@ export const CourseEditor: React.FC<CourseEditorProps> = ({ course, onSave, onCa
               </div>
             </div>
 
+            {isAdmin && (
+            <>
+            <div className="col-span-2 bg-gray-50 p-4 rounded-lg border border-gray-200">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Certificate Signatories</label>
+                {selectedSignatoryIds.length > 0 ? (
+                    <ul className="divide-y divide-gray-200 bg-white rounded border border-gray-200 mb-3">
+                        {selectedSignatoryIds.map((id, index) => {
+                            const signatory = signatories.find(s => s.id === id);
+                            return (
+                                <li key={id} className="flex items-center gap-3 px-3 py-2">
+                                    <div className="h-10 w-28 flex items-center justify-center flex-shrink-0">
+                                        {signatory?.signatureImage
+                                            ? <img src={signatory.signatureImage} alt="" className="max-h-full max-w-full object-contain" />
+                                            : <span className="text-xs text-gray-400">No signature</span>}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">{signatory?.name || 'Unknown signatory'}</p>
+                                        <p className="text-xs text-gray-500 truncate">{signatory?.title}</p>
+                                    </div>
+                                    <button type="button" onClick={() => moveSignatory(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move left">&uarr;</button>
+                                    <button type="button" onClick={() => moveSignatory(index, 1)} disabled={index === selectedSignatoryIds.length - 1} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move right">&darr;</button>
+                                    <button type="button" onClick={() => setSignatoryIds(selectedSignatoryIds.filter(s => s !== id))} className="text-sm text-red-600 hover:text-red-800 font-medium">Remove</button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                ) : (
+                    <p className="text-xs text-gray-500 mb-3">No signatories: certificates show the instructor's name as the only signature.</p>
+                )}
+                <select
+                    value=""
+                    onChange={e => e.target.value && setSignatoryIds([...selectedSignatoryIds, e.target.value])}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                >
+                    <option value="">Add a signatory...</option>
+                    {signatories.filter(s => !selectedSignatoryIds.includes(s.id)).map(s => (
+                        <option key={s.id} value={s.id}>{s.name}{s.title ? ` (${s.title})` : ''}</option>
+                    ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Signatories are managed on the Signatories page and sign left to right in this order.</p>
+            </div>
+
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Certificate Template</label>
+              <select
+                value={formData.certificateTemplateId || ''}
+                onChange={e => setFormData(prev => ({ ...prev, certificateTemplateId: e.target.value || undefined }))}
+                className="w-full rounded-md border border-gray-300 px-3 py-2"
+              >
+                <option value="">Default ({BUILT_IN_TEMPLATES.find(t => t.id === DEFAULT_TEMPLATE_ID)?.name})</option>
+                {[...BUILT_IN_TEMPLATES, ...customTemplates].map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Used for every certificate issued for this program. Templates are designed on the Templates page.</p>
+            </div>
+            </>
+            )}
+
             <div className="col-span-2 bg-gray-50 p-4 rounded-lg border border-gray-200">
-                <label className="block text-sm font-medium text-gray-700 mb-2">Instructor Signature</label>
-                <div className="flex items-center gap-4">
-                    {formData.signatureImage ? (
-                        <div className="relative group">
-                            <div className="h-16 w-32 bg-white border border-gray-300 rounded flex items-center justify-center overflow-hidden p-1">
-                                <img src={formData.signatureImage} alt="Signature Preview" className="max-h-full max-w-full object-contain" />
-                            </div>
-                            <button type="button" onClick={handleRemoveSignature} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow hover:bg-red-600">X</button>
-                        </div>
-                    ) : (
-                        <div className="h-16 w-32 bg-gray-100 border border-gray-300 border-dashed rounded flex items-center justify-center text-gray-400 text-xs">No signature</div>
-                    )}
-                    <div className="flex-1">
-                        <input type="file" accept="image/*" onChange={handleSignatureUpload} className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100" />
-                         {isUploading && <p className="text-xs text-indigo-600 mt-1">Uploading...</p>}
-                         {signatureError && <p className="text-xs text-red-600 mt-1">{signatureError}</p>}
-                    </div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Prerequisites</label>
+                {selectedPrerequisiteIds.length > 0 ? (
+                    <ul className="divide-y divide-gray-200 bg-white rounded border border-gray-200 mb-3">
+                        {selectedPrerequisiteIds.map(id => (
+                            <li key={id} className="flex items-center justify-between gap-3 px-3 py-2">
+                                <span className="text-sm text-gray-900 truncate">{courses.find(c => c.id === id)?.title || id}</span>
+                                <button type="button" onClick={() => setPrerequisiteIds(selectedPrerequisiteIds.filter(p => p !== id))} className="text-sm text-red-600 hover:text-red-800 font-medium">Remove</button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-xs text-gray-500 mb-3">No prerequisites: anyone can register.</p>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <select
+                        value=""
+                        onChange={e => e.target.value && setPrerequisiteIds([...selectedPrerequisiteIds, e.target.value])}
+                        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                    >
+                        <option value="">Add a prerequisite...</option>
+                        {courses.filter(c => c.id !== formData.id && !selectedPrerequisiteIds.includes(c.id)).map(c => (
+                            <option key={c.id} value={c.id}>{c.title}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={formData.prerequisiteRule || 'warn'}
+                        onChange={e => setFormData(prev => ({ ...prev, prerequisiteRule: e.target.value as PrerequisiteRule }))}
+                        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                    >
+                        <option value="warn">Warn, then allow registration</option>
+                        <option value="block">Block registration until completed</option>
+                    </select>
                 </div>
             </div>
+
+            <div className="col-span-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!formData.requirePassingAssignments}
+                  onChange={e => setFormData(prev => ({ ...prev, requirePassingAssignments: e.target.checked }))}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600"
+                />
+                Require every assignment to be passed before students can request completion
+              </label>
+              <p className="text-xs text-gray-500 mt-1 ml-6">Assignments are created and graded on the Assignments page.</p>
+            </div>
+
+            <div className="col-span-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!formData.requirePassingQuizzes}
+                  onChange={e => setFormData(prev => ({ ...prev, requirePassingQuizzes: e.target.checked }))}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600"
+                />
+                Require every quiz to be passed before students can request completion
+              </label>
+              <p className="text-xs text-gray-500 mt-1 ml-6">Quizzes and their question banks are managed on the Quizzes page.</p>
+            </div>
+
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Live Session Attendance (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={formData.minAttendancePercent ?? ''}
+                onChange={e => setFormData(prev => ({
+                  ...prev,
+                  minAttendancePercent: e.target.value === '' ? undefined : Math.min(100, Math.max(0, Number(e.target.value))),
+                }))}
+                placeholder="No minimum"
+                className="w-40 rounded-md border border-gray-300 px-3 py-2"
+              />
+              <p className="text-xs text-gray-500 mt-1">Students must reach this before requesting completion. Late counts as attended. Excused sessions, and sessions the student has not been marked for, are left out.</p>
+            </div>
           </div>
           <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
             <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Course, Quiz, QuizAttempt, QuizQuestion, QuizResponse, User } from '../types';
+import { Button } from './Button';
+import {
+  fetchQuizzes, fetchMyAttempts, startQuizAttempt, submitQuizAttempt,
+  getBestAttempt, getAttemptsLeft, getSubmittedAttempts, isAnswered,
+} from '../services/quizService';
+
+interface CourseQuizzesProps {
+  course: Course;
+  user: User;
+  onBack: () => void;
+}
+
+interface QuizRunnerProps {
+  quiz: Quiz;
+  attempt: QuizAttempt;
+  questions: QuizQuestion[];
+  onFinished: (attempt: QuizAttempt) => void;
+  onLeave: () => void;
+}
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const secondsUntil = (iso?: string) =>
+  iso ? Math.max(0, Math.floor((new Date(iso).getTime() - Date.now()) / 1000)) : undefined;
+
+// Answers stay in the browser until submitted, so a resumed attempt picks up where it left off
+const draftKey = (attemptId: string) => `quiz-attempt:${attemptId}`;
+
+const loadDraft = (attemptId: string): QuizAttempt['answers'] => {
+  try {
+    return JSON.parse(localStorage.getItem(draftKey(attemptId)) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const QuizRunner: React.FC<QuizRunnerProps> = ({ quiz, attempt, questions, onFinished, onLeave }) => {
+  const [answers, setAnswers] = useState<QuizAttempt['answers']>(() => loadDraft(attempt.id));
+  const [secondsLeft, setSecondsLeft] = useState(secondsUntil(attempt.expiresAt));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const graded = await submitQuizAttempt(attempt.id, answersRef.current);
+      localStorage.removeItem(draftKey(attempt.id));
+      onFinished(graded);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to submit the quiz.');
+      setIsSubmitting(false);
+    }
+  };
+
+  // Counts down and submits automatically when time runs out
+  useEffect(() => {
+    if (!attempt.expiresAt) return;
+    const timer = window.setInterval(() => {
+      const left = secondsUntil(attempt.expiresAt)!;
+      setSecondsLeft(left);
+      if (left === 0) {
+        window.clearInterval(timer);
+        submit();
+      }
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [attempt.id]);
+
+  useEffect(() => {
+    localStorage.setItem(draftKey(attempt.id), JSON.stringify(answers));
+  }, [answers]);
+
+  const setAnswer = (questionId: string, response: QuizResponse) =>
+    setAnswers(prev => ({ ...prev, [questionId]: response }));
+
+  const toggleOption = (question: QuizQuestion, optionId: string) => {
+    if (question.kind === 'single') return setAnswer(question.id, [optionId]);
+    const current = (answers[question.id] as string[] | undefined) || [];
+    setAnswer(question.id, current.includes(optionId) ? current.filter(id => id !== optionId) : [...current, optionId]);
+  };
+
+  const unanswered = questions.filter(q => !isAnswered(answers[q.id])).length;
+
+  const handleSubmit = () => {
+    if (unanswered > 0 && !window.confirm(`${unanswered} question${unanswered === 1 ? ' is' : 's are'} unanswered. Submit anyway?`)) return;
+    submit();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="sticky top-16 z-10 flex items-center justify-between bg-white/95 backdrop-blur rounded-xl border border-gray-200 shadow-sm px-6 py-3">
+        <div>
+          <h2 className="font-bold text-gray-900">{quiz.title}</h2>
+          <p className="text-xs text-gray-500">{questions.length - unanswered} of {questions.length} answered</p>
+        </div>
+        {secondsLeft !== undefined && (
+          <span className={`font-mono text-lg font-semibold ${secondsLeft < 60 ? 'text-red-600' : 'text-gray-900'}`}>{formatClock(secondsLeft)}</span>
+        )}
+      </div>
+
+      {questions.map((question, i) => (
+        <div key={question.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex justify-between gap-4">
+            <p className="font-medium text-gray-900 whitespace-pre-line">{i + 1}. {question.prompt}</p>
+            <span className="text-xs text-gray-500 whitespace-nowrap">{question.points} pt{question.points === 1 ? '' : 's'}</span>
+          </div>
+          {(question.kind === 'single' || question.kind === 'multiple') && (
+            <div className="mt-4 space-y-2">
+              {question.kind === 'multiple' && <p className="text-xs text-gray-500">Select all that apply.</p>}
+              {question.options.map(option => (
+                <label key={option.id} className="flex items-center gap-3 rounded-md border border-gray-200 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type={question.kind === 'single' ? 'radio' : 'checkbox'}
+                    name={question.id}
+                    checked={((answers[question.id] as string[] | undefined) || []).includes(option.id)}
+                    onChange={() => toggleOption(question, option.id)}
+                    className="h-4 w-4 text-indigo-600"
+                  />
+                  {option.text}
+                </label>
+              ))}
+            </div>
+          )}
+          {question.kind === 'numeric' && (
+            <input
+              type="number"
+              step="any"
+              value={typeof answers[question.id] === 'number' ? String(answers[question.id]) : ''}
+              onChange={e => setAnswer(question.id, e.target.value === '' ? NaN : Number(e.target.value))}
+              className="mt-4 w-48 rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          )}
+          {question.kind === 'text' && (
+            <input
+              value={(answers[question.id] as string | undefined) || ''}
+              onChange={e => setAnswer(question.id, e.target.value)}
+              className="mt-4 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={onLeave} disabled={isSubmitting}>Save for later</Button>
+        <Button onClick={handleSubmit} isLoading={isSubmitting}>Submit Quiz</Button>
+      </div>
+    </div>
+  );
+};
+
+export const CourseQuizzes: React.FC<CourseQuizzesProps> = ({ course, user, onBack }) => {
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [active, setActive] = useState<{ quiz: Quiz; attempt: QuizAttempt; questions: QuizQuestion[] } | null>(null);
+  const [result, setResult] = useState<{ quiz: Quiz; attempt: QuizAttempt } | null>(null);
+  const [startingId, setStartingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () =>
+    Promise.all([fetchQuizzes(course.id), fetchMyAttempts(user.id, course.id)]).then(([loadedQuizzes, loadedAttempts]) => {
+      setQuizzes(loadedQuizzes);
+      setAttempts(loadedAttempts);
+      setIsLoading(false);
+    });
+
+  useEffect(() => {
+    load();
+  }, [course.id, user.id]);
+
+  const lessonTitles = new Map((course.curriculum || []).flatMap(m => m.lessons.map(l => [l.id, l.title] as [string, string])));
+
+  const handleStart = async (quiz: Quiz) => {
+    setStartingId(quiz.id);
+    setError(null);
+    setResult(null);
+    try {
+      const { attempt, questions } = await startQuizAttempt(quiz.id);
+      setActive({ quiz, attempt, questions });
+      window.scrollTo(0, 0);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to start the quiz.');
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  const handleFinished = (attempt: QuizAttempt) => {
+    setResult({ quiz: active!.quiz, attempt });
+    setActive(null);
+    load();
+    window.scrollTo(0, 0);
+  };
+
+  if (active) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+        <QuizRunner
+          key={active.attempt.id}
+          quiz={active.quiz}
+          attempt={active.attempt}
+          questions={active.questions}
+          onFinished={handleFinished}
+          onLeave={() => { setActive(null); load(); }}
+        />
+      </div>
+    );
+  }
+
+  const passedCount = quizzes.filter(q => attempts.some(a => a.quizId === q.id && a.passed)).length;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <button onClick={onBack} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-4">← Back to dashboard</button>
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-2 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Quizzes</h1>
+          <p className="text-gray-500 mt-1">{course.title}</p>
+        </div>
+        {quizzes.length > 0 && <p className="text-sm text-gray-600">{passedCount} of {quizzes.length} passed</p>}
+      </div>
+
+      {course.requirePassingQuizzes && quizzes.length > 0 && (
+        <div className="mb-6 rounded-lg border border-indigo-200 bg-indigo-50 p-4 text-sm text-indigo-800">
+          Pass every quiz before requesting completion of this training program.
+        </div>
+      )}
+
+      {result && (
+        <div className={`mb-6 rounded-xl border p-6 ${result.attempt.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+          <h2 className={`text-lg font-bold ${result.attempt.passed ? 'text-green-800' : 'text-red-800'}`}>
+            {result.attempt.passed ? 'Passed' : 'Not passed'}: {result.quiz.title}
+          </h2>
+          <p className="text-sm text-gray-700 mt-1">
+            You scored {result.attempt.score} of {result.attempt.maxScore} points ({result.attempt.percent}%). The pass mark is {result.quiz.passPercent}%.
+          </p>
+          <p className="text-sm text-gray-600 mt-2">
+            {result.attempt.questionIds.filter(id => (result.attempt.results[id] || 0) > 0).length} of {result.attempt.questionIds.length} questions correct.
+          </p>
+        </div>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : quizzes.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 bg-white rounded-xl border border-gray-200">This training program has no quizzes.</div>
+      ) : (
+        <div className="space-y-4">
+          {quizzes.map(quiz => {
+            const best = getBestAttempt(quiz.id, attempts);
+            const attemptsLeft = getAttemptsLeft(quiz, attempts);
+            const inProgress = attempts.find(a => a.quizId === quiz.id && !a.submittedAt && (!a.expiresAt || new Date(a.expiresAt) > new Date()));
+            const taken = getSubmittedAttempts(quiz.id, attempts).length;
+            return (
+              <div key={quiz.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-bold text-gray-900">{quiz.title}</h2>
+                    <p className="text-sm text-gray-500 mt-0.5">
+                      {quiz.lessonId && lessonTitles.has(quiz.lessonId) ? `After "${lessonTitles.get(quiz.lessonId)}" · ` : ''}
+                      {quiz.questionsPerAttempt ? `${quiz.questionsPerAttempt} questions` : 'All questions'}
+                      {quiz.timeLimitMinutes ? ` · ${quiz.timeLimitMinutes} min` : ' · untimed'}
+                      {` · pass at ${quiz.passPercent}%`}
+                    </p>
+                  </div>
+                  {best ? (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${best.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                      Best {best.percent}%
+                    </span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Not taken</span>
+                  )}
+                </div>
+                {quiz.description && <p className="text-sm text-gray-700 mt-3 whitespace-pre-line">{quiz.description}</p>}
+                <div className="mt-4 flex items-center justify-between gap-3">
+                  <p className="text-xs text-gray-500">
+                    {taken} attempt{taken === 1 ? '' : 's'} taken{attemptsLeft !== undefined ? ` · ${attemptsLeft} left` : ''}
+                  </p>
+                  {inProgress ? (
+                    <Button size="sm" onClick={() => handleStart(quiz)} isLoading={startingId === quiz.id}>Resume</Button>
+                  ) : attemptsLeft === 0 ? (
+                    <span className="text-xs text-gray-500">No attempts left</span>
+                  ) : (
+                    <Button size="sm" variant={best?.passed ? 'outline' : 'primary'} onClick={() => handleStart(quiz)} isLoading={startingId === quiz.id}>
+                      {taken > 0 ? 'Retake' : 'Start'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
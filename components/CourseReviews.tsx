@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { Course, CourseRating } from '../types';
+import { Button } from './Button';
+import { StarRating } from './StarRating';
+import { fetchCourseRatings, saveRating, deleteRating, getRatingDistribution, formatAverageRating } from '../services/ratingService';
+
+interface CourseReviewsProps {
+  course: Course;
+  userId?: string;
+  canRate: boolean; // The viewer completed the program
+  onChanged: () => void; // Refreshes the catalog's averages
+}
+
+const PAGE_SIZE = 5;
+
+// Reviews section of the program details: rating breakdown, published reviews and the graduate's own review.
+export const CourseReviews: React.FC<CourseReviewsProps> = ({ course, userId, canRate, onChanged }) => {
+  const [ratings, setRatings] = useState<CourseRating[]>([]);
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftRating, setDraftRating] = useState(0);
+  const [draftBody, setDraftBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRatings = () => fetchCourseRatings(course.id).then(setRatings);
+
+  useEffect(() => {
+    setShown(PAGE_SIZE);
+    setIsEditing(false);
+    loadRatings();
+  }, [course.id]);
+
+  const mine = ratings.find(r => r.userId === userId);
+  // Staff can read every review under RLS; the public list shows published ones only
+  const published = ratings.filter(r => r.status === 'published' && r.userId !== userId);
+  const distribution = getRatingDistribution(ratings);
+  const distributionTotal = distribution.reduce((sum, d) => sum + d.count, 0);
+  const count = course.ratingCount || 0;
+
+  const startEditing = () => {
+    setDraftRating(mine?.rating || 0);
+    setDraftBody(mine?.body || '');
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+    if (draftRating < 1) {
+      setError('Choose a star rating.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveRating(course.id, userId, draftRating, draftBody);
+      setIsEditing(false);
+      await loadRatings();
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save your review.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!mine || !window.confirm('Delete your review?')) return;
+    try {
+      await deleteRating(mine.id);
+      await loadRatings();
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete your review.');
+    }
+  };
+
+  const reviewText = (rating: CourseRating) => (
+    <>
+      <div className="flex items-center gap-2">
+        <StarRating value={rating.rating} />
+        <span className="text-sm font-medium text-gray-900">{rating.reviewerName}</span>
+        <span className="text-xs text-gray-400">{new Date(rating.createdAt).toLocaleDateString()}</span>
+      </div>
+      {rating.body && <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{rating.body}</p>}
+    </>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+      <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2">
+        <svg className="w-5 h-5 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" /></svg>
+        Student Reviews
+      </h3>
+
+      {count > 0 && course.averageRating !== undefined ? (
+        <div className="flex flex-col sm:flex-row gap-6 mb-6">
+          <div className="text-center sm:w-32">
+            <p className="text-4xl font-bold text-gray-900">{formatAverageRating(course.averageRating)}</p>
+            <StarRating value={course.averageRating} />
+            <p className="text-xs text-gray-500 mt-1">{count} {count === 1 ? 'rating' : 'ratings'}</p>
+          </div>
+          <ul className="flex-1 space-y-1">
+            {distribution.map(({ stars, count: starCount }) => (
+              <li key={stars} className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="w-10">{stars} star</span>
+                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                  <div className="bg-amber-400 h-2 rounded-full" style={{ width: `${distributionTotal ? (starCount / distributionTotal) * 100 : 0}%` }}></div>
+                </div>
+                <span className="w-6 text-right">{starCount}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-6">No reviews yet.{canRate && !mine ? ' Be the first to share how the program went.' : ''}</p>
+      )}
+
+      {canRate && (isEditing ? (
+        <form onSubmit={handleSave} className="mb-6 p-4 rounded-lg border border-indigo-100 bg-indigo-50/50 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Your rating</label>
+            <StarRating value={draftRating} onChange={setDraftRating} size="lg" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Your review (optional)</label>
+            <textarea value={draftBody} onChange={e => setDraftBody(e.target.value)} rows={3} maxLength={2000} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" placeholder="What did you learn? Who would you recommend it to?" />
+          </div>
+          {mine?.status === 'flagged' && <p className="text-xs text-gray-500">Saving your changes publishes your review again.</p>}
+          {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button type="submit" size="sm" isLoading={isSaving}>{mine ? 'Update Review' : 'Post Review'}</Button>
+          </div>
+        </form>
+      ) : mine ? (
+        <div className="mb-6 p-4 rounded-lg border border-gray-200">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">Your review</p>
+              {reviewText(mine)}
+            </div>
+            <div className="flex gap-3 text-sm font-medium whitespace-nowrap">
+              {mine.status !== 'hidden' && <button onClick={startEditing} className="text-indigo-600 hover:text-indigo-800">Edit</button>}
+              {mine.status !== 'hidden' && <button onClick={handleDelete} className="text-red-600 hover:text-red-800">Delete</button>}
+            </div>
+          </div>
+          {mine.status !== 'published' && (
+            <p className={`mt-3 text-sm p-3 rounded border ${mine.status === 'flagged' ? 'text-amber-800 bg-amber-50 border-amber-200' : 'text-gray-700 bg-gray-50 border-gray-200'}`}>
+              {mine.status === 'flagged' ? 'A moderator asked you to revise this review. It is not shown to others until you edit it.' : 'A moderator hid this review. It is not shown to others.'}
+              {mine.moderationNote && <span className="block mt-1 italic">"{mine.moderationNote}"</span>}
+            </p>
+          )}
+          {error && <p className="mt-3 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+        </div>
+      ) : (
+        <div className="mb-6">
+          <Button size="sm" variant="outline" onClick={startEditing}>Write a Review</Button>
+        </div>
+      ))}
+
+      {published.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {published.slice(0, shown).map(rating => (
+            <li key={rating.id} className="py-4 first:pt-0">{reviewText(rating)}</li>
+          ))}
+        </ul>
+      )}
+      {published.length > shown && (
+        <button onClick={() => setShown(shown + PAGE_SIZE)} className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+          Show more reviews
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { CourseModule, Lesson, LessonType } from '../types';
+import { getTotalMinutes, formatMinutes } from '../services/curriculumService';
+
+interface CourseSyllabusProps {
+  modules: CourseModule[];
+  completedLessonIds?: string[];
+  onToggleLesson?: (lessonId: string, completed: boolean) => void; // Enables the "mark complete" checkboxes
+  onOpenLesson?: (lesson: Lesson) => void;
+  onDiscussLesson?: (lesson: Lesson) => void; // Opens the program's discussions about the lesson
+}
+
+const LESSON_TYPE_LABELS: { [key in LessonType]: string } = {
+  video: 'Video',
+  reading: 'Reading',
+  exercise: 'Exercise',
+  project: 'Project',
+  live: 'Live Session',
+};
+
+export const CourseSyllabus: React.FC<CourseSyllabusProps> = ({ modules, completedLessonIds = [], onToggleLesson, onOpenLesson, onDiscussLesson }) => {
+  // First module starts open so the syllabus never looks empty
+  const [openModuleIds, setOpenModuleIds] = useState<string[]>(modules.length > 0 ? [modules[0].id] : []);
+
+  const toggleModule = (moduleId: string) => {
+    setOpenModuleIds(prev => prev.includes(moduleId) ? prev.filter(id => id !== moduleId) : [...prev, moduleId]);
+  };
+
+  const allOpen = openModuleIds.length === modules.length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3 text-sm text-gray-500">
+        <span>{modules.length} modules · {modules.reduce((acc, m) => acc + m.lessons.length, 0)} lessons · {formatMinutes(getTotalMinutes(modules))}</span>
+        <button
+          type="button"
+          onClick={() => setOpenModuleIds(allOpen ? [] : modules.map(m => m.id))}
+          className="text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          {allOpen ? 'Collapse all' : 'Expand all'}
+        </button>
+      </div>
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 overflow-hidden">
+        {modules.map((module, idx) => {
+          const isOpen = openModuleIds.includes(module.id);
+          return (
+            <div key={module.id}>
+              <button
+                type="button"
+                onClick={() => toggleModule(module.id)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-gray-50 hover:bg-gray-100 transition-colors text-left"
+              >
+                <span className="flex items-center gap-3">
+                  <svg className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+                  <span className="font-semibold text-gray-900">{idx + 1}. {module.title}</span>
+                </span>
+                <span className="text-xs text-gray-500">
+                  {onToggleLesson
+                    ? `${module.lessons.filter(l => completedLessonIds.includes(l.id)).length}/${module.lessons.length} done`
+                    : `${module.lessons.length} lessons`} · {formatMinutes(getTotalMinutes([module]))}
+                </span>
+              </button>
+              {isOpen && (
+                <ul className="divide-y divide-gray-100 bg-white">
+                  {module.lessons.map(lesson => {
+                    const isDone = completedLessonIds.includes(lesson.id);
+                    return (
+                      <li key={lesson.id} className="px-4 py-2.5 flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-2 text-gray-700">
+                          {onToggleLesson && (
+                            <input
+                              type="checkbox"
+                              checked={isDone}
+                              onChange={(e) => onToggleLesson(lesson.id, e.target.checked)}
+                              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 cursor-pointer"
+                              title={isDone ? 'Mark as not completed' : 'Mark lesson complete'}
+                            />
+                          )}
+                          <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-indigo-50 text-indigo-600">{LESSON_TYPE_LABELS[lesson.type]}</span>
+                          {onOpenLesson ? (
+                            <button type="button" onClick={() => onOpenLesson(lesson)} className={`text-left hover:text-indigo-600 hover:underline ${isDone ? 'text-gray-400 line-through' : ''}`}>
+                              {lesson.title}
+                            </button>
+                          ) : (
+                            <span className={isDone ? 'text-gray-400 line-through' : ''}>{lesson.title}</span>
+                          )}
+                        </span>
+                        <span className="flex items-center gap-3 flex-shrink-0 ml-4 text-xs">
+                          {onDiscussLesson && (
+                            <button type="button" onClick={() => onDiscussLesson(lesson)} className="font-medium text-indigo-600 hover:text-indigo-800">Discuss</button>
+                          )}
+                          <span className="text-gray-400">{formatMinutes(lesson.estimatedMinutes)}</span>
+                        </span>
+                      </li>
+                    );
+                  })}
+                  {module.lessons.length === 0 && (
+                    <li className="px-4 py-2.5 text-sm text-gray-400">Lessons coming soon.</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { CourseModule, Lesson, LessonType } from '../types';
+import { Button } from './Button';
+import { supabase } from '../supabaseClient';
+import { LESSON_TYPES, createModule, createLesson, normalizePositions, parseOutlineToCurriculum, getTotalMinutes, formatMinutes } from '../services/curriculumService';
+
+interface CurriculumEditorProps {
+  courseId: string;
+  modules: CourseModule[];
+  onChange: (modules: CourseModule[]) => void;
+  legacyOutline?: string;
+}
+
+// What is currently being dragged. Lessons can move within and across modules.
+type DragItem =
+  | { kind: 'module'; moduleId: string }
+  | { kind: 'lesson'; moduleId: string; lessonId: string };
+
+export const CurriculumEditor: React.FC<CurriculumEditorProps> = ({ courseId, modules, onChange, legacyOutline }) => {
+  const [videos, setVideos] = useState<{ id: string; title: string }[]>([]);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [expandedLessonId, setExpandedLessonId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.from('videos').select('id, title').order('title').then(({ data }) => {
+      if (data) setVideos(data);
+    });
+  }, []);
+
+  const commit = (next: CourseModule[]) => onChange(normalizePositions(next));
+
+  // --- Module Actions ---
+
+  const addModule = () => commit([...modules, createModule(courseId, `Module ${modules.length + 1}`)]);
+
+  const updateModule = (moduleId: string, title: string) =>
+    commit(modules.map(m => m.id === moduleId ? { ...m, title } : m));
+
+  const removeModule = (moduleId: string) => {
+    const target = modules.find(m => m.id === moduleId);
+    if (target && target.lessons.length > 0 && !confirm(`Remove "${target.title}" and its ${target.lessons.length} lessons?`)) return;
+    commit(modules.filter(m => m.id !== moduleId));
+  };
+
+  // --- Lesson Actions ---
+
+  const addLesson = (moduleId: string) => {
+    const lesson = createLesson(moduleId);
+    commit(modules.map(m => m.id === moduleId ? { ...m, lessons: [...m.lessons, lesson] } : m));
+    setExpandedLessonId(lesson.id);
+  };
+
+  const updateLesson = (moduleId: string, lessonId: string, changes: Partial<Lesson>) =>
+    commit(modules.map(m => m.id === moduleId
+      ? { ...m, lessons: m.lessons.map(l => l.id === lessonId ? { ...l, ...changes } : l) }
+      : m));
+
+  const removeLesson = (moduleId: string, lessonId: string) =>
+    commit(modules.map(m => m.id === moduleId ? { ...m, lessons: m.lessons.filter(l => l.id !== lessonId) } : m));
+
+  const handleImportOutline = () => {
+    const imported = parseOutlineToCurriculum(courseId, legacyOutline || '');
+    if (imported.length === 0) {
+      alert('No list items found in the existing outline.');
+      return;
+    }
+    commit([...modules, ...imported]);
+  };
+
+  // --- Drag & Drop ---
+
+  const handleDropOnModule = (targetModuleId: string) => {
+    if (!dragItem) return;
+    if (dragItem.kind === 'module') {
+      const from = modules.findIndex(m => m.id === dragItem.moduleId);
+      const to = modules.findIndex(m => m.id === targetModuleId);
+      if (from < 0 || to < 0 || from === to) return;
+      const next = [...modules];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      commit(next);
+    } else {
+      // Dropping a lesson on a module header appends it to that module
+      moveLesson(dragItem.moduleId, dragItem.lessonId, targetModuleId, null);
+    }
+  };
+
+  const moveLesson = (fromModuleId: string, lessonId: string, toModuleId: string, beforeLessonId: string | null) => {
+    const lesson = modules.find(m => m.id === fromModuleId)?.lessons.find(l => l.id === lessonId);
+    if (!lesson || lessonId === beforeLessonId) return;
+
+    const withoutLesson = modules.map(m => m.id === fromModuleId ? { ...m, lessons: m.lessons.filter(l => l.id !== lessonId) } : m);
+    commit(withoutLesson.map(m => {
+      if (m.id !== toModuleId) return m;
+      const lessons = [...m.lessons];
+      const idx = beforeLessonId ? lessons.findIndex(l => l.id === beforeLessonId) : -1;
+      lessons.splice(idx < 0 ? lessons.length : idx, 0, lesson);
+      return { ...m, lessons };
+    }));
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  const totalLessons = modules.reduce((acc, m) => acc + m.lessons.length, 0);
+
+  return (
+    <div className="col-span-2">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Curriculum
+          <span className="ml-2 text-xs font-normal text-gray-400">{modules.length} modules · {totalLessons} lessons · {formatMinutes(getTotalMinutes(modules))}</span>
+        </label>
+        <div className="flex gap-2">
+          {legacyOutline && (
+            <Button type="button" size="sm" variant="outline" onClick={handleImportOutline}>Import from Outline</Button>
+          )}
+          <Button type="button" size="sm" variant="secondary" onClick={addModule}>Add Module</Button>
+        </div>
+      </div>
+
+      {modules.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-400 border border-dashed border-gray-300 rounded-md">
+          No modules yet. Add a module or import the existing outline.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {modules.map((module, moduleIdx) => (
+            <div
+              key={module.id}
+              onDragOver={(e) => { e.preventDefault(); setDropTarget(module.id); }}
+              onDrop={(e) => { e.preventDefault(); handleDropOnModule(module.id); endDrag(); }}
+              className={`border rounded-md bg-white transition-colors ${dropTarget === module.id ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-gray-200'}`}
+            >
+              <div
+                draggable
+                onDragStart={() => setDragItem({ kind: 'module', moduleId: module.id })}
+                onDragEnd={endDrag}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-50 border-b border-gray-200 cursor-move"
+              >
+                <svg className="w-4 h-4 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16" /></svg>
+                <span className="text-xs font-bold text-gray-400 w-6">{moduleIdx + 1}</span>
+                <input
+                  type="text"
+                  value={module.title}
+                  onChange={(e) => updateModule(module.id, e.target.value)}
+                  className="flex-1 text-sm font-semibold bg-transparent border-0 focus:ring-0 p-0 text-gray-900"
+                  placeholder="Module title"
+                />
+                <button type="button" onClick={() => addLesson(module.id)} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">+ Lesson</button>
+                <button type="button" onClick={() => removeModule(module.id)} className="text-gray-400 hover:text-red-600 p-1" title="Remove Module">
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+
+              <ul className="divide-y divide-gray-100">
+                {module.lessons.map(lesson => (
+                  <li
+                    key={lesson.id}
+                    draggable
+                    onDragStart={(e) => { e.stopPropagation(); setDragItem({ kind: 'lesson', moduleId: module.id, lessonId: lesson.id }); }}
+                    onDragEnd={endDrag}
+                    onDrop={(e) => {
+                      if (dragItem?.kind !== 'lesson') return;
+                      e.preventDefault();
+                      e.stopPropagation();
+                      moveLesson(dragItem.moduleId, dragItem.lessonId, module.id, lesson.id);
+                      endDrag();
+                    }}
+                    className="px-3 py-2 cursor-move"
+                  >
+                    <div className="flex items-center gap-2">
+                      <svg className="w-3 h-3 text-gray-300 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16" /></svg>
+                      <input
+                        type="text"
+                        value={lesson.title}
+                        onChange={(e) => updateLesson(module.id, lesson.id, { title: e.target.value })}
+                        className="flex-1 text-sm border-0 focus:ring-0 p-0 text-gray-700"
+                        placeholder="Lesson title"
+                      />
+                      <select
+                        value={lesson.type}
+                        onChange={(e) => updateLesson(module.id, lesson.id, { type: e.target.value as LessonType })}
+                        className="text-xs rounded border-gray-200 py-1 capitalize"
+                      >
+                        {LESSON_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        value={lesson.estimatedMinutes}
+                        onChange={(e) => updateLesson(module.id, lesson.id, { estimatedMinutes: Number(e.target.value) })}
+                        className="w-16 text-xs rounded border-gray-200 py-1"
+                        title="Estimated minutes"
+                      />
+                      <button type="button" onClick={() => setExpandedLessonId(expandedLessonId === lesson.id ? null : lesson.id)} className="text-xs text-gray-500 hover:text-indigo-600">
+                        {expandedLessonId === lesson.id ? 'Less' : 'More'}
+                      </button>
+                      <button type="button" onClick={() => removeLesson(module.id, lesson.id)} className="text-gray-300 hover:text-red-600 p-1" title="Remove Lesson">
+                        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                    {expandedLessonId === lesson.id && (
+                      <div className="grid grid-cols-2 gap-2 mt-2 pl-5">
+                        <select
+                          value={lesson.videoId || ''}
+                          onChange={(e) => updateLesson(module.id, lesson.id, { videoId: e.target.value || undefined })}
+                          className="text-xs rounded border-gray-200"
+                        >
+                          <option value="">No attached video</option>
+                          {videos.map(v => <option key={v.id} value={v.id}>{v.title}</option>)}
+                        </select>
+                        <input
+                          type="url"
+                          value={lesson.resourceUrl || ''}
+                          onChange={(e) => updateLesson(module.id, lesson.id, { resourceUrl: e.target.value || undefined })}
+                          className="text-xs rounded border-gray-200"
+                          placeholder="Resource URL (slides, notebook, reading)"
+                        />
+                      </div>
+                    )}
+                  </li>
+                ))}
+                {module.lessons.length === 0 && (
+                  <li className="px-3 py-3 text-xs text-gray-400 text-center">Drag lessons here or add a new one.</li>
+                )}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,309 @@
+import React, { useState, useEffect } from 'react';
+import { Course, DiscussionParticipant, DiscussionPost, DiscussionThread, User } from '../types';
+import { Button } from './Button';
+import { MentionTextarea } from './MentionTextarea';
+import {
+  fetchThread, fetchReplies, fetchParticipants, fetchMyVotes, buildReplyTree, splitMentions, formatPostTime,
+  updateThread, deleteThread, createReply, updateReply, deleteReply, setVote, moderateThread, setReplyHidden, ReplyNode,
+} from '../services/discussionService';
+
+interface DiscussionThreadViewProps {
+  course: Course;
+  threadId: string;
+  user: User;
+  canModerate: boolean; // The program's instructor or an admin
+  onBack: () => void; // Also used once the thread is deleted
+}
+
+// Deeper replies are still nested in the data, but drawn at this depth so narrow screens stay readable
+const MAX_INDENT = 4;
+
+export const DiscussionThreadView: React.FC<DiscussionThreadViewProps> = ({ course, threadId, user, canModerate, onBack }) => {
+  const [thread, setThread] = useState<DiscussionThread | null>(null);
+  const [replies, setReplies] = useState<DiscussionPost[]>([]);
+  const [participants, setParticipants] = useState<DiscussionParticipant[]>([]);
+  const [voted, setVoted] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [threadDraft, setThreadDraft] = useState<{ title: string; body: string; lessonId: string } | null>(null);
+  const [replyDraft, setReplyDraft] = useState<{ parentId?: string; postId?: string; body: string } | null>(null); // postId when editing
+  const [newReply, setNewReply] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadThread = async () => {
+    try {
+      const [loadedThread, loadedReplies] = await Promise.all([fetchThread(threadId), fetchReplies(threadId)]);
+      setThread(loadedThread);
+      setReplies(loadedReplies);
+      setVoted(await fetchMyVotes(user.id, { threadIds: [threadId], postIds: loadedReplies.map(r => r.id) }));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to load the discussion.');
+    }
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    setThreadDraft(null);
+    setReplyDraft(null);
+    Promise.all([loadThread(), fetchParticipants(course.id).then(setParticipants)]).then(() => setIsLoading(false));
+  }, [threadId, course.id]);
+
+  // Runs a change, then reloads the thread so counters and markers come from the database
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      await loadThread();
+      return true;
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || failure);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="max-w-4xl mx-auto px-4 py-12 text-sm text-gray-500">Loading discussion...</div>;
+  }
+
+  if (!thread) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <button onClick={onBack} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-4">← Back</button>
+        <p className="text-gray-600">{error || 'This discussion no longer exists or has been hidden by a moderator.'}</p>
+      </div>
+    );
+  }
+
+  const lessons = (course.curriculum || []).flatMap(m => m.lessons);
+  const lessonTitle = lessons.find(l => l.id === thread.lessonId)?.title;
+  const mentionable = participants.filter(p => p.id !== user.id);
+  const names = participants.map(p => p.name);
+  const answer = replies.find(r => r.id === thread.answerPostId);
+  const canReply = !thread.isLocked || canModerate;
+  const childIds = new Set(replies.map(r => r.parentId).filter(Boolean));
+
+  const renderBody = (body: string) => (
+    <p className="text-sm text-gray-700 whitespace-pre-line break-words">
+      {splitMentions(body, names).map((part, index) =>
+        part.isMention ? <span key={index} className="font-medium text-indigo-600">{part.text}</span> : <React.Fragment key={index}>{part.text}</React.Fragment>
+      )}
+    </p>
+  );
+
+  const byline = (post: { authorName: string; isStaff: boolean; createdAt: string; editedAt?: string }) => (
+    <p className="text-xs text-gray-500 flex flex-wrap items-center gap-x-2">
+      <span className="font-medium text-gray-900">{post.authorName}</span>
+      {post.isStaff && <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-indigo-100 text-indigo-700">Instructor</span>}
+      <span>{formatPostTime(post.createdAt)}</span>
+      {post.editedAt && <span>(edited)</span>}
+    </p>
+  );
+
+  const voteButton = (id: string, upvotes: number, authorId: string, target: { threadId?: string; postId?: string }) => {
+    const hasVoted = voted.includes(id);
+    const isOwn = authorId === user.id;
+    return (
+      <button
+        onClick={() => run(() => setVote(user.id, target, !hasVoted), 'Failed to save your vote.')}
+        disabled={isOwn || isSaving}
+        title={isOwn ? 'You cannot upvote your own post' : hasVoted ? 'Remove your upvote' : 'Upvote'}
+        className={`flex flex-col items-center w-10 flex-shrink-0 rounded-md py-1 ${hasVoted ? 'text-indigo-600 bg-indigo-50' : 'text-gray-400 hover:text-indigo-600'} disabled:cursor-default disabled:hover:text-gray-400`}
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+        <span className="text-sm font-semibold">{upvotes}</span>
+      </button>
+    );
+  };
+
+  const handleSaveThread = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!threadDraft) return;
+    if (!threadDraft.title.trim() || !threadDraft.body.trim()) {
+      setError('Add a title and describe your question.');
+      return;
+    }
+    if (await run(() => updateThread(thread.id, { ...threadDraft, lessonId: threadDraft.lessonId || undefined }), 'Failed to save your changes.')) {
+      setThreadDraft(null);
+    }
+  };
+
+  const handleDeleteThread = async () => {
+    if (!window.confirm(thread.replyCount > 0 ? `Delete this discussion and its ${thread.replyCount} replies?` : 'Delete this discussion?')) return;
+    try {
+      await deleteThread(thread.id);
+      onBack();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete the discussion.');
+    }
+  };
+
+  const handleSaveReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyDraft?.body.trim()) return;
+    const saved = await run(
+      () => replyDraft.postId ? updateReply(replyDraft.postId, replyDraft.body) : createReply(thread.id, replyDraft.parentId, replyDraft.body, participants),
+      'Failed to save your reply.'
+    );
+    if (saved) setReplyDraft(null);
+  };
+
+  const handleNewReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newReply.trim()) return;
+    if (await run(() => createReply(thread.id, undefined, newReply, participants), 'Failed to post your reply.')) setNewReply('');
+  };
+
+  const handleDeleteReply = async (post: DiscussionPost) => {
+    if (!window.confirm(childIds.has(post.id) ? 'Delete this reply and the replies under it?' : 'Delete this reply?')) return;
+    await run(() => deleteReply(post.id), 'Failed to delete the reply.');
+  };
+
+  const replyForm = (
+    <form onSubmit={handleSaveReply} className="mt-3 space-y-2">
+      <MentionTextarea value={replyDraft?.body || ''} onChange={body => replyDraft && setReplyDraft({ ...replyDraft, body })} participants={mentionable} rows={3} autoFocus />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => setReplyDraft(null)}>Cancel</Button>
+        <Button type="submit" size="sm" isLoading={isSaving}>{replyDraft?.postId ? 'Save' : 'Reply'}</Button>
+      </div>
+    </form>
+  );
+
+  const renderReply = ({ post, replies: children }: ReplyNode, depth: number): React.ReactNode => {
+    const isAnswer = post.id === thread.answerPostId;
+    const isOwn = post.authorId === user.id;
+    const isEditing = replyDraft?.postId === post.id;
+    return (
+      <li key={post.id} className={depth > 0 && depth <= MAX_INDENT ? 'ml-6 sm:ml-10' : ''}>
+        <div id={`reply-${post.id}`} className={`flex gap-3 p-4 rounded-lg border ${isAnswer ? 'border-green-300 bg-green-50' : 'border-gray-200 bg-white'} ${post.isHidden ? 'opacity-60' : ''}`}>
+          {voteButton(post.id, post.upvotes, post.authorId, { postId: post.id })}
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              {byline(post)}
+              {isAnswer && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">Answer</span>}
+              {post.isHidden && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">Hidden</span>}
+            </div>
+            {isEditing ? replyForm : renderBody(post.body)}
+            {!isEditing && (
+              <div className="flex flex-wrap gap-4 mt-2 text-xs font-medium">
+                {canReply && !post.isHidden && (
+                  <button onClick={() => setReplyDraft({ parentId: post.id, body: '' })} className="text-indigo-600 hover:text-indigo-800">Reply</button>
+                )}
+                {isOwn && !post.isHidden && (
+                  <button onClick={() => setReplyDraft({ postId: post.id, body: post.body })} className="text-gray-600 hover:text-gray-900">Edit</button>
+                )}
+                {((isOwn && !childIds.has(post.id)) || canModerate) && (
+                  <button onClick={() => handleDeleteReply(post)} className="text-red-600 hover:text-red-800">Delete</button>
+                )}
+                {canModerate && !post.isHidden && (
+                  <button onClick={() => run(() => moderateThread(thread.id, { answerPostId: isAnswer ? null : post.id }), 'Failed to update the answer.')} className="text-green-700 hover:text-green-900">
+                    {isAnswer ? 'Unmark Answer' : 'Mark as Answer'}
+                  </button>
+                )}
+                {canModerate && (
+                  <button onClick={() => run(() => setReplyHidden(post.id, !post.isHidden), 'Failed to update the reply.')} className="text-gray-600 hover:text-gray-900">
+                    {post.isHidden ? 'Unhide' : 'Hide'}
+                  </button>
+                )}
+              </div>
+            )}
+            {replyDraft?.parentId === post.id && replyForm}
+          </div>
+        </div>
+        {children.length > 0 && <ul className="mt-3 space-y-3">{children.map(child => renderReply(child, depth + 1))}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <button onClick={onBack} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-4">← Back to Discussions</button>
+      <p className="text-sm text-gray-500 mb-2">{course.title}{lessonTitle && ` · ${lessonTitle}`}</p>
+
+      {error && <p className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      <div className={`bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6 ${thread.isHidden ? 'opacity-60' : ''}`}>
+        {threadDraft ? (
+          <form onSubmit={handleSaveThread} className="space-y-4">
+            <input type="text" value={threadDraft.title} onChange={e => setThreadDraft({ ...threadDraft, title: e.target.value })} maxLength={200} className="w-full rounded-md border border-gray-300 px-3 py-2 font-semibold" />
+            {lessons.length > 0 && (
+              <select value={threadDraft.lessonId} onChange={e => setThreadDraft({ ...threadDraft, lessonId: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm">
+                <option value="">The program in general</option>
+                {(course.curriculum || []).map(module => (
+                  <optgroup key={module.id} label={module.title}>
+                    {module.lessons.map(lesson => <option key={lesson.id} value={lesson.id}>{lesson.title}</option>)}
+                  </optgroup>
+                ))}
+              </select>
+            )}
+            <MentionTextarea value={threadDraft.body} onChange={body => setThreadDraft({ ...threadDraft, body })} participants={mentionable} rows={5} />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setThreadDraft(null)}>Cancel</Button>
+              <Button type="submit" size="sm" isLoading={isSaving}>Save</Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex gap-4">
+            {voteButton(thread.id, thread.upvotes, thread.authorId, { threadId: thread.id })}
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                {thread.isPinned && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">Pinned</span>}
+                {thread.isLocked && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Locked</span>}
+                {thread.isHidden && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">Hidden</span>}
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-1 break-words">{thread.title}</h1>
+              <div className="mb-4">{byline(thread)}</div>
+              {renderBody(thread.body)}
+              <div className="flex flex-wrap gap-4 mt-4 text-xs font-medium">
+                {thread.authorId === user.id && !thread.isHidden && (
+                  <button onClick={() => setThreadDraft({ title: thread.title, body: thread.body, lessonId: thread.lessonId || '' })} className="text-gray-600 hover:text-gray-900">Edit</button>
+                )}
+                {((thread.authorId === user.id && thread.replyCount === 0) || canModerate) && (
+                  <button onClick={handleDeleteThread} className="text-red-600 hover:text-red-800">Delete</button>
+                )}
+                {canModerate && (
+                  <>
+                    <button onClick={() => run(() => moderateThread(thread.id, { isPinned: !thread.isPinned }), 'Failed to update the discussion.')} className="text-indigo-600 hover:text-indigo-800">
+                      {thread.isPinned ? 'Unpin' : 'Pin'}
+                    </button>
+                    <button onClick={() => run(() => moderateThread(thread.id, { isLocked: !thread.isLocked }), 'Failed to update the discussion.')} className="text-gray-600 hover:text-gray-900">
+                      {thread.isLocked ? 'Unlock' : 'Lock'}
+                    </button>
+                    <button onClick={() => run(() => moderateThread(thread.id, { isHidden: !thread.isHidden }), 'Failed to update the discussion.')} className="text-gray-600 hover:text-gray-900">
+                      {thread.isHidden ? 'Unhide' : 'Hide'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {answer && (
+        <a href={`#reply-${answer.id}`} className="block mb-6 p-4 rounded-lg border border-green-200 bg-green-50 text-sm text-green-800 hover:bg-green-100">
+          <span className="font-semibold">Answered</span> by {answer.authorName}{answer.isStaff && ' (Instructor)'}. Jump to the answer ↓
+        </a>
+      )}
+
+      <h2 className="text-lg font-bold text-gray-900 mb-3">{thread.replyCount} {thread.replyCount === 1 ? 'Reply' : 'Replies'}</h2>
+      {replies.length > 0 && <ul className="space-y-3 mb-6">{buildReplyTree(replies).map(node => renderReply(node, 0))}</ul>}
+
+      {canReply ? (
+        <form onSubmit={handleNewReply} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-3">
+          <MentionTextarea value={newReply} onChange={setNewReply} participants={mentionable} rows={4} placeholder="Write a reply. Type @ to mention someone." />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" isLoading={isSaving} disabled={!newReply.trim()}>Post Reply</Button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-600 bg-gray-50 p-4 rounded-lg border border-gray-200">This discussion is locked. Only the instructor can reply.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { EmailStatus, OutboxEmail, View } from '../types';
+import { Button } from './Button';
+import { fetchOutbox, retryEmail, processOutbox } from '../services/emailService';
+import { EMAIL_TEMPLATE_DEFINITIONS } from '../services/emailTemplates';
+
+interface EmailLogProps {
+  onChangeView: (view: View) => void;
+}
+
+const STATUS_STYLES: { [status in EmailStatus]: string } = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const templateLabel = (key: string) => EMAIL_TEMPLATE_DEFINITIONS.find(d => d.key === key)?.label || key;
+const isSensitive = (key: string) => !!EMAIL_TEMPLATE_DEFINITIONS.find(d => d.key === key)?.sensitive;
+
+export const EmailLog: React.FC<EmailLogProps> = ({ onChangeView }) => {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<EmailStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [viewing, setViewing] = useState<OutboxEmail | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // 'process' or an email id
+  const [message, setMessage] = useState<string | null>(null);
+
+  const reload = async () => {
+    setEmails(await fetchOutbox(statusFilter || undefined));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    reload();
+  }, [statusFilter]);
+
+  const runAction = async (key: string, task: () => Promise<string>) => {
+    setBusy(key);
+    setMessage(null);
+    try {
+      setMessage(await task());
+      await reload();
+    } catch (err) {
+      console.error(err);
+      setMessage(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleProcess = () => runAction('process', async () => {
+    const result = await processOutbox();
+    return `Processed ${result.processed} message(s): ${result.sent} sent, ${result.failed} failed.`;
+  });
+
+  const handleRetry = (email: OutboxEmail) => runAction(email.id, async () => {
+    await retryEmail(email.id);
+    return `Requeued the email to ${email.recipient}.`;
+  });
+
+  const term = search.trim().toLowerCase();
+  const filtered = emails.filter(e => !term || [e.recipient, e.subject || '', templateLabel(e.template)].some(v => v.toLowerCase().includes(term)));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Email Log</h1>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => onChangeView(View.ADMIN_EMAIL_TEMPLATES)}>Edit Templates</Button>
+          <Button onClick={handleProcess} isLoading={busy === 'process'} disabled={!!busy}>Send Queued Now</Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as EmailStatus | '')} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+          <option value="">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="sending">Sending</option>
+          <option value="sent">Sent</option>
+          <option value="failed">Failed</option>
+        </select>
+        <input
+          type="search"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Search by recipient or subject"
+          className="w-full sm:w-80 rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : filtered.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Queued</th>
+                <th className="px-6 py-3">Recipient</th>
+                <th className="px-6 py-3">Email</th>
+                <th className="px-6 py-3">Status</th>
+                <th className="px-6 py-3">Attempts</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filtered.map(email => (
+                <tr key={email.id}>
+                  <td className="px-6 py-4 text-gray-600 whitespace-nowrap">{new Date(email.createdAt).toLocaleString()}</td>
+                  <td className="px-6 py-4 text-gray-900">{email.recipient}</td>
+                  <td className="px-6 py-4">
+                    <p className="text-gray-900">{email.subject || templateLabel(email.template)}</p>
+                    {email.subject && <p className="text-xs text-gray-500">{templateLabel(email.template)}</p>}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[email.status]}`} title={email.lastError}>{email.status}</span>
+                    {email.status === 'sent' && email.transport && <p className="text-xs text-gray-500 mt-1">via {email.transport}</p>}
+                    {email.status !== 'sent' && email.lastError && <p className="text-xs text-red-600 mt-1 max-w-xs truncate" title={email.lastError}>{email.lastError}</p>}
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">{email.attempts}</td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap space-x-3">
+                    <button onClick={() => setViewing(email)} className="text-indigo-600 hover:text-indigo-800 font-medium">View</button>
+                    {email.status === 'failed' && (
+                      <button onClick={() => handleRetry(email)} disabled={!!busy} className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50">
+                        {busy === email.id ? 'Requeuing...' : 'Retry'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No emails found</div>
+        )}
+      </div>
+
+      {viewing && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in" onClick={() => setViewing(null)}>
+          <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6" onClick={e => e.stopPropagation()}>
+            <h3 className="text-lg font-bold text-gray-900">{viewing.subject || templateLabel(viewing.template)}</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              To {viewing.recipient} · {viewing.sentAt ? `Sent ${new Date(viewing.sentAt).toLocaleString()}` : `Next attempt ${new Date(viewing.nextAttemptAt).toLocaleString()}`}
+            </p>
+            {viewing.body ? (
+              <pre className="mt-4 max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-gray-50 border border-gray-200 p-4 text-sm text-gray-800 font-sans">{viewing.body}</pre>
+            ) : (
+              <p className="mt-4 text-sm text-gray-500">
+                {isSensitive(viewing.template) && viewing.attempts > 0
+                  ? 'The content of this email is not kept because it contains a sign-in link.'
+                  : 'The message is rendered when it is first sent.'}
+              </p>
+            )}
+            {viewing.lastError && <p className="mt-3 text-sm text-red-600">Last error: {viewing.lastError}</p>}
+            <div className="flex justify-end mt-6">
+              <Button variant="outline" onClick={() => setViewing(null)}>Close</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
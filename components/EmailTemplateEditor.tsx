@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View } from '../types';
+import { Button } from './Button';
+import { fetchEmailTemplates, saveEmailTemplate, resetEmailTemplate } from '../services/emailService';
+import {
+  EmailTemplate, EmailTemplateKey, EMAIL_TEMPLATE_DEFINITIONS, DEFAULT_EMAIL_TEMPLATES,
+  getEmailTemplateDefinition, getSampleEmailData, renderEmail,
+} from '../services/emailTemplates';
+
+interface EmailTemplateEditorProps {
+  onChangeView: (view: View) => void;
+}
+
+export const EmailTemplateEditor: React.FC<EmailTemplateEditorProps> = ({ onChangeView }) => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>(EMAIL_TEMPLATE_DEFINITIONS[0].key);
+  const [draft, setDraft] = useState<EmailTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const reload = async () => {
+    const loaded = await fetchEmailTemplates();
+    setTemplates(loaded);
+    return loaded;
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  useEffect(() => {
+    setDraft(templates.find(t => t.key === selectedKey) || null);
+    setMessage(null);
+  }, [selectedKey, templates]);
+
+  if (!draft) return <div className="p-8 text-center text-gray-500">Loading...</div>;
+
+  const definition = getEmailTemplateDefinition(draft.key);
+  const saved = templates.find(t => t.key === draft.key);
+  const isDirty = !!saved && (saved.subject !== draft.subject || saved.body !== draft.body);
+  const preview = renderEmail(draft, getSampleEmailData(draft.key));
+
+  // Inserts a placeholder at the cursor in the body
+  const insertField = (key: string) => {
+    const textarea = bodyRef.current;
+    const token = `{${key}}`;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + token + draft.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const runSave = async (task: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await task();
+      await reload();
+      setMessage({ text: success });
+    } catch (err) {
+      console.error(err);
+      setMessage({ text: 'Failed to save the template.', error: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft.subject.trim() || !draft.body.trim()) {
+      setMessage({ text: 'Subject and body are required.', error: true });
+      return;
+    }
+    runSave(() => saveEmailTemplate(draft), 'Template saved. New emails will use it.');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Restore the default wording for this email?')) return;
+    runSave(() => resetEmailTemplate(draft.key), 'Default template restored.');
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Email Templates</h1>
+        <Button variant="outline" onClick={() => onChangeView(View.ADMIN_EMAILS)}>Back to Email Log</Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <nav className="bg-white rounded-xl shadow-sm border border-gray-200 p-2 h-fit">
+          {templates.map(t => (
+            <button
+              key={t.key}
+              onClick={() => setSelectedKey(t.key)}
+              className={`w-full text-left px-3 py-2 rounded-md text-sm ${t.key === selectedKey ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              {getEmailTemplateDefinition(t.key).label}
+              {t.customized && <span className="ml-2 text-xs text-gray-400">edited</span>}
+            </button>
+          ))}
+        </nav>
+
+        <div className="lg:col-span-3 grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">{definition.label}</h2>
+              <p className="text-sm text-gray-500">{definition.description}</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+              <input
+                value={draft.subject}
+                onChange={e => setDraft({ ...draft, subject: e.target.value })}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Body</label>
+              <textarea
+                ref={bodyRef}
+                value={draft.body}
+                onChange={e => setDraft({ ...draft, body: e.target.value })}
+                rows={14}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">Plain text. Blank lines start a new paragraph and links become clickable.</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Insert field</p>
+              <div className="flex flex-wrap gap-2">
+                {definition.fields.map(field => (
+                  <button key={field.key} onClick={() => insertField(field.key)} className="px-2 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50" title={field.label}>
+                    {`{${field.key}}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {message && <p className={`text-sm ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>}
+            <div className="flex flex-wrap justify-end gap-3">
+              {draft.customized && <Button variant="outline" onClick={handleReset} disabled={isSaving}>Restore Default</Button>}
+              {isDirty && <Button variant="outline" onClick={() => setDraft(saved!)} disabled={isSaving}>Discard Changes</Button>}
+              <Button onClick={handleSave} isLoading={isSaving} disabled={!isDirty}>Save Template</Button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">Preview with sample data</p>
+            <p className="font-medium text-gray-900 border-b border-gray-200 pb-3 mb-4">{preview.subject}</p>
+            <div dangerouslySetInnerHTML={{ __html: preview.html }} />
+            {draft.subject === DEFAULT_EMAIL_TEMPLATES[draft.key].subject && draft.body === DEFAULT_EMAIL_TEMPLATES[draft.key].body && (
+              <p className="text-xs text-gray-400 mt-4">This is the default wording.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Course, LearningPath, User } from '../types';
+import { Button } from './Button';
+import { getPathProgress } from '../services/pathService';
+
+interface LearningPathsProps {
+  paths: LearningPath[];
+  courses: Course[];
+  user: User | null;
+  selectedPathId?: string; // Shows only this path (deep link from /paths/:id)
+  onSelectPath: (pathId?: string) => void;
+  onViewCourse: (course: Course) => void;
+  onRegister: (courseId: string) => void;
+  onViewCertificate: (pathId: string) => void;
+}
+
+const StepStatus: React.FC<{ course: Course; user: User }> = ({ course, user }) => {
+  if (user.completedCourseIds.includes(course.id)) {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Completed</span>;
+  }
+  if (user.pendingCourseIds.includes(course.id)) {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Awaiting approval</span>;
+  }
+  if (user.registeredCourseIds.includes(course.id)) {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">{user.courseProgress[course.id] || 0}% done</span>;
+  }
+  return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Not started</span>;
+};
+
+export const LearningPaths: React.FC<LearningPathsProps> = ({ paths, courses, user, selectedPathId, onSelectPath, onViewCourse, onRegister, onViewCertificate }) => {
+  const visible = selectedPathId ? paths.filter(p => p.id === selectedPathId) : paths;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      {selectedPathId ? (
+        <button onClick={() => onSelectPath(undefined)} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-6">&larr; All learning paths</button>
+      ) : (
+        <div className="text-center mb-12">
+          <h1 className="text-3xl font-bold text-gray-900 sm:text-4xl">Learning Paths</h1>
+          <p className="mt-4 text-xl text-gray-500">Curated tracks of programs, taken in order, with a path certificate at the end.</p>
+        </div>
+      )}
+
+      {visible.length === 0 && (
+        <div className="text-center py-16 bg-white rounded-xl border border-dashed border-gray-300 text-gray-500">
+          {selectedPathId ? 'This learning path no longer exists.' : 'No learning paths yet.'}
+        </div>
+      )}
+
+      <div className="space-y-8">
+        {visible.map(path => {
+          const steps = path.courseIds.map(id => courses.find(c => c.id === id)).filter((c): c is Course => !!c);
+          const progress = getPathProgress(path, user);
+          const nextCourse = steps.find(c => c.id === progress.nextCourseId);
+          return (
+            <div key={path.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-5 border-b border-gray-200">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                  <div>
+                    <button onClick={() => onSelectPath(path.id)} className="text-xl font-bold text-gray-900 hover:text-indigo-600 text-left">{path.title}</button>
+                    {path.description && <p className="mt-1 text-gray-600">{path.description}</p>}
+                    <p className="mt-2 text-sm text-gray-500">{steps.length} programs</p>
+                  </div>
+                  {progress.isComplete ? (
+                    <Button size="sm" onClick={() => onViewCertificate(path.id)}>View Path Certificate</Button>
+                  ) : nextCourse && !user?.registeredCourseIds.includes(nextCourse.id) ? (
+                    <Button size="sm" onClick={() => onRegister(nextCourse.id)}>{progress.completed > 0 ? 'Register for next program' : 'Start this path'}</Button>
+                  ) : null}
+                </div>
+                {user && (
+                  <div className="mt-4">
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span>{progress.completed} of {progress.total} completed</span>
+                      <span>{progress.percent}%</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-600 rounded-full transition-all" style={{ width: `${progress.percent}%` }} />
+                    </div>
+                  </div>
+                )}
+              </div>
+              <ol className="divide-y divide-gray-100">
+                {steps.map((course, index) => (
+                  <li key={course.id} className="px-6 py-4 flex items-center gap-4">
+                    <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${user?.completedCourseIds.includes(course.id) ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-600'}`}>
+                      {index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <button onClick={() => onViewCourse(course)} className="font-medium text-gray-900 hover:text-indigo-600 text-left truncate block max-w-full">{course.title}</button>
+                      <p className="text-xs text-gray-500">{course.level} · {course.duration}</p>
+                    </div>
+                    {user && <StepStatus course={course} user={user} />}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState, useRef } from 'react';
+import { DiscussionParticipant } from '../types';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  participants: DiscussionParticipant[];
+  rows?: number;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Textarea that suggests participants after "@" and inserts "@Full Name" on selection.
+export const MentionTextarea: React.FC<MentionTextareaProps> = ({ value, onChange, participants, rows = 4, placeholder, autoFocus }) => {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<{ start: number; text: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = query
+    ? participants.filter(p => p.name.toLowerCase().includes(query.text.toLowerCase())).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  // The "@..." being typed just before the caret, if any (up to two words, so full names can be typed)
+  const findQuery = (text: string, caret: number) => {
+    const match = /(^|[^\w@])@([\w.'-]*(?: [\w.'-]*)?)$/.exec(text.slice(0, caret));
+    return match ? { start: caret - match[2].length - 1, text: match[2] } : null;
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    setQuery(findQuery(e.target.value, e.target.selectionStart));
+    setHighlighted(0);
+  };
+
+  const choose = (participant: DiscussionParticipant) => {
+    if (!query) return;
+    const caret = query.start + 1 + query.text.length;
+    const mention = `@${participant.name} `;
+    onChange(value.slice(0, query.start) + mention + value.slice(caret));
+    setQuery(null);
+    const position = query.start + mention.length;
+    requestAnimationFrame(() => {
+      textarea.current?.focus();
+      textarea.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => (prev + (e.key === 'ArrowDown' ? 1 : -1) + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      choose(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textarea}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        rows={rows}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg text-sm overflow-hidden">
+          {suggestions.map((participant, index) => (
+            <li key={participant.id}>
+              <button
+                type="button"
+                onMouseDown={e => { e.preventDefault(); choose(participant); }}
+                className={`w-full text-left px-3 py-2 flex items-center justify-between ${index === highlighted ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                <span>{participant.name}</span>
+                {participant.isStaff && <span className="text-xs text-indigo-600">Instructor</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { View, User } from '../types';
 import { Button } from './Button';
+import { canTeach, canManageFinance } from '../services/userService';
 
 interface NavbarProps {
   currentView: View;
@@ -8,15 +9,17 @@ interface NavbarProps {
   user: User | null;
   onLogout: () => void;
   pendingRequestCount?: number;
+  unreadNotificationCount?: number;
 }
 
-export const Navbar: React.FC<NavbarProps> = ({ currentView, onChangeView, user, onLogout, pendingRequestCount = 0 }) => {
+export const Navbar: React.FC<NavbarProps> = ({ currentView, onChangeView, user, onLogout, pendingRequestCount = 0, unreadNotificationCount = 0 }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
 
   const navItems = [
     { label: 'Home', view: View.HOME },
     { label: 'Training Programs', view: View.COURSES },
+    { label: 'Learning Paths', view: View.LEARNING_PATHS },
     { label: 'Video Gallery', view: View.VIDEO_GENERATOR },
   ];
 
@@ -24,6 +27,46 @@ export const Navbar: React.FC<NavbarProps> = ({ currentView, onChangeView, user,
     navItems.push({ label: 'Dashboard', view: View.DASHBOARD });
   }
 
+  if (canManageFinance(user)) {
+    navItems.push({ label: 'Revenue', view: View.ADMIN_REVENUE });
+    navItems.push({ label: 'Coupons', view: View.ADMIN_COUPONS });
+  }
+
+  if (canTeach(user)) {
+    navItems.push({ label: 'Assignments', view: View.ADMIN_ASSIGNMENTS });
+    navItems.push({ label: 'Quizzes', view: View.ADMIN_QUIZZES });
+    navItems.push({ label: 'Cohorts', view: View.ADMIN_COHORTS });
+    navItems.push({ label: 'Sessions', view: View.ADMIN_SESSIONS });
+  }
+
+  if (user?.role === 'admin') {
+    navItems.push({ label: 'Analytics', view: View.ADMIN_ANALYTICS });
+    navItems.push({ label: 'Paths', view: View.ADMIN_PATHS });
+    navItems.push({ label: 'Ratings', view: View.ADMIN_RATINGS });
+    navItems.push({ label: 'Users', view: View.ADMIN_USERS });
+    navItems.push({ label: 'Certificates', view: View.ADMIN_CERTIFICATES });
+    navItems.push({ label: 'Templates', view: View.ADMIN_CERTIFICATE_TEMPLATES });
+    navItems.push({ label: 'Signatories', view: View.ADMIN_SIGNATORIES });
+    navItems.push({ label: 'Emails', view: View.ADMIN_EMAILS });
+    navItems.push({ label: 'Roles', view: View.ADMIN_ROLES });
+    navItems.push({ label: 'Audit Log', view: View.ADMIN_AUDIT });
+  }
+
+  const notificationBell = (
+    <button
+      onClick={() => { onChangeView(View.NOTIFICATIONS); setIsMenuOpen(false); }}
+      className={`relative p-2 rounded-full transition-colors ${currentView === View.NOTIFICATIONS ? 'text-indigo-600 bg-indigo-50' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-50'}`}
+      aria-label={unreadNotificationCount > 0 ? `Notifications (${unreadNotificationCount} unread)` : 'Notifications'}
+    >
+      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
+      {unreadNotificationCount > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-[1rem] px-1 items-center justify-center rounded-full bg-red-600 text-[10px] font-bold text-white ring-2 ring-white">
+          {unreadNotificationCount > 99 ? '99+' : unreadNotificationCount}
+        </span>
+      )}
+    </button>
+  );
+
   const handleLogoutConfirm = () => {
     setShowLogoutConfirm(false);
     onLogout();
@@ -77,6 +120,7 @@ export const Navbar: React.FC<NavbarProps> = ({ currentView, onChangeView, user,
               
               {user ? (
                 <div className="flex items-center gap-4 ml-4 border-l pl-4 border-gray-200">
+                  {notificationBell}
                   <span className="text-sm text-gray-700">Hi, {user.name}</span>
                   <Button variant="outline" size="sm" onClick={() => setShowLogoutConfirm(true)}>Logout</Button>
                 </div>
@@ -89,7 +133,8 @@ export const Navbar: React.FC<NavbarProps> = ({ currentView, onChangeView, user,
             </div>
 
             {/* Mobile menu button */}
-            <div className="flex items-center md:hidden">
+            <div className="flex items-center gap-1 md:hidden">
+              {user && notificationBell}
               <button
                 onClick={() => setIsMenuOpen(!isMenuOpen)}
                 className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500"
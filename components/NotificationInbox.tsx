@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { InboxNotification, InboxNotificationKind } from '../types';
+import { Button } from './Button';
+
+interface NotificationInboxProps {
+  notifications: InboxNotification[];
+  onOpen: (notification: InboxNotification) => void;
+  onMarkAllRead: () => void;
+  onDelete: (notification: InboxNotification) => void;
+}
+
+const KIND_STYLES: { [kind in InboxNotificationKind]: { icon: string; className: string } } = {
+  completion_approved: { icon: 'M5 13l4 4L19 7', className: 'bg-green-100 text-green-600' },
+  completion_rejected: { icon: 'M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z', className: 'bg-amber-100 text-amber-600' },
+  assignment_graded: { icon: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4', className: 'bg-blue-100 text-blue-600' },
+  path_completed: { icon: 'M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z', className: 'bg-purple-100 text-purple-600' },
+  cohort_seat: { icon: 'M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z', className: 'bg-teal-100 text-teal-600' },
+  live_session: { icon: 'M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z', className: 'bg-red-100 text-red-600' },
+  rating_moderated: { icon: 'M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9', className: 'bg-orange-100 text-orange-600' },
+  discussion: { icon: 'M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a1.994 1.994 0 01-1.414-.586m0 0L11 14h4a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2v4l.586-.586z', className: 'bg-sky-100 text-sky-600' },
+  comment: { icon: 'M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z', className: 'bg-indigo-100 text-indigo-600' },
+};
+
+export const NotificationInbox: React.FC<NotificationInboxProps> = ({ notifications, onOpen, onMarkAllRead, onDelete }) => {
+  const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+  const visible = showUnreadOnly ? notifications.filter(n => !n.readAt) : notifications;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Notifications</h1>
+        <div className="flex items-center gap-3">
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+            <button onClick={() => setShowUnreadOnly(false)} className={`px-3 py-1.5 ${!showUnreadOnly ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>All</button>
+            <button onClick={() => setShowUnreadOnly(true)} className={`px-3 py-1.5 border-l border-gray-300 ${showUnreadOnly ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>
+              Unread{unreadCount > 0 ? ` (${unreadCount})` : ''}
+            </button>
+          </div>
+          <Button size="sm" variant="outline" onClick={onMarkAllRead} disabled={unreadCount === 0}>Mark all as read</Button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {visible.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {visible.map(notification => {
+              const style = KIND_STYLES[notification.kind] || KIND_STYLES.comment;
+              return (
+                <li key={notification.id} className={`flex items-start gap-4 px-6 py-4 ${notification.readAt ? '' : 'bg-indigo-50/40'}`}>
+                  <div className={`flex-shrink-0 w-9 h-9 rounded-full flex items-center justify-center ${style.className}`}>
+                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={style.icon} /></svg>
+                  </div>
+                  <button onClick={() => onOpen(notification)} className="flex-1 text-left min-w-0">
+                    <p className={`text-sm ${notification.readAt ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>{notification.title}</p>
+                    {notification.body && <p className="text-sm text-gray-500 mt-0.5 whitespace-pre-line">{notification.body}</p>}
+                    <p className="text-xs text-gray-400 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                  </button>
+                  {!notification.readAt && <span className="mt-2 h-2 w-2 rounded-full bg-indigo-600 flex-shrink-0" aria-label="Unread" />}
+                  <button onClick={() => onDelete(notification)} className="text-gray-400 hover:text-red-600 p-1" aria-label="Delete notification">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="p-8 text-center text-gray-500">{showUnreadOnly ? 'You are all caught up' : 'No notifications yet'}</div>
+        )}
+      </div>
+    </div>
+  );
+};
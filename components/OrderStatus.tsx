@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { Course, Order, User } from '../types';
+import { Button } from './Button';
+import { fetchOrder, buildReceiptPdf, formatAmount } from '../services/paymentService';
+import { downloadBytes } from '../services/pdfDocument';
+
+interface OrderStatusProps {
+  orderId: string;
+  user: User;
+  courses: Course[];
+  onPaid: (order: Order) => void;
+  onGoToDashboard: () => void;
+}
+
+// Webhooks usually land within seconds; stop polling after about a minute.
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 20;
+
+export const OrderStatus: React.FC<OrderStatusProps> = ({ orderId, user, courses, onPaid, onGoToDashboard }) => {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pollCount, setPollCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOrder(orderId)
+      .then(result => {
+        if (cancelled) return;
+        setOrder(result);
+        if (result?.status === 'paid' && order?.status !== 'paid') onPaid(result);
+      })
+      .catch(err => console.error(err))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [orderId, pollCount]);
+
+  useEffect(() => {
+    if (order?.status !== 'pending' || pollCount >= MAX_POLLS) return;
+    const timer = setTimeout(() => setPollCount(c => c + 1), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [order, pollCount]);
+
+  const course = courses.find(c => c.id === order?.courseId);
+
+  const handleDownload = () => {
+    if (!order) return;
+    const bytes = buildReceiptPdf(order, course, user);
+    downloadBytes(bytes, `${order.status === 'paid' ? 'receipt' : 'invoice'}-${order.invoiceNumber}.pdf`, 'application/pdf');
+  };
+
+  if (isLoading) {
+    return <div className="max-w-xl mx-auto px-4 py-24 text-center text-gray-500">Loading order...</div>;
+  }
+
+  if (!order) {
+    return <div className="max-w-xl mx-auto px-4 py-24 text-center text-gray-500">Order not found</div>;
+  }
+
+  const statusStyles = {
+    paid: { title: 'Payment Confirmed', tone: 'bg-green-100 text-green-600', message: `You are now enrolled in ${course?.title || 'your training program'}.` },
+    pending: { title: 'Awaiting Confirmation', tone: 'bg-yellow-100 text-yellow-600', message: pollCount >= MAX_POLLS ? 'This is taking longer than usual. We will enroll you automatically once the provider confirms.' : 'Waiting for the payment provider to confirm your payment...' },
+    failed: { title: 'Payment Failed', tone: 'bg-red-100 text-red-600', message: 'Your payment was not completed. No money was taken; you can try again from the catalog.' },
+    cancelled: { title: 'Order Cancelled', tone: 'bg-gray-100 text-gray-600', message: 'This order was cancelled.' },
+    refund_due: { title: 'Refund Pending', tone: 'bg-orange-100 text-orange-600', message: 'Your payment arrived after the last seat was taken, or you had already paid. We will refund it; no action is needed from you.' },
+  }[order.status];
+
+  return (
+    <div className="max-w-xl mx-auto px-4 py-16 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+        <div className={`w-14 h-14 rounded-full flex items-center justify-center mx-auto mb-4 ${statusStyles.tone}`}>
+          {order.status === 'paid' ? (
+            <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+          ) : order.status === 'pending' ? (
+            <svg className="w-7 h-7 animate-spin" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path></svg>
+          ) : (
+            <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          )}
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900">{statusStyles.title}</h1>
+        <p className="text-gray-500 mt-2">{statusStyles.message}</p>
+
+        <dl className="mt-6 text-sm text-left bg-gray-50 rounded-lg p-4 space-y-2">
+          <div className="flex justify-between"><dt className="text-gray-500">Invoice</dt><dd className="font-mono text-gray-900">{order.invoiceNumber}</dd></div>
+          <div className="flex justify-between"><dt className="text-gray-500">Training Program</dt><dd className="text-gray-900">{course?.title || order.courseId}</dd></div>
+          <div className="flex justify-between"><dt className="text-gray-500">Amount</dt><dd className="font-semibold text-gray-900">{formatAmount(order.amount)}</dd></div>
+        </dl>
+
+        <div className="mt-6 flex justify-center gap-3">
+          <Button variant="outline" onClick={handleDownload}>{order.status === 'paid' ? 'Download Receipt' : 'Download Invoice'}</Button>
+          <Button onClick={onGoToDashboard}>Go to Dashboard</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
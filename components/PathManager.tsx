@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { Course, LearningPath } from '../types';
+import { Button } from './Button';
+import { saveLearningPath, deleteLearningPath } from '../services/pathService';
+import { fetchCertificateTemplates } from '../services/certificateTemplateService';
+import { BUILT_IN_TEMPLATES, CertificateTemplate } from '../services/certificateRenderer';
+
+interface PathManagerProps {
+  paths: LearningPath[];
+  courses: Course[];
+  onChanged: () => void; // Reload paths after a save or delete
+}
+
+const EMPTY_PATH: LearningPath = { id: '', title: '', description: '', courseIds: [] };
+
+export const PathManager: React.FC<PathManagerProps> = ({ paths, courses, onChanged }) => {
+  const [draft, setDraft] = useState<LearningPath | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [customTemplates, setCustomTemplates] = useState<CertificateTemplate[]>([]);
+
+  useEffect(() => { fetchCertificateTemplates().then(setCustomTemplates); }, []);
+
+  const openEditor = (path: LearningPath | null) => {
+    setDraft(path ? { ...path, courseIds: [...path.courseIds] } : { ...EMPTY_PATH, id: `p_${Date.now()}` });
+    setIsNew(!path);
+    setError(null);
+  };
+
+  const courseTitle = (id: string) => courses.find(c => c.id === id)?.title || id;
+
+  // Programs are studied top to bottom
+  const moveCourse = (index: number, offset: number) => {
+    if (!draft) return;
+    const ids = [...draft.courseIds];
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    setDraft({ ...draft, courseIds: ids });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!draft.title.trim()) {
+      setError('Title is required.');
+      return;
+    }
+    if (draft.courseIds.length < 2) {
+      setError('Add at least two programs to the path.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveLearningPath(draft);
+      setDraft(null);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save learning path.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (path: LearningPath) => {
+    if (!window.confirm(`Delete the learning path "${path.title}"? Its programs are not affected.`)) return;
+    try {
+      await deleteLearningPath(path.id);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete learning path.');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Learning Paths</h1>
+          <p className="text-sm text-gray-500 mt-1">Curated tracks of programs. Students who complete every program on a path receive a path certificate.</p>
+        </div>
+        <Button onClick={() => openEditor(null)}>New Learning Path</Button>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-900">{isNew ? 'New Learning Path' : `Edit ${draft.title}`}</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} required className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="e.g. Data Analyst Track" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} rows={2} className="w-full rounded-md border border-gray-300 px-3 py-2" />
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Programs, in study order</label>
+            {draft.courseIds.length > 0 && (
+              <ol className="divide-y divide-gray-200 bg-white rounded border border-gray-200 mb-3">
+                {draft.courseIds.map((id, index) => (
+                  <li key={id} className="flex items-center gap-3 px-3 py-2">
+                    <span className="w-6 text-sm font-bold text-gray-400">{index + 1}</span>
+                    <span className="flex-1 text-sm text-gray-900 truncate">{courseTitle(id)}</span>
+                    <button type="button" onClick={() => moveCourse(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move up">&uarr;</button>
+                    <button type="button" onClick={() => moveCourse(index, 1)} disabled={index === draft.courseIds.length - 1} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move down">&darr;</button>
+                    <button type="button" onClick={() => setDraft({ ...draft, courseIds: draft.courseIds.filter(c => c !== id) })} className="text-sm text-red-600 hover:text-red-800 font-medium">Remove</button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <select
+              value=""
+              onChange={e => e.target.value && setDraft({ ...draft, courseIds: [...draft.courseIds, e.target.value] })}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="">Add a program...</option>
+              {courses.filter(c => !draft.courseIds.includes(c.id)).map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Path order is a recommendation. Use prerequisites in the course editor to enforce it.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Certificate Template</label>
+            <select
+              value={draft.certificateTemplateId || ''}
+              onChange={e => setDraft({ ...draft, certificateTemplateId: e.target.value || undefined })}
+              className="w-full rounded-md border border-gray-300 px-3 py-2"
+            >
+              <option value="">Same as the final program</option>
+              {[...BUILT_IN_TEMPLATES, ...customTemplates].map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Path certificates are signed by the final program's signatories.</p>
+          </div>
+
+          {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button type="submit" isLoading={isSaving}>Save Learning Path</Button>
+          </div>
+        </form>
+      )}
+
+      {!draft && error && <p className="mb-6 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {paths.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Path</th>
+                <th className="px-6 py-3">Programs</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {paths.map(path => (
+                <tr key={path.id}>
+                  <td className="px-6 py-3">
+                    <p className="font-medium text-gray-900">{path.title}</p>
+                    {path.description && <p className="text-xs text-gray-500 line-clamp-1">{path.description}</p>}
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">{path.courseIds.map(courseTitle).join(' → ')}</td>
+                  <td className="px-6 py-3 text-right whitespace-nowrap">
+                    <button onClick={() => openEditor(path)} className="text-indigo-600 hover:text-indigo-800 font-medium mr-4">Edit</button>
+                    <button onClick={() => handleDelete(path)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="p-6 text-sm text-gray-500">No learning paths yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Course, LearningPath, User } from '../types';
+import { Button } from './Button';
+import { getPathProgress } from '../services/pathService';
+
+interface PathProgressPanelProps {
+  paths: LearningPath[]; // Paths the student has started
+  courses: Course[];
+  user: User;
+  onOpenPath: (pathId: string) => void;
+  onViewCertificate: (pathId: string) => void;
+}
+
+// Dashboard summary of the student's learning paths: how far along each is and what comes next.
+export const PathProgressPanel: React.FC<PathProgressPanelProps> = ({ paths, courses, user, onOpenPath, onViewCertificate }) => (
+  <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+    <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+      <h2 className="text-lg font-bold text-gray-900">My Learning Paths</h2>
+    </div>
+    <ul className="divide-y divide-gray-200">
+      {paths.map(path => {
+        const progress = getPathProgress(path, user);
+        const nextCourse = courses.find(c => c.id === progress.nextCourseId);
+        return (
+          <li key={path.id} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-gray-900">{path.title}</p>
+              <p className="text-sm text-gray-500">
+                {progress.completed} of {progress.total} programs completed
+                {nextCourse && <> · Next: {nextCourse.title}</>}
+              </p>
+              <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${progress.isComplete ? 'bg-green-600' : 'bg-indigo-600'}`} style={{ width: `${progress.percent}%` }} />
+              </div>
+            </div>
+            {progress.isComplete ? (
+              <Button size="sm" onClick={() => onViewCertificate(path.id)}>Path Certificate</Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => onOpenPath(path.id)}>View Path</Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
@@ -0,0 +1,54 @@
+import React, { useState, useEffect } from 'react';
+import { Course, Order, User } from '../types';
+import { fetchOrders, buildReceiptPdf, formatAmount } from '../services/paymentService';
+import { downloadBytes } from '../services/pdfDocument';
+
+interface PaymentHistoryProps {
+  user: User;
+  courses: Course[];
+  onViewOrder: (orderId: string) => void;
+}
+
+export const PaymentHistory: React.FC<PaymentHistoryProps> = ({ user, courses, onViewOrder }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+
+  useEffect(() => {
+    fetchOrders(user.id).then(setOrders);
+  }, [user.id]);
+
+  if (orders.length === 0) return null;
+
+  const handleDownload = (order: Order) => {
+    const bytes = buildReceiptPdf(order, courses.find(c => c.id === order.courseId), user);
+    downloadBytes(bytes, `${order.status === 'paid' ? 'receipt' : 'invoice'}-${order.invoiceNumber}.pdf`, 'application/pdf');
+  };
+
+  return (
+    <div className="mt-12 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-bold text-gray-900">Payment History</h2>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {orders.map(order => (
+          <li key={order.id} className="px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+            <div>
+              <p className="font-medium text-gray-900">{courses.find(c => c.id === order.courseId)?.title || order.courseId}</p>
+              <p className="text-gray-500">
+                <span className="font-mono">{order.invoiceNumber}</span> · {new Date(order.createdAt).toLocaleDateString()} · <span className="capitalize">{order.status.replace('_', ' ')}</span>
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="font-semibold text-gray-900">{formatAmount(order.amount)}</span>
+              {order.status === 'pending' && (
+                <button onClick={() => onViewOrder(order.id)} className="text-indigo-600 hover:text-indigo-800 font-medium">Check Status</button>
+              )}
+              <button onClick={() => handleDownload(order)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                {order.status === 'paid' ? 'Receipt' : 'Invoice'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
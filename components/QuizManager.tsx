@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import { Course, Quiz, QuizAttempt, QuizQuestion, QuestionKind } from '../types';
+import { Button } from './Button';
+import {
+  fetchQuizzes, saveQuiz, deleteQuiz, fetchQuestions, saveQuestions, fetchQuizAttempts, resetQuizAttempts,
+  createQuestion, validateQuestion, QUESTION_KINDS,
+} from '../services/quizService';
+
+interface QuizManagerProps {
+  courses: Course[];
+}
+
+const emptyQuiz = (courseId: string, position: number): Quiz => ({
+  id: '',
+  courseId,
+  title: '',
+  description: '',
+  shuffleQuestions: true,
+  passPercent: 70,
+  position,
+});
+
+// Blank number inputs mean "no limit"
+const optionalNumber = (value: string) => (value === '' ? undefined : Math.max(1, Math.round(Number(value))));
+
+export const QuizManager: React.FC<QuizManagerProps> = ({ courses }) => {
+  const [courseId, setCourseId] = useState(courses[0]?.id || '');
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [selected, setSelected] = useState<Quiz | null>(null);
+  const [tab, setTab] = useState<'edit' | 'results'>('edit');
+  const [draft, setDraft] = useState<Quiz | null>(null);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const course = courses.find(c => c.id === courseId);
+  const lessons = (course?.curriculum || []).flatMap(m => m.lessons);
+
+  useEffect(() => {
+    if (!courseId && courses.length > 0) setCourseId(courses[0].id);
+  }, [courses]);
+
+  useEffect(() => {
+    if (!courseId) return;
+    setSelected(null);
+    setDraft(null);
+    fetchQuizzes(courseId).then(setQuizzes);
+  }, [courseId]);
+
+  const openQuiz = async (quiz: Quiz, nextTab: 'edit' | 'results' = 'edit') => {
+    setSelected(quiz);
+    setDraft(quiz);
+    setTab(nextTab);
+    setError(null);
+    const [loadedQuestions, loadedAttempts] = await Promise.all([fetchQuestions(quiz.id), fetchQuizAttempts(quiz.id)]);
+    setQuestions(loadedQuestions);
+    setAttempts(loadedAttempts);
+  };
+
+  const startNew = () => {
+    setSelected(null);
+    setDraft(emptyQuiz(courseId, quizzes.length));
+    setQuestions([]);
+    setAttempts([]);
+    setTab('edit');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.title.trim()) {
+      setError('Give the quiz a title.');
+      return;
+    }
+    const problem = questions.map(validateQuestion).find(Boolean);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveQuiz(draft);
+      await saveQuestions(saved.id, questions.map(q => ({ ...q, quizId: saved.id })));
+      setQuizzes(prev => (prev.some(q => q.id === saved.id) ? prev.map(q => (q.id === saved.id ? saved : q)) : [...prev, saved]));
+      setSelected(saved);
+      setDraft(saved);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save the quiz.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (quiz: Quiz) => {
+    if (!window.confirm(`Delete "${quiz.title}" with its questions and every attempt?`)) return;
+    try {
+      await deleteQuiz(quiz.id);
+      setQuizzes(prev => prev.filter(q => q.id !== quiz.id));
+      if (selected?.id === quiz.id) {
+        setSelected(null);
+        setDraft(null);
+      }
+    } catch (err) {
+      console.error(err);
+      window.alert('Failed to delete the quiz.');
+    }
+  };
+
+  const handleReset = async (attempt: QuizAttempt) => {
+    if (!selected || !window.confirm(`Clear every attempt by ${attempt.studentName || 'this student'} on this quiz?`)) return;
+    try {
+      await resetQuizAttempts(selected.id, attempt.userId);
+      setAttempts(await fetchQuizAttempts(selected.id));
+    } catch (err) {
+      console.error(err);
+      window.alert('Failed to reset the attempts.');
+    }
+  };
+
+  const updateQuestion = (id: string, changes: Partial<QuizQuestion>) =>
+    setQuestions(prev => prev.map(q => (q.id === id ? { ...q, ...changes } : q)));
+
+  const changeKind = (question: QuizQuestion, kind: QuestionKind) => {
+    const fresh = createQuestion(question.quizId, kind);
+    // Keep the options when switching between the two choice kinds
+    const keepsOptions = (kind === 'single' || kind === 'multiple') && question.options.length > 0;
+    updateQuestion(question.id, {
+      kind,
+      options: keepsOptions ? question.options : fresh.options,
+      answer: keepsOptions ? { optionIds: kind === 'single' ? (question.answer?.optionIds || []).slice(0, 1) : question.answer?.optionIds || [] } : fresh.answer,
+    });
+  };
+
+  const toggleCorrect = (question: QuizQuestion, optionId: string) => {
+    const current = question.answer?.optionIds || [];
+    const optionIds = question.kind === 'single'
+      ? [optionId]
+      : current.includes(optionId) ? current.filter(id => id !== optionId) : [...current, optionId];
+    updateQuestion(question.id, { answer: { optionIds } });
+  };
+
+  const moveQuestion = (index: number, offset: number) =>
+    setQuestions(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(Math.max(0, Math.min(next.length, index + offset)), 0, moved);
+      return next;
+    });
+
+  // Latest attempt per student, newest first
+  const students = attempts.filter((a, i) => attempts.findIndex(b => b.userId === a.userId) === i);
+  const totalPoints = questions.reduce((sum, q) => sum + q.points, 0);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Quizzes</h1>
+        <div className="flex gap-3">
+          <select value={courseId} onChange={e => setCourseId(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+          <Button onClick={startNew} disabled={!courseId}>New Quiz</Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden h-fit">
+          {quizzes.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {quizzes.map(q => (
+                <li key={q.id} className={`px-4 py-3 ${selected?.id === q.id ? 'bg-indigo-50' : ''}`}>
+                  <button onClick={() => openQuiz(q)} className="text-left w-full">
+                    <p className="font-medium text-gray-900">{q.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {q.timeLimitMinutes ? `${q.timeLimitMinutes} min` : 'Untimed'} · {q.maxAttempts ? `${q.maxAttempts} attempts` : 'Unlimited attempts'} · pass {q.passPercent}%
+                    </p>
+                  </button>
+                  <div className="flex gap-3 mt-1 text-xs">
+                    <button onClick={() => openQuiz(q, 'results')} className="text-indigo-600 hover:text-indigo-800 font-medium">Results</button>
+                    <button onClick={() => handleDelete(q)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="p-6 text-center text-sm text-gray-500">No quizzes for this training program</div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {!draft ? (
+            <div className="p-8 text-center text-gray-500 bg-white rounded-xl border border-gray-200">Select a quiz or create a new one</div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              {selected && (
+                <div className="flex border-b border-gray-200 text-sm font-medium">
+                  {(['edit', 'results'] as const).map(t => (
+                    <button key={t} onClick={() => setTab(t)} className={`px-6 py-3 ${tab === t ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}>
+                      {t === 'edit' ? 'Questions & Settings' : `Results (${students.length})`}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {tab === 'results' && selected ? (
+                students.length > 0 ? (
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <tr>
+                        <th className="px-6 py-3">Student</th>
+                        <th className="px-6 py-3">Attempts</th>
+                        <th className="px-6 py-3">Best</th>
+                        <th className="px-6 py-3">Last attempt</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {students.map(latest => {
+                        const mine = attempts.filter(a => a.userId === latest.userId);
+                        const best = mine.reduce((max, a) => Math.max(max, a.percent || 0), 0);
+                        const passed = mine.some(a => a.passed);
+                        return (
+                          <tr key={latest.userId}>
+                            <td className="px-6 py-4 text-gray-900">{latest.studentName || 'Student'}</td>
+                            <td className="px-6 py-4 text-gray-600">{mine.length}{selected.maxAttempts ? ` / ${selected.maxAttempts}` : ''}</td>
+                            <td className="px-6 py-4">
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>{best}%</span>
+                            </td>
+                            <td className="px-6 py-4 text-gray-600 whitespace-nowrap">
+                              {latest.submittedAt ? new Date(latest.submittedAt).toLocaleString() : 'In progress'}
+                            </td>
+                            <td className="px-6 py-4 text-right">
+                              <button onClick={() => handleReset(latest)} className="text-indigo-600 hover:text-indigo-800 font-medium">Reset attempts</button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="p-8 text-center text-gray-500">No attempts yet</div>
+                )
+              ) : (
+                <div className="p-6 space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                    <input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" placeholder="e.g. Module 1 Check" />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Instructions</label>
+                    <textarea value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} rows={2} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Time limit (min)</label>
+                      <input type="number" min={1} value={draft.timeLimitMinutes ?? ''} onChange={e => setDraft({ ...draft, timeLimitMinutes: optionalNumber(e.target.value) })} placeholder="None" className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Attempts</label>
+                      <input type="number" min={1} value={draft.maxAttempts ?? ''} onChange={e => setDraft({ ...draft, maxAttempts: optionalNumber(e.target.value) })} placeholder="Unlimited" className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Questions asked</label>
+                      <input type="number" min={1} value={draft.questionsPerAttempt ?? ''} onChange={e => setDraft({ ...draft, questionsPerAttempt: optionalNumber(e.target.value) })} placeholder={`All (${questions.length})`} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Pass mark (%)</label>
+                      <input type="number" min={0} max={100} value={draft.passPercent} onChange={e => setDraft({ ...draft, passPercent: Math.min(100, Math.max(0, Number(e.target.value))) })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Show after lesson</label>
+                      <select value={draft.lessonId || ''} onChange={e => setDraft({ ...draft, lessonId: e.target.value || undefined })} className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm">
+                        <option value="">Whole program</option>
+                        {lessons.map(l => <option key={l.id} value={l.id}>{l.title}</option>)}
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                      <input type="checkbox" checked={draft.shuffleQuestions} onChange={e => setDraft({ ...draft, shuffleQuestions: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-indigo-600" />
+                      Shuffle question order
+                    </label>
+                  </div>
+
+                  <div className="border-t border-gray-100 pt-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-sm font-semibold text-gray-900">Question bank ({questions.length} questions · {totalPoints} points)</h3>
+                      <Button size="sm" variant="outline" onClick={() => setQuestions(prev => [...prev, createQuestion(draft.id)])}>Add Question</Button>
+                    </div>
+                    <div className="space-y-4">
+                      {questions.map((q, index) => (
+                        <div key={q.id} className="rounded-lg border border-gray-200 p-4 space-y-3">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-sm font-medium text-gray-500">{index + 1}.</span>
+                            <select value={q.kind} onChange={e => changeKind(q, e.target.value as QuestionKind)} className="rounded-md border border-gray-300 px-2 py-1 text-sm">
+                              {QUESTION_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                            </select>
+                            <label className="text-sm text-gray-600 flex items-center gap-1">
+                              <input type="number" min={1} value={q.points} onChange={e => updateQuestion(q.id, { points: Number(e.target.value) })} className="w-16 rounded-md border border-gray-300 px-2 py-1 text-sm" />
+                              pts
+                            </label>
+                            <div className="ml-auto flex gap-2 text-xs">
+                              <button onClick={() => moveQuestion(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-800 disabled:opacity-30">Up</button>
+                              <button onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1} className="text-gray-500 hover:text-gray-800 disabled:opacity-30">Down</button>
+                              <button onClick={() => setQuestions(prev => prev.filter(p => p.id !== q.id))} className="text-red-600 hover:text-red-800">Remove</button>
+                            </div>
+                          </div>
+                          <textarea value={q.prompt} onChange={e => updateQuestion(q.id, { prompt: e.target.value })} rows={2} placeholder="Question" className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm" />
+
+                          {(q.kind === 'single' || q.kind === 'multiple') && (
+                            <div className="space-y-2">
+                              {q.options.map(o => (
+                                <div key={o.id} className="flex items-center gap-2">
+                                  <input
+                                    type={q.kind === 'single' ? 'radio' : 'checkbox'}
+                                    name={`correct-${q.id}`}
+                                    checked={(q.answer?.optionIds || []).includes(o.id)}
+                                    onChange={() => toggleCorrect(q, o.id)}
+                                    title="Correct answer"
+                                    className="h-4 w-4 text-indigo-600"
+                                  />
+                                  <input
+                                    value={o.text}
+                                    onChange={e => updateQuestion(q.id, { options: q.options.map(p => (p.id === o.id ? { ...p, text: e.target.value } : p)) })}
+                                    placeholder="Option"
+                                    className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+                                  />
+                                  <button
+                                    onClick={() => updateQuestion(q.id, {
+                                      options: q.options.filter(p => p.id !== o.id),
+                                      answer: { optionIds: (q.answer?.optionIds || []).filter(id => id !== o.id) },
+                                    })}
+                                    className="text-xs text-gray-400 hover:text-red-600"
+                                  >
+                                    Remove
+                                  </button>
+                                </div>
+                              ))}
+                              <button onClick={() => updateQuestion(q.id, { options: [...q.options, { id: crypto.randomUUID(), text: '' }] })} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                                + Add option
+                              </button>
+                              <p className="text-xs text-gray-500">Tick the correct {q.kind === 'single' ? 'option' : 'options'}.</p>
+                            </div>
+                          )}
+
+                          {q.kind === 'numeric' && (
+                            <div className="flex gap-4">
+                              <label className="text-sm text-gray-700">
+                                Answer
+                                <input type="number" step="any" value={q.answer?.value ?? ''} onChange={e => updateQuestion(q.id, { answer: { ...q.answer, value: e.target.value === '' ? undefined : Number(e.target.value) } })} className="ml-2 w-32 rounded-md border border-gray-300 px-2 py-1 text-sm" />
+                              </label>
+                              <label className="text-sm text-gray-700">
+                                ± tolerance
+                                <input type="number" step="any" min={0} value={q.answer?.tolerance ?? 0} onChange={e => updateQuestion(q.id, { answer: { ...q.answer, tolerance: Math.abs(Number(e.target.value)) } })} className="ml-2 w-24 rounded-md border border-gray-300 px-2 py-1 text-sm" />
+                              </label>
+                            </div>
+                          )}
+
+                          {q.kind === 'text' && (
+                            <div>
+                              <input
+                                value={(q.answer?.accepted || []).join(', ')}
+                                onChange={e => updateQuestion(q.id, { answer: { accepted: e.target.value.split(',').map(a => a.trimStart()) } })}
+                                placeholder="Accepted answers, separated by commas"
+                                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                              />
+                              <p className="text-xs text-gray-500 mt-1">Matching ignores capitalisation and surrounding spaces.</p>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                      {questions.length === 0 && <p className="text-sm text-gray-500">Add questions to build the bank. Set "Questions asked" to draw a random subset for each attempt.</p>}
+                    </div>
+                  </div>
+
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+                  <div className="flex justify-end gap-3">
+                    <Button variant="outline" onClick={() => (selected ? openQuiz(selected) : setDraft(null))} disabled={isSaving}>Cancel</Button>
+                    <Button onClick={handleSave} isLoading={isSaving}>Save Quiz</Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Course, CourseRating, RatingStatus } from '../types';
+import { Button } from './Button';
+import { StarRating } from './StarRating';
+import { fetchRatingsForModeration, moderateRating, deleteRating, RATING_STATUS_LABELS } from '../services/ratingService';
+
+interface RatingManagerProps {
+  courses: Course[];
+  onChanged: () => Promise<void> | void; // Reload courses (and their averages) after a change
+}
+
+const STATUS_STYLES: { [status in RatingStatus]: string } = {
+  published: 'bg-green-100 text-green-800',
+  flagged: 'bg-amber-100 text-amber-800',
+  hidden: 'bg-gray-200 text-gray-700',
+};
+
+// A moderation decision being written; the note is sent to the author.
+interface ModerationDraft {
+  rating: CourseRating;
+  status: RatingStatus;
+  note: string;
+}
+
+export const RatingManager: React.FC<RatingManagerProps> = ({ courses, onChanged }) => {
+  const [status, setStatus] = useState<RatingStatus | ''>('');
+  const [courseId, setCourseId] = useState('');
+  const [ratings, setRatings] = useState<CourseRating[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<ModerationDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRatings = async () => {
+    setIsLoading(true);
+    setRatings(await fetchRatingsForModeration({ status: status || undefined, courseId: courseId || undefined }));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    setDraft(null);
+    loadRatings();
+  }, [status, courseId]);
+
+  const applyDecision = async (rating: CourseRating, nextStatus: RatingStatus, note: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await moderateRating(rating.id, nextStatus, note);
+      setDraft(null);
+      await loadRatings();
+      await onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to update the review.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rating: CourseRating) => {
+    if (!window.confirm(`Delete ${rating.reviewerName}'s review for good? They will be able to post a new one.`)) return;
+    try {
+      await deleteRating(rating.id);
+      await loadRatings();
+      await onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete the review.');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Ratings &amp; Reviews</h1>
+          <p className="text-sm text-gray-500 mt-1">Flag a review to ask its author to revise it, or hide it for good. Only published reviews count towards a program's rating.</p>
+        </div>
+        <div className="flex gap-3">
+          <select value={courseId} onChange={e => setCourseId(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+            <option value="">All programs</option>
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+          <select value={status} onChange={e => setStatus(e.target.value as RatingStatus | '')} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+            <option value="">Any status</option>
+            {(Object.keys(RATING_STATUS_LABELS) as RatingStatus[]).map(s => <option key={s} value={s}>{RATING_STATUS_LABELS[s]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="mb-6 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <p className="p-6 text-sm text-gray-500">Loading reviews...</p>
+        ) : ratings.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {ratings.map(rating => (
+              <li key={rating.id} className="px-6 py-4">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <StarRating value={rating.rating} />
+                      <span className="text-sm font-medium text-gray-900">{rating.reviewerName}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[rating.status]}`}>{RATING_STATUS_LABELS[rating.status]}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {courses.find(c => c.id === rating.courseId)?.title || rating.courseId} · {new Date(rating.createdAt).toLocaleDateString()}
+                      {rating.updatedAt !== rating.createdAt && ` · edited ${new Date(rating.updatedAt).toLocaleDateString()}`}
+                    </p>
+                    {rating.body ? <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{rating.body}</p> : <p className="text-sm text-gray-400 italic mt-2">No written review</p>}
+                    {rating.moderationNote && <p className="text-xs text-gray-500 mt-2">Note to author: "{rating.moderationNote}"</p>}
+                  </div>
+                  <div className="flex gap-3 text-sm font-medium whitespace-nowrap">
+                    {rating.status !== 'published' && (
+                      <button onClick={() => applyDecision(rating, 'published', '')} disabled={isSaving} className="text-green-700 hover:text-green-900">Publish</button>
+                    )}
+                    {rating.status !== 'flagged' && (
+                      <button onClick={() => setDraft({ rating, status: 'flagged', note: '' })} className="text-amber-600 hover:text-amber-800">Flag</button>
+                    )}
+                    {rating.status !== 'hidden' && (
+                      <button onClick={() => setDraft({ rating, status: 'hidden', note: '' })} className="text-gray-600 hover:text-gray-900">Hide</button>
+                    )}
+                    <button onClick={() => handleDelete(rating)} className="text-red-600 hover:text-red-800">Delete</button>
+                  </div>
+                </div>
+
+                {draft?.rating.id === rating.id && (
+                  <div className="mt-3 p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {draft.status === 'flagged' ? 'What should the author change?' : 'Why is this review hidden?'}
+                    </label>
+                    <textarea
+                      value={draft.note}
+                      onChange={e => setDraft({ ...draft, note: e.target.value })}
+                      rows={2}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                      placeholder="Sent to the author with the notification"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+                      <Button size="sm" variant={draft.status === 'hidden' ? 'danger' : 'primary'} isLoading={isSaving} onClick={() => applyDecision(rating, draft.status, draft.note)}>
+                        {draft.status === 'flagged' ? 'Flag Review' : 'Hide Review'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="p-6 text-sm text-gray-500">No reviews match these filters.</p>
+        )}
+      </div>
+    </div>
+  );
+};
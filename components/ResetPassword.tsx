@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { User } from '../types';
+import { supabase } from '../supabaseClient';
+
+interface ResetPasswordProps {
+  user: User | null; // Signed in by the recovery link
+  isAuthReady: boolean;
+  onDone: () => void;
+  onRequestNewLink: () => void;
+}
+
+export const ResetPassword: React.FC<ResetPasswordProps> = ({ user, isAuthReady, onDone, onRequestNewLink }) => {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password.length < 8) {
+      setError('Use at least 8 characters.');
+      return;
+    }
+    if (password !== confirmation) {
+      setError('The passwords do not match.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      onDone();
+    } catch (err: any) {
+      console.error('Password update failed', err);
+      setError(err.message || 'Could not update your password.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+  return (
+    <div className="min-h-[80vh] flex flex-col justify-center py-12 sm:px-6 lg:px-8 bg-gray-50 animate-fade-in">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="text-center text-3xl font-extrabold text-gray-900">Choose a new password</h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {!isAuthReady && <p className="text-center text-gray-500">Checking your reset link...</p>}
+
+          {isAuthReady && !user && (
+            <div className="text-center space-y-4">
+              <p className="text-gray-600">This reset link is invalid or has expired.</p>
+              <Button onClick={onRequestNewLink}>Request a new link</Button>
+            </div>
+          )}
+
+          {isAuthReady && user && (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {error && (
+                <div className="bg-red-50 p-3 rounded text-sm text-red-600 border border-red-200">{error}</div>
+              )}
+              <p className="text-sm text-gray-500">Signed in as {user.email}.</p>
+              <div>
+                <label htmlFor="new-password" className="block text-sm font-medium text-gray-700">New password</label>
+                <input id="new-password" type="password" autoComplete="new-password" required value={password} onChange={(e) => setPassword(e.target.value)} className={`mt-1 ${inputClass}`} />
+              </div>
+              <div>
+                <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700">Confirm new password</label>
+                <input id="confirm-password" type="password" autoComplete="new-password" required value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={`mt-1 ${inputClass}`} />
+              </div>
+              <Button type="submit" className="w-full" isLoading={loading}>Update password</Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
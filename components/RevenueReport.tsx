@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Course, Order } from '../types';
+import { fetchOrders, summarizeRevenue, formatAmount } from '../services/paymentService';
+
+interface RevenueReportProps {
+  courses: Course[];
+}
+
+const STATUS_BADGES: { [status: string]: string } = {
+  paid: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+  refund_due: 'bg-orange-100 text-orange-800',
+};
+
+export const RevenueReport: React.FC<RevenueReportProps> = ({ courses }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchOrders().then(result => {
+      setOrders(result);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const revenueByCourse = summarizeRevenue(orders, courses);
+  const totalRevenue = revenueByCourse.reduce((sum, r) => sum + r.revenue, 0);
+  const paidCount = revenueByCourse.reduce((sum, r) => sum + r.paidOrders, 0);
+  const pendingCount = orders.filter(o => o.status === 'pending').length;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <h1 className="text-3xl font-bold text-gray-900 mb-8">Revenue</h1>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <p className="text-sm text-gray-500">Total Revenue</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatAmount(totalRevenue)}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <p className="text-sm text-gray-500">Paid Orders</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{paidCount}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <p className="text-sm text-gray-500">Awaiting Confirmation</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{pendingCount}</p>
+        </div>
+      </div>
+
+      <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="text-lg font-bold text-gray-900">By Training Program</h2>
+        </div>
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : revenueByCourse.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Training Program</th>
+                <th className="px-6 py-3 text-right">Paid Orders</th>
+                <th className="px-6 py-3 text-right">Revenue</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {revenueByCourse.map(r => (
+                <tr key={r.courseId} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 font-medium text-gray-900">{r.title}</td>
+                  <td className="px-6 py-4 text-right text-gray-600">{r.paidOrders}</td>
+                  <td className="px-6 py-4 text-right font-semibold text-gray-900">{formatAmount(r.revenue)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No paid orders yet</div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="text-lg font-bold text-gray-900">Recent Orders</h2>
+        </div>
+        {orders.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {orders.slice(0, 50).map(order => (
+              <li key={order.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-mono text-gray-900">{order.invoiceNumber}</p>
+                  <p className="text-gray-500">{courses.find(c => c.id === order.courseId)?.title || order.courseId} · {new Date(order.createdAt).toLocaleDateString()}</p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-semibold text-gray-900">{formatAmount(order.amount)}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_BADGES[order.status]}`}>{order.status.replace('_', ' ')}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          !isLoading && <div className="p-8 text-center text-gray-500">No orders yet</div>
+        )}
+      </div>
+    </div>
+  );
+};
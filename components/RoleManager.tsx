@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Course, User, UserProfile, UserRole } from '../types';
+import { fetchProfiles, updateUserRole, USER_ROLES } from '../services/userService';
+
+interface RoleManagerProps {
+  currentUser: User;
+  courses: Course[];
+}
+
+const ROLE_STYLES: { [role in UserRole]: string } = {
+  student: 'bg-gray-100 text-gray-700',
+  instructor: 'bg-blue-100 text-blue-800',
+  finance: 'bg-green-100 text-green-800',
+  admin: 'bg-indigo-100 text-indigo-800',
+};
+
+export const RoleManager: React.FC<RoleManagerProps> = ({ currentUser, courses }) => {
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProfiles().then(loaded => {
+      setProfiles(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleChangeRole = async (profile: UserProfile, role: UserRole) => {
+    const label = USER_ROLES.find(r => r.id === role)?.label;
+    if (profile.id === currentUser.id && !window.confirm('Change your own role? You will lose access to admin pages.')) return;
+    if (role === 'admin' && !window.confirm(`Give ${profile.name} full admin access?`)) return;
+    setSavingId(profile.id);
+    setError(null);
+    try {
+      await updateUserRole(profile.id, role);
+      setProfiles(prev => prev.map(p => (p.id === profile.id ? { ...p, role } : p)));
+    } catch (err: any) {
+      console.error(err);
+      setError(`Could not make ${profile.name} ${label}: ${err.message || 'unknown error'}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visible = profiles.filter(p =>
+    (!roleFilter || p.role === roleFilter) &&
+    (!query || p.name.toLowerCase().includes(query) || p.email.toLowerCase().includes(query))
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Roles</h1>
+      <p className="text-gray-500 mb-6">Choose what each account can do. Instructors are assigned to programs in the course editor.</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        {USER_ROLES.map(r => (
+          <div key={r.id} className="bg-white rounded-lg border border-gray-200 p-4">
+            <div className="flex items-center justify-between">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ROLE_STYLES[r.id]}`}>{r.label}</span>
+              <span className="text-sm text-gray-500">{profiles.filter(p => p.role === r.id).length}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{r.description}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search by name or email" className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm" />
+        <select value={roleFilter} onChange={e => setRoleFilter(e.target.value as UserRole | '')} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+          <option value="">All roles</option>
+          {USER_ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : visible.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">User</th>
+                <th className="px-6 py-3">Teaches</th>
+                <th className="px-6 py-3">Role</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visible.map(p => {
+                const taught = courses.filter(c => c.instructorId === p.id);
+                return (
+                  <tr key={p.id}>
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-900">{p.name}{p.id === currentUser.id ? ' (you)' : ''}</p>
+                      <p className="text-gray-500">{p.email}</p>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {taught.length > 0 ? taught.map(c => c.title).join(', ') : <span className="text-gray-400">—</span>}
+                      {taught.length > 0 && p.role !== 'instructor' && <p className="text-xs text-amber-700 mt-1">Not an instructor, so cannot edit these programs</p>}
+                    </td>
+                    <td className="px-6 py-4">
+                      <select
+                        value={p.role}
+                        onChange={e => handleChangeRole(p, e.target.value as UserRole)}
+                        disabled={savingId === p.id}
+                        className="rounded-md border border-gray-300 px-3 py-1.5 text-sm disabled:opacity-50"
+                      >
+                        {USER_ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No users match</div>
+        )}
+      </div>
+    </div>
+  );
+};
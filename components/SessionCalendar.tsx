@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Course, LiveSession } from '../types';
+import { Button } from './Button';
+import { formatSessionTime, getLocalTimeZone, isSessionLive, downloadSessionsIcs, getCalendarFeedUrl, toWebcalUrl } from '../services/liveSessionService';
+
+interface SessionCalendarProps {
+  sessions: LiveSession[]; // The user's upcoming sessions, soonest first
+  courses: Course[];
+}
+
+const dayLabel = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' });
+
+// Dashboard agenda of upcoming live sessions with calendar downloads and a subscribable feed.
+export const SessionCalendar: React.FC<SessionCalendarProps> = ({ sessions, courses }) => {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoadingFeed, setIsLoadingFeed] = useState(false);
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const localZone = getLocalTimeZone();
+
+  const loadFeed = async (reset = false) => {
+    if (reset && !window.confirm('Reset your calendar link? Calendars subscribed with the old link stop updating.')) return;
+    setIsLoadingFeed(true);
+    setFeedError(null);
+    try {
+      setFeedUrl(await getCalendarFeedUrl(reset));
+      setCopied(false);
+    } catch (err: any) {
+      console.error(err);
+      setFeedError(err.message || 'Could not create your calendar link.');
+    } finally {
+      setIsLoadingFeed(false);
+    }
+  };
+
+  const copyFeed = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  // Agenda grouped by the viewer's calendar day
+  const days: { label: string; sessions: LiveSession[] }[] = [];
+  sessions.forEach(session => {
+    const label = dayLabel(session.startsAt);
+    const day = days.find(d => d.label === label);
+    if (day) day.sessions.push(session);
+    else days.push({ label, sessions: [session] });
+  });
+
+  return (
+    <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Upcoming Live Sessions</h2>
+          <p className="text-xs text-gray-500">Times are shown in your time zone ({localZone}).</p>
+        </div>
+        <div className="flex gap-2">
+          {sessions.length > 0 && (
+            <Button size="sm" variant="outline" onClick={() => downloadSessionsIcs(sessions, courses, 'live-sessions.ics')}>Download .ics</Button>
+          )}
+          {!feedUrl && <Button size="sm" variant="outline" isLoading={isLoadingFeed} onClick={() => loadFeed()}>Subscribe</Button>}
+        </div>
+      </div>
+
+      {(feedUrl || feedError) && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-indigo-50 text-sm">
+          {feedError ? (
+            <p className="text-red-600">{feedError}</p>
+          ) : feedUrl && (
+            <>
+              <p className="text-gray-700 mb-2">Add this private link to Google Calendar, Outlook or Apple Calendar to keep your sessions in sync. Anyone with the link can see your schedule.</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input type="text" readOnly value={feedUrl} onFocus={e => e.target.select()} className="flex-1 min-w-0 rounded-md border border-gray-300 px-3 py-1.5 text-xs font-mono bg-white" />
+                <Button size="sm" variant="outline" onClick={copyFeed}>{copied ? 'Copied' : 'Copy'}</Button>
+                <a href={toWebcalUrl(feedUrl)} className="inline-flex items-center justify-center px-3 py-1.5 rounded-md text-sm font-medium text-indigo-700 hover:text-indigo-900">Open in calendar app</a>
+              </div>
+              <button onClick={() => loadFeed(true)} disabled={isLoadingFeed} className="mt-2 text-xs text-gray-500 hover:text-red-600">Reset link</button>
+            </>
+          )}
+        </div>
+      )}
+
+      {days.length > 0 ? (
+        <div className="divide-y divide-gray-200">
+          {days.map(day => (
+            <div key={day.label} className="px-6 py-4">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{day.label}</h3>
+              <ul className="space-y-3">
+                {day.sessions.map(session => {
+                  const course = courses.find(c => c.id === session.courseId);
+                  const isLive = isSessionLive(session);
+                  return (
+                    <li key={session.id} className="flex flex-col sm:flex-row sm:items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-gray-900">
+                          {session.title}
+                          {isLive && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">Live now</span>}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {course?.title} · {formatSessionTime(session)} · {session.durationMinutes} min
+                        </p>
+                        {session.timeZone !== localZone && (
+                          <p className="text-xs text-gray-400">Scheduled for {formatSessionTime(session, session.timeZone)} ({session.timeZone})</p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => downloadSessionsIcs([session], courses, `session-${session.id}.ics`)}>Add to calendar</Button>
+                        {session.meetingUrl && (
+                          <a
+                            href={session.meetingUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className={`inline-flex items-center justify-center px-3 py-1.5 rounded-md text-sm font-medium ${isLive ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'border border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                          >
+                            Join
+                          </a>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="p-6 text-sm text-gray-500">No live sessions are scheduled for your programs.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { Course, LiveSession } from '../types';
+import { Button } from './Button';
+import {
+  fetchLiveSessions, saveLiveSession, deleteLiveSession, getSessionEnd, formatSessionTime, zonedTimeToIso, isoToZonedTime,
+  getLocalTimeZone, COMMON_TIME_ZONES,
+} from '../services/liveSessionService';
+
+interface SessionManagerProps {
+  courses: Course[]; // Programs the current user manages
+  onOpenAttendance: (sessionId: string) => void;
+}
+
+// Edited as wall-clock date and time in the chosen zone; converted to an instant on save.
+interface SessionDraft {
+  id?: string;
+  courseId: string;
+  cohortId?: string;
+  title: string;
+  description: string;
+  date: string;
+  time: string;
+  timeZone: string;
+  durationMinutes: number;
+  meetingUrl: string;
+}
+
+const emptyDraft = (courseId: string): SessionDraft => ({
+  courseId, title: '', description: '', date: '', time: '18:00', timeZone: getLocalTimeZone(), durationMinutes: 60, meetingUrl: '',
+});
+
+const toDraft = (session: LiveSession): SessionDraft => ({
+  id: session.id,
+  courseId: session.courseId,
+  cohortId: session.cohortId,
+  title: session.title,
+  description: session.description || '',
+  ...isoToZonedTime(session.startsAt, session.timeZone),
+  timeZone: session.timeZone,
+  durationMinutes: session.durationMinutes,
+  meetingUrl: session.meetingUrl || '',
+});
+
+export const SessionManager: React.FC<SessionManagerProps> = ({ courses, onOpenAttendance }) => {
+  const [courseId, setCourseId] = useState(courses[0]?.id || '');
+  const [sessions, setSessions] = useState<LiveSession[]>([]);
+  const [showPast, setShowPast] = useState(false);
+  const [draft, setDraft] = useState<SessionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!courseId && courses.length > 0) setCourseId(courses[0].id);
+  }, [courses]);
+
+  const loadSessions = () => fetchLiveSessions({ courseId }).then(setSessions);
+
+  useEffect(() => {
+    if (!courseId) return;
+    setDraft(null);
+    loadSessions();
+  }, [courseId]);
+
+  const course = courses.find(c => c.id === courseId);
+  const cohorts = course?.cohorts || [];
+  const timeZones = draft && !COMMON_TIME_ZONES.includes(draft.timeZone) ? [draft.timeZone, ...COMMON_TIME_ZONES] : COMMON_TIME_ZONES;
+  const now = new Date();
+  const visible = sessions.filter(s => showPast || getSessionEnd(s) > now);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!draft.title.trim() || !draft.date || !draft.time) {
+      setError('Title, date and time are required.');
+      return;
+    }
+    if (draft.meetingUrl && !/^https?:\/\//i.test(draft.meetingUrl.trim())) {
+      setError('The meeting link must start with http:// or https://.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveLiveSession({
+        id: draft.id,
+        courseId: draft.courseId,
+        cohortId: draft.cohortId,
+        title: draft.title.trim(),
+        description: draft.description.trim(),
+        startsAt: zonedTimeToIso(draft.date, draft.time, draft.timeZone),
+        durationMinutes: draft.durationMinutes,
+        timeZone: draft.timeZone,
+        meetingUrl: draft.meetingUrl.trim(),
+      });
+      setDraft(null);
+      await loadSessions();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save session.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (session: LiveSession) => {
+    if (!window.confirm(`Delete the session "${session.title}"? It disappears from students' calendars at their next sync.`)) return;
+    try {
+      await deleteLiveSession(session.id);
+      await loadSessions();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete session.');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Live Sessions</h1>
+          <p className="text-sm text-gray-500 mt-1">Students see sessions on their dashboard and calendar feed, and are reminded a day and an hour ahead.</p>
+        </div>
+        <div className="flex gap-3">
+          <select value={courseId} onChange={e => setCourseId(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2 text-sm">
+            {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+          <Button onClick={() => { setDraft(emptyDraft(courseId)); setError(null); }} disabled={!courseId}>New Session</Button>
+        </div>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-900">{draft.id ? `Edit ${draft.title}` : `New session for ${course?.title}`}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+              <input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} required className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="e.g. Week 3 live Q&A" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Attendees</label>
+              <select value={draft.cohortId || ''} onChange={e => setDraft({ ...draft, cohortId: e.target.value || undefined })} className="w-full rounded-md border border-gray-300 px-3 py-2">
+                <option value="">Every student of the program</option>
+                {cohorts.map(c => <option key={c.id} value={c.id}>{c.name} cohort</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                <input type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} required className="w-full rounded-md border border-gray-300 px-3 py-2" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Time</label>
+                <input type="time" value={draft.time} onChange={e => setDraft({ ...draft, time: e.target.value })} required className="w-full rounded-md border border-gray-300 px-3 py-2" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+                <select value={draft.timeZone} onChange={e => setDraft({ ...draft, timeZone: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2">
+                  {timeZones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Duration (minutes)</label>
+                <input type="number" min={5} step={5} value={draft.durationMinutes} onChange={e => setDraft({ ...draft, durationMinutes: Math.max(5, Number(e.target.value) || 5) })} className="w-full rounded-md border border-gray-300 px-3 py-2" />
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Meeting Link</label>
+              <input type="url" value={draft.meetingUrl} onChange={e => setDraft({ ...draft, meetingUrl: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="https://meet.google.com/..." />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <textarea value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} rows={2} className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="Agenda or preparation notes" />
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button type="submit" isLoading={isSaving}>Save Session</Button>
+          </div>
+        </form>
+      )}
+
+      {!draft && error && <p className="mb-6 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 flex justify-end">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={showPast} onChange={e => setShowPast(e.target.checked)} className="rounded border-gray-300 text-indigo-600" />
+            Show past sessions
+          </label>
+        </div>
+        {visible.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Session</th>
+                <th className="px-6 py-3">When</th>
+                <th className="px-6 py-3">Attendees</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(session => (
+                <tr key={session.id} className={getSessionEnd(session) <= now ? 'text-gray-400' : ''}>
+                  <td className="px-6 py-3">
+                    <p className="font-medium text-gray-900">{session.title}</p>
+                    {session.meetingUrl && <a href={session.meetingUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-indigo-600 hover:text-indigo-800 truncate block max-w-xs">{session.meetingUrl}</a>}
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">
+                    {formatSessionTime(session, session.timeZone)} · {session.durationMinutes} min
+                    <p className="text-xs text-gray-400">{session.timeZone}</p>
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">{cohorts.find(c => c.id === session.cohortId)?.name || 'Everyone'}</td>
+                  <td className="px-6 py-3 text-right whitespace-nowrap">
+                    {new Date(session.startsAt) <= now && <button onClick={() => onOpenAttendance(session.id)} className="text-indigo-600 hover:text-indigo-800 font-medium mr-4">Attendance</button>}
+                    <button onClick={() => { setDraft(toDraft(session)); setError(null); }} className="text-indigo-600 hover:text-indigo-800 font-medium mr-4">Edit</button>
+                    <button onClick={() => handleDelete(session)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="p-6 text-sm text-gray-500">{course ? `No ${showPast ? '' : 'upcoming '}sessions for ${course.title}.` : 'No training programs to schedule.'}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { Course, Signatory } from '../types';
+import { Button } from './Button';
+import { fetchSignatories, saveSignatory, deleteSignatory, uploadSignature } from '../services/signatoryService';
+import { deleteFromStorage } from '../supabaseClient';
+
+interface SignatoryManagerProps {
+  courses: Course[];
+}
+
+const EMPTY_SIGNATORY: Signatory = { id: '', name: '', title: '' };
+
+// Signatures are downscaled to this width so they stay small inside every PDF.
+const MAX_SIGNATURE_WIDTH = 600;
+const SIGNATURE_ASPECT_RATIO = 180 / 56; // Signature slot of a full-width column in services/certificateRenderer.ts
+
+export const SignatoryManager: React.FC<SignatoryManagerProps> = ({ courses }) => {
+  const [signatories, setSignatories] = useState<Signatory[]>([]);
+  const [draft, setDraft] = useState<Signatory | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Signature processing
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const [removeBackground, setRemoveBackground] = useState(true);
+  const [processedPreview, setProcessedPreview] = useState<string | null>(null);
+
+  const reload = async () => setSignatories(await fetchSignatories());
+
+  useEffect(() => { reload(); }, []);
+
+  useEffect(() => {
+    if (!pendingImage) {
+      setProcessedPreview(null);
+      return;
+    }
+    let cancelled = false;
+    generateProcessedImage(pendingImage, removeBackground).then(result => {
+      if (!cancelled) setProcessedPreview(result);
+    });
+    return () => { cancelled = true; };
+  }, [pendingImage, removeBackground]);
+
+  const openEditor = (signatory: Signatory | null) => {
+    setDraft(signatory ? { ...signatory } : { ...EMPTY_SIGNATORY });
+    setPendingImage(null);
+    setRemoveBackground(true);
+    setError(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!['image/jpeg', 'image/png', 'image/svg+xml'].includes(file.type)) {
+      setError('Invalid format. Use JPG, PNG, or SVG.');
+      return;
+    }
+    if (file.size > 2 * 1024 * 1024) {
+      setError('Image too large. Max 2MB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => setPendingImage(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('Name is required.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      let signaturePath = draft.signaturePath;
+      const finalImage = processedPreview || pendingImage;
+      if (finalImage) {
+        signaturePath = await uploadSignature(dataUrlToFile(finalImage, 'signature.png'), draft.id || 'new');
+      }
+      await saveSignatory({ ...draft, signaturePath });
+      // A replaced or removed file is only deleted once the change is saved
+      const previousPath = signatories.find(s => s.id === draft.id)?.signaturePath;
+      if (previousPath && previousPath !== signaturePath) await deleteFromStorage(previousPath);
+      setDraft(null);
+      setPendingImage(null);
+      await reload();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to save signatory.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveSignature = () => {
+    if (!draft) return;
+    setPendingImage(null);
+    setDraft({ ...draft, signaturePath: undefined, signatureImage: undefined });
+  };
+
+  const handleDelete = async (signatory: Signatory) => {
+    const usedBy = courses.filter(c => c.signatoryIds?.includes(signatory.id)).length;
+    const warning = usedBy > 0 ? ` They will be removed from ${usedBy} training program(s).` : '';
+    if (!window.confirm(`Delete ${signatory.name}?${warning}`)) return;
+    try {
+      await deleteSignatory(signatory);
+      await reload();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete signatory.');
+    }
+  };
+
+  const programsFor = (signatory: Signatory) =>
+    courses.filter(c => c.signatoryIds?.includes(signatory.id)).map(c => c.title);
+
+  const previewImage = processedPreview || pendingImage || draft?.signatureImage;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Signatories</h1>
+          <p className="text-sm text-gray-500 mt-1">People who sign certificates. Choose who signs each training program in the course editor.</p>
+        </div>
+        <Button onClick={() => openEditor(null)}>New Signatory</Button>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-bold text-gray-900">{draft.id ? `Edit ${draft.name}` : 'New Signatory'}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} required className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="e.g. Dr. Sarah Chen" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+              <input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} className="w-full rounded-md border border-gray-300 px-3 py-2" placeholder="e.g. Director" />
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Signature</p>
+            <div className="flex items-center gap-4">
+              <div className="h-20 w-64 rounded-lg border border-gray-200 flex items-center justify-center p-2" style={{ backgroundImage: `url(${dotPattern})` }}>
+                {previewImage
+                  ? <img src={previewImage} alt="Signature preview" className="max-h-full max-w-full object-contain" />
+                  : <span className="text-xs text-gray-400">No signature; the name is typeset instead</span>}
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer">
+                  {previewImage ? 'Replace' : 'Upload'}
+                  <input type="file" accept="image/png,image/jpeg,image/svg+xml" className="hidden" onChange={handleFileChange} />
+                </label>
+                {previewImage && <button type="button" onClick={handleRemoveSignature} className="block text-sm text-red-600 hover:text-red-800 font-medium">Remove</button>}
+              </div>
+            </div>
+            {pendingImage && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+                <input type="checkbox" checked={removeBackground} onChange={e => setRemoveBackground(e.target.checked)} />
+                Remove white background
+              </label>
+            )}
+            <p className="text-xs text-gray-500 mt-1">The signature is trimmed to its ink and stored as a transparent PNG.</p>
+          </div>
+
+          {error && <p className="text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button type="submit" isLoading={isSaving}>Save Signatory</Button>
+          </div>
+        </form>
+      )}
+
+      {!draft && error && <p className="mb-6 text-sm text-red-600 bg-red-50 p-3 rounded border border-red-200">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {signatories.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Signature</th>
+                <th className="px-6 py-3">Name</th>
+                <th className="px-6 py-3">Training Programs</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {signatories.map(s => {
+                const programs = programsFor(s);
+                return (
+                  <tr key={s.id}>
+                    <td className="px-6 py-3">
+                      {s.signatureImage
+                        ? <img src={s.signatureImage} alt="" className="h-10 object-contain" />
+                        : <span className="text-xs text-gray-400">None</span>}
+                    </td>
+                    <td className="px-6 py-3">
+                      <p className="font-medium text-gray-900">{s.name}</p>
+                      <p className="text-xs text-gray-500">{s.title}</p>
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">{programs.length > 0 ? programs.join(', ') : <span className="text-gray-400">Not assigned</span>}</td>
+                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                      <button onClick={() => openEditor(s)} className="text-indigo-600 hover:text-indigo-800 font-medium mr-4">Edit</button>
+                      <button onClick={() => handleDelete(s)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className="p-6 text-sm text-gray-500">No signatories yet. Programs without signatories are signed by their instructor's typeset name.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const dataUrlToFile = (dataUrl: string, filename: string) => {
+  const [header, body] = dataUrl.split(',');
+  const mime = header.match(/:(.*?);/)?.[1];
+  const binary = atob(body);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new File([bytes], filename, { type: mime });
+};
+
+// Trims an uploaded signature to its ink, optionally knocking out a light paper background.
+const generateProcessedImage = (source: string, removeBackground: boolean): Promise<string> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth || img.width;
+      canvas.height = img.naturalHeight || img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !canvas.width || !canvas.height) return resolve(source);
+      ctx.drawImage(img, 0, 0);
+
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = pixels.data;
+      let minX = canvas.width, minY = canvas.height, maxX = -1, maxY = -1;
+      for (let y = 0; y < canvas.height; y++) {
+        for (let x = 0; x < canvas.width; x++) {
+          const i = (y * canvas.width + x) * 4;
+          if (removeBackground && data[i] > 220 && data[i + 1] > 220 && data[i + 2] > 220) data[i + 3] = 0;
+          if (data[i + 3] > 0) {
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+          }
+        }
+      }
+      if (maxX < 0) return resolve(source);
+      ctx.putImageData(pixels, 0, 0);
+
+      // Pad the ink box out to the signature slot's aspect ratio so it is not stretched on the certificate.
+      let width = maxX - minX + 1;
+      let height = maxY - minY + 1;
+      if (width / height < SIGNATURE_ASPECT_RATIO) width = Math.round(height * SIGNATURE_ASPECT_RATIO);
+      else height = Math.round(width / SIGNATURE_ASPECT_RATIO);
+      const ratio = Math.min(1, MAX_SIGNATURE_WIDTH / width);
+      const inkWidth = maxX - minX + 1;
+      const inkHeight = maxY - minY + 1;
+      const output = document.createElement('canvas');
+      output.width = Math.round(width * ratio);
+      output.height = Math.round(height * ratio);
+      output.getContext('2d')?.drawImage(canvas, minX, minY, inkWidth, inkHeight,
+        Math.round(((width - inkWidth) / 2) * ratio), Math.round(((height - inkHeight) / 2) * ratio), Math.round(inkWidth * ratio), Math.round(inkHeight * ratio));
+      resolve(output.toDataURL('image/png'));
+    };
+    img.onerror = () => resolve(source);
+    img.src = source;
+  });
+
+const dotPattern = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCI+PGNpcmNsZSBjeD0iMiIgY3k9IjIiIHI9IjEiIGZpbGw9InJnYmEoMCwwLDAsMC4wNSkiLz48L3N2Zz4=";
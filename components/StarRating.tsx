@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+
+interface StarRatingProps {
+  value: number; // 0 to 5; fractions fill part of a star
+  onChange?: (value: number) => void; // Makes the stars clickable
+  size?: 'sm' | 'md' | 'lg';
+}
+
+const STAR_PATH = 'M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z';
+
+const SIZES = { sm: 'w-4 h-4', md: 'w-5 h-5', lg: 'w-7 h-7' };
+
+export const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 'sm' }) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? value;
+
+  const stars = [1, 2, 3, 4, 5].map(star => {
+    const fill = Math.max(0, Math.min(1, shown - star + 1));
+    const icon = (
+      <span className={`relative inline-block ${SIZES[size]}`}>
+        <svg className={`absolute inset-0 ${SIZES[size]} text-gray-300`} fill="currentColor" viewBox="0 0 20 20"><path d={STAR_PATH} /></svg>
+        <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+          <svg className={`${SIZES[size]} text-amber-400`} fill="currentColor" viewBox="0 0 20 20"><path d={STAR_PATH} /></svg>
+        </span>
+      </span>
+    );
+    return onChange ? (
+      <button
+        key={star}
+        type="button"
+        onClick={() => onChange(star)}
+        onMouseEnter={() => setHovered(star)}
+        onMouseLeave={() => setHovered(null)}
+        className="focus:outline-none"
+        aria-label={`${star} ${star === 1 ? 'star' : 'stars'}`}
+      >
+        {icon}
+      </button>
+    ) : (
+      <React.Fragment key={star}>{icon}</React.Fragment>
+    );
+  });
+
+  return (
+    <span className="inline-flex items-center gap-0.5" role={onChange ? undefined : 'img'} aria-label={onChange ? undefined : `${value.toFixed(1)} out of 5 stars`}>
+      {stars}
+    </span>
+  );
+};
@@ -0,0 +1,372 @@
+import React, { useState, useEffect } from 'react';
+import { AuditEntry, Course, EnrollmentStatus, IssuedCertificate, ManagedUser, User, UserAction, UserRole } from '../types';
+import { Button } from './Button';
+import { fetchManagedUsers, manageUser, updateUserRole, USER_ROLES } from '../services/userService';
+import { fetchCertificates } from '../services/certificateService';
+import { fetchAuditLog } from '../services/auditService';
+import { STATUS_LABELS } from '../services/reviewService';
+
+interface UserManagerProps {
+  currentUser: User;
+  courses: Course[];
+  selectedUserId?: string;
+  onSelectUser: (userId?: string) => void;
+}
+
+const STATUS_STYLES: { [status in EnrollmentStatus]: string } = {
+  registered: 'bg-blue-100 text-blue-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  rejected: 'bg-red-100 text-red-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+// Confirmation prompts for actions that lose data or lock someone out.
+const CONFIRMATIONS: { [action in UserAction]?: string } = {
+  unenroll: 'Unenroll this user? Their enrollment and lesson progress are deleted. Certificates, orders and graded work are kept.',
+  reset_progress: 'Reset lesson progress for this program? Completed lessons and watch time are cleared.',
+  deactivate: 'Deactivate this account? The user is signed out and cannot sign in until reactivated.',
+};
+
+interface UserDetailProps {
+  user: ManagedUser;
+  currentUser: User;
+  courses: Course[];
+  onBack: () => void;
+  onChanged: () => Promise<void>;
+}
+
+const UserDetail: React.FC<UserDetailProps> = ({ user, currentUser, courses, onBack, onChanged }) => {
+  const [certificates, setCertificates] = useState<IssuedCertificate[]>([]);
+  const [activity, setActivity] = useState<AuditEntry[]>([]);
+  const [enrollCourseId, setEnrollCourseId] = useState('');
+  const [busy, setBusy] = useState<string | null>(null); // The action (and course) in progress
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecords = async () => {
+    const [certs, entries] = await Promise.all([fetchCertificates(user.id), fetchAuditLog({ userId: user.id })]);
+    setCertificates(certs);
+    setActivity(entries);
+  };
+
+  useEffect(() => {
+    loadRecords();
+  }, [user.id]);
+
+  const run = async (key: string, task: () => Promise<void>, confirmation?: string) => {
+    if (confirmation && !window.confirm(confirmation)) return;
+    setBusy(key);
+    setError(null);
+    try {
+      await task();
+      await Promise.all([onChanged(), loadRecords()]);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'The change could not be saved.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAction = (action: UserAction, courseId?: string) =>
+    run(`${action}:${courseId || ''}`, () => manageUser(action, user.id, courseId), CONFIRMATIONS[action]);
+
+  const handleRoleChange = (role: UserRole) => {
+    const confirmation = user.id === currentUser.id
+      ? 'Change your own role? You will lose access to admin pages.'
+      : role === 'admin' ? `Give ${user.name} full admin access?` : undefined;
+    run('role', () => updateUserRole(user.id, role), confirmation);
+  };
+
+  const courseTitle = (courseId: string) => courses.find(c => c.id === courseId)?.title || courseId;
+  const available = courses.filter(c => !user.enrollments.some(e => e.courseId === c.id));
+  const isSelf = user.id === currentUser.id;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <button onClick={onBack} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium mb-4">&larr; All users</button>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            {user.name}
+            {user.deactivatedAt && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">Deactivated</span>}
+          </h1>
+          <p className="text-gray-500">{user.email}</p>
+          <p className="text-xs text-gray-400 mt-1">
+            Registered {formatDate(user.createdAt)}
+            {user.deactivatedAt && ` · Deactivated ${formatDate(user.deactivatedAt)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={user.role}
+            onChange={e => handleRoleChange(e.target.value as UserRole)}
+            disabled={busy !== null}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm disabled:opacity-50"
+          >
+            {USER_ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+          {!isSelf && (
+            user.deactivatedAt
+              ? <Button size="sm" variant="secondary" onClick={() => handleAction('reactivate')} disabled={busy !== null}>Reactivate</Button>
+              : <Button size="sm" variant="outline" onClick={() => handleAction('deactivate')} disabled={busy !== null}>Deactivate</Button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-6">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <h2 className="text-lg font-bold text-gray-900">Enrollments</h2>
+          <div className="flex gap-2">
+            <select value={enrollCourseId} onChange={e => setEnrollCourseId(e.target.value)} className="rounded-md border border-gray-300 px-3 py-1.5 text-sm">
+              <option value="">Enroll in a program...</option>
+              {available.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+            </select>
+            <Button
+              size="sm"
+              disabled={!enrollCourseId || busy !== null}
+              onClick={() => run('enroll', async () => { await manageUser('enroll', user.id, enrollCourseId); setEnrollCourseId(''); })}
+            >
+              {busy === 'enroll' ? 'Enrolling...' : 'Enroll'}
+            </Button>
+          </div>
+        </div>
+        {user.enrollments.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-6 py-3">Program</th>
+                <th className="px-6 py-3">Status</th>
+                <th className="px-6 py-3">Progress</th>
+                <th className="px-6 py-3">Quiz average</th>
+                <th className="px-6 py-3">Enrolled</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {user.enrollments.map(e => (
+                <tr key={e.courseId}>
+                  <td className="px-6 py-4 font-medium text-gray-900">{courseTitle(e.courseId)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[e.status]}`}>{STATUS_LABELS[e.status]}</span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 bg-gray-200 rounded-full h-2">
+                        <div className="bg-indigo-600 h-2 rounded-full" style={{ width: `${e.progress}%` }}></div>
+                      </div>
+                      <span className="text-gray-600">{e.progress}%</span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">{e.quizScore !== undefined ? `${Math.round(e.quizScore)}%` : '—'}</td>
+                  <td className="px-6 py-4 text-gray-600">{formatDate(e.enrolledAt)}</td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap space-x-3">
+                    {e.status !== 'completed' && (
+                      <button onClick={() => handleAction('reset_progress', e.courseId)} disabled={busy !== null} className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50">
+                        Reset progress
+                      </button>
+                    )}
+                    <button onClick={() => handleAction('unenroll', e.courseId)} disabled={busy !== null} className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50">
+                      Unenroll
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-6 text-center text-gray-500">Not registered for any program</div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <h2 className="px-6 py-4 border-b border-gray-200 bg-gray-50 text-lg font-bold text-gray-900">Certificates</h2>
+          {certificates.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {certificates.map(c => (
+                <li key={c.id} className="px-6 py-3 text-sm">
+                  <p className="font-medium text-gray-900">{c.courseTitle}</p>
+                  <p className="text-gray-500">
+                    <span className="font-mono">{c.serial}</span> · issued {formatDate(c.issuedAt)}
+                    {c.revokedAt && <span className="text-red-600"> · revoked {formatDate(c.revokedAt)}</span>}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="p-6 text-center text-gray-500">No certificates issued</div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <h2 className="px-6 py-4 border-b border-gray-200 bg-gray-50 text-lg font-bold text-gray-900">Admin Activity</h2>
+          {activity.length > 0 ? (
+            <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+              {activity.map(a => (
+                <li key={a.id} className="px-6 py-3 text-sm">
+                  <p className="text-gray-900">{a.summary}</p>
+                  <p className="text-xs text-gray-500">{a.actorName || 'System'} · {new Date(a.createdAt).toLocaleString()}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="p-6 text-center text-gray-500">No admin actions recorded</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const UserManager: React.FC<UserManagerProps> = ({ currentUser, courses, selectedUserId, onSelectUser }) => {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [courseFilter, setCourseFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<EnrollmentStatus | 'none' | ''>('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('');
+  const [registeredFrom, setRegisteredFrom] = useState('');
+  const [registeredTo, setRegisteredTo] = useState('');
+  const [showDeactivated, setShowDeactivated] = useState(true);
+
+  const reload = async () => {
+    setUsers(await fetchManagedUsers());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  if (selectedUserId) {
+    const selected = users.find(u => u.id === selectedUserId);
+    if (isLoading) return <div className="p-8 text-center text-gray-500">Loading...</div>;
+    if (!selected) return <div className="p-8 text-center text-gray-500">User not found</div>;
+    return <UserDetail user={selected} currentUser={currentUser} courses={courses} onBack={() => onSelectUser()} onChanged={reload} />;
+  }
+
+  const term = search.trim().toLowerCase();
+  // Registration dates are compared by calendar day in the admin's time zone
+  const from = registeredFrom ? new Date(`${registeredFrom}T00:00`) : null;
+  const to = registeredTo ? new Date(`${registeredTo}T23:59:59.999`) : null;
+  const filtered = users.filter(u => {
+    if (term && !u.name.toLowerCase().includes(term) && !u.email.toLowerCase().includes(term)) return false;
+    if (roleFilter && u.role !== roleFilter) return false;
+    if (!showDeactivated && u.deactivatedAt) return false;
+    const created = new Date(u.createdAt);
+    if ((from && created < from) || (to && created > to)) return false;
+
+    // Course and status combine: "completed in this program", or either on its own
+    const relevant = courseFilter ? u.enrollments.filter(e => e.courseId === courseFilter) : u.enrollments;
+    if (statusFilter === 'none') return relevant.length === 0;
+    if (statusFilter) return relevant.some(e => e.status === statusFilter);
+    return !courseFilter || relevant.length > 0;
+  });
+
+  const hasFilters = !!(term || courseFilter || statusFilter || roleFilter || registeredFrom || registeredTo || !showDeactivated);
+  const clearFilters = () => {
+    setSearch('');
+    setCourseFilter('');
+    setStatusFilter('');
+    setRoleFilter('');
+    setRegisteredFrom('');
+    setRegisteredTo('');
+    setShowDeactivated(true);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+        <input
+          type="search"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Search by name or email"
+          className="w-full sm:w-80 rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 text-sm">
+        <select value={courseFilter} onChange={e => setCourseFilter(e.target.value)} className="rounded-md border border-gray-300 px-3 py-2">
+          <option value="">All programs</option>
+          {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+        </select>
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as EnrollmentStatus | 'none' | '')} className="rounded-md border border-gray-300 px-3 py-2">
+          <option value="">Any enrollment status</option>
+          {(Object.keys(STATUS_LABELS) as EnrollmentStatus[]).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+          <option value="none">Not enrolled</option>
+        </select>
+        <select value={roleFilter} onChange={e => setRoleFilter(e.target.value as UserRole | '')} className="rounded-md border border-gray-300 px-3 py-2">
+          <option value="">All roles</option>
+          {USER_ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-gray-600">
+          From
+          <input type="date" value={registeredFrom} onChange={e => setRegisteredFrom(e.target.value)} className="flex-1 rounded-md border border-gray-300 px-2 py-1.5" />
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          To
+          <input type="date" value={registeredTo} onChange={e => setRegisteredTo(e.target.value)} className="flex-1 rounded-md border border-gray-300 px-2 py-1.5" />
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          <input type="checkbox" checked={showDeactivated} onChange={e => setShowDeactivated(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600" />
+          Include deactivated accounts
+        </label>
+        {hasFilters && (
+          <button onClick={clearFilters} className="text-left text-indigo-600 hover:text-indigo-800 font-medium">Clear filters</button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : filtered.length > 0 ? (
+          <>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <tr>
+                  <th className="px-6 py-3">User</th>
+                  <th className="px-6 py-3">Role</th>
+                  <th className="px-6 py-3">Programs</th>
+                  <th className="px-6 py-3">Registered</th>
+                  <th className="px-6 py-3">Account</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filtered.map(u => (
+                  <tr key={u.id} onClick={() => onSelectUser(u.id)} className="cursor-pointer hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-900">{u.name}</p>
+                      <p className="text-gray-500">{u.email}</p>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{USER_ROLES.find(r => r.id === u.role)?.label}</td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {u.enrollments.length > 0
+                        ? `${u.enrollments.length} registered, ${u.enrollments.filter(e => e.status === 'completed').length} completed`
+                        : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{formatDate(u.createdAt)}</td>
+                    <td className="px-6 py-4">
+                      {u.deactivatedAt
+                        ? <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">Deactivated</span>
+                        : <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Active</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">{filtered.length} of {users.length} users</p>
+          </>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No users match these filters</div>
+        )}
+      </div>
+    </div>
+  );
+};
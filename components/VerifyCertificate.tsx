@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { verifyCertificate, CertificateVerification } from '../services/certificateService';
+
+interface VerifyCertificateProps {
+  serial: string;
+}
+
+export const VerifyCertificate: React.FC<VerifyCertificateProps> = ({ serial }) => {
+  const [result, setResult] = useState<CertificateVerification | null>(null);
+  const [status, setStatus] = useState<'loading' | 'found' | 'not_found' | 'error'>('loading');
+
+  useEffect(() => {
+    setStatus('loading');
+    verifyCertificate(serial)
+      .then(found => {
+        setResult(found);
+        setStatus(found ? 'found' : 'not_found');
+      })
+      .catch(err => {
+        console.error(err);
+        setStatus('error');
+      });
+  }, [serial]);
+
+  const isRevoked = !!result?.revokedAt;
+
+  return (
+    <div className="max-w-xl mx-auto px-4 py-16 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        <div className="bg-indigo-900 px-6 py-4">
+          <p className="text-xs font-semibold uppercase tracking-wider text-indigo-200">Certificate Verification</p>
+          <p className="font-mono text-white mt-1">{serial}</p>
+        </div>
+
+        <div className="p-8">
+          {status === 'loading' && <p className="text-center text-gray-500">Checking certificate...</p>}
+
+          {status === 'error' && (
+            <p className="text-center text-gray-500">Verification is temporarily unavailable. Please try again later.</p>
+          )}
+
+          {status === 'not_found' && (
+            <div className="text-center">
+              <div className="w-14 h-14 rounded-full bg-red-100 text-red-600 flex items-center justify-center mx-auto mb-4">
+                <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900">No Certificate Found</h1>
+              <p className="text-gray-500 mt-2">Deepmetrics Analytics Institute has not issued a certificate with this ID. Check the ID for typos.</p>
+            </div>
+          )}
+
+          {status === 'found' && result && (
+            <>
+              <div className="text-center mb-6">
+                <div className={`w-14 h-14 rounded-full flex items-center justify-center mx-auto mb-4 ${isRevoked ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'}`}>
+                  {isRevoked ? (
+                    <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+                  ) : (
+                    <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
+                  )}
+                </div>
+                <h1 className="text-2xl font-bold text-gray-900">{isRevoked ? 'Certificate Revoked' : 'Valid Certificate'}</h1>
+                <p className="text-gray-500 mt-2">
+                  {isRevoked
+                    ? 'This certificate was issued by Deepmetrics Analytics Institute but is no longer valid.'
+                    : 'This certificate was issued by Deepmetrics Analytics Institute and is valid.'}
+                </p>
+              </div>
+
+              <dl className="text-sm bg-gray-50 rounded-lg p-4 space-y-2">
+                <div className="flex justify-between gap-4"><dt className="text-gray-500">Awarded To</dt><dd className="font-semibold text-gray-900 text-right">{result.recipientName}</dd></div>
+                <div className="flex justify-between gap-4"><dt className="text-gray-500">Training Program</dt><dd className="text-gray-900 text-right">{result.courseTitle}</dd></div>
+                <div className="flex justify-between gap-4"><dt className="text-gray-500">Issued</dt><dd className="text-gray-900 text-right">{new Date(result.issuedAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}</dd></div>
+                {isRevoked && (
+                  <>
+                    <div className="flex justify-between gap-4"><dt className="text-gray-500">Revoked</dt><dd className="text-red-700 text-right">{new Date(result.revokedAt!).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}</dd></div>
+                    {result.revocationReason && (
+                      <div className="flex justify-between gap-4"><dt className="text-gray-500">Reason</dt><dd className="text-red-700 text-right">{result.revocationReason}</dd></div>
+                    )}
+                  </>
+                )}
+              </dl>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
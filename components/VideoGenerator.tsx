@@ -5,8 +5,13 @@ import { supabase, uploadToStorage, getSignedUrl, deleteFromStorage } from '../s
 
 interface VideoGeneratorProps {
   user: User | null;
+  initialVideoId?: string; // Deep link from a curriculum lesson
+  onVideoProgress?: (videoId: string, playedRanges: [number, number][], durationSeconds: number) => void;
 }
 
+// Minimum new playback between watch-time reports
+const PROGRESS_REPORT_INTERVAL_SECONDS = 15;
+
 interface VideoItem {
   id: string;
   title: string;
@@ -17,8 +22,9 @@ interface VideoItem {
   url?: string;
 }
 
-export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user }) => {
+export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, initialVideoId, onVideoProgress }) => {
   const [videos, setVideos] = useState<VideoItem[]>([]);
+  const [videoId, setVideoId] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoName, setVideoName] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
@@ -39,12 +45,20 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user }) => {
   });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastReportedSecondsRef = useRef(0);
   const isAdmin = user?.role === 'admin';
 
   useEffect(() => {
     fetchVideos();
   }, []);
 
+  // Open the linked video once the library has loaded
+  useEffect(() => {
+    if (!initialVideoId || videoId === initialVideoId) return;
+    const linked = videos.find(v => v.id === initialVideoId);
+    if (linked) handleSelectVideo(linked);
+  }, [initialVideoId, videos]);
+
   const fetchVideos = async () => {
       const { data, error } = await supabase.from('videos').select('*').order('created_at', { ascending: false });
       if (data) {
@@ -71,7 +85,8 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user }) => {
 
           // 3. Refresh
           await fetchVideos();
-          if (videoName === video.title) {
+          if (videoId === video.id) {
+              setVideoId(null);
               setVideoName('');
               setVideoUrl(null);
           }
@@ -139,8 +154,21 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user }) => {
   };
   
   const handleSelectVideo = (video: VideoItem) => {
+      setVideoId(video.id);
       setVideoName(video.title);
       setVideoUrl(video.url || null);
+      lastReportedSecondsRef.current = 0;
+  };
+
+  // Reports the spans actually played (the browser merges them and leaves out skipped parts), not the position
+  const reportProgress = (player: HTMLVideoElement, force: boolean = false) => {
+      if (!onVideoProgress || !videoId || !player.duration) return;
+      const playedRanges: [number, number][] = [];
+      for (let i = 0; i < player.played.length; i++) playedRanges.push([player.played.start(i), player.played.end(i)]);
+      const playedSeconds = playedRanges.reduce((sum, [start, end]) => sum + end - start, 0);
+      if (!force && playedSeconds - lastReportedSecondsRef.current < PROGRESS_REPORT_INTERVAL_SECONDS) return;
+      lastReportedSecondsRef.current = playedSeconds;
+      onVideoProgress(videoId, playedRanges, player.duration);
   };
 
   const filteredVideos = videos.filter(video => {
@@ -163,7 +191,15 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user }) => {
           <div className="lg:col-span-2 space-y-6">
               <div className="bg-gray-900 rounded-xl overflow-hidden shadow-2xl flex items-center justify-center relative aspect-video border border-gray-800">
                   {videoUrl ? (
-                      <video controls autoPlay className="w-full h-full object-contain" src={videoUrl} />
+                      <video
+                          controls
+                          autoPlay
+                          className="w-full h-full object-contain"
+                          src={videoUrl}
+                          onTimeUpdate={(e) => reportProgress(e.currentTarget)}
+                          onPause={(e) => reportProgress(e.currentTarget, true)}
+                          onEnded={(e) => reportProgress(e.currentTarget, true)}
+                      />
                   ) : (
                       <div className="text-center p-8 flex flex-col items-center">
                           <h3 className="text-white text-lg font-medium">{videoName ? `Playing: ${videoName}` : "No Video Selected"}</h3>
@@ -216,7 +252,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user }) => {
                   <div className="flex-1 overflow-y-auto">
                     <ul className="divide-y divide-gray-100">
                         {filteredVideos.map((item) => (
-                            <li key={item.id} className={`px-6 py-4 hover:bg-gray-50 cursor-pointer ${videoName === item.title ? 'bg-indigo-50 border-l-4 border-indigo-600' : ''}`}>
+                            <li key={item.id} className={`px-6 py-4 hover:bg-gray-50 cursor-pointer ${videoId === item.id ? 'bg-indigo-50 border-l-4 border-indigo-600' : ''}`}>
                                 <div className="flex items-center justify-between">
                                     <div className="flex-1 min-w-0" onClick={() => handleSelectVideo(item)}>
                                         <p className="text-sm font-medium truncate text-gray-900">{item.title}</p>
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Cohort, Course, WaitlistEntry } from '../types';
+import { Button } from './Button';
+import { findCohort, formatCohortDates, getOfferExpiry, hasActiveOffer } from '../services/cohortService';
+
+interface WaitlistPanelProps {
+  entries: WaitlistEntry[];
+  courses: Course[];
+  onCheckout: (cohort: Cohort) => void; // Claim a held seat
+  onLeave: (entry: WaitlistEntry) => void;
+}
+
+// Dashboard list of the cohorts a student is waiting on, with any seat held for them.
+export const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ entries, courses, onCheckout, onLeave }) => (
+  <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+    <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+      <h2 className="text-lg font-bold text-gray-900">Waitlists</h2>
+    </div>
+    <ul className="divide-y divide-gray-200">
+      {entries.map(entry => {
+        const match = findCohort(courses, entry.cohortId);
+        if (!match) return null;
+        const isOffered = hasActiveOffer(entry);
+        return (
+          <li key={entry.id} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-gray-900">{match.course.title}</p>
+              <p className="text-sm text-gray-500">{match.cohort.name} · {formatCohortDates(match.cohort)}</p>
+              {isOffered ? (
+                <p className="text-sm text-green-700 mt-1">A seat is held for you until {getOfferExpiry(entry)!.toLocaleString()}.</p>
+              ) : (
+                <p className="text-xs text-gray-400 mt-1">Waiting since {new Date(entry.createdAt).toLocaleDateString()}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {isOffered && <Button size="sm" onClick={() => onCheckout(match.cohort)}>Complete Checkout</Button>}
+              <Button size="sm" variant="outline" onClick={() => onLeave(entry)}>{isOffered ? 'Decline' : 'Leave'}</Button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { View, User, UserRole } from './types';
+
+// ------------------------------------------------------------------
+// ROUTE TABLE
+// ------------------------------------------------------------------
+
+// Who may open a route. Guards redirect everyone else.
+export type RouteAccess = 'public' | 'guest' | 'authenticated' | 'admin' | 'teaching' | 'finance';
+
+// Staff routes and the roles that may open them
+const STAFF_ROLES: { [access in 'admin' | 'teaching' | 'finance']: UserRole[] } = {
+  admin: ['admin'],
+  teaching: ['admin', 'instructor'],
+  finance: ['admin', 'finance'],
+};
+
+interface RouteDefinition {
+  view: View;
+  pattern: string; // e.g. '/courses/:id'
+  access: RouteAccess;
+}
+
+// Order matters: the first matching pattern wins.
+export const ROUTES: RouteDefinition[] = [
+  { view: View.HOME, pattern: '/', access: 'public' },
+  { view: View.COURSES, pattern: '/courses', access: 'public' },
+  { view: View.CHECKOUT, pattern: '/courses/:id/checkout', access: 'authenticated' },
+  { view: View.COURSE_ASSIGNMENTS, pattern: '/courses/:id/assignments', access: 'authenticated' },
+  { view: View.COURSE_QUIZZES, pattern: '/courses/:id/quizzes', access: 'authenticated' },
+  { view: View.COURSE_DISCUSSIONS, pattern: '/courses/:id/discussions', access: 'authenticated' },
+  { view: View.DISCUSSION_THREAD, pattern: '/courses/:id/discussions/:threadId', access: 'authenticated' },
+  { view: View.COURSES, pattern: '/courses/:id', access: 'public' },
+  { view: View.LEARNING_PATHS, pattern: '/paths', access: 'public' },
+  { view: View.PATH_CERTIFICATE, pattern: '/paths/:id/certificate', access: 'authenticated' },
+  { view: View.LEARNING_PATHS, pattern: '/paths/:id', access: 'public' },
+  { view: View.VIDEO_GENERATOR, pattern: '/videos', access: 'public' },
+  { view: View.VERIFY_CERTIFICATE, pattern: '/verify/:serial', access: 'public' },
+  { view: View.LOGIN, pattern: '/login', access: 'guest' },
+  { view: View.REGISTER, pattern: '/register', access: 'guest' },
+  { view: View.FORGOT_PASSWORD, pattern: '/forgot-password', access: 'guest' },
+  { view: View.RESET_PASSWORD, pattern: '/reset-password', access: 'public' },
+  { view: View.DASHBOARD, pattern: '/dashboard', access: 'authenticated' },
+  { view: View.CERTIFICATE, pattern: '/certificates/:courseId', access: 'authenticated' },
+  { view: View.ORDER_STATUS, pattern: '/orders/:orderId', access: 'authenticated' },
+  { view: View.NOTIFICATIONS, pattern: '/notifications', access: 'authenticated' },
+  { view: View.CREATE_COURSE, pattern: '/admin/courses/new', access: 'admin' },
+  { view: View.EDIT_COURSE, pattern: '/admin/courses/:id/edit', access: 'teaching' },
+  { view: View.ADMIN_REVENUE, pattern: '/admin/revenue', access: 'finance' },
+  { view: View.ADMIN_COUPONS, pattern: '/admin/coupons', access: 'finance' },
+  { view: View.ADMIN_CERTIFICATE_TEMPLATES, pattern: '/admin/certificates/templates', access: 'admin' },
+  { view: View.ADMIN_SIGNATORIES, pattern: '/admin/certificates/signatories', access: 'admin' },
+  { view: View.ADMIN_CERTIFICATES, pattern: '/admin/certificates', access: 'admin' },
+  { view: View.ADMIN_ASSIGNMENTS, pattern: '/admin/assignments', access: 'teaching' },
+  { view: View.ADMIN_QUIZZES, pattern: '/admin/quizzes', access: 'teaching' },
+  { view: View.ADMIN_COHORTS, pattern: '/admin/cohorts', access: 'teaching' },
+  { view: View.ADMIN_SESSIONS, pattern: '/admin/sessions', access: 'teaching' },
+  { view: View.SESSION_ATTENDANCE, pattern: '/admin/sessions/:id/attendance', access: 'teaching' },
+  { view: View.ADMIN_ROLES, pattern: '/admin/roles', access: 'admin' },
+  { view: View.ADMIN_USERS, pattern: '/admin/users', access: 'admin' },
+  { view: View.ADMIN_USERS, pattern: '/admin/users/:id', access: 'admin' },
+  { view: View.ADMIN_AUDIT, pattern: '/admin/audit', access: 'admin' },
+  { view: View.ADMIN_ANALYTICS, pattern: '/admin/analytics', access: 'admin' },
+  { view: View.ADMIN_RATINGS, pattern: '/admin/ratings', access: 'admin' },
+  { view: View.ADMIN_PATHS, pattern: '/admin/paths', access: 'admin' },
+  { view: View.ADMIN_EMAIL_TEMPLATES, pattern: '/admin/emails/templates', access: 'admin' },
+  { view: View.ADMIN_EMAILS, pattern: '/admin/emails', access: 'admin' },
+];
+
+export interface RouteMatch {
+  view: View;
+  access: RouteAccess;
+  params: { [key: string]: string };
+  query: URLSearchParams;
+  path: string;
+  matched: boolean;
+}
+
+const NOT_FOUND: Omit<RouteMatch, 'query' | 'path'> = { view: View.HOME, access: 'public', params: {}, matched: false };
+
+// --- Matching & Building ---
+
+const matchPattern = (pattern: string, pathname: string) => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: { [key: string]: string } = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      try {
+        params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null; // Malformed percent-encoding
+      }
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+export const matchRoute = (pathname: string, search: string = ''): RouteMatch => {
+  const query = new URLSearchParams(search);
+  for (const route of ROUTES) {
+    const params = matchPattern(route.pattern, pathname);
+    if (params) {
+      return { view: route.view, access: route.access, params, query, path: pathname, matched: true };
+    }
+  }
+  return { ...NOT_FOUND, query, path: pathname };
+};
+
+// Builds a URL for a view, preferring the most specific pattern whose params are all supplied.
+export const buildPath = (view: View, params: { [key: string]: string } = {}) => {
+  const candidates = ROUTES.filter(r => r.view === view);
+  const route = [...candidates].reverse().find(r =>
+    r.pattern.split('/').filter(p => p.startsWith(':')).every(p => params[p.slice(1)] !== undefined)
+  ) || candidates[0];
+  if (!route) return '/';
+
+  return '/' + route.pattern
+    .split('/')
+    .filter(Boolean)
+    .map(part => part.startsWith(':') ? encodeURIComponent(params[part.slice(1)] || '') : part)
+    .join('/');
+};
+
+// --- Navigation ---
+
+const ROUTE_CHANGE_EVENT = 'popstate';
+
+// preserveScroll keeps the reader's place when only the query changes, e.g. catalog filters.
+export const navigate = (path: string, options: { replace?: boolean; preserveScroll?: boolean } = {}) => {
+  const current = window.location.pathname + window.location.search;
+  if (path === current) return;
+
+  // Mark in-app entries so "close" actions can step back instead of leaving the site
+  if (options.replace) {
+    window.history.replaceState(window.history.state, '', path);
+  } else {
+    window.history.pushState({ internal: true }, '', path);
+  }
+  window.dispatchEvent(new PopStateEvent(ROUTE_CHANGE_EVENT));
+  if (!options.preserveScroll) window.scrollTo(0, 0);
+};
+
+// Goes back if the previous entry belongs to the app, otherwise navigates to the fallback.
+export const navigateBack = (fallbackPath: string) => {
+  if (window.history.state?.internal) {
+    window.history.back();
+  } else {
+    navigate(fallbackPath, { replace: true });
+  }
+};
+
+export const useRoute = (): RouteMatch => {
+  const [route, setRoute] = useState<RouteMatch>(() => matchRoute(window.location.pathname, window.location.search));
+
+  useEffect(() => {
+    const handleChange = () => setRoute(matchRoute(window.location.pathname, window.location.search));
+    window.addEventListener(ROUTE_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(ROUTE_CHANGE_EVENT, handleChange);
+  }, []);
+
+  return route;
+};
+
+// --- Guards ---
+
+// Only in-app paths are accepted as post-login destinations.
+export const getNextPath = (route: RouteMatch) => {
+  const next = route.query.get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : null;
+};
+
+// The sign-in page, returning to the current page (query included) afterwards.
+export const getLoginPath = (route: RouteMatch) => {
+  const search = route.query.toString();
+  return `${buildPath(View.LOGIN)}?next=${encodeURIComponent(search ? `${route.path}?${search}` : route.path)}`;
+};
+
+// Returns the path to redirect to, or null when the route may be rendered.
+export const resolveRouteGuard = (route: RouteMatch, user: User | null): string | null => {
+  if (!route.matched) return buildPath(View.HOME);
+
+  switch (route.access) {
+    case 'guest':
+      return user ? (getNextPath(route) || buildPath(View.HOME)) : null;
+    case 'authenticated':
+      return user ? null : getLoginPath(route);
+    case 'admin':
+    case 'teaching':
+    case 'finance':
+      if (!user) return getLoginPath(route);
+      return STAFF_ROLES[route.access].includes(user.role) ? null : buildPath(View.HOME);
+    default:
+      return null;
+  }
+};
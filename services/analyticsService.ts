@@ -0,0 +1,238 @@
+import { supabase } from '../supabaseClient';
+import { Course, EnrollmentStatus } from '../types';
+
+export interface DateRange {
+  from?: Date; // Open-ended when unset
+  to?: Date;
+}
+
+export interface AnalyticsEnrollment {
+  userId: string;
+  courseId: string;
+  status: EnrollmentStatus;
+  progress: number;
+  enrolledAt: string;
+  completedAt?: string; // When the completion was approved
+}
+
+export interface AnalyticsData {
+  enrollments: AnalyticsEnrollment[]; // Registered within the range
+  completions: AnalyticsEnrollment[]; // Approved within the range, whenever they registered
+  views: { courseId: string; visitorId: string; viewedAt: string }[];
+  signups: string[]; // Account creation times
+  payments: { courseId: string; amount: number; paidAt: string }[];
+}
+
+export type Interval = 'day' | 'week' | 'month';
+
+export interface SeriesPoint {
+  label: string;
+  start: Date;
+  enrollments: number;
+  completions: number;
+  signups: number;
+}
+
+export interface ProgramStats {
+  courseId: string;
+  title: string;
+  visitors: number;
+  enrollments: number;
+  completions: number;
+  completionRate: number; // Percent of the range's enrollments that are completed
+  medianDaysToComplete?: number;
+  paidOrders: number;
+  revenue: number;
+}
+
+export const PROGRESS_BANDS: { label: string; min: number; max: number }[] = [
+  { label: 'Not started', min: 0, max: 0 },
+  { label: '1-24%', min: 1, max: 24 },
+  { label: '25-49%', min: 25, max: 49 },
+  { label: '50-74%', min: 50, max: 74 },
+  { label: '75-99%', min: 75, max: 99 },
+  { label: 'All lessons done', min: 100, max: 100 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Tracking ---
+
+const VISITOR_KEY = 'analytics-visitor';
+
+const getVisitorId = () => {
+  let id = localStorage.getItem(VISITOR_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(VISITOR_KEY, id);
+  }
+  return id;
+};
+
+// Records a program detail page view. Failures are only logged: analytics must never get in the way of browsing.
+export const recordCourseView = async (courseId: string, userId?: string) => {
+  try {
+    const { error } = await supabase.from('course_views').insert({ course_id: courseId, user_id: userId || null, visitor_id: getVisitorId() });
+    if (error) console.error('Error recording course view:', error);
+  } catch (err) {
+    console.error('Error recording course view:', err);
+  }
+};
+
+// --- Queries ---
+
+const PAGE_SIZE = 1000; // PostgREST's default row cap
+
+// Reads every page of a query; the builder is called once per page with the row range to fetch.
+const fetchAllRows = async (build: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>) => {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const withinRange = (query: any, column: string, range: DateRange) => {
+  if (range.from) query = query.gte(column, range.from.toISOString());
+  if (range.to) query = query.lte(column, range.to.toISOString());
+  return query;
+};
+
+const mapEnrollment = (row: any): AnalyticsEnrollment => ({
+  userId: row.user_id,
+  courseId: row.course_id,
+  status: (row.status || 'registered') as EnrollmentStatus,
+  progress: Number(row.progress) || 0,
+  enrolledAt: row.created_at,
+  completedAt: row.status === 'completed' ? row.reviewed_at || undefined : undefined,
+});
+
+// Everything the dashboard needs for one date range. Admins only under RLS.
+export const fetchAnalyticsData = async (range: DateRange): Promise<AnalyticsData> => {
+  const enrollmentColumns = 'user_id, course_id, status, progress, created_at, reviewed_at';
+  const [enrollments, completions, views, signups, payments] = await Promise.all([
+    fetchAllRows((from, to) => withinRange(supabase.from('enrollments').select(enrollmentColumns), 'created_at', range).order('created_at').range(from, to)),
+    fetchAllRows((from, to) => withinRange(supabase.from('enrollments').select(enrollmentColumns).eq('status', 'completed'), 'reviewed_at', range).order('reviewed_at').range(from, to)),
+    fetchAllRows((from, to) => withinRange(supabase.from('course_views').select('course_id, visitor_id, created_at'), 'created_at', range).order('created_at').range(from, to)),
+    fetchAllRows((from, to) => withinRange(supabase.from('profiles').select('created_at'), 'created_at', range).order('created_at').range(from, to)),
+    fetchAllRows((from, to) => withinRange(supabase.from('orders').select('course_id, amount, paid_at').eq('status', 'paid'), 'paid_at', range).order('paid_at').range(from, to)),
+  ]);
+  return {
+    enrollments: enrollments.map(mapEnrollment),
+    completions: completions.map(mapEnrollment),
+    views: views.map((v: any) => ({ courseId: v.course_id, visitorId: v.visitor_id, viewedAt: v.created_at })),
+    signups: signups.map((p: any) => p.created_at),
+    payments: payments.map((o: any) => ({ courseId: o.course_id, amount: Number(o.amount) || 0, paidAt: o.paid_at })),
+  };
+};
+
+// --- Metrics ---
+
+// Narrows the data to one program; signups are platform-wide and stay as they are.
+export const filterByCourse = (data: AnalyticsData, courseId: string): AnalyticsData => !courseId ? data : {
+  ...data,
+  enrollments: data.enrollments.filter(e => e.courseId === courseId),
+  completions: data.completions.filter(e => e.courseId === courseId),
+  views: data.views.filter(v => v.courseId === courseId),
+  payments: data.payments.filter(p => p.courseId === courseId),
+};
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const daysToComplete = (enrollment: AnalyticsEnrollment) =>
+  enrollment.completedAt ? (new Date(enrollment.completedAt).getTime() - new Date(enrollment.enrolledAt).getTime()) / DAY_MS : undefined;
+
+// Days for short ranges, weeks up to half a year, months beyond.
+export const chooseInterval = (from: Date, to: Date): Interval => {
+  const days = (to.getTime() - from.getTime()) / DAY_MS;
+  return days <= 45 ? 'day' : days <= 200 ? 'week' : 'month';
+};
+
+const startOfBucket = (date: Date, interval: Interval) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), interval === 'month' ? 1 : date.getDate());
+  if (interval === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7)); // Weeks start on Monday
+  return start;
+};
+
+const nextBucket = (start: Date, interval: Interval) => {
+  const next = new Date(start);
+  if (interval === 'day') next.setDate(next.getDate() + 1);
+  else if (interval === 'week') next.setDate(next.getDate() + 7);
+  else next.setMonth(next.getMonth() + 1);
+  return next;
+};
+
+const bucketLabel = (start: Date, interval: Interval) =>
+  interval === 'month'
+    ? start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : start.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+// Zero-filled counts per day, week or month. An open-ended range starts at the earliest record.
+export const buildSeries = (data: AnalyticsData, range: DateRange): { interval: Interval; points: SeriesPoint[] } => {
+  const times = [
+    ...data.enrollments.map(e => e.enrolledAt),
+    ...data.completions.map(e => e.completedAt!),
+    ...data.signups,
+  ].map(t => new Date(t).getTime());
+  const to = range.to || new Date();
+  const from = range.from || (times.length ? new Date(times.reduce((min, t) => Math.min(min, t))) : to);
+  const interval = chooseInterval(from, to);
+
+  const points: SeriesPoint[] = [];
+  for (let start = startOfBucket(from, interval); start <= to; start = nextBucket(start, interval)) {
+    points.push({ label: bucketLabel(start, interval), start, enrollments: 0, completions: 0, signups: 0 });
+  }
+  const byStart = new Map(points.map(p => [p.start.getTime(), p]));
+  const add = (time: string, key: 'enrollments' | 'completions' | 'signups') => {
+    const point = byStart.get(startOfBucket(new Date(time), interval).getTime());
+    if (point) point[key] += 1;
+  };
+  data.enrollments.forEach(e => add(e.enrolledAt, 'enrollments'));
+  data.completions.forEach(e => add(e.completedAt!, 'completions'));
+  data.signups.forEach(t => add(t, 'signups'));
+  return { interval, points };
+};
+
+// Program detail visitors, then registrations and completions of the range's enrollments.
+export const buildFunnel = (data: AnalyticsData) => [
+  { label: 'Viewed program details', count: new Set(data.views.map(v => v.visitorId)).size },
+  { label: 'Registered', count: data.enrollments.length },
+  { label: 'Completed', count: data.enrollments.filter(e => e.status === 'completed').length },
+];
+
+// Where students who have not completed stopped, by lesson progress.
+export const buildProgressBands = (data: AnalyticsData) => {
+  const open = data.enrollments.filter(e => e.status !== 'completed');
+  return PROGRESS_BANDS.map(band => ({
+    ...band,
+    count: open.filter(e => Math.round(e.progress) >= band.min && Math.round(e.progress) <= band.max).length,
+  }));
+};
+
+export const summarizePrograms = (data: AnalyticsData, courses: Course[]): ProgramStats[] =>
+  courses
+    .map(course => {
+      const enrollments = data.enrollments.filter(e => e.courseId === course.id);
+      const completed = enrollments.filter(e => e.status === 'completed');
+      const payments = data.payments.filter(p => p.courseId === course.id);
+      const durations = data.completions.filter(e => e.courseId === course.id).map(daysToComplete).filter((d): d is number => d !== undefined);
+      return {
+        courseId: course.id,
+        title: course.title,
+        visitors: new Set(data.views.filter(v => v.courseId === course.id).map(v => v.visitorId)).size,
+        enrollments: enrollments.length,
+        completions: completed.length,
+        completionRate: enrollments.length ? (completed.length / enrollments.length) * 100 : 0,
+        medianDaysToComplete: median(durations),
+        paidOrders: payments.length,
+        revenue: payments.reduce((sum, p) => sum + p.amount, 0),
+      };
+    })
+    .sort((a, b) => b.enrollments - a.enrollments || b.revenue - a.revenue);
@@ -0,0 +1,182 @@
+import { supabase, uploadToStorage, deleteFromStorage, getSignedUrl } from '../supabaseClient';
+import { Assignment, AssignmentSubmission, RubricCriterion, SubmissionType } from '../types';
+
+export const SUBMISSION_TYPES: { id: SubmissionType; label: string }[] = [
+  { id: 'either', label: 'File or link' },
+  { id: 'file', label: 'File upload' },
+  { id: 'link', label: 'Link (e.g. GitHub, Google Drive)' },
+];
+
+export const MAX_SUBMISSION_MB = 25;
+
+// --- Scoring ---
+
+export const getRubricTotal = (rubric: RubricCriterion[]) => rubric.reduce((sum, c) => sum + c.maxPoints, 0);
+
+// Scores are clamped to each criterion's range; an empty rubric cannot be passed.
+export const scoreSubmission = (assignment: Pick<Assignment, 'rubric' | 'passPercent'>, scores: { [criterionId: string]: number }) => {
+  const total = getRubricTotal(assignment.rubric);
+  const score = assignment.rubric.reduce((sum, c) => sum + Math.min(c.maxPoints, Math.max(0, scores[c.id] || 0)), 0);
+  const percent = total > 0 ? Math.round((score / total) * 100) : 0;
+  return { score, total, percent, passed: total > 0 && percent >= assignment.passPercent };
+};
+
+// True when every assignment has a passing graded submission.
+export const hasPassedAllAssignments = (assignments: Assignment[], submissions: AssignmentSubmission[]) =>
+  assignments.every(a => submissions.some(s => s.assignmentId === a.id && s.passed));
+
+export const isOverdue = (assignment: Assignment, submission?: AssignmentSubmission) =>
+  !!assignment.dueAt && new Date(submission?.submittedAt || Date.now()) > new Date(assignment.dueAt);
+
+// --- Mapping ---
+
+const mapAssignment = (row: any): Assignment => ({
+  id: row.id,
+  courseId: row.course_id,
+  title: row.title,
+  instructions: row.instructions || '',
+  dueAt: row.due_at || undefined,
+  submissionType: (row.submission_type || 'either') as SubmissionType,
+  rubric: (row.rubric || []).map((c: any) => ({
+    id: c.id,
+    criterion: c.criterion,
+    description: c.description || undefined,
+    maxPoints: Number(c.maxPoints) || 0,
+  })),
+  passPercent: Number(row.pass_percent) || 0,
+  position: row.position,
+});
+
+const mapSubmission = (row: any): AssignmentSubmission => ({
+  id: row.id,
+  assignmentId: row.assignment_id,
+  userId: row.user_id,
+  studentName: row.profiles?.name || undefined,
+  courseId: row.course_id,
+  filePath: row.file_path || undefined,
+  fileName: row.file_name || undefined,
+  linkUrl: row.link_url || undefined,
+  note: row.note || undefined,
+  submittedAt: row.submitted_at,
+  rubricScores: row.rubric_scores || {},
+  score: row.score ?? undefined,
+  passed: row.passed ?? undefined,
+  feedback: row.feedback || undefined,
+  gradedAt: row.graded_at || undefined,
+});
+
+// --- Queries ---
+
+export const fetchAssignments = async (courseId: string): Promise<Assignment[]> => {
+  const { data, error } = await supabase
+    .from('assignments')
+    .select('*')
+    .eq('course_id', courseId)
+    .order('position', { ascending: true });
+  if (error) {
+    console.error('Error fetching assignments:', error);
+    return [];
+  }
+  return (data || []).map(mapAssignment);
+};
+
+// The signed-in student's submissions for a course (RLS limits students to their own).
+export const fetchMySubmissions = async (userId: string, courseId: string): Promise<AssignmentSubmission[]> => {
+  const { data, error } = await supabase
+    .from('assignment_submissions')
+    .select('*')
+    .match({ user_id: userId, course_id: courseId });
+  if (error) {
+    console.error('Error fetching submissions:', error);
+    return [];
+  }
+  return (data || []).map(mapSubmission);
+};
+
+export const getSubmissionFileUrl = (submission: AssignmentSubmission) => getSignedUrl(submission.filePath);
+
+// Uploads the file (if any) and records the submission; resubmitting replaces the previous one.
+export const submitAssignment = async (
+  assignment: Assignment,
+  input: { file?: File; linkUrl?: string; note?: string },
+  previous?: AssignmentSubmission
+) => {
+  if (input.file && input.file.size > MAX_SUBMISSION_MB * 1024 * 1024) {
+    throw new Error(`Files must be smaller than ${MAX_SUBMISSION_MB} MB.`);
+  }
+  const filePath = input.file ? await uploadToStorage(input.file, 'submissions', assignment.id) : previous?.filePath;
+  const { data, error } = await supabase.rpc('submit_assignment', {
+    target_assignment: assignment.id,
+    submitted_file_path: filePath || null,
+    submitted_file_name: input.file ? input.file.name : (filePath ? previous?.fileName || null : null),
+    submitted_link: input.linkUrl?.trim() || null,
+    submitted_note: input.note?.trim() || null,
+  });
+  if (error) {
+    if (input.file && filePath) await deleteFromStorage(filePath);
+    throw error;
+  }
+  if (input.file && previous?.filePath && previous.filePath !== filePath) await deleteFromStorage(previous.filePath);
+  return mapSubmission(data);
+};
+
+// --- Admin ---
+
+export const saveAssignment = async (assignment: Assignment): Promise<Assignment> => {
+  const row = {
+    course_id: assignment.courseId,
+    title: assignment.title.trim(),
+    instructions: assignment.instructions,
+    due_at: assignment.dueAt || null,
+    submission_type: assignment.submissionType,
+    rubric: assignment.rubric,
+    pass_percent: assignment.passPercent,
+    position: assignment.position,
+  };
+  const { data, error } = assignment.id
+    ? await supabase.from('assignments').update(row).eq('id', assignment.id).select().single()
+    : await supabase.from('assignments').insert(row).select().single();
+  if (error) throw error;
+  return mapAssignment(data);
+};
+
+// Submissions are removed with the assignment (on delete cascade).
+export const deleteAssignment = async (id: string) => {
+  const { error } = await supabase.from('assignments').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const fetchSubmissions = async (assignmentId: string): Promise<AssignmentSubmission[]> => {
+  const { data, error } = await supabase
+    .from('assignment_submissions')
+    .select('*, profiles!assignment_submissions_user_id_fkey(name)')
+    .eq('assignment_id', assignmentId)
+    .order('submitted_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching submissions:', error);
+    return [];
+  }
+  return (data || []).map(mapSubmission);
+};
+
+export const gradeSubmission = async (
+  assignment: Assignment,
+  submission: AssignmentSubmission,
+  rubricScores: { [criterionId: string]: number },
+  feedback: string
+) => {
+  const { score, passed } = scoreSubmission(assignment, rubricScores);
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('assignment_submissions')
+    .update({
+      rubric_scores: rubricScores,
+      score,
+      passed,
+      feedback: feedback.trim() || null,
+      graded_by: user?.id,
+      graded_at: new Date().toISOString(),
+    })
+    .eq('id', submission.id);
+  if (error) throw error;
+};
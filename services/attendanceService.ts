@@ -0,0 +1,151 @@
+import { supabase } from '../supabaseClient';
+import { AttendanceRecord, AttendanceStatus, Course, LiveSession } from '../types';
+import { CsvCell, downloadCsv, parseCsv } from './csv';
+import { formatSessionTime } from './liveSessionService';
+
+export const ATTENDANCE_STATUSES: { id: AttendanceStatus; label: string; className: string }[] = [
+  { id: 'present', label: 'Present', className: 'bg-green-100 text-green-800 border-green-300' },
+  { id: 'late', label: 'Late', className: 'bg-amber-100 text-amber-800 border-amber-300' },
+  { id: 'absent', label: 'Absent', className: 'bg-red-100 text-red-800 border-red-300' },
+  { id: 'excused', label: 'Excused', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+];
+
+// Participants who join more than this long after the start are marked late on import.
+export const LATE_AFTER_MINUTES = 10;
+
+export interface RosterEntry {
+  userId: string;
+  name: string;
+  email: string;
+  record?: AttendanceRecord;
+}
+
+export interface AttendanceMark {
+  userId: string;
+  status: AttendanceStatus | null; // null clears the record
+  note?: string;
+}
+
+// --- Mapping ---
+
+const mapRecord = (row: any): AttendanceRecord => ({
+  id: row.id,
+  sessionId: row.session_id,
+  userId: row.user_id,
+  status: row.status,
+  note: row.note || undefined,
+  markedAt: row.marked_at,
+});
+
+// --- Queries ---
+
+// Students expected at the session (the program's, or its cohort's) with their records, by name.
+export const fetchSessionRoster = async (session: LiveSession): Promise<RosterEntry[]> => {
+  let enrollmentQuery = supabase.from('enrollments').select('user_id, profiles!enrollments_user_id_fkey(name, email)').eq('course_id', session.courseId);
+  if (session.cohortId) enrollmentQuery = enrollmentQuery.eq('cohort_id', session.cohortId);
+  const [enrollmentsRes, recordsRes] = await Promise.all([
+    enrollmentQuery,
+    supabase.from('session_attendance').select('*').eq('session_id', session.id),
+  ]);
+  if (enrollmentsRes.error || recordsRes.error) {
+    console.error('Error fetching roster:', enrollmentsRes.error || recordsRes.error);
+    return [];
+  }
+  const records = (recordsRes.data || []).map(mapRecord);
+  return (enrollmentsRes.data || [])
+    .map((row: any) => ({
+      userId: row.user_id,
+      name: row.profiles?.name || 'Student',
+      email: row.profiles?.email || '',
+      record: records.find(r => r.userId === row.user_id),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// --- Marking ---
+
+export const saveAttendance = async (sessionId: string, marks: AttendanceMark[]) => {
+  const toSave = marks.filter(m => m.status);
+  const toClear = marks.filter(m => !m.status).map(m => m.userId);
+  if (toSave.length > 0) {
+    const { error } = await supabase.from('session_attendance').upsert(
+      toSave.map(m => ({ session_id: sessionId, user_id: m.userId, status: m.status, note: m.note || null })),
+      { onConflict: 'session_id,user_id' }
+    );
+    if (error) throw error;
+  }
+  if (toClear.length > 0) {
+    const { error } = await supabase.from('session_attendance').delete().eq('session_id', sessionId).in('user_id', toClear);
+    if (error) throw error;
+  }
+};
+
+// --- Meeting tool import ---
+
+export interface MeetingImport {
+  statuses: { [userId: string]: AttendanceStatus }; // Every roster student: present, late or absent
+  unmatched: string[]; // Participants who are not on the roster, e.g. guests or a different email
+}
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Reads a participant report (Zoom, Google Meet, Teams and similar tools export one) and matches it to the
+// roster by email, falling back to the display name. The header row is found by its column names, since some
+// tools put meeting details above it. Rejoins are merged on the earliest join time.
+export const importMeetingReport = (csvText: string, roster: RosterEntry[], session: LiveSession): MeetingImport => {
+  const rows = parseCsv(csvText).filter(row => row.some(cell => cell.trim()));
+  const isHeader = (pattern: RegExp) => (row: string[]) => row.some(cell => pattern.test(cell));
+  // Prefer a name column: Zoom's meeting summary above the participants has only the host's email
+  const nameHeader = rows.findIndex(isHeader(/name/i));
+  const headerIndex = nameHeader >= 0 ? nameHeader : rows.findIndex(isHeader(/e-?mail/i));
+  if (headerIndex < 0) throw new Error('The file has no participant name or email column.');
+
+  const header = rows[headerIndex];
+  const column = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const emailCol = column(/e-?mail/i);
+  const nameCol = column(/name/i);
+  const joinCol = column(/join|first seen|arriv/i);
+
+  const lateAfter = new Date(session.startsAt).getTime() + LATE_AFTER_MINUTES * 60_000;
+  const joinedAt: { [userId: string]: number } = {};
+  const unmatched: string[] = [];
+
+  rows.slice(headerIndex + 1).forEach(row => {
+    const email = emailCol >= 0 ? normalize(row[emailCol] || '') : '';
+    // Zoom appends the original name in parentheses
+    const name = nameCol >= 0 ? normalize((row[nameCol] || '').replace(/\s*\(.*\)\s*$/, '')) : '';
+    const student = roster.find(r => email && normalize(r.email) === email) || roster.find(r => name && normalize(r.name) === name);
+    if (!student) {
+      const label = (nameCol >= 0 && row[nameCol]) || (emailCol >= 0 && row[emailCol]) || '';
+      if (label && !unmatched.includes(label)) unmatched.push(label);
+      return;
+    }
+    const joined = joinCol >= 0 ? Date.parse(row[joinCol] || '') : NaN;
+    const time = Number.isNaN(joined) ? 0 : joined; // Unknown join times count as on time
+    joinedAt[student.userId] = student.userId in joinedAt ? Math.min(joinedAt[student.userId], time) : time;
+  });
+
+  const statuses: MeetingImport['statuses'] = {};
+  roster.forEach(r => {
+    statuses[r.userId] = !(r.userId in joinedAt) ? 'absent' : joinedAt[r.userId] > lateAfter ? 'late' : 'present';
+  });
+  return { statuses, unmatched };
+};
+
+// --- Reports ---
+
+export const exportAttendanceCsv = (session: LiveSession, course: Course | undefined, roster: RosterEntry[]) => {
+  const rows: CsvCell[][] = [
+    ['Program', 'Session', 'Starts', 'Student', 'Email', 'Status', 'Note'],
+    ...roster.map(r => [
+      course?.title || session.courseId,
+      session.title,
+      formatSessionTime(session, session.timeZone),
+      r.name,
+      r.email,
+      r.record ? r.record.status : 'not marked',
+      r.record?.note,
+    ]),
+  ];
+  downloadCsv(`attendance-${session.startsAt.slice(0, 10)}-${session.id.slice(0, 8)}.csv`, rows);
+};
@@ -0,0 +1,89 @@
+import { supabase } from '../supabaseClient';
+import { AuditEntry, AuditFilters } from '../types';
+
+// Target types written by the audit triggers and the manage-user function.
+export const AUDIT_TARGETS: { id: string; label: string }[] = [
+  { id: 'user', label: 'Users' },
+  { id: 'enrollment', label: 'Completion reviews' },
+  { id: 'course', label: 'Training programs' },
+  { id: 'course_module', label: 'Curriculum modules' },
+  { id: 'course_lesson', label: 'Curriculum lessons' },
+  { id: 'site_setting', label: 'Site settings' },
+  { id: 'video', label: 'Videos' },
+  { id: 'coupon', label: 'Coupons' },
+  { id: 'certificate', label: 'Certificates' },
+  { id: 'certificate_template', label: 'Certificate templates' },
+  { id: 'signatory', label: 'Signatories' },
+  { id: 'course_signatory', label: 'Program signatories' },
+  { id: 'cohort', label: 'Cohorts' },
+  { id: 'live_session', label: 'Live sessions' },
+  { id: 'course_prerequisite', label: 'Prerequisites' },
+  { id: 'learning_path', label: 'Learning paths' },
+  { id: 'learning_path_course', label: 'Learning path programs' },
+  { id: 'email_template', label: 'Email templates' },
+  { id: 'assignment', label: 'Assignments' },
+  { id: 'assignment_submission', label: 'Grading' },
+  { id: 'quiz', label: 'Quizzes' },
+  { id: 'quiz_question', label: 'Quiz questions' },
+  { id: 'quiz_attempt', label: 'Quiz attempts' },
+  { id: 'session_attendance', label: 'Attendance' },
+  { id: 'course_rating', label: 'Ratings' },
+  { id: 'discussion_thread', label: 'Discussions' },
+  { id: 'discussion_post', label: 'Discussion replies' },
+];
+
+export interface AuditChange {
+  field: string;
+  before?: any;
+  after?: any;
+}
+
+// --- Helpers ---
+
+// Field-by-field view of an entry; inserts have only "after" values and deletes only "before".
+export const getAuditChanges = (entry: AuditEntry): AuditChange[] => {
+  const fields = new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]);
+  return [...fields].sort().map(field => ({ field, before: entry.before?.[field], after: entry.after?.[field] }));
+};
+
+export const formatAuditValue = (value: any) =>
+  value === undefined || value === null ? '—' : typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+
+// --- Mapping ---
+
+const mapAuditEntry = (row: any): AuditEntry => ({
+  id: String(row.id),
+  actorId: row.actor_id || undefined,
+  actorName: row.profiles?.name || undefined,
+  action: row.action,
+  targetType: row.target_type,
+  targetId: row.target_id || undefined,
+  summary: row.summary,
+  before: row.before || undefined,
+  after: row.after || undefined,
+  details: row.details || {},
+  createdAt: row.created_at,
+});
+
+// --- Queries ---
+
+// Newest first. Entries are written by edge functions and database triggers only (admins can read them).
+export const fetchAuditLog = async (filters: AuditFilters = {}, limit: number = 200): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*, profiles(name)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (filters.targetType) query = query.eq('target_type', filters.targetType);
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.userId) query = query.or(`and(target_type.eq.user,target_id.eq.${filters.userId}),details->>userId.eq.${filters.userId}`);
+  if (filters.search?.trim()) query = query.ilike('summary', `%${filters.search.trim()}%`);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching audit log:', error);
+    return [];
+  }
+  return (data || []).map(mapAuditEntry);
+};
@@ -0,0 +1,176 @@
+import { supabase } from '../supabaseClient';
+import { Course, CourseLevel } from '../types';
+
+export type CatalogSort = 'relevance' | 'newest' | 'popular' | 'rating' | 'price_asc' | 'price_desc';
+
+export type DurationBand = 'short' | 'medium' | 'long';
+
+export interface CatalogFilters {
+  query: string;
+  levels: CourseLevel[];
+  tags: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  durations: DurationBand[];
+  sort: CatalogSort;
+}
+
+export const SORT_OPTIONS: { id: CatalogSort; label: string }[] = [
+  { id: 'relevance', label: 'Best match' },
+  { id: 'newest', label: 'Newest' },
+  { id: 'popular', label: 'Most popular' },
+  { id: 'rating', label: 'Highest rated' },
+  { id: 'price_asc', label: 'Price: low to high' },
+  { id: 'price_desc', label: 'Price: high to low' },
+];
+
+// Bounds follow the labels: 4 weeks is medium, 12 weeks is still medium.
+export const DURATION_BANDS: { id: DurationBand; label: string; contains: (weeks: number) => boolean }[] = [
+  { id: 'short', label: 'Under 4 weeks', contains: weeks => weeks < 4 },
+  { id: 'medium', label: '4 to 12 weeks', contains: weeks => weeks >= 4 && weeks <= 12 },
+  { id: 'long', label: 'Over 12 weeks', contains: weeks => weeks > 12 },
+];
+
+export const EMPTY_CATALOG_FILTERS: CatalogFilters = { query: '', levels: [], tags: [], durations: [], sort: 'relevance' };
+
+// --- Queries ---
+
+// Registrations per course, keyed by course id. Readable by visitors through a counting RPC.
+export const fetchEnrollmentCounts = async () => {
+  const { data, error } = await supabase.rpc('course_enrollment_counts');
+  const byCourse: { [courseId: string]: number } = {};
+  if (error) {
+    console.error('Error fetching enrollment counts:', error);
+    return byCourse;
+  }
+  data?.forEach((row: any) => {
+    byCourse[row.course_id] = Number(row.enrollments) || 0;
+  });
+  return byCourse;
+};
+
+// --- URL State ---
+// e.g. /courses?q=python&level=Beginner,Intermediate&tag=SQL&min=0&max=500&duration=short&sort=price_asc
+
+const splitList = (value: string | null) => (value ? value.split(',').map(v => v.trim()).filter(Boolean) : []);
+
+const parsePrice = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+export const parseCatalogFilters = (query: URLSearchParams): CatalogFilters => {
+  const levels = Object.values(CourseLevel) as string[];
+  const sort = query.get('sort') as CatalogSort;
+  return {
+    query: query.get('q') || '',
+    levels: splitList(query.get('level')).filter(l => levels.includes(l)) as CourseLevel[],
+    tags: splitList(query.get('tag')),
+    minPrice: parsePrice(query.get('min')),
+    maxPrice: parsePrice(query.get('max')),
+    durations: splitList(query.get('duration')).filter(d => DURATION_BANDS.some(b => b.id === d)) as DurationBand[],
+    sort: SORT_OPTIONS.some(o => o.id === sort) ? sort : 'relevance',
+  };
+};
+
+// Returns the query string (with its "?"), or an empty string when nothing is set.
+export const serializeCatalogFilters = (filters: CatalogFilters) => {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query);
+  if (filters.levels.length) params.set('level', filters.levels.join(','));
+  if (filters.tags.length) params.set('tag', filters.tags.join(','));
+  if (filters.minPrice !== undefined) params.set('min', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set('max', String(filters.maxPrice));
+  if (filters.durations.length) params.set('duration', filters.durations.join(','));
+  if (filters.sort !== 'relevance') params.set('sort', filters.sort);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// --- Helpers ---
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Durations are free text ("8 weeks", "3 months", "40 hours"); unrecognised ones return undefined.
+// Hours are read as study hours at a full-time 40 a week.
+export const parseDurationWeeks = (duration: string): number | undefined => {
+  const match = duration.match(/(\d+(?:\.\d+)?)\s*(hour|hr|day|week|wk|month|mo|year|yr)/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  switch (match[2].toLowerCase()) {
+    case 'hour':
+    case 'hr': return amount / 40;
+    case 'day': return amount / 7;
+    case 'week':
+    case 'wk': return amount;
+    case 'month':
+    case 'mo': return amount * 4.35;
+    default: return amount * 52;
+  }
+};
+
+export const getDurationBand = (duration: string): DurationBand | undefined => {
+  const weeks = parseDurationWeeks(duration);
+  return weeks === undefined ? undefined : DURATION_BANDS.find(b => b.contains(weeks))?.id;
+};
+
+// Every tag in the catalog with how many programs use it, most used first.
+export const collectTags = (courses: Course[]) => {
+  const counts = new Map<string, number>();
+  courses.forEach(c => c.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()].map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Every search term must appear somewhere; title matches weigh most, then tags, instructor and description.
+export const searchScore = (course: Course, query: string) => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return 1;
+  const fields: [string, number][] = [
+    [normalize(course.title), 5],
+    [normalize(course.tags.join(' ')), 3],
+    [normalize(course.instructor || ''), 2],
+    [normalize(stripHtml(course.description || '')), 1],
+  ];
+  let score = 0;
+  for (const term of terms) {
+    const termScore = fields.reduce((sum, [text, weight]) => sum + (text.includes(term) ? weight : 0), 0);
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+};
+
+export const countActiveFilters = (filters: CatalogFilters) =>
+  filters.levels.length + filters.tags.length + filters.durations.length +
+  (filters.minPrice !== undefined || filters.maxPrice !== undefined ? 1 : 0);
+
+// Applies search, facets and sort. Tags match any selected tag; other facets narrow the results.
+export const applyCatalogFilters = (courses: Course[], filters: CatalogFilters): Course[] => {
+  const selectedTags = filters.tags.map(t => t.toLowerCase());
+  const scored = courses
+    .map(course => ({ course, score: searchScore(course, filters.query) }))
+    .filter(({ course, score }) =>
+      score > 0 &&
+      (!filters.levels.length || filters.levels.includes(course.level)) &&
+      (!selectedTags.length || course.tags.some(t => selectedTags.includes(t.toLowerCase()))) &&
+      (filters.minPrice === undefined || (course.price || 0) >= filters.minPrice) &&
+      (filters.maxPrice === undefined || (course.price || 0) <= filters.maxPrice) &&
+      (!filters.durations.length || filters.durations.includes(getDurationBand(course.duration)!))
+    );
+
+  const newest = (a: Course, b: Course) => (b.createdAt || '').localeCompare(a.createdAt || '');
+  const compare: { [sort in CatalogSort]: (a: { course: Course; score: number }, b: { course: Course; score: number }) => number } = {
+    relevance: (a, b) => b.score - a.score || newest(a.course, b.course),
+    newest: (a, b) => newest(a.course, b.course),
+    popular: (a, b) => (b.course.enrollmentCount || 0) - (a.course.enrollmentCount || 0) || newest(a.course, b.course),
+    // Unrated programs go last; ties go to the program with more ratings
+    rating: (a, b) => (b.course.averageRating || 0) - (a.course.averageRating || 0) || (b.course.ratingCount || 0) - (a.course.ratingCount || 0) || newest(a.course, b.course),
+    price_asc: (a, b) => (a.course.price || 0) - (b.course.price || 0),
+    price_desc: (a, b) => (b.course.price || 0) - (a.course.price || 0),
+  };
+  // Without a search every score is equal, so "best match" falls back to newest first
+  return scored.sort(compare[filters.sort]).map(s => s.course);
+};
@@ -0,0 +1,448 @@
+// ------------------------------------------------------------------
+// CERTIFICATE RENDERER
+// ------------------------------------------------------------------
+// Certificate templates are plain data: a background colour plus positioned
+// items (text with {placeholders}, shapes, logos, images, the signatories and
+// the verification QR code) measured in PDF points. One definition drives every
+// output: vector PDF (browser or the render-certificates edge function) and SVG
+// (on-screen preview, PNG export and the template designer). Nothing here
+// reads the DOM, the clock or the locale, so the same input always produces the
+// same bytes.
+
+import { createPdfDocument, measureText, PdfColor, PdfFont, PdfAlign, PdfImage } from './pdfDocument.ts';
+import { encodeQrCode } from './qrCode.ts';
+
+// A4 landscape, in points
+export const CERTIFICATE_PAGE = { width: 842, height: 595 };
+
+export interface CertificateRenderData {
+  serial: string;
+  recipientName: string;
+  courseTitle: string;
+  instructor: string;
+  issuedAt: string;
+  verificationUrl: string;
+  signatories: CertificateSignatory[]; // Left to right
+}
+
+export interface CertificateSignatory {
+  name: string;
+  title: string;
+}
+
+// Programs without signatories are signed by their instructor.
+export const resolveSignatories = (signatories: CertificateSignatory[], instructor: string): CertificateSignatory[] =>
+  signatories.length > 0 ? signatories : [{ name: instructor, title: 'Lead Instructor' }];
+
+// --- Template Model ---
+
+interface TemplateBox {
+  id: string;
+  x: number; // Top-left corner and size, in points
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type CertificateTemplateItem =
+  | (TemplateBox & { type: 'text'; text: string; font: PdfFont; size: number; color: PdfColor; align: PdfAlign }) // Wraps to as many lines as the box fits
+  | (TemplateBox & { type: 'rect'; fill?: PdfColor; stroke?: PdfColor; lineWidth?: number })
+  | (TemplateBox & { type: 'line'; stroke: PdfColor; lineWidth: number }) // From (x, y) to (x + w, y + h)
+  | (TemplateBox & { type: 'logo'; variant: 'full' | 'mark'; color: PdfColor; accent: PdfColor })
+  | (TemplateBox & { type: 'image'; path: string }) // Storage path of an uploaded PNG
+  | (TemplateBox & { type: 'signatories'; align: PdfAlign; lineColor: PdfColor; labelColor: PdfColor }) // Signature, line, name and title per signatory, side by side
+  | (TemplateBox & { type: 'signature'; index?: number }) // One signatory's signature (the first by default); their name when there is none
+  | (TemplateBox & { type: 'qr' }); // Links to the verification page
+
+export type CertificateTemplateItemType = CertificateTemplateItem['type'];
+
+export interface CertificateTemplateDefinition {
+  background: PdfColor;
+  items: CertificateTemplateItem[]; // Drawn in order, so later items sit on top
+}
+
+export interface CertificateTemplate {
+  id: string;
+  name: string;
+  definition: CertificateTemplateDefinition;
+  builtIn?: boolean;
+  updatedAt?: string;
+}
+
+// Placeholders usable in text items, e.g. "Issued {issuedAt}".
+export const TEMPLATE_FIELDS: { key: Exclude<keyof CertificateRenderData, 'verificationUrl' | 'signatories'>; label: string }[] = [
+  { key: 'recipientName', label: 'Student name' },
+  { key: 'courseTitle', label: 'Course title' },
+  { key: 'issuedAt', label: 'Issue date' },
+  { key: 'serial', label: 'Certificate ID' },
+  { key: 'instructor', label: 'Instructor name' },
+];
+
+// Image key for a signatory's signature; uploaded template images are keyed by storage path.
+export const signatureImageKey = (index: number) => `signature-${index}`;
+
+export const getTemplateImagePaths = (definition: CertificateTemplateDefinition) =>
+  Array.from(new Set(definition.items.flatMap(item => (item.type === 'image' ? [item.path] : []))));
+
+// --- Palette ---
+
+const NAVY: PdfColor = [30, 27, 75];
+const GOLD: PdfColor = [180, 83, 9];
+const AMBER: PdfColor = [217, 119, 6];
+const PALE_GOLD: PdfColor = [252, 211, 77];
+const INK: PdfColor = [17, 24, 39];
+const MUTED: PdfColor = [107, 114, 128];
+const CREAM: PdfColor = [253, 251, 245];
+const IVORY: PdfColor = [255, 253, 248];
+const SLATE: PdfColor = [15, 23, 42];
+const WHITE: PdfColor = [255, 255, 255];
+const LAVENDER: PdfColor = [199, 210, 254];
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Formatted in UTC so the date does not shift with the viewer's time zone.
+export const formatCertificateDate = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+};
+
+const fillPlaceholders = (text: string, data: CertificateRenderData) =>
+  text.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (key === 'issuedAt') return formatCertificateDate(data.issuedAt);
+    const field = TEMPLATE_FIELDS.find(f => f.key === key);
+    return field ? data[field.key] : match;
+  });
+
+// --- Built-in Templates ---
+
+const { width: W, height: H } = CERTIFICATE_PAGE;
+const LINE_HEIGHT = 1.25; // Multiple of the font size
+const BASELINE = 0.8; // First baseline, as a multiple of the font size below the box top
+
+type NewItem = CertificateTemplateItem extends infer T ? (T extends CertificateTemplateItem ? Omit<T, 'id'> : never) : never;
+
+const withIds = (items: NewItem[]): CertificateTemplateItem[] =>
+  items.map((item, i) => ({ ...item, id: `item-${i + 1}` }) as CertificateTemplateItem);
+
+// Text box whose first baseline sits at `baseline`, tall enough for `lines` lines.
+const textAt = (text: string, x: number, baseline: number, w: number, size: number, font: PdfFont, color: PdfColor, align: PdfAlign = 'left', lines = 1): NewItem =>
+  ({ type: 'text', text, x, y: baseline - size * BASELINE, w, h: size * LINE_HEIGHT * lines, size, font, color, align });
+
+// QR code plus the serial and issue date, anchored at the QR code's top-left or top-right corner.
+const verificationItems = (x: number, y: number, align: 'left' | 'right', labelColor: PdfColor): NewItem[] => {
+  const size = 76;
+  const textX = align === 'left' ? x + size + 12 : x - size - 212;
+  return [
+    { type: 'qr', x: align === 'left' ? x : x - size, y, w: size, h: size },
+    textAt('CERTIFICATE ID', textX, y + 18, 200, 7, 'helvetica-bold', labelColor, align),
+    textAt('{serial}', textX, y + 33, 200, 11, 'helvetica-bold', INK, align),
+    textAt('Issued {issuedAt}', textX, y + 48, 200, 8, 'helvetica', MUTED, align),
+    textAt('Scan to verify', textX, y + 61, 200, 8, 'helvetica', MUTED, align),
+  ];
+};
+
+const signatoriesAt = (x: number, y: number, w: number, align: PdfAlign, lineColor: PdfColor, labelColor: PdfColor): NewItem =>
+  ({ type: 'signatories', x, y, w, h: 92, align, lineColor, labelColor });
+
+export const DEFAULT_TEMPLATE_ID = 'classic';
+
+export const BUILT_IN_TEMPLATES: CertificateTemplate[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    builtIn: true,
+    definition: {
+      background: CREAM,
+      items: withIds([
+        { type: 'rect', x: 18, y: 18, w: W - 36, h: H - 36, stroke: GOLD, lineWidth: 3 },
+        { type: 'rect', x: 25, y: 25, w: W - 50, h: H - 50, stroke: GOLD, lineWidth: 0.75 },
+        { type: 'rect', x: 31, y: 31, w: W - 62, h: H - 62, stroke: PALE_GOLD, lineWidth: 0.5 },
+        { type: 'logo', variant: 'full', x: W / 2 - 100, y: 58, w: 200, h: 44, color: NAVY, accent: GOLD },
+        textAt('CERTIFICATE OF COMPLETION', 60, 152, W - 120, 30, 'times-bold', NAVY, 'center'),
+        textAt('This is to certify that', 60, 188, W - 120, 14, 'times-italic', MUTED, 'center'),
+        textAt('{recipientName}', 141, 240, 560, 42, 'times-italic', NAVY, 'center'),
+        { type: 'line', x: W / 2 - 190, y: 254, w: 380, h: 0, stroke: AMBER, lineWidth: 0.75 },
+        textAt('has successfully completed the training program', 60, 282, W - 120, 14, 'times-italic', MUTED, 'center'),
+        textAt('{courseTitle}', 121, 316, 600, 22, 'times-bold', INK, 'center', 2),
+        ...verificationItems(62, 440, 'left', GOLD),
+        signatoriesAt(360, 430, W - 420, 'right', GOLD, GOLD),
+      ]),
+    },
+  },
+  {
+    id: 'modern',
+    name: 'Modern',
+    builtIn: true,
+    definition: {
+      background: WHITE,
+      items: withIds([
+        { type: 'rect', x: 0, y: 0, w: 220, h: H, fill: NAVY },
+        { type: 'rect', x: 220, y: 0, w: 6, h: H, fill: AMBER },
+        { type: 'logo', variant: 'mark', x: 36, y: 40, w: 24, h: 27, color: PALE_GOLD, accent: PALE_GOLD },
+        textAt('DEEPMETRICS', 36, 84, 170, 11, 'helvetica-bold', PALE_GOLD),
+        textAt('ANALYTICS INSTITUTE', 36, 97, 170, 7, 'helvetica', LAVENDER),
+        textAt('Certificate', 36, 280, 180, 32, 'helvetica-bold', WHITE),
+        textAt('of Completion', 36, 304, 180, 14, 'helvetica', LAVENDER),
+        textAt('{issuedAt}', 36, H - 40, 170, 10, 'helvetica', LAVENDER),
+        textAt('AWARDED TO', 270, 150, 520, 10, 'helvetica-bold', MUTED),
+        textAt('{recipientName}', 270, 196, 520, 38, 'helvetica-bold', INK),
+        { type: 'rect', x: 270, y: 214, w: 56, h: 4, fill: AMBER },
+        textAt('for successfully completing', 270, 256, 520, 13, 'helvetica', MUTED),
+        textAt('{courseTitle}', 270, 288, 520, 22, 'helvetica-bold', NAVY, 'left', 2),
+        signatoriesAt(262, 430, 240, 'left', NAVY, MUTED),
+        ...verificationItems(W - 50, 440, 'right', NAVY),
+      ]),
+    },
+  },
+  {
+    id: 'elegant',
+    name: 'Elegant',
+    builtIn: true,
+    definition: {
+      background: SLATE,
+      items: withIds([
+        { type: 'rect', x: 18, y: 18, w: W - 36, h: H - 36, fill: IVORY, stroke: PALE_GOLD, lineWidth: 1 },
+        { type: 'rect', x: 28, y: 28, w: W - 56, h: H - 56, stroke: PALE_GOLD, lineWidth: 0.5 },
+        { type: 'logo', variant: 'full', x: W / 2 - 100, y: 56, w: 200, h: 44, color: INK, accent: GOLD },
+        textAt('CERTIFICATE', 60, 142, W - 120, 16, 'helvetica-bold', GOLD, 'center'),
+        textAt('of Achievement', 60, 168, W - 120, 20, 'times-italic', MUTED, 'center'),
+        textAt('PROUDLY PRESENTED TO', 60, 206, W - 120, 9, 'helvetica', MUTED, 'center'),
+        textAt('{recipientName}', 121, 258, 600, 48, 'times-italic', INK, 'center'),
+        textAt('in recognition of the successful completion of', 60, 296, W - 120, 13, 'times', MUTED, 'center'),
+        textAt('{courseTitle}', 121, 326, 600, 20, 'times-bold', INK, 'center', 2),
+        textAt('at Deepmetrics Analytics Institute', 60, 382, W - 120, 13, 'times', MUTED, 'center'),
+        ...verificationItems(62, 440, 'left', GOLD),
+        signatoriesAt(360, 430, W - 420, 'right', AMBER, GOLD),
+      ]),
+    },
+  },
+];
+
+// Falls back to the default template when the id is unknown (e.g. a deleted custom template).
+export const findTemplate = (id: string | undefined, customTemplates: CertificateTemplate[] = []): CertificateTemplate =>
+  BUILT_IN_TEMPLATES.find(t => t.id === id)
+  || customTemplates.find(t => t.id === id)
+  || BUILT_IN_TEMPLATES.find(t => t.id === DEFAULT_TEMPLATE_ID)!;
+
+// --- Layout ---
+// Templates resolve to drawing primitives shared by the PDF and SVG writers.
+
+type CertificateElement =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; fill?: PdfColor; stroke?: PdfColor; lineWidth?: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: PdfColor; lineWidth: number }
+  | { kind: 'text'; text: string; x: number; y: number; size: number; font: PdfFont; color: PdfColor; align: PdfAlign }
+  | { kind: 'image'; key: string; x: number; y: number; w: number; h: number; fallback?: CertificateElement };
+
+// Shrinks the font until the text fits on one line.
+const fitSize = (value: string, font: PdfFont, size: number, maxWidth: number) => {
+  const width = measureText(value, size, font);
+  return width > maxWidth ? Math.floor((size * maxWidth) / width) : size;
+};
+
+// Greedy word wrap; anything past maxLines is joined onto the last line and shrunk to fit.
+const wrapText = (value: string, font: PdfFont, size: number, maxWidth: number, maxLines: number) => {
+  const lines: string[] = [];
+  value.split(/\s+/).filter(Boolean).forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && (lines.length === maxLines || measureText(`${last} ${word}`, size, font) <= maxWidth)) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  });
+  return lines.map(line => ({ line, size: fitSize(line, font, size, maxWidth) }));
+};
+
+// Bar-chart mark from the institute logo as [x, y, height]; 21 x 18 points at scale 1.
+const LOGO_MARK = [[0, 8, 10], [8, 4, 14], [16, 0, 18]];
+const LOGO_NAME_SIZE = 26;
+const LOGO_NAME_WIDTH = measureText('Deepmetrics', LOGO_NAME_SIZE, 'times-bold');
+
+const logoElements = (item: Extract<CertificateTemplateItem, { type: 'logo' }>): CertificateElement[] => {
+  const naturalW = item.variant === 'mark' ? 21 : 32 + LOGO_NAME_WIDTH;
+  const naturalH = item.variant === 'mark' ? 18 : 44;
+  const s = Math.min(item.w / naturalW, item.h / naturalH);
+  const ox = item.x + (item.w - naturalW * s) / 2;
+  const oy = item.y + (item.h - naturalH * s) / 2;
+  const bars: CertificateElement[] = LOGO_MARK.map(([dx, dy, h]) =>
+    ({ kind: 'rect', x: ox + dx * s, y: oy + (item.variant === 'mark' ? dy : dy + 6) * s, w: 5 * s, h: h * s, fill: item.accent }));
+  if (item.variant === 'mark') return bars;
+  return [
+    ...bars,
+    { kind: 'text', text: 'Deepmetrics', x: ox + 32 * s, y: oy + 28 * s, size: LOGO_NAME_SIZE * s, font: 'times-bold', color: item.color, align: 'left' },
+    { kind: 'text', text: 'ANALYTICS INSTITUTE', x: ox + (32 + LOGO_NAME_WIDTH / 2) * s, y: oy + 42 * s, size: 8 * s, font: 'helvetica-bold', color: item.accent, align: 'center' },
+  ];
+};
+
+// A signatory's signature image, or their name typeset in italics when none was uploaded.
+const signatureElement = (index: number, name: string, box: { x: number; y: number; w: number; h: number }): CertificateElement => {
+  const size = fitSize(name, 'times-italic', Math.min(24, box.h * 0.6), box.w);
+  return {
+    kind: 'image', key: signatureImageKey(index), ...box,
+    fallback: { kind: 'text', text: name, x: box.x + box.w / 2, y: box.y + box.h - 10, size, font: 'times-italic', color: INK, align: 'center' },
+  };
+};
+
+const SIGNATORY_COLUMN_WIDTH = 220; // At most; narrower when several share the box
+const SIGNATORY_LABELS_HEIGHT = 36; // Line, name and title below the signature
+
+const signatoryElements = (item: Extract<CertificateTemplateItem, { type: 'signatories' }>, signatories: CertificateSignatory[]): CertificateElement[] => {
+  if (signatories.length === 0) return [];
+  const column = Math.min(SIGNATORY_COLUMN_WIDTH, item.w / signatories.length);
+  const groupWidth = column * signatories.length;
+  const left = item.align === 'left' ? item.x : item.align === 'right' ? item.x + item.w - groupWidth : item.x + (item.w - groupWidth) / 2;
+  const bottom = item.y + item.h;
+  return signatories.flatMap((signatory, i): CertificateElement[] => {
+    const center = left + column * (i + 0.5);
+    const textWidth = column * 0.9;
+    const title = signatory.title.toUpperCase();
+    return [
+      signatureElement(i, signatory.name, { x: center - column * 0.41, y: item.y, w: column * 0.82, h: Math.max(0, item.h - SIGNATORY_LABELS_HEIGHT) }),
+      { kind: 'line', x1: center - column * 0.43, y1: bottom - 30, x2: center + column * 0.43, y2: bottom - 30, stroke: item.lineColor, lineWidth: 0.75 },
+      { kind: 'text', text: signatory.name, x: center, y: bottom - 16, size: fitSize(signatory.name, 'helvetica-bold', 10, textWidth), font: 'helvetica-bold', color: INK, align: 'center' },
+      { kind: 'text', text: title, x: center, y: bottom - 4, size: fitSize(title, 'helvetica', 7, textWidth), font: 'helvetica', color: item.labelColor, align: 'center' },
+    ];
+  });
+};
+
+// Merges each row's dark modules into runs to keep the element count low.
+const qrElements = (value: string, x: number, y: number, size: number): CertificateElement[] => {
+  const qr = encodeQrCode(value);
+  const border = 2;
+  const cell = size / (qr.size + border * 2);
+  const elements: CertificateElement[] = [{ kind: 'rect', x, y, w: size, h: size, fill: WHITE }];
+  qr.modules.forEach((row, r) => {
+    for (let c = 0; c < row.length; c++) {
+      if (!row[c]) continue;
+      let end = c;
+      while (end + 1 < row.length && row[end + 1]) end++;
+      elements.push({ kind: 'rect', x: x + (c + border) * cell, y: y + (r + border) * cell, w: (end - c + 1) * cell, h: cell, fill: INK });
+      c = end;
+    }
+  });
+  return elements;
+};
+
+const layoutTemplate = (definition: CertificateTemplateDefinition, data: CertificateRenderData): CertificateElement[] => [
+  { kind: 'rect', x: 0, y: 0, w: W, h: H, fill: definition.background },
+  ...definition.items.flatMap((item): CertificateElement[] => {
+    switch (item.type) {
+      case 'text': {
+        const anchor = item.align === 'center' ? item.x + item.w / 2 : item.align === 'right' ? item.x + item.w : item.x;
+        const lineHeight = item.size * LINE_HEIGHT;
+        const maxLines = Math.max(1, Math.floor((item.h + 0.01) / lineHeight));
+        return wrapText(fillPlaceholders(item.text, data), item.font, item.size, item.w, maxLines).map(({ line, size }, i) =>
+          ({ kind: 'text', text: line, x: anchor, y: item.y + item.size * BASELINE + i * lineHeight, size, font: item.font, color: item.color, align: item.align }));
+      }
+      case 'rect':
+        return [{ kind: 'rect', x: item.x, y: item.y, w: item.w, h: item.h, fill: item.fill, stroke: item.stroke, lineWidth: item.lineWidth }];
+      case 'line':
+        return [{ kind: 'line', x1: item.x, y1: item.y, x2: item.x + item.w, y2: item.y + item.h, stroke: item.stroke, lineWidth: item.lineWidth }];
+      case 'logo':
+        return logoElements(item);
+      case 'image':
+        return [{ kind: 'image', key: item.path, x: item.x, y: item.y, w: item.w, h: item.h }];
+      case 'signatories':
+        return signatoryElements(item, data.signatories);
+      case 'signature': {
+        const index = item.index || 0;
+        const signatory = data.signatories[index];
+        return signatory ? [signatureElement(index, signatory.name, { x: item.x, y: item.y, w: item.w, h: item.h })] : [];
+      }
+      case 'qr':
+        return qrElements(data.verificationUrl, item.x, item.y, Math.min(item.w, item.h));
+    }
+  }),
+];
+
+// Fits the image inside its slot, keeping the aspect ratio and centring it.
+const fitImage = (slot: { x: number; y: number; w: number; h: number }, width: number, height: number) => {
+  const scale = Math.min(slot.w / width, slot.h / height);
+  const w = width * scale;
+  const h = height * scale;
+  return { x: slot.x + (slot.w - w) / 2, y: slot.y + (slot.h - h) / 2, w, h };
+};
+
+// --- PDF Output ---
+
+export interface CertificatePdfPage {
+  data: CertificateRenderData;
+  template: CertificateTemplateDefinition;
+  images?: { [key: string]: PdfImage | undefined }; // signatureImageKey(i) and template image paths
+}
+
+// One page per certificate, so a whole class can be printed from a single file.
+export const renderCertificatesPdf = (pages: CertificatePdfPage[]): Uint8Array => {
+  const doc = createPdfDocument(W, H);
+  const draw = (el: CertificateElement, images: CertificatePdfPage['images']) => {
+    if (el.kind === 'rect') doc.rect(el.x, el.y, el.w, el.h, { fill: el.fill, stroke: el.stroke, lineWidth: el.lineWidth });
+    else if (el.kind === 'line') doc.line(el.x1, el.y1, el.x2, el.y2, { stroke: el.stroke, lineWidth: el.lineWidth });
+    else if (el.kind === 'text') doc.text(el.text, el.x, el.y, { size: el.size, font: el.font, color: el.color, align: el.align });
+    else {
+      const image = images?.[el.key];
+      if (image) {
+        const box = fitImage(el, image.width, image.height);
+        doc.image(image, box.x, box.y, box.w, box.h);
+      } else if (el.fallback) {
+        draw(el.fallback, images);
+      }
+    }
+  };
+  pages.forEach(({ data, template, images }, index) => {
+    if (index > 0) doc.addPage();
+    layoutTemplate(template, data).forEach(el => draw(el, images));
+  });
+  return doc.toBytes();
+};
+
+// --- SVG Output ---
+
+export interface SvgImage {
+  href: string; // Use a data: URL when the SVG is rasterised or shown through <img>
+  width: number;
+  height: number;
+}
+
+const SVG_FONTS: { [key in PdfFont]: string } = {
+  'helvetica': `font-family="Helvetica, Arial, sans-serif"`,
+  'helvetica-bold': `font-family="Helvetica, Arial, sans-serif" font-weight="bold"`,
+  'times': `font-family="'Times New Roman', Times, serif"`,
+  'times-bold': `font-family="'Times New Roman', Times, serif" font-weight="bold"`,
+  'times-italic': `font-family="'Times New Roman', Times, serif" font-style="italic"`,
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const svgColor = (c: PdfColor) => `rgb(${c.join(',')})`;
+const svgNum = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const svgElement = (el: CertificateElement, images: { [key: string]: SvgImage | undefined }): string => {
+  if (el.kind === 'rect') {
+    return `<rect x="${svgNum(el.x)}" y="${svgNum(el.y)}" width="${svgNum(el.w)}" height="${svgNum(el.h)}" fill="${el.fill ? svgColor(el.fill) : 'none'}"${el.stroke ? ` stroke="${svgColor(el.stroke)}" stroke-width="${svgNum(el.lineWidth ?? 1)}"` : ''}/>`;
+  }
+  if (el.kind === 'line') {
+    return `<line x1="${svgNum(el.x1)}" y1="${svgNum(el.y1)}" x2="${svgNum(el.x2)}" y2="${svgNum(el.y2)}" stroke="${svgColor(el.stroke)}" stroke-width="${svgNum(el.lineWidth)}"/>`;
+  }
+  if (el.kind === 'text') {
+    // Position with the PDF metrics rather than text-anchor so both outputs line up
+    const width = measureText(el.text, el.size, el.font);
+    const left = el.align === 'center' ? el.x - width / 2 : el.align === 'right' ? el.x - width : el.x;
+    return `<text x="${svgNum(left)}" y="${svgNum(el.y)}" font-size="${svgNum(el.size)}" ${SVG_FONTS[el.font]} fill="${svgColor(el.color)}" xml:space="preserve">${escapeXml(el.text)}</text>`;
+  }
+  const image = images[el.key];
+  if (image) {
+    const box = fitImage(el, image.width, image.height);
+    return `<image href="${escapeXml(image.href)}" x="${svgNum(box.x)}" y="${svgNum(box.y)}" width="${svgNum(box.w)}" height="${svgNum(box.h)}"/>`;
+  }
+  return el.fallback ? svgElement(el.fallback, images) : '';
+};
+
+export const renderCertificateSvg = (
+  data: CertificateRenderData,
+  template: CertificateTemplateDefinition,
+  images: { [key: string]: SvgImage | undefined } = {}
+): string => {
+  const body = layoutTemplate(template, data).map(el => svgElement(el, images)).join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${W}" height="${H}" viewBox="0 0 ${W} ${H}">${body}</svg>`;
+};
@@ -0,0 +1,205 @@
+import { supabase, invokeFunction, getSignedUrl } from '../supabaseClient';
+import { Course, IssuedCertificate, Signatory } from '../types';
+import { downloadBytes } from './pdfDocument';
+import {
+  renderCertificateSvg, getTemplateImagePaths, CertificateRenderData, CertificateTemplateDefinition, SvgImage,
+  CERTIFICATE_PAGE, signatureImageKey, resolveSignatories,
+} from './certificateRenderer';
+
+export interface CertificateVerification {
+  serial: string;
+  recipientName: string;
+  courseTitle: string;
+  issuedAt: string;
+  revokedAt?: string;
+  revocationReason?: string;
+}
+
+// --- Mapping ---
+
+const mapCertificate = (row: any): IssuedCertificate => ({
+  id: row.id,
+  serial: row.serial,
+  userId: row.user_id,
+  courseId: row.course_id || undefined,
+  pathId: row.path_id || undefined,
+  recipientName: row.recipient_name,
+  courseTitle: row.course_title,
+  issuedAt: row.issued_at,
+  revokedAt: row.revoked_at || undefined,
+  revocationReason: row.revocation_reason || undefined,
+});
+
+export const getVerificationUrl = (serial: string) => `${window.location.origin}/verify/${encodeURIComponent(serial)}`;
+
+// `signatories` are the course's, in signing order (see getCourseSignatories).
+export const getRenderData = (certificate: IssuedCertificate, course: Pick<Course, 'instructor'>, signatories: Signatory[]): CertificateRenderData => ({
+  serial: certificate.serial,
+  recipientName: certificate.recipientName,
+  courseTitle: certificate.courseTitle,
+  instructor: course.instructor,
+  issuedAt: certificate.issuedAt,
+  verificationUrl: getVerificationUrl(certificate.serial),
+  signatories: resolveSignatories(signatories.map(s => ({ name: s.name, title: s.title })), course.instructor),
+});
+
+// --- Queries ---
+
+// Every certificate for one user, or all certificates when no user is given (admins only under RLS).
+export const fetchCertificates = async (userId?: string): Promise<IssuedCertificate[]> => {
+  let query = supabase.from('certificates').select('*').order('issued_at', { ascending: false });
+  if (userId) query = query.eq('user_id', userId);
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching certificates:', error);
+    return [];
+  }
+  return (data || []).map(mapCertificate);
+};
+
+// The valid certificate a student holds for a training program, if any.
+export const fetchActiveCertificate = async (userId: string, courseId: string) => {
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('*')
+    .match({ user_id: userId, course_id: courseId })
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error) {
+    console.error('Error fetching certificate:', error);
+    return null;
+  }
+  return data ? mapCertificate(data) : null;
+};
+
+// The valid certificate a student holds for a learning path, if any.
+export const fetchActivePathCertificate = async (userId: string, pathId: string) => {
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('*')
+    .match({ user_id: userId, path_id: pathId })
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error) {
+    console.error('Error fetching path certificate:', error);
+    return null;
+  }
+  return data ? mapCertificate(data) : null;
+};
+
+// Public lookup used by the /verify/:serial page.
+export const verifyCertificate = async (serial: string): Promise<CertificateVerification | null> => {
+  const { data, error } = await supabase.rpc('verify_certificate', { certificate_serial: serial });
+  if (error) throw error;
+  const row = (data || [])[0];
+  if (!row) return null;
+  return {
+    serial: row.serial,
+    recipientName: row.recipient_name,
+    courseTitle: row.course_title,
+    issuedAt: row.issued_at,
+    revokedAt: row.revoked_at || undefined,
+    revocationReason: row.revocation_reason || undefined,
+  };
+};
+
+// --- Admin ---
+
+// Issues a certificate unless the student already holds a valid one for the program.
+export const issueCertificate = async (recipient: { id: string; name: string }, course: { id: string; title: string }) => {
+  const existing = await fetchActiveCertificate(recipient.id, course.id);
+  if (existing) return existing;
+
+  const { data, error } = await supabase
+    .from('certificates')
+    .insert({ user_id: recipient.id, course_id: course.id, recipient_name: recipient.name, course_title: course.title })
+    .select()
+    .single();
+  if (error) throw error;
+  return mapCertificate(data);
+};
+
+export const revokeCertificate = async (certificateId: string, reason: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('certificates')
+    .update({ revoked_at: new Date().toISOString(), revocation_reason: reason || null, revoked_by: user?.id })
+    .eq('id', certificateId);
+  if (error) throw error;
+};
+
+// --- Rendering ---
+// PDFs come from the render-certificates edge function; PNGs rasterise the same template's SVG.
+// Without a template id the function uses each course's default template.
+
+const downloadBlob = async (blob: Blob, filename: string, mimeType: string) =>
+  downloadBytes(new Uint8Array(await blob.arrayBuffer()), filename, mimeType);
+
+export const downloadCertificatePdf = async (certificate: IssuedCertificate, templateId?: string) => {
+  const pdf = await invokeFunction<Blob>('render-certificates', { certificateIds: [certificate.id], templateId });
+  await downloadBlob(pdf, `${certificate.serial}.pdf`, 'application/pdf');
+};
+
+// Every valid certificate for a training program: one printable PDF, or a ZIP with a PDF per graduate.
+export const downloadProgramCertificates = async (courseId: string, templateId: string | undefined, format: 'pdf' | 'zip') => {
+  const file = await invokeFunction<Blob>('render-certificates', { courseId, templateId, format });
+  await downloadBlob(file, `certificates-${courseId}.${format}`, format === 'zip' ? 'application/zip' : 'application/pdf');
+};
+
+// Loads an image as a data: URL, so SVGs that reference it stay self-contained when shown through <img>.
+export const loadImageAsset = async (url: string): Promise<SvgImage | undefined> => {
+  try {
+    const blob = await (await fetch(url)).blob();
+    const href = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+    const img = new Image();
+    img.src = href;
+    await img.decode();
+    return { href, width: img.naturalWidth, height: img.naturalHeight };
+  } catch (err) {
+    console.error('Error loading image:', err);
+    return undefined;
+  }
+};
+
+// The signatories' signatures plus every uploaded image the template places.
+export const loadTemplateImages = async (definition: CertificateTemplateDefinition, signatories: Signatory[]) => {
+  const images: { [key: string]: SvgImage | undefined } = {};
+  await Promise.all(signatories.map(async (signatory, i) => {
+    if (signatory.signatureImage) images[signatureImageKey(i)] = await loadImageAsset(signatory.signatureImage);
+  }));
+  await Promise.all(getTemplateImagePaths(definition).map(async path => {
+    const url = await getSignedUrl(path);
+    if (url) images[path] = await loadImageAsset(url);
+  }));
+  return images;
+};
+
+export const getCertificateSvgUrl = (data: CertificateRenderData, definition: CertificateTemplateDefinition, images?: { [key: string]: SvgImage | undefined }) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderCertificateSvg(data, definition, images))}`;
+
+export const downloadCertificatePng = async (
+  data: CertificateRenderData,
+  definition: CertificateTemplateDefinition,
+  images?: { [key: string]: SvgImage | undefined },
+  scale: number = 3
+) => {
+  const img = new Image();
+  img.src = getCertificateSvgUrl(data, definition, images);
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CERTIFICATE_PAGE.width * scale;
+  canvas.height = CERTIFICATE_PAGE.height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!png) throw new Error('Failed to encode PNG');
+  await downloadBlob(png, `${data.serial}.png`, 'image/png');
+};
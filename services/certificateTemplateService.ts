@@ -0,0 +1,73 @@
+import { supabase, uploadToStorage } from '../supabaseClient';
+import { CertificateTemplate } from './certificateRenderer';
+
+// --- Mapping ---
+
+const mapTemplate = (row: any): CertificateTemplate => ({
+  id: row.id,
+  name: row.name,
+  definition: row.definition,
+  updatedAt: row.updated_at,
+});
+
+// --- Queries ---
+
+// Custom templates only; the built-in ones live in certificateRenderer.ts.
+export const fetchCertificateTemplates = async (): Promise<CertificateTemplate[]> => {
+  const { data, error } = await supabase.from('certificate_templates').select('*').order('name');
+  if (error) {
+    console.error('Error fetching certificate templates:', error);
+    return [];
+  }
+  return (data || []).map(mapTemplate);
+};
+
+// --- Admin ---
+
+// Inserts when the template has no id yet, otherwise updates it in place.
+export const saveCertificateTemplate = async (template: CertificateTemplate): Promise<CertificateTemplate> => {
+  const row = { name: template.name.trim(), definition: template.definition, updated_at: new Date().toISOString() };
+  const { data, error } = template.id
+    ? await supabase.from('certificate_templates').update(row).eq('id', template.id).select().single()
+    : await supabase.from('certificate_templates').insert(row).select().single();
+  if (error) throw error;
+  return mapTemplate(data);
+};
+
+// Courses and learning paths using the template fall back to their default before it is removed.
+export const deleteCertificateTemplate = async (id: string) => {
+  const { error: courseError } = await supabase.from('courses').update({ certificate_template: null }).eq('certificate_template', id);
+  if (courseError) throw courseError;
+  const { error: pathError } = await supabase.from('learning_paths').update({ certificate_template: null }).eq('certificate_template', id);
+  if (pathError) throw pathError;
+  const { error } = await supabase.from('certificate_templates').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Images ---
+
+const MAX_TEMPLATE_IMAGE_SIZE = 2000; // Longest side in pixels
+
+// Re-encodes any browser-readable image as a PNG no larger than MAX_TEMPLATE_IMAGE_SIZE.
+const toPngFile = async (file: File): Promise<File> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const scale = Math.min(1, MAX_TEMPLATE_IMAGE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Failed to encode PNG');
+    return new File([blob], 'image.png', { type: 'image/png' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Template images are stored as PNG because that is what the edge function can embed in PDFs.
+export const uploadTemplateImage = async (file: File, templateKey: string) =>
+  uploadToStorage(await toPngFile(file), 'certificate-templates', templateKey);
@@ -0,0 +1,135 @@
+import { supabase } from '../supabaseClient';
+import { Cohort, Course, WaitlistEntry } from '../types';
+
+// --- Mapping ---
+
+const mapCohort = (row: any, availability?: { seats_taken: number; waitlisted: number }): Cohort => ({
+  id: row.id,
+  courseId: row.course_id,
+  name: row.name,
+  startsOn: row.starts_on,
+  endsOn: row.ends_on || undefined,
+  registrationDeadline: row.registration_deadline || undefined,
+  capacity: row.capacity ?? undefined,
+  seatsTaken: availability?.seats_taken || 0,
+  waitlisted: availability?.waitlisted || 0,
+});
+
+const mapWaitlistEntry = (row: any): WaitlistEntry => ({
+  id: row.id,
+  cohortId: row.cohort_id,
+  offeredAt: row.offered_at || undefined,
+  createdAt: row.created_at,
+});
+
+// --- Queries ---
+
+// Every course's cohorts with live seat counts, keyed by course id and sorted by start date.
+export const fetchCohortsByCourse = async () => {
+  const byCourse: { [courseId: string]: Cohort[] } = {};
+  const [cohortsRes, availabilityRes] = await Promise.all([
+    supabase.from('cohorts').select('*').order('starts_on', { ascending: true }),
+    supabase.rpc('cohort_availability'),
+  ]);
+  if (cohortsRes.error) {
+    console.error('Error fetching cohorts:', cohortsRes.error);
+    return byCourse;
+  }
+  if (availabilityRes.error) console.error('Error fetching cohort availability:', availabilityRes.error);
+
+  const availability = new Map<string, any>((availabilityRes.data || []).map((row: any) => [row.cohort_id, row]));
+  cohortsRes.data?.forEach((row: any) => {
+    (byCourse[row.course_id] = byCourse[row.course_id] || []).push(mapCohort(row, availability.get(row.id)));
+  });
+  return byCourse;
+};
+
+export const fetchMyWaitlist = async (userId: string): Promise<WaitlistEntry[]> => {
+  const { data, error } = await supabase
+    .from('cohort_waitlist')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching waitlist:', error);
+    return [];
+  }
+  return (data || []).map(mapWaitlistEntry);
+};
+
+// --- Availability ---
+
+// Cohort dates are calendar days, so compare against the local date rather than UTC.
+const today = () => new Date().toLocaleDateString('en-CA');
+
+export const registrationCloses = (cohort: Cohort) => cohort.registrationDeadline || cohort.startsOn;
+
+export const isRegistrationOpen = (cohort: Cohort) => registrationCloses(cohort) >= today();
+
+// Remaining seats, or undefined when the cohort has no capacity limit.
+export const seatsLeft = (cohort: Cohort) =>
+  cohort.capacity === undefined ? undefined : Math.max(0, cohort.capacity - cohort.seatsTaken);
+
+export const isFull = (cohort: Cohort) => seatsLeft(cohort) === 0;
+
+export const getOpenCohorts = (course: Course) => (course.cohorts || []).filter(isRegistrationOpen);
+
+// The soonest cohort still taking registrations, full or not.
+export const getNextCohort = (course: Course) => getOpenCohorts(course)[0];
+
+export const findCohort = (courses: Course[], cohortId: string) => {
+  for (const course of courses) {
+    const cohort = course.cohorts?.find(c => c.id === cohortId);
+    if (cohort) return { course, cohort };
+  }
+  return undefined;
+};
+
+export const formatCohortDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const formatCohortDates = (cohort: Cohort) =>
+  cohort.endsOn ? `${formatCohortDate(cohort.startsOn)} – ${formatCohortDate(cohort.endsOn)}` : `Starts ${formatCohortDate(cohort.startsOn)}`;
+
+// Seat holds for waitlisted students of paid programs last two days (see promote_cohort_waitlist).
+export const OFFER_HOLD_MS = 2 * 24 * 60 * 60 * 1000;
+
+export const getOfferExpiry = (entry: WaitlistEntry) =>
+  entry.offeredAt ? new Date(new Date(entry.offeredAt).getTime() + OFFER_HOLD_MS) : undefined;
+
+export const hasActiveOffer = (entry: WaitlistEntry) => (getOfferExpiry(entry)?.getTime() || 0) > Date.now();
+
+// --- Waitlist ---
+
+// Joins a full cohort's waitlist. If a seat is free after all, a free program enrolls straight away.
+export const joinWaitlist = async (cohortId: string) => {
+  const { error } = await supabase.rpc('join_cohort_waitlist', { target: cohortId });
+  if (error) throw error;
+};
+
+export const leaveWaitlist = async (entryId: string) => {
+  const { error } = await supabase.from('cohort_waitlist').delete().eq('id', entryId);
+  if (error) throw error;
+};
+
+// --- Admin ---
+
+export const saveCohort = async (cohort: Omit<Cohort, 'id' | 'seatsTaken' | 'waitlisted'> & { id?: string }) => {
+  const row = {
+    course_id: cohort.courseId,
+    name: cohort.name,
+    starts_on: cohort.startsOn,
+    ends_on: cohort.endsOn || null,
+    registration_deadline: cohort.registrationDeadline || null,
+    capacity: cohort.capacity ?? null,
+  };
+  const { error } = cohort.id
+    ? await supabase.from('cohorts').update(row).eq('id', cohort.id)
+    : await supabase.from('cohorts').insert(row);
+  if (error) throw error;
+};
+
+export const deleteCohort = async (cohortId: string) => {
+  const { error } = await supabase.from('cohorts').delete().eq('id', cohortId);
+  if (error) throw error;
+};
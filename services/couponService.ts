@@ -0,0 +1,137 @@
+import { supabase, invokeFunction } from '../supabaseClient';
+import { Coupon, CouponRedemption, Course, CourseLevel, DiscountKind, PriceQuote } from '../types';
+
+export const DISCOUNT_KINDS: { id: DiscountKind; label: string }[] = [
+  { id: 'percent', label: 'Percentage off' },
+  { id: 'fixed', label: 'Fixed amount off (GHC)' },
+  { id: 'scholarship', label: 'Full scholarship' },
+];
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// --- Mapping ---
+
+const mapCoupon = (row: any): Coupon => ({
+  code: row.code,
+  description: row.description || undefined,
+  kind: row.kind as DiscountKind,
+  value: Number(row.value) || 0,
+  expiresAt: row.expires_at || undefined,
+  maxRedemptions: row.max_redemptions ?? undefined,
+  courseIds: row.course_ids || [],
+  levels: (row.levels || []) as CourseLevel[],
+  recipientEmail: row.recipient_email || undefined,
+  active: row.active,
+  redemptionCount: row.coupon_redemptions?.[0]?.count,
+  createdAt: row.created_at,
+});
+
+const mapRedemption = (row: any): CouponRedemption => ({
+  id: String(row.id),
+  couponCode: row.coupon_code,
+  userId: row.user_id,
+  courseId: row.course_id,
+  orderId: row.order_id || undefined,
+  originalPrice: Number(row.original_price),
+  discountAmount: Number(row.discount_amount),
+  finalPrice: Number(row.final_price),
+  createdAt: row.created_at,
+});
+
+// --- Pricing ---
+// Mirrors supabase/functions/_shared/coupons.ts. Used for display only; checkout re-prices on the server.
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const isCouponApplicable = (coupon: Coupon, course: Course) => {
+  if (!coupon.active) return false;
+  if (coupon.expiresAt && new Date(coupon.expiresAt) < new Date()) return false;
+  if (coupon.maxRedemptions !== undefined && coupon.redemptionCount !== undefined && coupon.redemptionCount >= coupon.maxRedemptions) return false;
+  if (coupon.courseIds.length > 0 && !coupon.courseIds.includes(course.id)) return false;
+  if (coupon.levels.length > 0 && !coupon.levels.includes(course.level)) return false;
+  return true;
+};
+
+export const applyCoupon = (course: Course, coupon: Coupon): PriceQuote => {
+  const originalPrice = course.price || 0;
+  const discount = coupon.kind === 'scholarship'
+    ? originalPrice
+    : coupon.kind === 'percent'
+      ? roundMoney(originalPrice * Math.min(Math.max(coupon.value, 0), 100) / 100)
+      : Math.min(Math.max(coupon.value, 0), originalPrice);
+  return { originalPrice, discount, finalPrice: roundMoney(originalPrice - discount), couponCode: coupon.code };
+};
+
+// Picks the lowest price among the applicable coupons.
+export const quoteCoursePrice = (course: Course, coupons: Coupon[]): PriceQuote => {
+  const base: PriceQuote = { originalPrice: course.price || 0, discount: 0, finalPrice: course.price || 0 };
+  return coupons
+    .filter(c => isCouponApplicable(c, course))
+    .map(c => applyCoupon(course, c))
+    .reduce((best, quote) => (quote.finalPrice < best.finalPrice ? quote : best), base);
+};
+
+export const describeCoupon = (coupon: Pick<Coupon, 'kind' | 'value'>) =>
+  coupon.kind === 'scholarship' ? 'Full scholarship' : coupon.kind === 'percent' ? `${coupon.value}% off` : `GHC ${coupon.value} off`;
+
+// --- Student Queries ---
+
+// Validates a code on the server. Throws with a readable reason when it cannot be used.
+export const previewCoupon = async (code: string) => {
+  const { coupon } = await invokeFunction<{ coupon: Coupon }>('price-quote', { code: normalizeCouponCode(code) });
+  return coupon;
+};
+
+// Scholarships and coupons reserved for one student; applied without entering a code.
+export const fetchAssignedCoupons = async (email: string): Promise<Coupon[]> => {
+  const { data, error } = await supabase.from('coupons').select('*').eq('active', true).eq('recipient_email', email.toLowerCase());
+  if (error) {
+    console.error('Error fetching assigned coupons:', error);
+    return [];
+  }
+  return (data || []).map(mapCoupon);
+};
+
+// --- Admin ---
+
+export const fetchCoupons = async (): Promise<Coupon[]> => {
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('*, coupon_redemptions(count)')
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching coupons:', error);
+    return [];
+  }
+  return (data || []).map(mapCoupon);
+};
+
+export const saveCoupon = async (coupon: Coupon) => {
+  const { error } = await supabase.from('coupons').upsert({
+    code: normalizeCouponCode(coupon.code),
+    description: coupon.description || null,
+    kind: coupon.kind,
+    value: coupon.kind === 'scholarship' ? 100 : coupon.value,
+    expires_at: coupon.expiresAt || null,
+    max_redemptions: coupon.maxRedemptions ?? null,
+    course_ids: coupon.courseIds,
+    levels: coupon.levels,
+    recipient_email: coupon.recipientEmail?.trim().toLowerCase() || null,
+    active: coupon.active,
+  });
+  if (error) throw error;
+};
+
+export const deleteCoupon = async (code: string) => {
+  const { error } = await supabase.from('coupons').delete().eq('code', code);
+  if (error) throw error;
+};
+
+export const fetchRedemptions = async (): Promise<CouponRedemption[]> => {
+  const { data, error } = await supabase.from('coupon_redemptions').select('*').order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching coupon redemptions:', error);
+    return [];
+  }
+  return (data || []).map(mapRedemption);
+};
@@ -0,0 +1,57 @@
+import { downloadBytes } from './pdfDocument';
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Quotes cells that contain separators, quotes or line breaks (RFC 4180). Text that a spreadsheet would
+// run as a formula (=, +, -, @, tab or carriage return first) is prefixed with ' so it shows as typed.
+const formatCell = (cell: CsvCell) => {
+  let text = cell === null || cell === undefined ? '' : String(cell);
+  if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]) => rows.map(row => row.map(formatCell).join(',')).join('\r\n');
+
+// The byte order mark makes Excel read the file as UTF-8.
+export const downloadCsv = (filename: string, rows: CsvCell[][]) =>
+  downloadBytes(new TextEncoder().encode('\uFEFF' + toCsv(rows)), filename, 'text/csv;charset=utf-8');
+
+// Reads RFC 4180 text: quoted cells may contain separators, doubled quotes and line breaks.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,154 @@
+import { supabase } from '../supabaseClient';
+import { CourseModule, Lesson, LessonType } from '../types';
+
+export const LESSON_TYPES: LessonType[] = ['video', 'reading', 'exercise', 'project', 'live'];
+
+// --- Mapping ---
+
+const mapLesson = (row: any): Lesson => ({
+  id: row.id,
+  moduleId: row.module_id,
+  title: row.title,
+  type: row.type as LessonType,
+  estimatedMinutes: row.estimated_minutes || 0,
+  position: row.position,
+  videoId: row.video_id || undefined,
+  resourceUrl: row.resource_url || undefined,
+});
+
+const mapModule = (row: any): CourseModule => ({
+  id: row.id,
+  courseId: row.course_id,
+  title: row.title,
+  position: row.position,
+  lessons: (row.lessons || []).map(mapLesson).sort((a: Lesson, b: Lesson) => a.position - b.position),
+});
+
+// --- Queries ---
+
+// Loads every course's curriculum in one round trip, keyed by course id.
+export const fetchCurriculumByCourse = async () => {
+  const { data, error } = await supabase
+    .from('course_modules')
+    .select('*, lessons:course_lessons(*)')
+    .order('position', { ascending: true });
+
+  const byCourse: { [courseId: string]: CourseModule[] } = {};
+  if (error) {
+    console.error('Error fetching curriculum:', error);
+    return byCourse;
+  }
+
+  data?.forEach((row: any) => {
+    const module = mapModule(row);
+    (byCourse[module.courseId] = byCourse[module.courseId] || []).push(module);
+  });
+  return byCourse;
+};
+
+// Replaces a course's curriculum with the given modules, keeping ids stable so
+// lesson-level records elsewhere survive re-ordering.
+export const saveCurriculum = async (courseId: string, modules: CourseModule[]) => {
+  const normalized = normalizePositions(modules);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('course_modules')
+    .select('id, lessons:course_lessons(id)')
+    .eq('course_id', courseId);
+  if (fetchError) throw fetchError;
+
+  const keptModuleIds = new Set(normalized.map(m => m.id));
+  const keptLessonIds = new Set(normalized.flatMap(m => m.lessons.map(l => l.id)));
+  const staleModuleIds = (existing || []).map((m: any) => m.id).filter((id: string) => !keptModuleIds.has(id));
+  const staleLessonIds = (existing || [])
+    .flatMap((m: any) => (m.lessons || []).map((l: any) => l.id))
+    .filter((id: string) => !keptLessonIds.has(id));
+
+  // Upsert before deleting: a lesson moved out of a removed module must be re-parented
+  // first, or the module's cascade would delete it along with its students' progress.
+  if (normalized.length > 0) {
+    const { error: moduleError } = await supabase.from('course_modules').upsert(
+      normalized.map(m => ({ id: m.id, course_id: courseId, title: m.title, position: m.position }))
+    );
+    if (moduleError) throw moduleError;
+  }
+
+  const lessonRows = normalized.flatMap(m => m.lessons.map(l => ({
+    id: l.id,
+    module_id: m.id,
+    title: l.title,
+    type: l.type,
+    estimated_minutes: l.estimatedMinutes,
+    position: l.position,
+    video_id: l.videoId || null,
+    resource_url: l.resourceUrl || null,
+  })));
+  if (lessonRows.length > 0) {
+    const { error: lessonError } = await supabase.from('course_lessons').upsert(lessonRows);
+    if (lessonError) throw lessonError;
+  }
+
+  if (staleLessonIds.length > 0) {
+    const { error } = await supabase.from('course_lessons').delete().in('id', staleLessonIds);
+    if (error) throw error;
+  }
+  if (staleModuleIds.length > 0) {
+    const { error } = await supabase.from('course_modules').delete().in('id', staleModuleIds);
+    if (error) throw error;
+  }
+};
+
+// --- Helpers ---
+
+export const createModule = (courseId: string, title: string = 'New Module'): CourseModule => ({
+  id: crypto.randomUUID(),
+  courseId,
+  title,
+  position: 0,
+  lessons: [],
+});
+
+export const createLesson = (moduleId: string, title: string = 'New Lesson', type: LessonType = 'reading'): Lesson => ({
+  id: crypto.randomUUID(),
+  moduleId,
+  title,
+  type,
+  estimatedMinutes: 30,
+  position: 0,
+});
+
+// Re-numbers positions from array order and re-parents lessons to their module.
+export const normalizePositions = (modules: CourseModule[]): CourseModule[] =>
+  modules.map((m, moduleIdx) => ({
+    ...m,
+    position: moduleIdx,
+    lessons: m.lessons.map((l, lessonIdx) => ({ ...l, moduleId: m.id, position: lessonIdx })),
+  }));
+
+export const getAllLessons = (modules: CourseModule[] = []) => modules.flatMap(m => m.lessons);
+
+export const getTotalMinutes = (modules: CourseModule[] = []) =>
+  getAllLessons(modules).reduce((acc, l) => acc + (l.estimatedMinutes || 0), 0);
+
+export const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+// Turns a legacy HTML outline into a single draft module, one lesson per <li>.
+export const parseOutlineToCurriculum = (courseId: string, outlineHtml: string): CourseModule[] => {
+  const doc = new DOMParser().parseFromString(outlineHtml || '', 'text/html');
+  const items = Array.from(doc.querySelectorAll('li'))
+    .map(li => (li.textContent || '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  if (items.length === 0) return [];
+
+  const module = createModule(courseId, 'Program Outline');
+  module.lessons = items.map(text => {
+    const isProject = /project|capstone|case study/i.test(text);
+    return createLesson(module.id, text, isProject ? 'project' : 'reading');
+  });
+  return normalizePositions([module]);
+};
@@ -0,0 +1,268 @@
+import { supabase } from '../supabaseClient';
+import { DiscussionParticipant, DiscussionPost, DiscussionThread } from '../types';
+
+export type ThreadSort = 'activity' | 'newest' | 'top';
+
+export const THREAD_SORTS: { id: ThreadSort; label: string }[] = [
+  { id: 'activity', label: 'Recent activity' },
+  { id: 'newest', label: 'Newest' },
+  { id: 'top', label: 'Most upvoted' },
+];
+
+export interface ReplyNode {
+  post: DiscussionPost;
+  replies: ReplyNode[];
+}
+
+// --- Mapping ---
+
+const mapThread = (row: any): DiscussionThread => ({
+  id: row.id,
+  courseId: row.course_id,
+  lessonId: row.lesson_id || undefined,
+  authorId: row.author_id,
+  authorName: row.profiles?.name || 'Student',
+  isStaff: !!row.is_staff,
+  title: row.title,
+  body: row.body,
+  isPinned: !!row.is_pinned,
+  isLocked: !!row.is_locked,
+  answerPostId: row.answer_post_id || undefined,
+  isHidden: !!row.hidden_at,
+  upvotes: row.upvotes || 0,
+  replyCount: row.reply_count || 0,
+  lastActivityAt: row.last_activity_at,
+  editedAt: row.edited_at || undefined,
+  createdAt: row.created_at,
+});
+
+const mapPost = (row: any): DiscussionPost => ({
+  id: row.id,
+  threadId: row.thread_id,
+  parentId: row.parent_id || undefined,
+  authorId: row.author_id,
+  authorName: row.profiles?.name || 'Student',
+  isStaff: !!row.is_staff,
+  body: row.body,
+  isHidden: !!row.hidden_at,
+  upvotes: row.upvotes || 0,
+  editedAt: row.edited_at || undefined,
+  createdAt: row.created_at,
+});
+
+// --- Queries ---
+
+// The board of one program, pinned threads first. RLS limits it to participants.
+export const fetchThreads = async (courseId: string): Promise<DiscussionThread[]> => {
+  const { data, error } = await supabase
+    .from('discussion_threads')
+    .select('*, profiles!discussion_threads_author_id_fkey(name)')
+    .eq('course_id', courseId)
+    .order('is_pinned', { ascending: false })
+    .order('last_activity_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching discussions:', error);
+    return [];
+  }
+  return (data || []).map(mapThread);
+};
+
+export const fetchThread = async (threadId: string) => {
+  const { data, error } = await supabase
+    .from('discussion_threads')
+    .select('*, profiles!discussion_threads_author_id_fkey(name)')
+    .eq('id', threadId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapThread(data) : null;
+};
+
+export const fetchReplies = async (threadId: string): Promise<DiscussionPost[]> => {
+  const { data, error } = await supabase
+    .from('discussion_posts')
+    .select('*, profiles!discussion_posts_author_id_fkey(name)')
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching replies:', error);
+    return [];
+  }
+  return (data || []).map(mapPost);
+};
+
+// Ids of the threads and replies the user has upvoted, among those given.
+export const fetchMyVotes = async (userId: string, ids: { threadIds?: string[]; postIds?: string[] }) => {
+  const voted: string[] = [];
+  const lookups = [
+    { column: 'thread_id', values: ids.threadIds || [] },
+    { column: 'post_id', values: ids.postIds || [] },
+  ].filter(l => l.values.length > 0);
+  await Promise.all(lookups.map(async ({ column, values }) => {
+    const { data, error } = await supabase.from('discussion_votes').select(column).eq('user_id', userId).in(column, values);
+    if (error) {
+      console.error('Error fetching votes:', error);
+      return;
+    }
+    data?.forEach((row: any) => voted.push(row[column]));
+  }));
+  return voted;
+};
+
+export const fetchParticipants = async (courseId: string): Promise<DiscussionParticipant[]> => {
+  const { data, error } = await supabase.rpc('discussion_participants', { target_course: courseId });
+  if (error) {
+    console.error('Error fetching discussion participants:', error);
+    return [];
+  }
+  return (data || [])
+    .map((row: any) => ({ id: row.user_id, name: row.name || 'Student', isStaff: !!row.is_staff }))
+    .sort((a: DiscussionParticipant, b: DiscussionParticipant) => a.name.localeCompare(b.name));
+};
+
+// --- Board helpers ---
+
+export const sortThreads = (threads: DiscussionThread[], sort: ThreadSort) => {
+  const compare: { [key in ThreadSort]: (a: DiscussionThread, b: DiscussionThread) => number } = {
+    activity: (a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt),
+    newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+    top: (a, b) => b.upvotes - a.upvotes || b.lastActivityAt.localeCompare(a.lastActivityAt),
+  };
+  return [...threads].sort((a, b) => Number(b.isPinned) - Number(a.isPinned) || compare[sort](a, b));
+};
+
+// e.g. "5 min ago", "3 h ago", then the date
+export const formatPostTime = (iso: string) => {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(iso).toLocaleDateString();
+};
+
+// Replies nested under the reply they answer, oldest first at every level.
+export const buildReplyTree = (posts: DiscussionPost[]): ReplyNode[] => {
+  const nodes = new Map<string, ReplyNode>(posts.map(post => [post.id, { post, replies: [] }]));
+  const roots: ReplyNode[] = [];
+  posts.forEach(post => {
+    const parent = post.parentId ? nodes.get(post.parentId) : undefined;
+    // Replies to a reply the reader cannot see (hidden) move up to the top level
+    (parent ? parent.replies : roots).push(nodes.get(post.id)!);
+  });
+  return roots;
+};
+
+// --- Mentions ---
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Names can contain spaces, so each participant's "@Full Name" is looked for as a whole.
+const mentionPattern = (name: string) => new RegExp(`(^|[^\\w@])@${escapeRegExp(name)}(?![\\w])`, 'i');
+
+// Participants mentioned as @Name in a post, for the database to notify.
+export const extractMentions = (body: string, participants: DiscussionParticipant[]) =>
+  participants.filter(p => mentionPattern(p.name).test(body)).map(p => p.id);
+
+// Splits a post into plain text and @mentions of the given names, for highlighting.
+export const splitMentions = (body: string, names: string[]): { text: string; isMention: boolean }[] => {
+  const sorted = [...new Set(names)].filter(Boolean).sort((a, b) => b.length - a.length); // Longest first: "@Ama Mensah" over "@Ama"
+  if (sorted.length === 0) return [{ text: body, isMention: false }];
+  const pattern = new RegExp(`@(?:${sorted.map(escapeRegExp).join('|')})(?![\\w])`, 'gi');
+  const parts: { text: string; isMention: boolean }[] = [];
+  let last = 0;
+  for (const match of body.matchAll(pattern)) {
+    const start = match.index || 0;
+    if (start > 0 && /[\w@]/.test(body[start - 1])) continue; // Part of an email address or word
+    if (start > last) parts.push({ text: body.slice(last, start), isMention: false });
+    parts.push({ text: match[0], isMention: true });
+    last = start + match[0].length;
+  }
+  if (last < body.length) parts.push({ text: body.slice(last), isMention: false });
+  return parts;
+};
+
+// --- Writing ---
+
+export const createThread = async (
+  thread: { courseId: string; lessonId?: string; title: string; body: string },
+  participants: DiscussionParticipant[]
+) => {
+  const { data, error } = await supabase
+    .from('discussion_threads')
+    .insert({
+      course_id: thread.courseId,
+      lesson_id: thread.lessonId || null,
+      title: thread.title.trim(),
+      body: thread.body.trim(),
+      mentions: extractMentions(thread.body, participants),
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+  return data.id as string;
+};
+
+// Authors edit their own text; mentions are only notified when a post is first written.
+export const updateThread = async (threadId: string, changes: { title: string; body: string; lessonId?: string }) => {
+  const { error } = await supabase
+    .from('discussion_threads')
+    .update({ title: changes.title.trim(), body: changes.body.trim(), lesson_id: changes.lessonId || null })
+    .eq('id', threadId);
+  if (error) throw error;
+};
+
+export const deleteThread = async (threadId: string) => {
+  const { error } = await supabase.from('discussion_threads').delete().eq('id', threadId);
+  if (error) throw error;
+};
+
+export const createReply = async (threadId: string, parentId: string | undefined, body: string, participants: DiscussionParticipant[]) => {
+  const { error } = await supabase.from('discussion_posts').insert({
+    thread_id: threadId,
+    parent_id: parentId || null,
+    body: body.trim(),
+    mentions: extractMentions(body, participants),
+  });
+  if (error) throw error;
+};
+
+export const updateReply = async (postId: string, body: string) => {
+  const { error } = await supabase.from('discussion_posts').update({ body: body.trim() }).eq('id', postId);
+  if (error) throw error;
+};
+
+export const deleteReply = async (postId: string) => {
+  const { error } = await supabase.from('discussion_posts').delete().eq('id', postId);
+  if (error) throw error;
+};
+
+export const setVote = async (userId: string, target: { threadId?: string; postId?: string }, upvoted: boolean) => {
+  const column = target.threadId ? 'thread_id' : 'post_id';
+  const value = target.threadId || target.postId;
+  const { error } = upvoted
+    ? await supabase.from('discussion_votes').insert({ user_id: userId, [column]: value })
+    : await supabase.from('discussion_votes').delete().eq('user_id', userId).eq(column, value);
+  if (error) throw error;
+};
+
+// --- Moderation ---
+
+export const moderateThread = async (
+  threadId: string,
+  changes: { isPinned?: boolean; isLocked?: boolean; isHidden?: boolean; answerPostId?: string | null }
+) => {
+  const row: { [column: string]: any } = {};
+  if (changes.isPinned !== undefined) row.is_pinned = changes.isPinned;
+  if (changes.isLocked !== undefined) row.is_locked = changes.isLocked;
+  if (changes.isHidden !== undefined) row.hidden_at = changes.isHidden ? new Date().toISOString() : null;
+  if (changes.answerPostId !== undefined) row.answer_post_id = changes.answerPostId;
+  const { error } = await supabase.from('discussion_threads').update(row).eq('id', threadId);
+  if (error) throw error;
+};
+
+export const setReplyHidden = async (postId: string, hidden: boolean) => {
+  const { error } = await supabase
+    .from('discussion_posts')
+    .update({ hidden_at: hidden ? new Date().toISOString() : null })
+    .eq('id', postId);
+  if (error) throw error;
+};
@@ -0,0 +1,78 @@
+import { supabase, invokeFunction } from '../supabaseClient';
+import { EmailStatus, OutboxEmail } from '../types';
+import { EmailTemplate, DEFAULT_EMAIL_TEMPLATES, EMAIL_TEMPLATE_DEFINITIONS } from './emailTemplates';
+
+// --- Mapping ---
+
+const mapOutboxEmail = (row: any): OutboxEmail => ({
+  id: row.id,
+  template: row.template,
+  recipient: row.recipient,
+  status: row.status as EmailStatus,
+  attempts: row.attempts,
+  subject: row.subject || undefined,
+  body: row.body || undefined,
+  transport: row.transport || undefined,
+  lastError: row.last_error || undefined,
+  nextAttemptAt: row.next_attempt_at,
+  sentAt: row.sent_at || undefined,
+  createdAt: row.created_at,
+});
+
+// --- Account ---
+
+// Always succeeds for signed-out users to signed-out users, so it never reveals whether the address has an account.
+export const requestPasswordReset = async (email: string) => {
+  await invokeFunction('request-password-reset', { email });
+};
+
+// --- Admin ---
+
+// Every template, with stored overrides in place of the defaults.
+export const fetchEmailTemplates = async (): Promise<EmailTemplate[]> => {
+  const { data, error } = await supabase.from('email_templates').select('*');
+  if (error) console.error('Error fetching email templates:', error);
+  return EMAIL_TEMPLATE_DEFINITIONS.map(({ key }) => {
+    const row = data?.find((t: any) => t.key === key);
+    return row
+      ? { key, subject: row.subject, body: row.body, customized: true, updatedAt: row.updated_at }
+      : { key, ...DEFAULT_EMAIL_TEMPLATES[key], customized: false };
+  });
+};
+
+export const saveEmailTemplate = async (template: EmailTemplate) => {
+  const { error } = await supabase
+    .from('email_templates')
+    .upsert({ key: template.key, subject: template.subject, body: template.body, updated_at: new Date().toISOString() });
+  if (error) throw error;
+};
+
+// Removing the override restores the built-in default.
+export const resetEmailTemplate = async (key: EmailTemplate['key']) => {
+  const { error } = await supabase.from('email_templates').delete().eq('key', key);
+  if (error) throw error;
+};
+
+export const fetchOutbox = async (status?: EmailStatus, limit: number = 200): Promise<OutboxEmail[]> => {
+  let query = supabase.from('email_outbox').select('*').order('created_at', { ascending: false }).limit(limit);
+  if (status) query = query.eq('status', status);
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching email outbox:', error);
+    return [];
+  }
+  return (data || []).map(mapOutboxEmail);
+};
+
+// Requeues a failed message with a fresh set of attempts.
+export const retryEmail = async (id: string) => {
+  const { error } = await supabase
+    .from('email_outbox')
+    .update({ status: 'pending', attempts: 0, last_error: null, next_attempt_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw error;
+};
+
+// Runs a delivery pass now instead of waiting for the schedule.
+export const processOutbox = () =>
+  invokeFunction<{ processed: number; sent: number; failed: number }>('process-email-outbox', {});
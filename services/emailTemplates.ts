@@ -0,0 +1,148 @@
+// ------------------------------------------------------------------
+// EMAIL TEMPLATES
+// ------------------------------------------------------------------
+// Transactional emails are plain-text templates with {placeholders}. Admins can
+// override the subject and body of each one (email_templates table); these are
+// the defaults. Shared by the admin editor's preview and the
+// process-email-outbox edge function, so both render identically.
+
+export type EmailTemplateKey =
+  | 'registration_confirmation'
+  | 'completion_approved'
+  | 'completion_rejected'
+  | 'password_reset'
+  | 'payment_receipt';
+
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  subject: string;
+  body: string;
+  customized?: boolean; // True when an admin override is stored
+  updatedAt?: string;
+}
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  label: string;
+  description: string;
+  fields: { key: string; label: string; sample: string }[];
+  sensitive?: boolean; // Content is dropped from the outbox once delivered
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const NAME_FIELD = { key: 'name', label: 'Student name', sample: 'Ama Mensah' };
+const COURSE_FIELD = { key: 'courseTitle', label: 'Program title', sample: 'Data Science Fundamentals' };
+const DASHBOARD_FIELD = { key: 'dashboardUrl', label: 'Dashboard link', sample: 'https://example.com/dashboard' };
+
+export const EMAIL_TEMPLATE_DEFINITIONS: EmailTemplateDefinition[] = [
+  {
+    key: 'registration_confirmation',
+    label: 'Registration confirmation',
+    description: 'Sent when a student is enrolled in a training program.',
+    fields: [NAME_FIELD, COURSE_FIELD, DASHBOARD_FIELD],
+  },
+  {
+    key: 'completion_approved',
+    label: 'Completion approved',
+    description: 'Sent when a certificate is issued for an approved completion.',
+    fields: [
+      NAME_FIELD,
+      COURSE_FIELD,
+      { key: 'serial', label: 'Certificate ID', sample: 'DMI-2026-4F1A9C2B' },
+      { key: 'verificationUrl', label: 'Verification link', sample: 'https://example.com/verify/DMI-2026-4F1A9C2B' },
+    ],
+  },
+  {
+    key: 'completion_rejected',
+    label: 'Completion rejected',
+    description: 'Sent when an admin rejects a completion request.',
+    fields: [NAME_FIELD, COURSE_FIELD, { key: 'reason', label: 'Reviewer feedback', sample: 'Please submit the capstone project.' }, DASHBOARD_FIELD],
+  },
+  {
+    key: 'password_reset',
+    label: 'Password reset',
+    description: 'Sent when someone asks to reset their password.',
+    fields: [NAME_FIELD, { key: 'resetUrl', label: 'Reset link', sample: 'https://example.com/reset-password#token' }],
+    sensitive: true,
+  },
+  {
+    key: 'payment_receipt',
+    label: 'Payment receipt',
+    description: 'Sent when a payment for a paid program is confirmed.',
+    fields: [
+      NAME_FIELD,
+      COURSE_FIELD,
+      { key: 'invoiceNumber', label: 'Invoice number', sample: 'DMI-2026-000042' },
+      { key: 'amount', label: 'Amount', sample: '499.00' },
+      { key: 'currency', label: 'Currency', sample: 'GHS' },
+      { key: 'receiptUrl', label: 'Receipt link', sample: 'https://example.com/orders/1b2c' },
+    ],
+  },
+];
+
+export const DEFAULT_EMAIL_TEMPLATES: { [key in EmailTemplateKey]: Omit<EmailTemplate, 'key'> } = {
+  registration_confirmation: {
+    subject: 'Training Registration Confirmation',
+    body: 'Dear {name},\n\nYou have successfully registered for {courseTitle}. We are excited to have you on board!\n\nYou can start learning from your dashboard: {dashboardUrl}\n\nBest,\nDeepmetrics Team',
+  },
+  completion_approved: {
+    subject: '🎉 Congratulations! You have completed {courseTitle}',
+    body: 'Dear {name},\n\nWe are thrilled to congratulate you on successfully completing the training program "{courseTitle}".\n\nYour certificate ID is {serial}. Anyone can confirm it at {verificationUrl}\n\nWarm regards,\nThe Deepmetrics Team',
+  },
+  completion_rejected: {
+    subject: 'Update on your completion request for {courseTitle}',
+    body: 'Dear {name},\n\nYour request to mark {courseTitle} as completed has not been approved yet.\n\nReviewer feedback: {reason}\n\nPlease address the feedback on your dashboard ({dashboardUrl}) and resubmit the request when you are ready.\n\nBest,\nDeepmetrics Team',
+  },
+  password_reset: {
+    subject: 'Reset your Deepmetrics password',
+    body: 'Dear {name},\n\nWe received a request to reset your password. Open this link to choose a new one:\n\n{resetUrl}\n\nIf you did not ask for this, you can ignore this email.\n\nDeepmetrics Team',
+  },
+  payment_receipt: {
+    subject: 'Payment Receipt {invoiceNumber}',
+    body: 'Dear {name},\n\nWe have received your payment of {currency} {amount} for {courseTitle}.\n\nInvoice: {invoiceNumber}\nReceipt: {receiptUrl}\n\nBest,\nDeepmetrics Team',
+  },
+};
+
+export const isEmailTemplateKey = (key: string): key is EmailTemplateKey => key in DEFAULT_EMAIL_TEMPLATES;
+
+export const getEmailTemplateDefinition = (key: EmailTemplateKey) =>
+  EMAIL_TEMPLATE_DEFINITIONS.find(d => d.key === key)!;
+
+// Sample values for the editor preview.
+export const getSampleEmailData = (key: EmailTemplateKey) =>
+  Object.fromEntries(getEmailTemplateDefinition(key).fields.map(f => [f.key, f.sample]));
+
+// Links are derived from the site URL at send time, so queued data never holds a stale host.
+export const withEmailLinks = (data: { [key: string]: string }, siteUrl: string) => ({
+  dashboardUrl: `${siteUrl}/dashboard`,
+  ...(data.serial ? { verificationUrl: `${siteUrl}/verify/${encodeURIComponent(data.serial)}` } : {}),
+  ...(data.orderId ? { receiptUrl: `${siteUrl}/orders/${data.orderId}` } : {}),
+  ...data,
+});
+
+const fill = (text: string, data: { [key: string]: string }) =>
+  text.replace(/\{(\w+)\}/g, (match, key: string) => (data[key] !== undefined ? data[key] : match));
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Paragraphs from blank lines, line breaks kept, bare URLs made clickable.
+const toHtml = (text: string) =>
+  text.split(/\n{2,}/).map(paragraph => {
+    const linked = escapeHtml(paragraph).replace(/https?:\/\/[^\s<]+/g, url => `<a href="${url}" style="color:#4f46e5">${url}</a>`);
+    return `<p style="margin:0 0 16px">${linked.replace(/\n/g, '<br>')}</p>`;
+  }).join('');
+
+export const renderEmail = (template: Pick<EmailTemplate, 'subject' | 'body'>, data: { [key: string]: string }): RenderedEmail => {
+  const text = fill(template.body, data);
+  return {
+    subject: fill(template.subject, data).replace(/\s+/g, ' ').trim(),
+    text,
+    html: `<div style="font-family:Helvetica,Arial,sans-serif;font-size:15px;line-height:1.5;color:#111827;max-width:560px">${toHtml(text)}</div>`,
+  };
+};
@@ -0,0 +1,80 @@
+// ------------------------------------------------------------------
+// ICALENDAR WRITER
+// ------------------------------------------------------------------
+// Builds RFC 5545 calendars for live sessions. Shared by the in-app `.ics`
+// downloads and the calendar-feed edge function, so both describe a session
+// the same way. Times are written in UTC; calendar apps show them in the
+// viewer's zone. Nothing here reads the clock: callers pass the timestamp.
+
+export interface CalendarEvent {
+  uid: string; // Stable across exports so re-imports update instead of duplicating
+  title: string;
+  description?: string;
+  url?: string;
+  start: string; // ISO timestamp
+  durationMinutes: number;
+  updated?: string; // ISO timestamp of the last change
+}
+
+const PRODUCT_ID = '-//Deepmetrics//Live Sessions//EN';
+
+// Same UID in downloads and the feed, so importing both does not duplicate a session.
+export const liveSessionUid = (sessionId: string) => `${sessionId}@live-sessions.deepmetrics`;
+
+// 20261019T140000Z
+const formatUtc = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets; continuation lines start with a space.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const eventLines = (event: CalendarEvent, stamp: string) => {
+  const end = new Date(new Date(event.start).getTime() + event.durationMinutes * 60_000).toISOString();
+  const description = [event.description, event.url && `Join: ${event.url}`].filter(Boolean).join('\n\n');
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    ...(event.updated ? [`LAST-MODIFIED:${formatUtc(event.updated)}`] : []),
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(event.url ? [`URL:${escapeText(event.url)}`, `LOCATION:${escapeText(event.url)}`] : []),
+    'END:VEVENT',
+  ];
+};
+
+// `stamp` is when the calendar was generated (DTSTAMP).
+export const buildCalendar = (events: CalendarEvent[], options: { name: string; stamp: string }) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...events.flatMap(event => eventLines(event, options.stamp)),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
@@ -0,0 +1,153 @@
+import { supabase, getFunctionUrl } from '../supabaseClient';
+import { Course, LiveSession, User } from '../types';
+import { buildCalendar, liveSessionUid, CalendarEvent } from './icalendar';
+import { downloadBytes } from './pdfDocument';
+
+// Offered when scheduling; the scheduler's own zone is added if missing.
+export const COMMON_TIME_ZONES = [
+  'Africa/Accra', 'Africa/Lagos', 'Africa/Nairobi', 'Africa/Johannesburg', 'Europe/London', 'Europe/Berlin',
+  'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Asia/Dubai', 'Asia/Kolkata', 'Asia/Singapore', 'UTC',
+];
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// --- Mapping ---
+
+const mapSession = (row: any): LiveSession => ({
+  id: row.id,
+  courseId: row.course_id,
+  cohortId: row.cohort_id || undefined,
+  title: row.title,
+  description: row.description || undefined,
+  startsAt: row.starts_at,
+  durationMinutes: row.duration_minutes,
+  timeZone: row.timezone,
+  meetingUrl: row.meeting_url || undefined,
+  updatedAt: row.updated_at,
+});
+
+// --- Queries ---
+
+// Sessions the current user can see under RLS: their programs' (or cohort's), or the ones they teach.
+export const fetchLiveSessions = async (options: { courseId?: string; from?: string } = {}): Promise<LiveSession[]> => {
+  let query = supabase.from('live_sessions').select('*').order('starts_at', { ascending: true });
+  if (options.courseId) query = query.eq('course_id', options.courseId);
+  if (options.from) query = query.gte('starts_at', options.from);
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching live sessions:', error);
+    return [];
+  }
+  return (data || []).map(mapSession);
+};
+
+export const fetchLiveSession = async (sessionId: string) => {
+  const { data, error } = await supabase.from('live_sessions').select('*').eq('id', sessionId).maybeSingle();
+  if (error) throw error;
+  return data ? mapSession(data) : null;
+};
+
+// The user's own calendar: sessions of programs they teach, and of programs they are enrolled in
+// (the whole program's, or their cohort's). Admins can load every session, so this narrows it down.
+export const getUserSessions = (sessions: LiveSession[], user: User, courses: Course[]) =>
+  sessions.filter(s => {
+    if (courses.some(c => c.id === s.courseId && c.instructorId === user.id)) return true;
+    if (!user.registeredCourseIds.includes(s.courseId)) return false;
+    return !s.cohortId || user.courseCohorts?.[s.courseId] === s.cohortId;
+  });
+
+export const getSessionEnd = (session: LiveSession) =>
+  new Date(new Date(session.startsAt).getTime() + session.durationMinutes * 60_000);
+
+// Sessions that have not ended yet, soonest first.
+export const getUpcomingSessions = (sessions: LiveSession[], now: Date = new Date()) =>
+  sessions.filter(s => getSessionEnd(s) > now).sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+
+export const isSessionLive = (session: LiveSession, now: Date = new Date()) =>
+  new Date(session.startsAt) <= now && getSessionEnd(session) > now;
+
+// --- Time zones ---
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds.
+const zoneOffsetMs = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant;
+};
+
+// Wall-clock date (YYYY-MM-DD) and time (HH:MM) in a zone to an ISO instant. The second pass settles DST edges.
+export const zonedTimeToIso = (date: string, time: string, timeZone: string) => {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const first = wallClock - zoneOffsetMs(wallClock, timeZone);
+  return new Date(wallClock - zoneOffsetMs(first, timeZone)).toISOString();
+};
+
+// The reverse, for editing a session in the zone it was scheduled in.
+export const isoToZonedTime = (iso: string, timeZone: string) => {
+  const instant = new Date(iso).getTime();
+  const shifted = new Date(instant + zoneOffsetMs(instant, timeZone)).toISOString();
+  return { date: shifted.slice(0, 10), time: shifted.slice(11, 16) };
+};
+
+// e.g. "Tue 20 Oct 2026, 14:00 GMT"; in the viewer's zone unless one is given.
+export const formatSessionTime = (session: LiveSession, timeZone?: string) =>
+  new Date(session.startsAt).toLocaleString('en-GB', {
+    timeZone, weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit', timeZoneName: 'short',
+  });
+
+// --- Calendar export ---
+
+const toCalendarEvent = (session: LiveSession, courses: Course[]): CalendarEvent => ({
+  uid: liveSessionUid(session.id),
+  title: `${courses.find(c => c.id === session.courseId)?.title || 'Live session'}: ${session.title}`,
+  description: session.description,
+  url: session.meetingUrl,
+  start: session.startsAt,
+  durationMinutes: session.durationMinutes,
+  updated: session.updatedAt,
+});
+
+// Saves an .ics file with the given sessions, for importing into any calendar app.
+export const downloadSessionsIcs = (sessions: LiveSession[], courses: Course[], filename: string) => {
+  const calendar = buildCalendar(sessions.map(s => toCalendarEvent(s, courses)), {
+    name: 'Deepmetrics live sessions',
+    stamp: new Date().toISOString(),
+  });
+  downloadBytes(new TextEncoder().encode(calendar), filename, 'text/calendar;charset=utf-8');
+};
+
+// Subscribable feed URL for the current user. Resetting issues a new token and stops the old URL working.
+export const getCalendarFeedUrl = async (reset = false) => {
+  const { data, error } = await supabase.rpc('get_calendar_feed_token', { reset });
+  if (error) throw error;
+  return `${getFunctionUrl('calendar-feed')}?token=${data}`;
+};
+
+// Calendar apps subscribe through the webcal scheme.
+export const toWebcalUrl = (feedUrl: string) => feedUrl.replace(/^https?:/, 'webcal:');
+
+// --- Admin ---
+
+export const saveLiveSession = async (session: Omit<LiveSession, 'id' | 'updatedAt'> & { id?: string }) => {
+  const row = {
+    course_id: session.courseId,
+    cohort_id: session.cohortId || null,
+    title: session.title,
+    description: session.description || null,
+    starts_at: session.startsAt,
+    duration_minutes: session.durationMinutes,
+    timezone: session.timeZone,
+    meeting_url: session.meetingUrl || null,
+  };
+  const { error } = session.id
+    ? await supabase.from('live_sessions').update(row).eq('id', session.id)
+    : await supabase.from('live_sessions').insert(row);
+  if (error) throw error;
+};
+
+export const deleteLiveSession = async (sessionId: string) => {
+  const { error } = await supabase.from('live_sessions').delete().eq('id', sessionId);
+  if (error) throw error;
+};
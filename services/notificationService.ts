@@ -0,0 +1,71 @@
+import { supabase } from '../supabaseClient';
+import { InboxNotification, InboxNotificationKind } from '../types';
+
+// --- Mapping ---
+
+const mapNotification = (row: any): InboxNotification => ({
+  id: row.id,
+  userId: row.user_id,
+  kind: row.kind as InboxNotificationKind,
+  title: row.title,
+  body: row.body || undefined,
+  link: row.link || undefined,
+  readAt: row.read_at || undefined,
+  createdAt: row.created_at,
+});
+
+// --- Queries ---
+
+export const fetchNotifications = async (userId: string, limit: number = 100): Promise<InboxNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('Error fetching notifications:', error);
+    return [];
+  }
+  return (data || []).map(mapNotification);
+};
+
+// Calls onInsert for each notification delivered to the user while subscribed. Returns the unsubscribe function.
+export const subscribeToNotifications = (userId: string, onInsert: (notification: InboxNotification) => void) => {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      payload => onInsert(mapNotification(payload.new))
+    )
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+export const markNotificationsRead = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from('notifications').update({ read_at: new Date().toISOString() }).in('id', ids);
+  if (error) throw error;
+};
+
+export const deleteNotification = async (id: string) => {
+  const { error } = await supabase.from('notifications').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Admin ---
+
+// Approvals and rejections are notified by database triggers; comments are sent from the admin dashboard.
+export const sendComment = async (userId: string, courseTitle: string, message: string) => {
+  const { error } = await supabase.from('notifications').insert({
+    user_id: userId,
+    kind: 'comment',
+    title: `Comment on ${courseTitle}`,
+    body: message.trim(),
+    link: '/dashboard',
+  });
+  if (error) throw error;
+};
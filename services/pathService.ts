@@ -0,0 +1,112 @@
+import { supabase } from '../supabaseClient';
+import { Course, LearningPath, User } from '../types';
+
+export interface PathProgress {
+  completed: number;
+  total: number;
+  percent: number;
+  nextCourseId?: string; // First program in order that is not completed yet
+  isComplete: boolean;
+}
+
+// --- Mapping ---
+
+const mapPath = (row: any): LearningPath => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  courseIds: [...(row.learning_path_courses || [])]
+    .sort((a: any, b: any) => a.position - b.position)
+    .map((link: any) => link.course_id),
+  certificateTemplateId: row.certificate_template || undefined,
+});
+
+// --- Queries ---
+
+export const fetchLearningPaths = async (): Promise<LearningPath[]> => {
+  const { data, error } = await supabase
+    .from('learning_paths')
+    .select('*, learning_path_courses(course_id, position)')
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching learning paths:', error);
+    return [];
+  }
+  return (data || []).map(mapPath);
+};
+
+// Every course's prerequisite ids, keyed by course id.
+export const fetchPrerequisitesByCourse = async () => {
+  const { data, error } = await supabase.from('course_prerequisites').select('course_id, prerequisite_id');
+  const byCourse: { [courseId: string]: string[] } = {};
+  if (error) {
+    console.error('Error fetching prerequisites:', error);
+    return byCourse;
+  }
+  data?.forEach((row: any) => {
+    (byCourse[row.course_id] = byCourse[row.course_id] || []).push(row.prerequisite_id);
+  });
+  return byCourse;
+};
+
+// --- Progress ---
+
+// Prerequisites of a program the user has not completed yet, in catalog order.
+export const getMissingPrerequisites = (course: Course, user: User | null, courses: Course[]) =>
+  courses.filter(c => course.prerequisiteIds?.includes(c.id) && !user?.completedCourseIds.includes(c.id));
+
+export const getPathProgress = (path: LearningPath, user: User | null): PathProgress => {
+  const completed = path.courseIds.filter(id => user?.completedCourseIds.includes(id)).length;
+  const total = path.courseIds.length;
+  return {
+    completed,
+    total,
+    percent: total ? Math.round((completed / total) * 100) : 0,
+    nextCourseId: path.courseIds.find(id => !user?.completedCourseIds.includes(id)),
+    isComplete: total > 0 && completed === total,
+  };
+};
+
+// Paths the user has started: registered for at least one of their programs.
+export const getStartedPaths = (paths: LearningPath[], user: User) =>
+  paths.filter(p => p.courseIds.some(id => user.registeredCourseIds.includes(id)));
+
+// --- Admin ---
+
+export const saveCoursePrerequisites = async (courseId: string, prerequisiteIds: string[]) => {
+  const { error: deleteError } = await supabase.from('course_prerequisites').delete().eq('course_id', courseId);
+  if (deleteError) throw deleteError;
+  if (prerequisiteIds.length === 0) return;
+  const { error } = await supabase
+    .from('course_prerequisites')
+    .insert(prerequisiteIds.map(prerequisiteId => ({ course_id: courseId, prerequisite_id: prerequisiteId })));
+  if (error) throw error;
+};
+
+// Creates or updates a path and replaces its ordered programs.
+export const saveLearningPath = async (path: LearningPath) => {
+  const { error } = await supabase.from('learning_paths').upsert({
+    id: path.id,
+    title: path.title,
+    description: path.description,
+    certificate_template: path.certificateTemplateId || null,
+  });
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase.from('learning_path_courses').delete().eq('path_id', path.id);
+  if (deleteError) throw deleteError;
+  if (path.courseIds.length === 0) return;
+  const { error: insertError } = await supabase
+    .from('learning_path_courses')
+    .insert(path.courseIds.map((courseId, position) => ({ path_id: path.id, course_id: courseId, position })));
+  if (insertError) throw insertError;
+};
+
+export const deleteLearningPath = async (pathId: string) => {
+  const { error } = await supabase.from('learning_paths').delete().eq('id', pathId);
+  if (error) {
+    // Issued certificates keep a reference to their path
+    if (error.code === '23503') throw new Error('This path has issued certificates and cannot be deleted.');
+    throw error;
+  }
+};
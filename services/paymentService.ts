@@ -0,0 +1,173 @@
+import { supabase, invokeFunction } from '../supabaseClient';
+import { Course, Order, OrderStatus, PaymentMethod, User } from '../types';
+import { createPdfDocument } from './pdfDocument';
+
+interface PaymentMethodOption {
+  id: PaymentMethod;
+  label: string;
+  description: string;
+  devOnly?: boolean;
+}
+
+export const PAYMENT_METHODS: PaymentMethodOption[] = [
+  { id: 'mobile_money', label: 'Mobile Money', description: 'MTN MoMo, Telecel Cash or AirtelTigo Money' },
+  { id: 'card', label: 'Debit / Credit Card', description: 'Visa, Mastercard and Verve cards' },
+  { id: 'mock', label: 'Test Payment', description: 'Simulated provider for development and testing', devOnly: true },
+];
+
+// The mock provider is only offered when explicitly enabled for this build.
+export const isMockPaymentsEnabled = () => process.env.ENABLE_MOCK_PAYMENTS === 'true';
+
+export interface CheckoutSession {
+  orderId?: string;
+  reference?: string;
+  checkoutUrl?: string; // Hosted provider page. Absent for the mock provider.
+  enrolled?: boolean; // Set instead of an order when a coupon covers the full price
+}
+
+// --- Mapping ---
+
+const mapOrder = (row: any): Order => {
+  // Latest payment attempt wins when an order was retried
+  const payment = (row.payments || []).sort((a: any, b: any) => (a.created_at < b.created_at ? 1 : -1))[0];
+  return {
+    id: row.id,
+    userId: row.user_id,
+    courseId: row.course_id,
+    amount: Number(row.amount),
+    currency: row.currency,
+    status: row.status as OrderStatus,
+    invoiceNumber: row.invoice_number,
+    method: payment?.method,
+    reference: payment?.reference,
+    originalAmount: row.original_amount !== null ? Number(row.original_amount) : undefined,
+    discountAmount: Number(row.discount_amount) || 0,
+    couponCode: row.coupon_code || undefined,
+    createdAt: row.created_at,
+    paidAt: row.paid_at || undefined,
+  };
+};
+
+// --- Checkout ---
+
+// Prices are resolved server-side; the client only says what it wants to buy.
+export const startCheckout = (courseId: string, method: PaymentMethod, couponCode?: string, cohortId?: string) =>
+  invokeFunction<CheckoutSession>('create-checkout', { courseId, method, couponCode, cohortId, callbackUrl: window.location.origin });
+
+// Drives the same webhook endpoint a real provider would call.
+export const completeMockPayment = async (reference: string, succeeded: boolean) => {
+  await invokeFunction('payment-webhook?provider=mock', { reference, status: succeeded ? 'succeeded' : 'failed' });
+};
+
+// --- Queries ---
+
+export const fetchOrder = async (orderId: string) => {
+  const { data, error } = await supabase.from('orders').select('*, payments(*)').eq('id', orderId).maybeSingle();
+  if (error) throw error;
+  return data ? mapOrder(data) : null;
+};
+
+// All orders for one user, or every order when no user is given (admins only under RLS).
+export const fetchOrders = async (userId?: string) => {
+  let query = supabase.from('orders').select('*, payments(*)').order('created_at', { ascending: false });
+  if (userId) query = query.eq('user_id', userId);
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching orders:', error);
+    return [];
+  }
+  return (data || []).map(mapOrder);
+};
+
+// --- Reporting ---
+
+export interface CourseRevenue {
+  courseId: string;
+  title: string;
+  paidOrders: number;
+  revenue: number;
+}
+
+export const summarizeRevenue = (orders: Order[], courses: Course[]): CourseRevenue[] => {
+  const byCourse: { [courseId: string]: CourseRevenue } = {};
+  orders.filter(o => o.status === 'paid').forEach(o => {
+    const entry = byCourse[o.courseId] = byCourse[o.courseId] || {
+      courseId: o.courseId,
+      title: courses.find(c => c.id === o.courseId)?.title || o.courseId,
+      paidOrders: 0,
+      revenue: 0,
+    };
+    entry.paidOrders += 1;
+    entry.revenue += o.amount;
+  });
+  return Object.values(byCourse).sort((a, b) => b.revenue - a.revenue);
+};
+
+export const formatAmount = (amount: number) =>
+  `GHC ${amount.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// --- Documents ---
+
+const INDIGO: [number, number, number] = [49, 46, 129];
+const GRAY: [number, number, number] = [107, 114, 128];
+
+// A paid order renders as a receipt, anything else as an invoice.
+export const buildReceiptPdf = (order: Order, course: Course | undefined, user: Pick<User, 'name' | 'email'>) => {
+  const isReceipt = order.status === 'paid';
+  const doc = createPdfDocument(595.28, 841.89); // A4 portrait
+  const left = 56;
+  const right = doc.width - 56;
+
+  doc.rect(0, 0, doc.width, 110, { fill: INDIGO });
+  doc.text('Deepmetrics Analytics Institute', left, 52, { size: 20, font: 'helvetica-bold', color: [255, 255, 255] });
+  doc.text('Accra, Ghana · deepmetricsanalyticsinstitute@gmail.com', left, 76, { size: 10, color: [199, 210, 254] });
+  doc.text(isReceipt ? 'RECEIPT' : 'INVOICE', right, 60, { size: 22, font: 'helvetica-bold', color: [255, 255, 255], align: 'right' });
+
+  let y = 160;
+  doc.text('Billed To', left, y, { size: 10, color: GRAY });
+  doc.text(isReceipt ? 'Receipt Details' : 'Invoice Details', right, y, { size: 10, color: GRAY, align: 'right' });
+  y += 18;
+  doc.text(user.name, left, y, { size: 12, font: 'helvetica-bold' });
+  doc.text(`No. ${order.invoiceNumber}`, right, y, { size: 12, font: 'helvetica-bold', align: 'right' });
+  y += 16;
+  doc.text(user.email, left, y, { size: 10 });
+  doc.text(`Issued ${new Date(order.createdAt).toLocaleDateString('en-GB')}`, right, y, { size: 10, align: 'right' });
+  if (order.paidAt) {
+    y += 14;
+    doc.text(`Paid ${new Date(order.paidAt).toLocaleDateString('en-GB')}`, right, y, { size: 10, align: 'right' });
+  }
+
+  y += 50;
+  doc.rect(left, y, right - left, 26, { fill: [243, 244, 246] });
+  doc.text('Description', left + 10, y + 17, { size: 10, font: 'helvetica-bold' });
+  doc.text('Amount', right - 10, y + 17, { size: 10, font: 'helvetica-bold', align: 'right' });
+  y += 48;
+  doc.text(course?.title || order.courseId, left + 10, y, { size: 11 });
+  doc.text(formatAmount(order.originalAmount ?? order.amount), right - 10, y, { size: 11, align: 'right' });
+  if (course) {
+    y += 15;
+    doc.text(`${course.level} · ${course.duration} · Instructor: ${course.instructor}`, left + 10, y, { size: 9, color: GRAY });
+  }
+  if (order.discountAmount) {
+    y += 26;
+    doc.text(`Discount${order.couponCode ? ` (${order.couponCode})` : ''}`, left + 10, y, { size: 11 });
+    doc.text(`- ${formatAmount(order.discountAmount)}`, right - 10, y, { size: 11, align: 'right' });
+  }
+
+  y += 30;
+  doc.line(left, y, right, y, { stroke: [229, 231, 235] });
+  y += 26;
+  doc.text(isReceipt ? 'Total Paid' : 'Total Due', right - 150, y, { size: 12, font: 'helvetica-bold', align: 'right' });
+  doc.text(formatAmount(order.amount), right - 10, y, { size: 12, font: 'helvetica-bold', align: 'right', color: INDIGO });
+
+  if (order.reference) {
+    y += 40;
+    const methodLabel = PAYMENT_METHODS.find(m => m.id === order.method)?.label || 'Online payment';
+    doc.text(`Payment method: ${methodLabel}`, left, y, { size: 10, color: GRAY });
+    doc.text(`Transaction reference: ${order.reference}`, left, y + 14, { size: 10, color: GRAY });
+  }
+
+  doc.text('Thank you for learning with Deepmetrics Analytics Institute.', doc.width / 2, doc.height - 60, { size: 10, color: GRAY, align: 'center' });
+
+  return doc.toBytes();
+};
@@ -0,0 +1,258 @@
+// ------------------------------------------------------------------
+// MINIMAL VECTOR PDF WRITER
+// ------------------------------------------------------------------
+// Produces byte-identical output for identical input, using only the
+// standard 14 PDF fonts so no font files need to be embedded. The writer has
+// no DOM access, so it runs in the browser and in Deno edge functions alike.
+
+export type PdfFont = 'helvetica' | 'helvetica-bold' | 'times' | 'times-bold' | 'times-italic';
+export type PdfAlign = 'left' | 'center' | 'right';
+export type PdfColor = [number, number, number]; // RGB, 0-255
+
+interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: PdfAlign;
+}
+
+interface ShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+// Decoded 8-bit RGBA pixels, row by row.
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Image XObject payload, Flate-compressed once so it can be reused across pages and documents.
+export interface PdfImage {
+  width: number;
+  height: number;
+  rgb: Uint8Array;
+  alpha: Uint8Array;
+}
+
+const FONT_RESOURCES: { [key in PdfFont]: { name: string; baseFont: string } } = {
+  'helvetica': { name: 'F1', baseFont: 'Helvetica' },
+  'helvetica-bold': { name: 'F2', baseFont: 'Helvetica-Bold' },
+  'times': { name: 'F3', baseFont: 'Times-Roman' },
+  'times-bold': { name: 'F4', baseFont: 'Times-Bold' },
+  'times-italic': { name: 'F5', baseFont: 'Times-Italic' },
+};
+
+// AFM advance widths (1/1000 em) for ASCII 32..126.
+const HELVETICA_WIDTHS = [278,278,355,556,556,889,667,191,333,333,389,584,278,333,278,278,556,556,556,556,556,556,556,556,556,556,278,278,584,584,584,556,1015,667,667,722,722,667,611,778,722,278,500,667,556,833,722,778,667,778,722,667,611,722,667,944,667,667,611,278,278,278,469,556,333,556,556,500,556,556,278,556,556,222,222,500,222,833,556,556,556,556,333,500,278,556,500,722,500,500,500,334,260,334,584];
+const HELVETICA_BOLD_WIDTHS = [278,333,474,556,556,889,722,238,333,333,389,584,278,333,278,278,556,556,556,556,556,556,556,556,556,556,333,333,584,584,584,611,975,722,722,722,722,667,611,778,722,278,556,722,611,833,722,778,667,778,722,667,611,722,667,944,667,667,611,333,278,333,584,556,333,556,611,556,611,556,333,611,611,278,278,556,278,889,611,611,611,611,389,556,333,611,556,778,556,556,500,389,280,389,584];
+// Times variants share the roman metrics; the differences are negligible for centring.
+const TIMES_WIDTHS = [250,333,408,500,500,833,778,180,333,333,500,564,250,333,250,278,500,500,500,500,500,500,500,500,500,500,278,278,564,564,564,444,921,722,667,667,722,611,556,722,722,333,389,722,611,889,722,722,556,722,667,556,611,722,722,944,722,722,611,333,278,333,469,500,333,444,500,444,500,444,333,500,500,278,278,500,278,778,500,500,500,500,333,389,278,500,500,722,500,500,444,480,200,480,541];
+
+// AFM advance widths for WinAnsi 0x80..0x9F (curly quotes, dashes, ellipsis, euro...); 0 where the code is unused.
+const HELVETICA_WIN_ANSI_WIDTHS = [556,0,222,556,333,1000,556,556,333,1000,667,333,1000,0,611,0,0,222,222,333,333,350,556,1000,333,1000,500,333,944,0,500,667];
+const HELVETICA_BOLD_WIN_ANSI_WIDTHS = [556,0,278,556,500,1000,556,556,333,1000,667,333,1000,0,611,0,0,278,278,500,500,350,556,1000,333,1000,556,333,944,0,500,667];
+const TIMES_WIN_ANSI_WIDTHS = [500,0,333,500,444,1000,500,500,333,1000,556,333,889,0,611,0,0,333,333,444,444,350,500,1000,333,980,389,333,722,0,444,722];
+
+// Characters WinAnsiEncoding places at 0x80..0x9F instead of the Unicode C1 controls.
+const WIN_ANSI_CODES: { [ch: string]: number } = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b,
+  'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99,
+  'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// The standard fonts have no glyphs outside WinAnsi, and embedding a font would break byte-identical output.
+// Letters used in Ghanaian names and titles print as the closest Latin letter instead.
+const FALLBACK_LETTERS: { [ch: string]: string } = {
+  'Ɛ': 'E', 'ɛ': 'e', 'Ɔ': 'O', 'ɔ': 'o', 'Ŋ': 'N', 'ŋ': 'n', 'Ʋ': 'V', 'ʋ': 'v', 'Ɣ': 'G', 'ɣ': 'g', 'Ɖ': 'D', 'ɖ': 'd',
+};
+
+// The WinAnsi byte a character prints as: itself, a fallback letter (Ɛ → E), the letter without
+// its accents (ā → a), or '?'.
+const toWinAnsi = (ch: string): number => {
+  const code = ch.codePointAt(0) || 0;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  if (WIN_ANSI_CODES[ch] !== undefined) return WIN_ANSI_CODES[ch];
+  const fallback = FALLBACK_LETTERS[ch] || ch.normalize('NFD')[0];
+  return fallback !== ch ? toWinAnsi(fallback) : 63;
+};
+
+const widthTable = (font: PdfFont) =>
+  font === 'helvetica' ? HELVETICA_WIDTHS : font === 'helvetica-bold' ? HELVETICA_BOLD_WIDTHS : TIMES_WIDTHS;
+
+const winAnsiWidthTable = (font: PdfFont) =>
+  font === 'helvetica' ? HELVETICA_WIN_ANSI_WIDTHS : font === 'helvetica-bold' ? HELVETICA_BOLD_WIN_ANSI_WIDTHS : TIMES_WIN_ANSI_WIDTHS;
+
+export const measureText = (text: string, size: number, font: PdfFont = 'helvetica') => {
+  const widths = widthTable(font);
+  let total = 0;
+  for (const ch of text) {
+    const code = toWinAnsi(ch);
+    // Accented Latin-1 letters are as wide as their base letter; other Latin-1 symbols are estimated
+    const base = code >= 160 ? String.fromCharCode(code).normalize('NFD').charCodeAt(0) : code;
+    if (base >= 32 && base <= 126) total += widths[base - 32];
+    else if (code >= 0x80 && code <= 0x9f) total += winAnsiWidthTable(font)[code - 0x80];
+    else total += 556;
+  }
+  return (total / 1000) * size;
+};
+
+// Escapes a string for a PDF literal in WinAnsiEncoding (see toWinAnsi for characters it lacks).
+const escapeText = (text: string) => {
+  let out = '';
+  for (const ch of text) {
+    const code = toWinAnsi(ch);
+    if (code === 40 || code === 41 || code === 92) out += '\\' + String.fromCharCode(code);
+    else if (code >= 32 && code <= 126) out += String.fromCharCode(code);
+    else out += '\\' + code.toString(8).padStart(3, '0');
+  }
+  return out;
+};
+
+const deflate = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+export const createPdfImage = async (raster: RasterImage): Promise<PdfImage> => {
+  const pixels = raster.width * raster.height;
+  const rgb = new Uint8Array(pixels * 3);
+  const alpha = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    rgb[i * 3] = raster.data[i * 4];
+    rgb[i * 3 + 1] = raster.data[i * 4 + 1];
+    rgb[i * 3 + 2] = raster.data[i * 4 + 2];
+    alpha[i] = raster.data[i * 4 + 3];
+  }
+  return { width: raster.width, height: raster.height, rgb: await deflate(rgb), alpha: await deflate(alpha) };
+};
+
+// One character per byte, so binary streams can be spliced into the output string.
+const toBinaryString = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8192) out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  return out;
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const rgb = (c: PdfColor) => c.map(v => num(v / 255)).join(' ');
+
+// Coordinates are in points with the origin at the top-left corner of the page.
+export const createPdfDocument = (pageWidth: number, pageHeight: number) => {
+  const pages: string[][] = [[]];
+  const images: PdfImage[] = [];
+  const current = () => pages[pages.length - 1];
+  const flipY = (y: number) => pageHeight - y;
+
+  const doc = {
+    width: pageWidth,
+    height: pageHeight,
+
+    addPage() {
+      pages.push([]);
+      return doc;
+    },
+
+    text(value: string, x: number, y: number, options: TextOptions = {}) {
+      const { size = 12, font = 'helvetica', color = [0, 0, 0], align = 'left' } = options;
+      const width = measureText(value, size, font);
+      const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+      current().push(`BT /${FONT_RESOURCES[font].name} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(flipY(y))} Td (${escapeText(value)}) Tj ET`);
+      return doc;
+    },
+
+    // Greedy word wrap. Returns the y position below the last line.
+    paragraph(value: string, x: number, y: number, maxWidth: number, options: TextOptions & { lineHeight?: number } = {}) {
+      const { size = 12, font = 'helvetica', lineHeight = size * 1.4 } = options;
+      const lines: string[] = [];
+      let line = '';
+      value.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measureText(candidate, size, font) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      if (line) lines.push(line);
+      lines.forEach((l, i) => doc.text(l, x, y + i * lineHeight, options));
+      return y + lines.length * lineHeight;
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, options: ShapeOptions = {}) {
+      const { stroke = [0, 0, 0], lineWidth = 1 } = options;
+      current().push(`${rgb(stroke)} RG ${num(lineWidth)} w ${num(x1)} ${num(flipY(y1))} m ${num(x2)} ${num(flipY(y2))} l S`);
+      return doc;
+    },
+
+    rect(x: number, y: number, w: number, h: number, options: ShapeOptions = {}) {
+      const { fill, stroke, lineWidth = 1 } = options;
+      const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+      const colors = `${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ` : ''}`;
+      current().push(`${colors}${num(lineWidth)} w ${num(x)} ${num(flipY(y + h))} ${num(w)} ${num(h)} re ${paint}`);
+      return doc;
+    },
+
+    image(image: PdfImage, x: number, y: number, w: number, h: number) {
+      if (!images.includes(image)) images.push(image);
+      current().push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(flipY(y + h))} cm /Im${images.indexOf(image) + 1} Do Q`);
+      return doc;
+    },
+
+    toBytes(): Uint8Array {
+      const objects: string[] = [];
+      const fontEntries = Object.values(FONT_RESOURCES);
+      const fontObjStart = 3;
+      const pageObjStart = fontObjStart + fontEntries.length;
+      const imageObjStart = pageObjStart + pages.length * 2; // Each image is followed by its alpha mask
+
+      objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+      const kids = pages.map((_, i) => `${pageObjStart + i * 2} 0 R`).join(' ');
+      objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+      fontEntries.forEach(f => objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${f.baseFont} /Encoding /WinAnsiEncoding >>`));
+
+      const fontDict = fontEntries.map((f, i) => `/${f.name} ${fontObjStart + i} 0 R`).join(' ');
+      const imageDict = images.length ? ` /XObject << ${images.map((_, i) => `/Im${i + 1} ${imageObjStart + i * 2} 0 R`).join(' ')} >>` : '';
+      pages.forEach((ops, i) => {
+        const content = ops.join('\n');
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /Font << ${fontDict} >>${imageDict} >> /Contents ${pageObjStart + i * 2 + 1} 0 R >>`);
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+      images.forEach((image, i) => {
+        const size = `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /BitsPerComponent 8 /Filter /FlateDecode`;
+        objects.push(`<< ${size} /ColorSpace /DeviceRGB /SMask ${imageObjStart + i * 2 + 1} 0 R /Length ${image.rgb.length} >>\nstream\n${toBinaryString(image.rgb)}\nendstream`);
+        objects.push(`<< ${size} /ColorSpace /DeviceGray /Length ${image.alpha.length} >>\nstream\n${toBinaryString(image.alpha)}\nendstream`);
+      });
+
+      // Every character is a single byte (image streams included), so string length equals byte length
+      let out = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        offsets.push(out.length);
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      });
+      const xrefOffset = out.length;
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      offsets.forEach(o => { out += `${o.toString().padStart(10, '0')} 00000 n \n`; });
+      out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+      const bytes = new Uint8Array(out.length);
+      for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+      return bytes;
+    },
+  };
+
+  return doc;
+};
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
+
+export const downloadBytes = (bytes: Uint8Array, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
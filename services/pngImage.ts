@@ -0,0 +1,78 @@
+// ------------------------------------------------------------------
+// PNG DECODER
+// ------------------------------------------------------------------
+// Decodes the 8-bit, non-interlaced RGB/RGBA PNGs produced by canvas.toDataURL
+// (e.g. processed instructor signatures) into raw pixels for the PDF writer.
+// Uses only web-standard streams, so it runs in the browser and in Deno.
+
+import type { RasterImage } from './pdfDocument.ts';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const inflate = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// Returns null for anything outside the supported subset (palette, 16-bit, interlaced, JPEG, SVG...).
+export const decodePng = async (bytes: Uint8Array): Promise<RasterImage | null> => {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0, height = 0, colorType = -1;
+  const idat: Uint8Array[] = [];
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const body = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      colorType = body[9];
+      if (body[8] !== 8 || body[12] !== 0 || (colorType !== 2 && colorType !== 6)) return null;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!width || !height || idat.length === 0) return null;
+
+  const compressed = new Uint8Array(idat.reduce((sum, c) => sum + c.length, 0));
+  idat.reduce((pos, c) => { compressed.set(c, pos); return pos + c.length; }, 0);
+  const raw = await inflate(compressed);
+
+  const channels = colorType === 6 ? 4 : 3;
+  const stride = width * channels;
+  if (raw.length < height * (stride + 1)) return null;
+
+  // Undo the per-row filters in place, then expand to RGBA
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[out - stride + x - channels] : 0;
+      const predictor = filter === 1 ? left : filter === 2 ? up : filter === 3 ? (left + up) >> 1 : filter === 4 ? paeth(left, up, upLeft) : 0;
+      pixels[out + x] = (row[x] + predictor) & 0xff;
+    }
+  }
+
+  if (channels === 4) return { width, height, data: pixels };
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = pixels[i * 3];
+    data[i * 4 + 1] = pixels[i * 3 + 1];
+    data[i * 4 + 2] = pixels[i * 3 + 2];
+    data[i * 4 + 3] = 255;
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,114 @@
+import { supabase } from '../supabaseClient';
+import { Course, Lesson } from '../types';
+import { getAllLessons } from './curriculumService';
+
+// Share of a video that must be watched before its lesson completes automatically.
+export const VIDEO_COMPLETION_THRESHOLD = 0.9;
+
+export interface LessonProgressSummary {
+  completedLessonIds: { [courseId: string]: string[] };
+  resumeLesson?: { courseId: string; lessonId: string };
+}
+
+// --- Queries ---
+
+export const fetchLessonProgress = async (userId: string): Promise<LessonProgressSummary> => {
+  const { data, error } = await supabase
+    .from('lesson_progress')
+    .select('*')
+    .eq('user_id', userId)
+    .order('last_viewed_at', { ascending: false });
+
+  const summary: LessonProgressSummary = { completedLessonIds: {} };
+  if (error) {
+    console.error('Error fetching lesson progress:', error);
+    return summary;
+  }
+
+  data?.forEach((row: any) => {
+    if (row.completed_at) {
+      (summary.completedLessonIds[row.course_id] = summary.completedLessonIds[row.course_id] || []).push(row.lesson_id);
+    }
+  });
+
+  // Rows are newest first, so the first viewed lesson is where the student left off
+  const latest = data?.find((row: any) => row.last_viewed_at);
+  if (latest) summary.resumeLesson = { courseId: latest.course_id, lessonId: latest.lesson_id };
+
+  return summary;
+};
+
+// --- Mutations ---
+
+export const setLessonCompleted = async (userId: string, courseId: string, lessonId: string, completed: boolean) => {
+  const { error } = await supabase.from('lesson_progress').upsert({
+    user_id: userId,
+    course_id: courseId,
+    lesson_id: lessonId,
+    completed_at: completed ? new Date().toISOString() : null,
+  }, { onConflict: 'user_id,lesson_id' });
+  if (error) throw error;
+};
+
+export const recordLessonView = async (userId: string, courseId: string, lessonId: string) => {
+  const { error } = await supabase.from('lesson_progress').upsert({
+    user_id: userId,
+    course_id: courseId,
+    lesson_id: lessonId,
+    last_viewed_at: new Date().toISOString(),
+  }, { onConflict: 'user_id,lesson_id' });
+  if (error) console.error('Failed to record lesson view', error);
+};
+
+// Stores the spans of the video the student actually played; the database merges them with earlier
+// sittings into watched_seconds. Returns true when the lesson was completed by this call.
+export const recordVideoWatchTime = async (
+  userId: string,
+  courseId: string,
+  lessonId: string,
+  playedRanges: [number, number][],
+  durationSeconds: number
+) => {
+  const { data, error } = await supabase.from('lesson_progress').upsert({
+    user_id: userId,
+    course_id: courseId,
+    lesson_id: lessonId,
+    watched_ranges: playedRanges,
+    last_viewed_at: new Date().toISOString(),
+  }, { onConflict: 'user_id,lesson_id' }).select('watched_seconds, completed_at').single();
+  if (error) {
+    console.error('Failed to record watch time', error);
+    return false;
+  }
+
+  const reachedThreshold = durationSeconds > 0 && data.watched_seconds / durationSeconds >= VIDEO_COMPLETION_THRESHOLD;
+  if (!reachedThreshold || data.completed_at) return false;
+  const { error: completeError } = await supabase
+    .from('lesson_progress')
+    .update({ completed_at: new Date().toISOString() })
+    .match({ user_id: userId, lesson_id: lessonId });
+  if (completeError) {
+    console.error('Failed to complete lesson', completeError);
+    return false;
+  }
+  return true;
+};
+
+// --- Helpers ---
+
+// Percentage of lessons completed. Courses without a curriculum keep their stored value.
+export const computeCourseProgress = (course: Course | undefined, completedLessonIds: string[] = [], fallback: number = 0) => {
+  const lessons = getAllLessons(course?.curriculum);
+  if (lessons.length === 0) return fallback;
+  const done = lessons.filter(l => completedLessonIds.includes(l.id)).length;
+  return Math.round((done / lessons.length) * 100);
+};
+
+export const findLesson = (course: Course | undefined, lessonId: string): Lesson | undefined =>
+  getAllLessons(course?.curriculum).find(l => l.id === lessonId);
+
+// Lessons in the student's enrolled courses that play the given gallery video.
+export const findLessonsForVideo = (courses: Course[], enrolledCourseIds: string[], videoId: string) =>
+  courses
+    .filter(c => enrolledCourseIds.includes(c.id))
+    .flatMap(c => getAllLessons(c.curriculum).filter(l => l.videoId === videoId).map(lesson => ({ course: c, lesson })));
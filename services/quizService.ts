@@ -0,0 +1,256 @@
+import { supabase } from '../supabaseClient';
+import { Quiz, QuizAttempt, QuizQuestion, QuizResponse, QuestionKind } from '../types';
+
+export const QUESTION_KINDS: { id: QuestionKind; label: string }[] = [
+  { id: 'single', label: 'Multiple choice' },
+  { id: 'multiple', label: 'Multi-select' },
+  { id: 'numeric', label: 'Numeric answer' },
+  { id: 'text', label: 'Short text' },
+];
+
+// --- Helpers ---
+
+export const createQuestion = (quizId: string, kind: QuestionKind = 'single'): QuizQuestion => {
+  const options = kind === 'single' || kind === 'multiple'
+    ? [{ id: crypto.randomUUID(), text: '' }, { id: crypto.randomUUID(), text: '' }]
+    : [];
+  return {
+    id: crypto.randomUUID(),
+    quizId,
+    kind,
+    prompt: '',
+    options,
+    answer: kind === 'numeric' ? { value: 0, tolerance: 0 } : kind === 'text' ? { accepted: [] } : { optionIds: [] },
+    points: 1,
+    position: 0,
+  };
+};
+
+// Returns what is missing from a question, or null when it can be saved.
+export const validateQuestion = (question: QuizQuestion): string | null => {
+  if (!question.prompt.trim()) return 'Every question needs a prompt.';
+  if (question.points <= 0) return 'Questions must be worth at least one point.';
+  const answer = question.answer || {};
+  switch (question.kind) {
+    case 'single':
+    case 'multiple':
+      if (question.options.length < 2 || question.options.some(o => !o.text.trim())) return `"${question.prompt}" needs at least two filled-in options.`;
+      if (!answer.optionIds?.length) return `Mark the correct option for "${question.prompt}".`;
+      if (question.kind === 'single' && answer.optionIds.length > 1) return `"${question.prompt}" can only have one correct option.`;
+      return null;
+    case 'numeric':
+      return typeof answer.value === 'number' && !Number.isNaN(answer.value) ? null : `Enter the numeric answer for "${question.prompt}".`;
+    case 'text':
+      return answer.accepted?.some(a => a.trim()) ? null : `Add at least one accepted answer for "${question.prompt}".`;
+  }
+};
+
+export const getSubmittedAttempts = (quizId: string, attempts: QuizAttempt[]) =>
+  attempts.filter(a => a.quizId === quizId && a.submittedAt);
+
+export const getBestAttempt = (quizId: string, attempts: QuizAttempt[]) =>
+  getSubmittedAttempts(quizId, attempts).reduce<QuizAttempt | undefined>(
+    (best, a) => (!best || (a.percent || 0) > (best.percent || 0) ? a : best),
+    undefined
+  );
+
+// Unset when the quiz allows unlimited attempts.
+export const getAttemptsLeft = (quiz: Quiz, attempts: QuizAttempt[]) =>
+  quiz.maxAttempts ? Math.max(0, quiz.maxAttempts - attempts.filter(a => a.quizId === quiz.id).length) : undefined;
+
+// True when every quiz has a passing attempt.
+export const hasPassedAllQuizzes = (quizzes: Quiz[], attempts: QuizAttempt[]) =>
+  quizzes.every(q => attempts.some(a => a.quizId === q.id && a.passed));
+
+export const isAnswered = (response?: QuizResponse) =>
+  Array.isArray(response) ? response.length > 0 : typeof response === 'number' ? !Number.isNaN(response) : !!response?.trim();
+
+// --- Mapping ---
+
+const mapQuiz = (row: any): Quiz => ({
+  id: row.id,
+  courseId: row.course_id,
+  lessonId: row.lesson_id || undefined,
+  title: row.title,
+  description: row.description || '',
+  questionsPerAttempt: row.questions_per_attempt ?? undefined,
+  shuffleQuestions: !!row.shuffle_questions,
+  timeLimitMinutes: row.time_limit_minutes ?? undefined,
+  maxAttempts: row.max_attempts ?? undefined,
+  passPercent: Number(row.pass_percent) || 0,
+  position: row.position,
+});
+
+const mapQuestion = (row: any): QuizQuestion => ({
+  id: row.id,
+  quizId: row.quiz_id,
+  kind: row.kind as QuestionKind,
+  prompt: row.prompt,
+  options: row.options || [],
+  answer: row.answer || undefined,
+  points: Number(row.points) || 0,
+  position: row.position ?? 0,
+});
+
+const mapAttempt = (row: any): QuizAttempt => ({
+  id: row.id,
+  quizId: row.quiz_id,
+  userId: row.user_id,
+  studentName: row.profiles?.name || undefined,
+  questionIds: row.question_ids || [],
+  answers: row.answers || {},
+  results: row.results || {},
+  startedAt: row.started_at,
+  expiresAt: row.expires_at || undefined,
+  submittedAt: row.submitted_at || undefined,
+  score: row.score ?? undefined,
+  maxScore: row.max_score ?? undefined,
+  percent: row.percent ?? undefined,
+  passed: row.passed ?? undefined,
+});
+
+// --- Queries ---
+
+export const fetchQuizzes = async (courseId: string): Promise<Quiz[]> => {
+  const { data, error } = await supabase
+    .from('quizzes')
+    .select('*')
+    .eq('course_id', courseId)
+    .order('position', { ascending: true });
+  if (error) {
+    console.error('Error fetching quizzes:', error);
+    return [];
+  }
+  return (data || []).map(mapQuiz);
+};
+
+// The signed-in student's attempts for a course, newest first (RLS limits students to their own).
+export const fetchMyAttempts = async (userId: string, courseId: string): Promise<QuizAttempt[]> => {
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .select('*')
+    .match({ user_id: userId, course_id: courseId })
+    .order('started_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching quiz attempts:', error);
+    return [];
+  }
+  return (data || []).map(mapAttempt);
+};
+
+// Starts (or resumes) an attempt; the questions come back without their answers.
+export const startQuizAttempt = async (quizId: string) => {
+  const { data, error } = await supabase.rpc('start_quiz_attempt', { target_quiz: quizId });
+  if (error) throw error;
+  return {
+    attempt: mapAttempt(data.attempt),
+    questions: (data.questions || []).map((q: any) => mapQuestion({ ...q, quiz_id: quizId })) as QuizQuestion[],
+  };
+};
+
+// Grading happens in the database so the answer key never reaches the browser.
+export const submitQuizAttempt = async (attemptId: string, answers: QuizAttempt['answers']) => {
+  const { data, error } = await supabase.rpc('submit_quiz_attempt', { target_attempt: attemptId, submitted_answers: answers });
+  if (error) throw error;
+  return mapAttempt(data);
+};
+
+// --- Admin ---
+
+export const saveQuiz = async (quiz: Quiz): Promise<Quiz> => {
+  const row = {
+    course_id: quiz.courseId,
+    lesson_id: quiz.lessonId || null,
+    title: quiz.title.trim(),
+    description: quiz.description,
+    questions_per_attempt: quiz.questionsPerAttempt || null,
+    shuffle_questions: quiz.shuffleQuestions,
+    time_limit_minutes: quiz.timeLimitMinutes || null,
+    max_attempts: quiz.maxAttempts || null,
+    pass_percent: quiz.passPercent,
+    position: quiz.position,
+  };
+  const { data, error } = quiz.id
+    ? await supabase.from('quizzes').update(row).eq('id', quiz.id).select().single()
+    : await supabase.from('quizzes').insert(row).select().single();
+  if (error) throw error;
+  return mapQuiz(data);
+};
+
+// Questions and attempts are removed with the quiz (on delete cascade).
+export const deleteQuiz = async (id: string) => {
+  const { error } = await supabase.from('quizzes').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const fetchQuestions = async (quizId: string): Promise<QuizQuestion[]> => {
+  const { data, error } = await supabase
+    .from('quiz_questions')
+    .select('*')
+    .eq('quiz_id', quizId)
+    .order('position', { ascending: true });
+  if (error) {
+    console.error('Error fetching quiz questions:', error);
+    return [];
+  }
+  return (data || []).map(mapQuestion);
+};
+
+// Stores only the part of the answer key that applies to the question's kind.
+const toAnswerRow = (question: QuizQuestion) => {
+  const answer = question.answer || {};
+  switch (question.kind) {
+    case 'single':
+    case 'multiple':
+      return { optionIds: (answer.optionIds || []).filter(id => question.options.some(o => o.id === id)) };
+    case 'numeric':
+      return { value: answer.value, tolerance: answer.tolerance || 0 };
+    case 'text':
+      return { accepted: (answer.accepted || []).map(a => a.trim()).filter(Boolean) };
+  }
+};
+
+// Replaces a quiz's question bank, keeping ids stable so past attempts still resolve their questions.
+export const saveQuestions = async (quizId: string, questions: QuizQuestion[]) => {
+  const { data: existing, error: fetchError } = await supabase.from('quiz_questions').select('id').eq('quiz_id', quizId);
+  if (fetchError) throw fetchError;
+
+  const keptIds = new Set(questions.map(q => q.id));
+  const staleIds = (existing || []).map((q: any) => q.id).filter((id: string) => !keptIds.has(id));
+  if (staleIds.length > 0) {
+    const { error } = await supabase.from('quiz_questions').delete().in('id', staleIds);
+    if (error) throw error;
+  }
+  if (questions.length === 0) return;
+
+  const { error } = await supabase.from('quiz_questions').upsert(questions.map((q, position) => ({
+    id: q.id,
+    quiz_id: quizId,
+    kind: q.kind,
+    prompt: q.prompt.trim(),
+    options: q.kind === 'single' || q.kind === 'multiple' ? q.options.map(o => ({ id: o.id, text: o.text.trim() })) : [],
+    answer: toAnswerRow(q),
+    points: q.points,
+    position,
+  })));
+  if (error) throw error;
+};
+
+export const fetchQuizAttempts = async (quizId: string): Promise<QuizAttempt[]> => {
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .select('*, profiles!quiz_attempts_user_id_fkey(name)')
+    .eq('quiz_id', quizId)
+    .order('started_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching quiz attempts:', error);
+    return [];
+  }
+  return (data || []).map(mapAttempt);
+};
+
+// Clears a student's attempts so they can start over, e.g. after running out.
+export const resetQuizAttempts = async (quizId: string, userId: string) => {
+  const { error } = await supabase.from('quiz_attempts').delete().match({ quiz_id: quizId, user_id: userId });
+  if (error) throw error;
+};
@@ -0,0 +1,104 @@
+import { supabase } from '../supabaseClient';
+import { CourseRating, RatingStatus } from '../types';
+
+export const RATING_STATUS_LABELS: { [status in RatingStatus]: string } = {
+  published: 'Published',
+  flagged: 'Flagged',
+  hidden: 'Hidden',
+};
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+// --- Mapping ---
+
+const mapRating = (row: any): CourseRating => ({
+  id: row.id,
+  courseId: row.course_id,
+  userId: row.user_id,
+  reviewerName: row.profiles?.name || 'Student',
+  rating: row.rating,
+  body: row.body || undefined,
+  status: row.status,
+  moderationNote: row.moderation_note || undefined,
+  moderatedAt: row.moderated_at || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// --- Queries ---
+
+// Published ratings per course, keyed by course id. Readable by visitors through a summary RPC.
+export const fetchRatingSummaries = async () => {
+  const { data, error } = await supabase.rpc('course_rating_summaries');
+  const byCourse: { [courseId: string]: RatingSummary } = {};
+  if (error) {
+    console.error('Error fetching rating summaries:', error);
+    return byCourse;
+  }
+  data?.forEach((row: any) => {
+    byCourse[row.course_id] = { average: Number(row.average_rating) || 0, count: Number(row.ratings) || 0 };
+  });
+  return byCourse;
+};
+
+// Reviews of one course, newest first: the published ones, plus the viewer's own whatever its status.
+export const fetchCourseRatings = async (courseId: string): Promise<CourseRating[]> => {
+  const { data, error } = await supabase
+    .from('course_ratings')
+    .select('*, profiles!course_ratings_user_id_fkey(name)')
+    .eq('course_id', courseId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching ratings:', error);
+    return [];
+  }
+  return (data || []).map(mapRating);
+};
+
+// Count of published ratings per star, 5 down to 1.
+export const getRatingDistribution = (ratings: CourseRating[]) =>
+  [5, 4, 3, 2, 1].map(stars => ({ stars, count: ratings.filter(r => r.status === 'published' && r.rating === stars).length }));
+
+// e.g. "4.6"
+export const formatAverageRating = (average: number) => average.toFixed(1);
+
+// --- Writing ---
+
+// One review per student and course; saving again replaces it. The database only accepts graduates.
+export const saveRating = async (courseId: string, userId: string, rating: number, body: string) => {
+  const { error } = await supabase
+    .from('course_ratings')
+    .upsert({ course_id: courseId, user_id: userId, rating, body: body.trim() || null }, { onConflict: 'course_id,user_id' });
+  if (error) throw error;
+};
+
+export const deleteRating = async (ratingId: string) => {
+  const { error } = await supabase.from('course_ratings').delete().eq('id', ratingId);
+  if (error) throw error;
+};
+
+// --- Admin ---
+
+export const fetchRatingsForModeration = async (filters: { status?: RatingStatus; courseId?: string } = {}): Promise<CourseRating[]> => {
+  let query = supabase.from('course_ratings').select('*, profiles!course_ratings_user_id_fkey(name)').order('created_at', { ascending: false });
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.courseId) query = query.eq('course_id', filters.courseId);
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching ratings for moderation:', error);
+    return [];
+  }
+  return (data || []).map(mapRating);
+};
+
+// Flagging asks the author to revise; hiding removes the review for good. The note is shown to the author.
+export const moderateRating = async (ratingId: string, status: RatingStatus, note: string) => {
+  const { error } = await supabase
+    .from('course_ratings')
+    .update({ status, moderation_note: status === 'published' ? null : note.trim() || null })
+    .eq('id', ratingId);
+  if (error) throw error;
+};
@@ -0,0 +1,79 @@
+import { supabase } from '../supabaseClient';
+import { CompletionReview, EnrollmentStatus, EnrollmentStatusChange, ReviewChecklistItem } from '../types';
+
+// Offered on every review; admins can untick, remove or add items.
+export const DEFAULT_REVIEW_CHECKLIST = [
+  'All lessons completed',
+  'Assignments and projects submitted',
+  'Final assessment passed',
+];
+
+export const STATUS_LABELS: { [status in EnrollmentStatus]: string } = {
+  registered: 'Registered',
+  pending: 'Completion requested',
+  rejected: 'Rejected',
+  completed: 'Completed',
+};
+
+// --- Mapping ---
+
+const mapChecklist = (value: any): ReviewChecklistItem[] =>
+  Array.isArray(value) ? value.map((item: any) => ({ label: String(item.label), met: !!item.met })) : [];
+
+// The latest review stored on an enrollment row, if it was ever reviewed.
+export const mapCompletionReview = (row: any): CompletionReview | undefined =>
+  row.reviewed_at && row.review_status
+    ? { status: row.review_status, note: row.review_note || undefined, checklist: mapChecklist(row.review_checklist), reviewedAt: row.reviewed_at }
+    : undefined;
+
+const mapStatusChange = (row: any): EnrollmentStatusChange => ({
+  id: String(row.id),
+  fromStatus: row.from_status || undefined,
+  toStatus: row.to_status,
+  actorName: row.profiles?.name || undefined,
+  note: row.note || undefined,
+  checklist: mapChecklist(row.checklist),
+  createdAt: row.created_at,
+});
+
+// --- Queries ---
+
+export const fetchStatusHistory = async (userId: string, courseId: string): Promise<EnrollmentStatusChange[]> => {
+  const { data, error } = await supabase
+    .from('enrollment_status_history')
+    .select('*, profiles(name), enrollments!inner(user_id, course_id)')
+    .eq('enrollments.user_id', userId)
+    .eq('enrollments.course_id', courseId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching enrollment history:', error);
+    return [];
+  }
+  return (data || []).map(mapStatusChange);
+};
+
+// --- Admin ---
+
+// The status-history trigger copies the note and checklist into the enrollment's history.
+export const submitCompletionReview = async (
+  userId: string,
+  courseId: string,
+  decision: CompletionReview['status'],
+  note: string,
+  checklist: ReviewChecklistItem[]
+) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('enrollments')
+    .update({
+      status: decision,
+      ...(decision === 'completed' ? { progress: 100 } : {}),
+      review_status: decision,
+      review_note: note.trim() || null,
+      review_checklist: checklist,
+      reviewed_by: user?.id,
+      reviewed_at: new Date().toISOString(),
+    })
+    .match({ user_id: userId, course_id: courseId });
+  if (error) throw error;
+};
@@ -0,0 +1,79 @@
+import { supabase, uploadToStorage, getSignedUrl, deleteFromStorage } from '../supabaseClient';
+import { Course, Signatory } from '../types';
+
+// --- Mapping ---
+
+const mapSignatory = async (row: any): Promise<Signatory> => ({
+  id: row.id,
+  name: row.name,
+  title: row.title || '',
+  signaturePath: row.signature_image || undefined,
+  signatureImage: row.signature_image ? await getSignedUrl(row.signature_image) : undefined,
+});
+
+// --- Queries ---
+
+export const fetchSignatories = async (): Promise<Signatory[]> => {
+  const { data, error } = await supabase.from('signatories').select('*').order('name');
+  if (error) {
+    console.error('Error fetching signatories:', error);
+    return [];
+  }
+  return Promise.all((data || []).map(mapSignatory));
+};
+
+// Every course's signatory ids in signing order, keyed by course id.
+export const fetchSignatoryIdsByCourse = async () => {
+  const { data, error } = await supabase
+    .from('course_signatories')
+    .select('course_id, signatory_id')
+    .order('position', { ascending: true });
+
+  const byCourse: { [courseId: string]: string[] } = {};
+  if (error) {
+    console.error('Error fetching course signatories:', error);
+    return byCourse;
+  }
+  data?.forEach((row: any) => {
+    (byCourse[row.course_id] = byCourse[row.course_id] || []).push(row.signatory_id);
+  });
+  return byCourse;
+};
+
+// Resolves a course's signatory ids against the registry, skipping any that were deleted.
+export const getCourseSignatories = (course: Pick<Course, 'signatoryIds'>, signatories: Signatory[]) =>
+  (course.signatoryIds || []).map(id => signatories.find(s => s.id === id)).filter((s): s is Signatory => !!s);
+
+// --- Admin ---
+
+// Inserts when the signatory has no id yet, otherwise updates it in place.
+export const saveSignatory = async (signatory: Signatory): Promise<Signatory> => {
+  const row = { name: signatory.name.trim(), title: signatory.title.trim(), signature_image: signatory.signaturePath || null };
+  const { data, error } = signatory.id
+    ? await supabase.from('signatories').update(row).eq('id', signatory.id).select().single()
+    : await supabase.from('signatories').insert(row).select().single();
+  if (error) throw error;
+  return mapSignatory(data);
+};
+
+// Course assignments are removed with the signatory (on delete cascade).
+export const deleteSignatory = async (signatory: Signatory) => {
+  const { error } = await supabase.from('signatories').delete().eq('id', signatory.id);
+  if (error) throw error;
+  if (signatory.signaturePath) await deleteFromStorage(signatory.signaturePath);
+};
+
+// Signatures must be PNG so the render-certificates function can embed them.
+export const uploadSignature = async (png: File, signatoryKey: string) =>
+  uploadToStorage(png, 'signatures', signatoryKey);
+
+// Replaces a course's signatories, keeping the given order.
+export const saveCourseSignatories = async (courseId: string, signatoryIds: string[]) => {
+  const { error: deleteError } = await supabase.from('course_signatories').delete().eq('course_id', courseId);
+  if (deleteError) throw deleteError;
+  if (signatoryIds.length === 0) return;
+  const { error } = await supabase
+    .from('course_signatories')
+    .insert(signatoryIds.map((signatoryId, position) => ({ course_id: courseId, signatory_id: signatoryId, position })));
+  if (error) throw error;
+};
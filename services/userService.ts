@@ -0,0 +1,91 @@
+import { supabase, invokeFunction } from '../supabaseClient';
+import { Course, EnrollmentStatus, ManagedUser, User, UserAction, UserProfile, UserRole } from '../types';
+
+export const USER_ROLES: { id: UserRole; label: string; description: string }[] = [
+  { id: 'student', label: 'Student', description: 'Registers for programs and requests completion.' },
+  { id: 'instructor', label: 'Instructor', description: 'Edits the programs assigned to them, grades their work and reviews their students.' },
+  { id: 'finance', label: 'Finance', description: 'Sees revenue and payments and manages coupons.' },
+  { id: 'admin', label: 'Admin', description: 'Full access, including site content, certificates, email and roles.' },
+];
+
+export const isUserRole = (role: string): role is UserRole => USER_ROLES.some(r => r.id === role);
+
+// --- Permissions ---
+// The UI mirrors the RLS policies in supabase_setup.sql; the database has the final say.
+
+export const canTeach = (user: Pick<User, 'role'> | null) => user?.role === 'admin' || user?.role === 'instructor';
+
+export const canManageFinance = (user: Pick<User, 'role'> | null) => user?.role === 'admin' || user?.role === 'finance';
+
+export const canManageCourse = (user: Pick<User, 'id' | 'role'> | null, course: Pick<Course, 'instructorId'>) =>
+  user?.role === 'admin' || (user?.role === 'instructor' && course.instructorId === user.id);
+
+// --- Mapping ---
+
+const mapProfile = (row: any): UserProfile => ({
+  id: row.id,
+  name: row.name || row.email?.split('@')[0] || 'User',
+  email: row.email || '',
+  role: isUserRole(row.role) ? row.role : 'student',
+  deactivatedAt: row.deactivated_at || undefined,
+  createdAt: row.created_at,
+});
+
+const mapManagedUser = (row: any): ManagedUser => ({
+  ...mapProfile(row),
+  enrollments: (row.enrollments || []).map((e: any) => ({
+    courseId: e.course_id,
+    status: (e.status || 'registered') as EnrollmentStatus,
+    progress: Number(e.progress) || 0,
+    quizScore: e.quiz_score ?? undefined,
+    enrolledAt: e.created_at,
+  })),
+});
+
+// --- Queries ---
+
+export const fetchProfiles = async (): Promise<UserProfile[]> => {
+  const { data, error } = await supabase.from('profiles').select('*').order('name');
+  if (error) {
+    console.error('Error fetching profiles:', error);
+    return [];
+  }
+  return (data || []).map(mapProfile);
+};
+
+// Instructor accounts that programs can be assigned to.
+export const fetchInstructors = async (): Promise<UserProfile[]> => {
+  const { data, error } = await supabase.from('profiles').select('*').eq('role', 'instructor').order('name');
+  if (error) {
+    console.error('Error fetching instructors:', error);
+    return [];
+  }
+  return (data || []).map(mapProfile);
+};
+
+// --- Admin ---
+
+// Every profile with its enrollments, for the Users console.
+export const fetchManagedUsers = async (): Promise<ManagedUser[]> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*, enrollments!enrollments_user_id_fkey(course_id, status, progress, quiz_score, created_at)')
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching users:', error);
+    return [];
+  }
+  return (data || []).map(mapManagedUser);
+};
+
+// Enrollment changes and deactivation need the service role, so they run in the
+// manage-user edge function, which also writes the audit log entry.
+export const manageUser = async (action: UserAction, userId: string, courseId?: string) => {
+  await invokeFunction('manage-user', { action, userId, courseId });
+};
+
+// The database refuses role changes from anyone but an admin, and refuses to remove the last admin.
+export const updateUserRole = async (userId: string, role: UserRole) => {
+  const { error } = await supabase.from('profiles').update({ role }).eq('id', userId);
+  if (error) throw error;
+};
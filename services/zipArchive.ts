@@ -0,0 +1,84 @@
+// ------------------------------------------------------------------
+// MINIMAL ZIP WRITER
+// ------------------------------------------------------------------
+// Stores files uncompressed with a fixed timestamp, so identical input gives
+// byte-identical archives. PDFs barely compress, so storing costs little.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const DOS_TIME = 0; // 00:00:00
+const DOS_DATE = (1 << 5) | 1; // 1980-01-01
+
+export const createZipArchive = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const files = entries.map(e => ({ name: encoder.encode(e.name), data: e.data, crc: crc32(e.data) }));
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  let pos = 0;
+  const offsets: number[] = [];
+  files.forEach(f => {
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034b50, true);
+    view.setUint16(pos + 4, 20, true); // Version needed
+    view.setUint16(pos + 6, 0x0800, true); // UTF-8 names
+    view.setUint16(pos + 8, 0, true); // Stored
+    view.setUint16(pos + 10, DOS_TIME, true);
+    view.setUint16(pos + 12, DOS_DATE, true);
+    view.setUint32(pos + 14, f.crc, true);
+    view.setUint32(pos + 18, f.data.length, true);
+    view.setUint32(pos + 22, f.data.length, true);
+    view.setUint16(pos + 26, f.name.length, true);
+    view.setUint16(pos + 28, 0, true);
+    out.set(f.name, pos + 30);
+    out.set(f.data, pos + 30 + f.name.length);
+    pos += 30 + f.name.length + f.data.length;
+  });
+
+  const centralStart = pos;
+  files.forEach((f, i) => {
+    view.setUint32(pos, 0x02014b50, true);
+    view.setUint16(pos + 4, 20, true); // Version made by
+    view.setUint16(pos + 6, 20, true);
+    view.setUint16(pos + 8, 0x0800, true);
+    view.setUint16(pos + 10, 0, true);
+    view.setUint16(pos + 12, DOS_TIME, true);
+    view.setUint16(pos + 14, DOS_DATE, true);
+    view.setUint32(pos + 16, f.crc, true);
+    view.setUint32(pos + 20, f.data.length, true);
+    view.setUint32(pos + 24, f.data.length, true);
+    view.setUint16(pos + 28, f.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(pos + 42, offsets[i], true);
+    out.set(f.name, pos + 46);
+    pos += 46 + f.name.length;
+  });
+
+  view.setUint32(pos, 0x06054b50, true);
+  view.setUint16(pos + 8, files.length, true);
+  view.setUint16(pos + 10, files.length, true);
+  view.setUint32(pos + 12, pos - centralStart, true);
+  view.setUint32(pos + 16, centralStart, true);
+  return out;
+};
@@ -0,0 +1,25 @@
+// Audit log writes for edge functions. The table has no client write policies,
+// so entries can only come from here and from database triggers.
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export interface AuditEntry {
+  actorId: string;
+  action: string; // e.g. user.enroll
+  targetType: string; // e.g. user
+  targetId: string;
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+export const recordAudit = async (entry: AuditEntry) => {
+  const { error } = await supabaseAdmin.from('audit_log').insert({
+    actor_id: entry.actorId,
+    action: entry.action,
+    target_type: entry.targetType,
+    target_id: entry.targetId,
+    summary: entry.summary,
+    details: entry.details || {},
+  });
+  if (error) throw error;
+};
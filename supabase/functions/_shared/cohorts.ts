@@ -0,0 +1,39 @@
+// Cohort checks for checkout. Seat counts come from cohort_seats_taken() so the
+// functions and the database agree on what a held seat is.
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Returns a message explaining why the student cannot buy a seat, or null when they can.
+// Programs with cohorts need one; a student holding a waitlist seat, or a seat from a checkout
+// started within the hour, may take it even when the cohort is full. The database has the final
+// say when the order is created (hold_checkout_seat).
+export const getCohortRejection = async (courseId: string, cohortId: string | undefined, userId: string) => {
+  const { data: cohorts } = await supabaseAdmin.from('cohorts').select('*').eq('course_id', courseId);
+  if (!cohorts?.length) return cohortId ? 'This training program has no cohorts.' : null;
+  const cohort = cohorts.find((c: any) => c.id === cohortId);
+  if (!cohort) return 'Choose a cohort to register for this training program.';
+  if ((cohort.registration_deadline || cohort.starts_on) < today()) return 'Registration for this cohort has closed.';
+  if (cohort.capacity === null) return null;
+
+  const { data: held } = await supabaseAdmin
+    .from('cohort_waitlist')
+    .select('id')
+    .match({ cohort_id: cohort.id, user_id: userId })
+    .gt('offered_at', new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString())
+    .maybeSingle();
+  if (held) return null;
+
+  const { data: checkout } = await supabaseAdmin
+    .from('orders')
+    .select('id')
+    .match({ cohort_id: cohort.id, user_id: userId, status: 'pending' })
+    .gt('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString())
+    .limit(1)
+    .maybeSingle();
+  if (checkout) return null;
+
+  const { data: seatsTaken } = await supabaseAdmin.rpc('cohort_seats_taken', { target: cohort.id });
+  return Number(seatsTaken) >= cohort.capacity ? 'This cohort is full. Join the waitlist instead.' : null;
+};
@@ -0,0 +1,102 @@
+// ------------------------------------------------------------------
+// COUPONS & PRICING
+// ------------------------------------------------------------------
+// Server-side counterpart of services/couponService.ts. The browser only
+// previews prices; the amount charged is always computed here.
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export interface CouponRow {
+  code: string;
+  description: string | null;
+  kind: 'percent' | 'fixed' | 'scholarship';
+  value: number;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  course_ids: string[];
+  levels: string[];
+  recipient_email: string | null;
+  active: boolean;
+}
+
+export interface PricedCourse {
+  id: string;
+  price: number;
+  level: string;
+}
+
+export interface PriceQuote {
+  originalPrice: number;
+  discount: number;
+  finalPrice: number;
+  couponCode?: string;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export const loadCoupon = async (code: string) => {
+  const { data } = await supabaseAdmin.from('coupons').select('*').eq('code', normalizeCouponCode(code)).maybeSingle();
+  return data as CouponRow | null;
+};
+
+// Returns a message explaining why the coupon cannot be used, or null when it can.
+// Pass no course to validate a code before a training program is chosen.
+export const getCouponRejection = async (coupon: CouponRow | null, course: PricedCourse | null, email: string | undefined) => {
+  if (!coupon || !coupon.active) return 'This coupon code is not valid.';
+  if (coupon.expires_at && new Date(coupon.expires_at) < new Date()) return 'This coupon code has expired.';
+  if (coupon.recipient_email && coupon.recipient_email.toLowerCase() !== (email || '').toLowerCase()) {
+    return 'This coupon code is assigned to another student.';
+  }
+  if (course && coupon.course_ids.length > 0 && !coupon.course_ids.includes(course.id)) {
+    return 'This coupon code does not apply to this training program.';
+  }
+  if (course && coupon.levels.length > 0 && !coupon.levels.includes(course.level)) {
+    return `This coupon code does not apply to ${course.level} training programs.`;
+  }
+  // An early answer for the student; the database enforces the limit atomically (claim_coupon_use)
+  if (coupon.max_redemptions !== null) {
+    const { count } = await supabaseAdmin
+      .from('coupon_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('coupon_code', coupon.code);
+    if ((count || 0) >= coupon.max_redemptions) return 'This coupon code has been fully redeemed.';
+  }
+  return null;
+};
+
+export const quotePrice = (course: PricedCourse, coupon: CouponRow | null): PriceQuote => {
+  const originalPrice = Number(course.price) || 0;
+  if (!coupon) return { originalPrice, discount: 0, finalPrice: originalPrice };
+
+  const discount = coupon.kind === 'scholarship'
+    ? originalPrice
+    : coupon.kind === 'percent'
+      ? roundMoney(originalPrice * Math.min(Math.max(Number(coupon.value), 0), 100) / 100)
+      : Math.min(Math.max(Number(coupon.value), 0), originalPrice);
+  return { originalPrice, discount, finalPrice: roundMoney(originalPrice - discount), couponCode: coupon.code };
+};
+
+// Records the discount against the enrollment it paid for. Safe to call twice.
+// Throws when the coupon's last use was taken meanwhile (only possible without an order).
+export const recordRedemption = async (
+  enrollmentId: number,
+  userId: string,
+  courseId: string,
+  quote: PriceQuote,
+  orderId: string | null = null
+) => {
+  if (!quote.couponCode) return;
+  const { error } = await supabaseAdmin.from('coupon_redemptions').upsert({
+    coupon_code: quote.couponCode,
+    enrollment_id: enrollmentId,
+    order_id: orderId,
+    user_id: userId,
+    course_id: courseId,
+    original_price: quote.originalPrice,
+    discount_amount: quote.discount,
+    final_price: quote.finalPrice,
+  }, { onConflict: 'enrollment_id', ignoreDuplicates: true });
+  if (error) throw error;
+};
@@ -0,0 +1,9 @@
+// Outbox writes shared by edge functions that send email outside a database trigger.
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { EmailTemplateKey } from '../../../services/emailTemplates.ts';
+
+export const enqueueEmail = async (template: EmailTemplateKey, recipient: string, data: { [key: string]: string }) => {
+  const { error } = await supabaseAdmin.from('email_outbox').insert({ template, recipient, data });
+  if (error) throw error;
+};
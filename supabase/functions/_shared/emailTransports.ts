@@ -0,0 +1,92 @@
+// ------------------------------------------------------------------
+// EMAIL TRANSPORTS
+// ------------------------------------------------------------------
+// Each transport delivers one rendered message. EMAIL_TRANSPORT picks the
+// active one (smtp | resend | capture); add a transport here and the outbox
+// processor stays unchanged.
+
+import nodemailer from 'npm:nodemailer@6';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  id: string;
+  // Resolves with the transport's message id; throws when delivery fails.
+  send(message: EmailMessage): Promise<{ messageId?: string }>;
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+const fromAddress = () => Deno.env.get('EMAIL_FROM') || 'Deepmetrics <no-reply@deepmetrics.example>';
+
+// --- SMTP ---
+
+// Hosted edge functions block outbound ports 25 and 587; use 465 (implicit TLS) there.
+const smtp: EmailTransport = {
+  id: 'smtp',
+
+  async send(message) {
+    const port = Number(Deno.env.get('SMTP_PORT') || 465);
+    const transporter = nodemailer.createTransport({
+      host: requireEnv('SMTP_HOST'),
+      port,
+      secure: port === 465,
+      auth: { user: requireEnv('SMTP_USER'), pass: requireEnv('SMTP_PASS') },
+    });
+    const info = await transporter.sendMail({ from: fromAddress(), ...message });
+    return { messageId: info.messageId };
+  },
+};
+
+// --- Resend (HTTP API) ---
+
+const resend: EmailTransport = {
+  id: 'resend',
+
+  async send(message) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${requireEnv('RESEND_API_KEY')}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from: fromAddress(), to: [message.to], subject: message.subject, text: message.text, html: message.html }),
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(payload.message || `Resend responded with ${response.status}`);
+    return { messageId: payload.id };
+  },
+};
+
+// --- Capture (local development and testing) ---
+
+// Delivers nothing: the rendered message stays in the outbox for inspection in the admin log.
+const capture: EmailTransport = {
+  id: 'capture',
+
+  async send(message) {
+    console.log(`[capture] ${message.to}: ${message.subject}`);
+    return {};
+  },
+};
+
+const TRANSPORTS: { [id: string]: EmailTransport } = { smtp, resend, capture };
+
+// Fails closed: without a configured transport messages stay queued rather than being marked sent.
+// Capture must be allowed explicitly, like mock payments, so a production deploy cannot fall into it.
+export const getTransport = () => {
+  const id = Deno.env.get('EMAIL_TRANSPORT');
+  if (!id) throw new Error('EMAIL_TRANSPORT is not set');
+  const transport = TRANSPORTS[id];
+  if (!transport) throw new Error(`Unknown EMAIL_TRANSPORT "${id}"`);
+  if (transport === capture && Deno.env.get('ALLOW_EMAIL_CAPTURE') !== 'true') {
+    throw new Error('The capture transport is disabled; set ALLOW_EMAIL_CAPTURE=true to use it');
+  }
+  return transport;
+};
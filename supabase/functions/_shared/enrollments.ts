@@ -0,0 +1,20 @@
+// Enrollment writes shared by the checkout and payment webhook functions.
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+// Creates the enrollment (in the chosen cohort, if any) if needed and returns its id.
+export const enrollStudent = async (userId: string, courseId: string, cohortId?: string | null) => {
+  const { error } = await supabaseAdmin.from('enrollments').upsert(
+    { user_id: userId, course_id: courseId, cohort_id: cohortId || null, status: 'registered', progress: 0 },
+    { onConflict: 'user_id,course_id', ignoreDuplicates: true }
+  );
+  if (error) throw error;
+
+  const { data, error: selectError } = await supabaseAdmin
+    .from('enrollments')
+    .select('id')
+    .match({ user_id: userId, course_id: courseId })
+    .single();
+  if (selectError) throw selectError;
+  return data.id as number;
+};
@@ -0,0 +1,116 @@
+// ------------------------------------------------------------------
+// PAYMENT PROVIDERS
+// ------------------------------------------------------------------
+// Each provider knows how to start a hosted checkout and how to verify
+// its own webhook calls. Add a provider here and map methods to it in
+// PROVIDER_FOR_METHOD; the edge functions stay unchanged.
+
+export type PaymentMethod = 'mobile_money' | 'card' | 'mock';
+
+export interface InitializeInput {
+  reference: string;
+  amount: number; // Major units (GHC)
+  currency: string;
+  email: string;
+  method: PaymentMethod;
+  callbackUrl: string;
+}
+
+export interface WebhookEvent {
+  reference: string;
+  status: 'succeeded' | 'failed';
+  amount?: number; // Major units, when the provider reports it
+  currency?: string;
+  raw: unknown;
+}
+
+export interface PaymentProvider {
+  id: string;
+  initialize(input: InitializeInput): Promise<{ checkoutUrl?: string }>;
+  // Returns null when the call cannot be authenticated as coming from the provider.
+  parseWebhook(req: Request, rawBody: string): Promise<WebhookEvent | null>;
+}
+
+// --- Helpers ---
+
+const hmacHex = async (algorithm: 'SHA-256' | 'SHA-512', secret: string, payload: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: algorithm }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+// --- Paystack (mobile money + card for GHS) ---
+
+const paystack: PaymentProvider = {
+  id: 'paystack',
+
+  async initialize(input) {
+    const secret = Deno.env.get('PAYSTACK_SECRET_KEY');
+    if (!secret) throw new Error('PAYSTACK_SECRET_KEY is not configured');
+
+    const response = await fetch('https://api.paystack.co/transaction/initialize', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        email: input.email,
+        amount: Math.round(input.amount * 100), // Pesewas
+        currency: input.currency,
+        reference: input.reference,
+        callback_url: input.callbackUrl,
+        channels: input.method === 'mobile_money' ? ['mobile_money'] : ['card'],
+      }),
+    });
+    const payload = await response.json();
+    if (!response.ok || !payload.status) throw new Error(payload.message || 'Paystack initialization failed');
+    return { checkoutUrl: payload.data.authorization_url };
+  },
+
+  async parseWebhook(req, rawBody) {
+    const secret = Deno.env.get('PAYSTACK_SECRET_KEY');
+    const signature = req.headers.get('x-paystack-signature');
+    if (!secret || !signature) return null;
+    if (!timingSafeEqual(await hmacHex('SHA-512', secret, rawBody), signature)) return null;
+
+    const event = JSON.parse(rawBody);
+    const data = event.data || {};
+    const status = event.event === 'charge.success' && data.status === 'success' ? 'succeeded' : 'failed';
+    return { reference: data.reference, status, amount: data.amount / 100, currency: data.currency, raw: event };
+  },
+};
+
+// --- Mock (local development and testing) ---
+
+// Accepts unsigned confirmations, so it is refused unless explicitly enabled.
+const mock: PaymentProvider = {
+  id: 'mock',
+
+  async initialize() {
+    if (Deno.env.get('ALLOW_MOCK_PAYMENTS') !== 'true') throw new Error('Mock payments are disabled');
+    return {};
+  },
+
+  async parseWebhook(_req, rawBody) {
+    if (Deno.env.get('ALLOW_MOCK_PAYMENTS') !== 'true') return null;
+    const body = JSON.parse(rawBody);
+    if (!body.reference) return null;
+    return { reference: body.reference, status: body.status === 'succeeded' ? 'succeeded' : 'failed', raw: body };
+  },
+};
+
+const PROVIDERS: { [id: string]: PaymentProvider } = { paystack, mock };
+
+export const PROVIDER_FOR_METHOD: { [method in PaymentMethod]: string } = {
+  mobile_money: 'paystack',
+  card: 'paystack',
+  mock: 'mock',
+};
+
+export const getProvider = (id: string | null) => (id ? PROVIDERS[id] : undefined);
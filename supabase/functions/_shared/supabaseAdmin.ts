@@ -0,0 +1,15 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Service-role client: bypasses RLS, so only use it after verifying the caller.
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Resolves the user behind the request's bearer token, or null.
+export const getRequestUser = async (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+  const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+  return user;
+};
@@ -0,0 +1,71 @@
+// Subscribable iCalendar feed of a user's live sessions: those of the programs
+// they are enrolled in (their cohort's, or the whole program's) and, for
+// accounts that still hold the instructor role, those of the programs they teach. Calendar apps cannot sign in,
+// so the URL carries the user's secret feed token instead; deploy with JWT
+// verification disabled. Resetting the token in the app revokes old URLs.
+
+import { corsHeaders } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { buildCalendar, liveSessionUid, CalendarEvent } from '../../../services/icalendar.ts';
+
+// Past sessions stay on the calendar for a while so attendance can be looked back on
+const HISTORY_DAYS = 90;
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, { status, headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' } });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) return textResponse('Missing feed token', 400);
+
+  const { data: feed } = await supabaseAdmin.from('calendar_feeds').select('user_id').eq('token', token).maybeSingle();
+  if (!feed) return textResponse('Unknown or reset feed token', 404);
+
+  const [{ data: enrollments }, { data: taught }, { data: profile }] = await Promise.all([
+    supabaseAdmin.from('enrollments').select('course_id, cohort_id').eq('user_id', feed.user_id),
+    supabaseAdmin.from('courses').select('id').eq('instructor_id', feed.user_id),
+    supabaseAdmin.from('profiles').select('role').eq('id', feed.user_id).maybeSingle(),
+  ]);
+  // Programs stay assigned to a former instructor until an admin reassigns them
+  const taughtIds = new Set(profile?.role === 'instructor' ? (taught || []).map((c: any) => c.id) : []);
+  const courseIds = [...new Set([...(enrollments || []).map((e: any) => e.course_id), ...taughtIds])];
+
+  let events: CalendarEvent[] = [];
+  if (courseIds.length > 0) {
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: sessions, error } = await supabaseAdmin
+      .from('live_sessions')
+      .select('*, courses(title)')
+      .in('course_id', courseIds)
+      .gte('starts_at', since)
+      .order('starts_at', { ascending: true });
+    if (error) return textResponse(error.message, 500);
+
+    events = (sessions || [])
+      .filter((s: any) => {
+        if (taughtIds.has(s.course_id) || !s.cohort_id) return true;
+        return (enrollments || []).some((e: any) => e.course_id === s.course_id && e.cohort_id === s.cohort_id);
+      })
+      .map((s: any) => ({
+        uid: liveSessionUid(s.id),
+        title: `${s.courses?.title || 'Live session'}: ${s.title}`,
+        description: s.description || undefined,
+        url: s.meeting_url || undefined,
+        start: s.starts_at,
+        durationMinutes: s.duration_minutes,
+        updated: s.updated_at,
+      }));
+  }
+
+  const calendar = buildCalendar(events, { name: 'Deepmetrics live sessions', stamp: new Date().toISOString() });
+  return new Response(calendar, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="deepmetrics-sessions.ics"',
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+});
@@ -0,0 +1,143 @@
+// Creates an order for a paid training program and starts the provider checkout.
+// The price always comes from the database, never from the client. Coupons that
+// bring the price to zero (scholarships) enroll the student without a payment.
+// A student returning to checkout reuses their open order for the same cohort and
+// price, so they hold one seat and one order they can pay.
+
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { supabaseAdmin, getRequestUser } from '../_shared/supabaseAdmin.ts';
+import { getProvider, PROVIDER_FOR_METHOD, PaymentMethod } from '../_shared/paymentProviders.ts';
+import { loadCoupon, getCouponRejection, quotePrice, recordRedemption, CouponRow } from '../_shared/coupons.ts';
+import { enrollStudent } from '../_shared/enrollments.ts';
+import { getCohortRejection } from '../_shared/cohorts.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const user = await getRequestUser(req);
+  if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+  const { courseId, method, callbackUrl, couponCode, cohortId } = await req.json() as {
+    courseId: string;
+    method: PaymentMethod;
+    callbackUrl: string;
+    couponCode?: string;
+    cohortId?: string;
+  };
+
+  const { data: course } = await supabaseAdmin.from('courses').select('id, title, price, level').eq('id', courseId).maybeSingle();
+  if (!course) return jsonResponse({ error: 'Training program not found' }, 404);
+  if (!course.price || Number(course.price) <= 0) return jsonResponse({ error: 'This training program is free; register directly.' }, 400);
+
+  const { data: enrollment } = await supabaseAdmin
+    .from('enrollments')
+    .select('id')
+    .match({ user_id: user.id, course_id: courseId })
+    .maybeSingle();
+  if (enrollment) return jsonResponse({ error: 'You are already registered for this training program.' }, 409);
+
+  const cohortRejection = await getCohortRejection(course.id, cohortId, user.id);
+  if (cohortRejection) return jsonResponse({ error: cohortRejection }, 409);
+
+  let coupon: CouponRow | null = null;
+  if (couponCode) {
+    coupon = await loadCoupon(couponCode);
+    const rejection = await getCouponRejection(coupon, course, user.email);
+    if (rejection) return jsonResponse({ error: rejection }, 400);
+  }
+  const quote = quotePrice(course, coupon);
+
+  if (quote.finalPrice <= 0) {
+    try {
+      const enrollmentId = await enrollStudent(user.id, course.id, cohortId);
+      try {
+        await recordRedemption(enrollmentId, user.id, course.id, quote);
+      } catch (err: any) {
+        // Another student took the coupon's last use meanwhile
+        await supabaseAdmin.from('enrollments').delete().eq('id', enrollmentId);
+        if (err?.code === 'P0001') return jsonResponse({ error: err.message }, 409);
+        throw err;
+      }
+      return jsonResponse({ enrolled: true });
+    } catch (err) {
+      console.error('Scholarship enrollment failed', err);
+      return jsonResponse({ error: 'Could not complete registration' }, 500);
+    }
+  }
+
+  const provider = getProvider(PROVIDER_FOR_METHOD[method]);
+  if (!provider) return jsonResponse({ error: 'Unsupported payment method' }, 400);
+
+  // Only an order still holding its seat (one hour) is reused
+  const openOrders = supabaseAdmin
+    .from('orders')
+    .select('id, amount, currency, coupon_code')
+    .match({ user_id: user.id, course_id: courseId, status: 'pending' })
+    .gt('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1);
+  const { data: openOrder } = await (cohortId ? openOrders.eq('cohort_id', cohortId) : openOrders.is('cohort_id', null)).maybeSingle();
+  const reusable = openOrder
+    && Math.abs(Number(openOrder.amount) - quote.finalPrice) < 0.01
+    && (openOrder.coupon_code || null) === (quote.couponCode || null);
+
+  let order: { id: string; amount: number; currency: string } | null = reusable ? openOrder : null;
+  if (!order) {
+    const { data: created, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .insert({
+        user_id: user.id,
+        course_id: courseId,
+        amount: quote.finalPrice,
+        original_amount: quote.originalPrice,
+        discount_amount: quote.discount,
+        coupon_code: quote.couponCode || null,
+        cohort_id: cohortId || null,
+        currency: 'GHS',
+      })
+      .select('id, amount, currency')
+      .single();
+    // The database turns the order away when another checkout took the cohort's last seat or the coupon's last use meanwhile
+    if (orderError?.code === 'P0001') return jsonResponse({ error: orderError.message }, 409);
+    if (orderError || !created) return jsonResponse({ error: 'Could not create order' }, 500);
+    order = created;
+  }
+
+  // Orders the student left for another cohort or price release their holds
+  await supabaseAdmin
+    .from('orders')
+    .update({ status: 'cancelled' })
+    .match({ user_id: user.id, course_id: courseId, status: 'pending' })
+    .neq('id', order.id);
+
+  const reference = `DMI-${order.id.slice(0, 8)}-${Date.now()}`;
+  // Prefer the configured site URL so the provider never redirects to an arbitrary origin
+  const siteUrl = Deno.env.get('SITE_URL') || callbackUrl;
+
+  try {
+    const { checkoutUrl } = await provider.initialize({
+      reference,
+      amount: Number(order.amount),
+      currency: order.currency,
+      email: user.email || '',
+      method,
+      callbackUrl: `${siteUrl}/orders/${order.id}`,
+    });
+
+    const { error: paymentError } = await supabaseAdmin.from('payments').insert({
+      order_id: order.id,
+      provider: provider.id,
+      method,
+      reference,
+      amount: order.amount,
+      status: 'initiated',
+    });
+    if (paymentError) throw paymentError;
+
+    return jsonResponse({ orderId: order.id, reference, checkoutUrl });
+  } catch (err) {
+    console.error('Checkout initialization failed', err);
+    await supabaseAdmin.from('orders').update({ status: 'failed' }).eq('id', order.id);
+    return jsonResponse({ error: 'Payment provider is unavailable. Please try again.' }, 502);
+  }
+});
@@ -0,0 +1,97 @@
+// Account actions from the admin Users console: manual enrollment, unenrollment,
+// progress resets and deactivation. Each runs with the service role once the
+// caller is confirmed to be an admin, and is recorded in audit_log.
+// Role changes are not handled here; they go through RLS from the browser and
+// are logged by the protect_profile_role trigger.
+
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { supabaseAdmin, getRequestUser } from '../_shared/supabaseAdmin.ts';
+import { enrollStudent } from '../_shared/enrollments.ts';
+import { recordAudit } from '../_shared/audit.ts';
+
+type Action = 'enroll' | 'unenroll' | 'reset_progress' | 'deactivate' | 'reactivate';
+
+// Supabase has no permanent ban; a century is close enough.
+const DEACTIVATED_BAN = '876000h';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const caller = await getRequestUser(req);
+  if (!caller) return jsonResponse({ error: 'Not authenticated' }, 401);
+  const { data: callerProfile } = await supabaseAdmin.from('profiles').select('role').eq('id', caller.id).maybeSingle();
+  if (callerProfile?.role !== 'admin') return jsonResponse({ error: 'Only admins can manage users' }, 403);
+
+  const { action, userId, courseId } = await req.json() as { action: Action; userId: string; courseId?: string };
+
+  const { data: target } = await supabaseAdmin.from('profiles').select('id, name, email, role, deactivated_at').eq('id', userId).maybeSingle();
+  if (!target) return jsonResponse({ error: 'User not found' }, 404);
+  const who = target.name || target.email;
+
+  const audit = (summary: string, details: Record<string, unknown> = {}) =>
+    recordAudit({ actorId: caller.id, action: `user.${action}`, targetType: 'user', targetId: target.id, summary, details });
+
+  try {
+    if (action === 'deactivate' || action === 'reactivate') {
+      if (target.id === caller.id) return jsonResponse({ error: 'You cannot deactivate your own account' }, 400);
+      const deactivating = action === 'deactivate';
+      if (deactivating === !!target.deactivated_at) return jsonResponse({ ok: true });
+
+      const { error: banError } = await supabaseAdmin.auth.admin.updateUserById(target.id, { ban_duration: deactivating ? DEACTIVATED_BAN : 'none' });
+      if (banError) throw banError;
+      const { error } = await supabaseAdmin
+        .from('profiles')
+        .update({ deactivated_at: deactivating ? new Date().toISOString() : null })
+        .eq('id', target.id);
+      if (error) throw error;
+
+      await audit(deactivating ? `Deactivated ${who}` : `Reactivated ${who}`);
+      return jsonResponse({ ok: true });
+    }
+
+    const { data: course } = await supabaseAdmin.from('courses').select('id, title').eq('id', courseId || '').maybeSingle();
+    if (!course) return jsonResponse({ error: 'Training program not found' }, 404);
+    const { data: enrollment } = await supabaseAdmin
+      .from('enrollments')
+      .select('id, status, progress')
+      .match({ user_id: target.id, course_id: course.id })
+      .maybeSingle();
+    const details = { courseId: course.id, courseTitle: course.title };
+
+    switch (action) {
+      case 'enroll': {
+        if (enrollment) return jsonResponse({ error: `${who} is already registered for ${course.title}` }, 409);
+        await enrollStudent(target.id, course.id);
+        await audit(`Enrolled ${who} in ${course.title}`, details);
+        break;
+      }
+      case 'unenroll': {
+        if (!enrollment) return jsonResponse({ error: `${who} is not registered for ${course.title}` }, 404);
+        // Certificates, orders and graded work stay on record; only the enrollment and lesson progress go
+        const { error: progressError } = await supabaseAdmin.from('lesson_progress').delete().match({ user_id: target.id, course_id: course.id });
+        if (progressError) throw progressError;
+        const { error } = await supabaseAdmin.from('enrollments').delete().eq('id', enrollment.id);
+        if (error) throw error;
+        await audit(`Unenrolled ${who} from ${course.title}`, { ...details, status: enrollment.status, progress: enrollment.progress });
+        break;
+      }
+      case 'reset_progress': {
+        if (!enrollment) return jsonResponse({ error: `${who} is not registered for ${course.title}` }, 404);
+        if (enrollment.status === 'completed') return jsonResponse({ error: 'Completed programs keep their progress' }, 400);
+        const { error: progressError } = await supabaseAdmin.from('lesson_progress').delete().match({ user_id: target.id, course_id: course.id });
+        if (progressError) throw progressError;
+        // Programs without lessons are not recalculated by the lesson_progress trigger
+        const { error } = await supabaseAdmin.from('enrollments').update({ progress: 0 }).eq('id', enrollment.id);
+        if (error) throw error;
+        await audit(`Reset ${who}'s progress in ${course.title}`, { ...details, progress: enrollment.progress });
+        break;
+      }
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+    return jsonResponse({ ok: true });
+  } catch (err) {
+    console.error(`manage-user ${action} failed`, err);
+    return jsonResponse({ error: 'Could not update the account' }, 500);
+  }
+});
@@ -0,0 +1,104 @@
+// Receives provider webhooks (?provider=paystack|mock), verifies them and, on a
+// confirmed payment, marks the order paid and enrolls the student. A payment that
+// cannot be honoured (the cohort filled after the seat hold lapsed, or the order
+// was already paid) is flagged refund_due for finance instead. Deploy with JWT
+// verification disabled: providers authenticate with their own signatures.
+
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { getProvider } from '../_shared/paymentProviders.ts';
+import { recordRedemption } from '../_shared/coupons.ts';
+import { enrollStudent } from '../_shared/enrollments.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const provider = getProvider(new URL(req.url).searchParams.get('provider'));
+  if (!provider) return jsonResponse({ error: 'Unknown provider' }, 404);
+
+  const rawBody = await req.text();
+  const event = await provider.parseWebhook(req, rawBody);
+  if (!event) return jsonResponse({ error: 'Invalid signature' }, 401);
+
+  const { data: payment } = await supabaseAdmin
+    .from('payments')
+    .select('*, orders(*)')
+    .match({ reference: event.reference, provider: provider.id })
+    .maybeSingle();
+  if (!payment) return jsonResponse({ error: 'Unknown reference' }, 404);
+
+  // Providers retry webhooks; a settled payment is acknowledged without side effects
+  if (payment.status === 'succeeded') return jsonResponse({ received: true });
+
+  const order = payment.orders;
+  const amountMatches = event.amount === undefined || Math.abs(event.amount - Number(order.amount)) < 0.01;
+  const currencyMatches = !event.currency || event.currency === order.currency;
+  const succeeded = event.status === 'succeeded' && amountMatches && currencyMatches;
+  const now = new Date().toISOString();
+
+  await supabaseAdmin
+    .from('payments')
+    .update({ status: succeeded ? 'succeeded' : 'failed', confirmed_at: now, raw_event: event.raw })
+    .eq('id', payment.id);
+
+  if (!succeeded) {
+    if (!amountMatches || !currencyMatches) console.error('Payment amount mismatch', event.reference);
+    // A reused order stays open while the student's newer checkout for it is in progress
+    const { count: openPayments } = await supabaseAdmin
+      .from('payments')
+      .select('id', { count: 'exact', head: true })
+      .match({ order_id: order.id, status: 'initiated' });
+    if (!openPayments) await supabaseAdmin.from('orders').update({ status: 'failed' }).eq('id', order.id).eq('status', 'pending');
+    return jsonResponse({ received: true });
+  }
+
+  // A student can pay twice through two provider checkouts (for the same order, or one they abandoned);
+  // only the first payment enrolls them
+  if (order.status === 'paid' || order.status === 'refund_due') {
+    console.error('Duplicate payment for order', order.id, event.reference);
+    await supabaseAdmin.from('payments').update({ status: 'refund_due' }).eq('id', payment.id);
+    return jsonResponse({ received: true });
+  }
+  const { data: enrolled } = await supabaseAdmin
+    .from('enrollments')
+    .select('id')
+    .match({ user_id: order.user_id, course_id: order.course_id })
+    .maybeSingle();
+  if (enrolled) {
+    console.error('Student already enrolled; order needs a refund', order.id);
+    await supabaseAdmin.from('orders').update({ status: 'refund_due', paid_at: now }).eq('id', order.id);
+    return jsonResponse({ received: true });
+  }
+
+  // The seat hold lapses after an hour, so a late payment may find its cohort full
+  const { data: seated, error: seatError } = await supabaseAdmin.rpc('claim_paid_order_seat', { target_order: order.id });
+  if (seatError) {
+    console.error('Seat check after payment failed', seatError);
+    return jsonResponse({ error: 'Enrollment failed' }, 500);
+  }
+  if (!seated) {
+    console.error('Cohort full after payment; order needs a refund', order.id);
+    await supabaseAdmin.from('orders').update({ status: 'refund_due', paid_at: now }).eq('id', order.id);
+    return jsonResponse({ received: true });
+  }
+
+  await supabaseAdmin.from('orders').update({ status: 'paid', paid_at: now }).eq('id', order.id);
+
+  try {
+    const enrollmentId = await enrollStudent(order.user_id, order.course_id, order.cohort_id);
+    if (order.coupon_code) {
+      // Reporting only: the order claimed the coupon's use at checkout, and the payment is already settled
+      await recordRedemption(enrollmentId, order.user_id, order.course_id, {
+        originalPrice: Number(order.original_amount ?? order.amount),
+        discount: Number(order.discount_amount),
+        finalPrice: Number(order.amount),
+        couponCode: order.coupon_code,
+      }, order.id).catch(err => console.error('Recording coupon redemption failed', err));
+    }
+  } catch (err) {
+    console.error('Enrollment after payment failed', err);
+    return jsonResponse({ error: 'Enrollment failed' }, 500);
+  }
+
+  return jsonResponse({ received: true });
+});
@@ -0,0 +1,31 @@
+// Validates a coupon code for the current user and returns its discount rules so
+// the catalog can preview prices. Codes cannot be listed; only looked up.
+
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { getRequestUser } from '../_shared/supabaseAdmin.ts';
+import { loadCoupon, getCouponRejection } from '../_shared/coupons.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const { code } = await req.json() as { code?: string };
+  if (!code) return jsonResponse({ error: 'Enter a coupon code.' }, 400);
+
+  const user = await getRequestUser(req);
+  const coupon = await loadCoupon(code);
+  const rejection = await getCouponRejection(coupon, null, user?.email);
+  if (rejection || !coupon) return jsonResponse({ error: rejection }, 400);
+
+  return jsonResponse({
+    coupon: {
+      code: coupon.code,
+      description: coupon.description || undefined,
+      kind: coupon.kind,
+      value: Number(coupon.value),
+      expiresAt: coupon.expires_at || undefined,
+      courseIds: coupon.course_ids,
+      levels: coupon.levels,
+      active: true,
+    },
+  });
+});
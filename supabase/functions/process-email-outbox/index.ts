@@ -0,0 +1,91 @@
+// Delivers queued transactional emails through the configured transport
+// (_shared/emailTransports.ts). Failed sends are retried with exponential
+// backoff and marked failed after MAX_ATTEMPTS. Runs on a schedule with the
+// service role key, or on demand from the admin email log.
+
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { supabaseAdmin, getRequestUser } from '../_shared/supabaseAdmin.ts';
+import { getTransport, EmailTransport } from '../_shared/emailTransports.ts';
+import {
+  DEFAULT_EMAIL_TEMPLATES, isEmailTemplateKey, getEmailTemplateDefinition, renderEmail, withEmailLinks,
+} from '../../../services/emailTemplates.ts';
+
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 5;
+
+// 2, 4, 8, 16 minutes between attempts
+const retryDelayMs = (attempts: number) => 2 ** attempts * 60_000;
+
+const isAuthorized = async (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return true;
+  const user = await getRequestUser(req);
+  if (!user) return false;
+  const { data: profile } = await supabaseAdmin.from('profiles').select('role').eq('id', user.id).maybeSingle();
+  return profile?.role === 'admin';
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (!(await isAuthorized(req))) return jsonResponse({ error: 'Not authorized' }, 403);
+
+  // Checked before claiming so a misconfigured deploy leaves the queue untouched
+  let transport: EmailTransport;
+  try {
+    transport = getTransport();
+  } catch (err) {
+    console.error('Email transport unavailable', err);
+    return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+
+  const { data: messages, error } = await supabaseAdmin.rpc('claim_email_outbox', { batch_size: BATCH_SIZE });
+  if (error) return jsonResponse({ error: error.message }, 500);
+  if (!messages?.length) return jsonResponse({ processed: 0, sent: 0, failed: 0 });
+
+  const { data: overrides } = await supabaseAdmin.from('email_templates').select('key, subject, body');
+  const siteUrl = (Deno.env.get('SITE_URL') || '').replace(/\/$/, '');
+  let sent = 0;
+  let failed = 0;
+
+  for (const message of messages) {
+    const key = message.template;
+    if (!isEmailTemplateKey(key)) {
+      await supabaseAdmin.from('email_outbox').update({ status: 'failed', last_error: `Unknown template "${key}"` }).eq('id', message.id);
+      failed++;
+      continue;
+    }
+
+    const template = overrides?.find((t: any) => t.key === key) || DEFAULT_EMAIL_TEMPLATES[key];
+    const rendered = renderEmail(template, withEmailLinks(message.data || {}, siteUrl));
+    // Reset links grant account access, so their content is not kept once the attempt is settled
+    const sensitive = !!getEmailTemplateDefinition(key).sensitive;
+
+    try {
+      await transport.send({ to: message.recipient, ...rendered });
+      await supabaseAdmin.from('email_outbox').update({
+        status: 'sent',
+        subject: rendered.subject,
+        body: sensitive ? null : rendered.text,
+        data: sensitive ? {} : message.data,
+        transport: transport.id,
+        last_error: null,
+        sent_at: new Date().toISOString(),
+      }).eq('id', message.id);
+      sent++;
+    } catch (err) {
+      const giveUp = message.attempts >= MAX_ATTEMPTS;
+      await supabaseAdmin.from('email_outbox').update({
+        status: giveUp ? 'failed' : 'pending',
+        subject: rendered.subject,
+        body: sensitive ? null : rendered.text,
+        data: sensitive && giveUp ? {} : message.data,
+        transport: transport.id,
+        last_error: err instanceof Error ? err.message : String(err),
+        next_attempt_at: new Date(Date.now() + retryDelayMs(message.attempts)).toISOString(),
+      }).eq('id', message.id);
+      if (giveUp) failed++;
+    }
+  }
+
+  return jsonResponse({ processed: messages.length, sent, failed });
+});
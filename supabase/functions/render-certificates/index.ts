@@ -0,0 +1,119 @@
+// Renders certificates as vector PDFs with the same renderer the app uses for
+// previews (services/certificateRenderer.ts), so output does not depend on the
+// viewer's browser. Students can render their own certificate; admins can render
+// any set, or a whole training program as one printable PDF or a ZIP of PDFs.
+// Each certificate uses the requested template, else its course's default.
+// Learning path certificates are signed like the path's final program and use
+// the path's template, falling back to that program's.
+
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { supabaseAdmin, getRequestUser } from '../_shared/supabaseAdmin.ts';
+import {
+  renderCertificatesPdf, findTemplate, getTemplateImagePaths, resolveSignatories, signatureImageKey,
+  CertificatePdfPage, CertificateTemplate, BUILT_IN_TEMPLATES,
+} from '../../../services/certificateRenderer.ts';
+import { createPdfImage, PdfImage } from '../../../services/pdfDocument.ts';
+import { decodePng } from '../../../services/pngImage.ts';
+import { createZipArchive } from '../../../services/zipArchive.ts';
+
+// supabase-js only hands binary bodies back as a Blob for PDF and octet-stream responses.
+const binaryResponse = (bytes: Uint8Array, contentType: string, filename: string) =>
+  new Response(bytes, {
+    headers: { ...corsHeaders, 'Content-Type': contentType, 'Content-Disposition': `attachment; filename="${filename}"` },
+  });
+
+// Signatures and template images are stored as PNGs; anything else is skipped (signatures fall back to the typeset name).
+const loadImage = async (path: string): Promise<PdfImage | undefined> => {
+  const { data } = await supabaseAdmin.storage.from('app-files').download(path);
+  if (!data) return undefined;
+  const raster = await decodePng(new Uint8Array(await data.arrayBuffer()));
+  return raster ? createPdfImage(raster) : undefined;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const user = await getRequestUser(req);
+  if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+  const { certificateIds, courseId, templateId, format = 'pdf' } = await req.json() as {
+    certificateIds?: string[];
+    courseId?: string;
+    templateId?: string;
+    format?: 'pdf' | 'zip';
+  };
+  if (!certificateIds?.length && !courseId) return jsonResponse({ error: 'Choose the certificates to render' }, 400);
+
+  const { data: profile } = await supabaseAdmin.from('profiles').select('role').eq('id', user.id).maybeSingle();
+  const isAdmin = profile?.role === 'admin';
+
+  const courseColumns = 'instructor, certificate_template, course_signatories(position, signatories(name, title, signature_image))';
+  let query = supabaseAdmin
+    .from('certificates')
+    .select(`id, serial, user_id, recipient_name, course_title, issued_at, courses(${courseColumns}), learning_paths(certificate_template, learning_path_courses(position, courses(${courseColumns})))`)
+    .is('revoked_at', null)
+    .order('recipient_name');
+  if (certificateIds?.length) query = query.in('id', certificateIds);
+  if (courseId) query = query.eq('course_id', courseId);
+  if (!isAdmin) query = query.eq('user_id', user.id);
+
+  const { data: rows, error } = await query;
+  if (error) return jsonResponse({ error: error.message }, 500);
+  if (!rows?.length) return jsonResponse({ error: 'No valid certificates found' }, 404);
+
+  // The program whose instructor and signatories sign the certificate, and the template it defaults to
+  const signingCourse = (row: any) => row.courses
+    || [...(row.learning_paths?.learning_path_courses || [])].sort((a: any, b: any) => b.position - a.position)[0]?.courses;
+  const defaultTemplate = (row: any) => row.learning_paths?.certificate_template || signingCourse(row)?.certificate_template;
+
+  // Custom templates referenced by the request or the courses; built-in ids need no lookup
+  const templateIds = new Set<string>(rows.map((row: any) => templateId || defaultTemplate(row)).filter(Boolean));
+  BUILT_IN_TEMPLATES.forEach(t => templateIds.delete(t.id));
+  let customTemplates: CertificateTemplate[] = [];
+  if (templateIds.size > 0) {
+    const { data: templateRows } = await supabaseAdmin.from('certificate_templates').select('id, name, definition').in('id', [...templateIds]);
+    customTemplates = (templateRows || []) as CertificateTemplate[];
+  }
+
+  const siteUrl = (Deno.env.get('SITE_URL') || req.headers.get('origin') || '').replace(/\/$/, '');
+  const images = new Map<string, Promise<PdfImage | undefined>>(); // Shared across pages, keyed by storage path
+  const imageAt = (path: string) => {
+    if (!images.has(path)) images.set(path, loadImage(path));
+    return images.get(path)!;
+  };
+
+  const pages: CertificatePdfPage[] = await Promise.all(rows.map(async (row: any) => {
+    const template = findTemplate(templateId || defaultTemplate(row), customTemplates).definition;
+    const course = signingCourse(row);
+    const pageImages: CertificatePdfPage['images'] = {};
+    const signatories = [...(course?.course_signatories || [])]
+      .sort((a: any, b: any) => a.position - b.position)
+      .map((link: any) => link.signatories)
+      .filter(Boolean);
+    for (const [i, signatory] of signatories.entries()) {
+      if (signatory.signature_image) pageImages[signatureImageKey(i)] = await imageAt(signatory.signature_image);
+    }
+    for (const path of getTemplateImagePaths(template)) pageImages[path] = await imageAt(path);
+    return {
+      data: {
+        serial: row.serial,
+        recipientName: row.recipient_name,
+        courseTitle: row.course_title,
+        instructor: course?.instructor || '',
+        issuedAt: row.issued_at,
+        verificationUrl: `${siteUrl}/verify/${encodeURIComponent(row.serial)}`,
+        signatories: resolveSignatories(signatories.map((s: any) => ({ name: s.name, title: s.title || '' })), course?.instructor || ''),
+      },
+      template,
+      images: pageImages,
+    };
+  }));
+
+  if (format === 'zip') {
+    const archive = createZipArchive(pages.map(page => ({ name: `${page.data.serial}.pdf`, data: renderCertificatesPdf([page]) })));
+    return binaryResponse(archive, 'application/octet-stream', 'certificates.zip');
+  }
+
+  const filename = pages.length === 1 ? `${pages[0].data.serial}.pdf` : 'certificates.pdf';
+  return binaryResponse(renderCertificatesPdf(pages), 'application/pdf', filename);
+});
@@ -0,0 +1,35 @@
+// Emails a password reset link through the outbox, so it uses the editable
+// template and the configured transport instead of Supabase's built-in mailer.
+// Deploy with JWT verification disabled: it is called by signed-out users.
+// The response never reveals whether an account exists for the address.
+
+import { corsHeaders, jsonResponse } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { enqueueEmail } from '../_shared/emailOutbox.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const { email } = await req.json() as { email?: string };
+  const address = email?.trim().toLowerCase();
+  if (!address) return jsonResponse({ error: 'Enter your email address' }, 400);
+
+  const siteUrl = (Deno.env.get('SITE_URL') || req.headers.get('origin') || '').replace(/\/$/, '');
+  const { data, error } = await supabaseAdmin.auth.admin.generateLink({
+    type: 'recovery',
+    email: address,
+    options: { redirectTo: `${siteUrl}/reset-password` },
+  });
+
+  if (!error && data.properties?.action_link) {
+    const { data: profile } = await supabaseAdmin.from('profiles').select('name').eq('id', data.user.id).maybeSingle();
+    try {
+      await enqueueEmail('password_reset', address, { name: profile?.name || address, resetUrl: data.properties.action_link });
+    } catch (err) {
+      console.error('Queueing password reset failed', err);
+      return jsonResponse({ error: 'Could not send the reset email' }, 500);
+    }
+  }
+
+  return jsonResponse({ sent: true });
+});
@@ -52,4 +52,21 @@ export const deleteFromStorage = async (path: string) => {
         .remove([path]);
     
     if (error) console.error("Error deleting file:", error);
-};
\ No newline at end of file
+};
+
+// --- Edge Function Helpers ---
+
+// Public URL of an edge function, for links opened outside the app (e.g. calendar subscriptions).
+export const getFunctionUrl = (name: string) => `${SUPABASE_URL}/functions/v1/${name}`;
+
+// Invokes an edge function and surfaces its `{ error }` message instead of a generic HTTP failure.
+export const invokeFunction = async <T = any>(name: string, body: object): Promise<T> => {
+    const { data, error } = await supabase.functions.invoke(name, { body });
+
+    if (error) {
+        const payload = await error.context?.json?.().catch(() => null);
+        throw new Error(payload?.error || error.message);
+    }
+    if (data?.error) throw new Error(data.error);
+    return data as T;
+};
@@ -3,7 +3,8 @@ create table if not exists profiles (
   id uuid references auth.users not null primary key,
   name text,
   email text,
-  role text default 'student',
+  role text default 'student' check (role in ('student', 'instructor', 'admin', 'finance')),
+  deactivated_at timestamp with time zone, -- Set by the manage-user function, which also bans the auth user
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
@@ -15,26 +16,65 @@ create table if not exists courses (
   outline text,
   instructor text,
   instructor_bio text,
+  instructor_id uuid references profiles(id) on delete set null, -- Instructor account that edits the program and reviews its students
   duration text,
   level text,
   price numeric,
   tags text[],
   image text,
-  signature_image text,
+  signature_image text, -- Legacy single signature; copied into signatories below
+  certificate_template text, -- Built-in template id or certificate_templates.id; null uses the default
+  require_passing_assignments boolean not null default false, -- Completion requests wait for every assignment to pass
+  require_passing_quizzes boolean not null default false, -- Completion requests wait for every quiz to pass
+  min_attendance_percent numeric check (min_attendance_percent between 0 and 100), -- Completion requests wait for this live session attendance; null is no rule
+  prerequisite_rule text not null default 'warn' check (prerequisite_rule in ('warn', 'block')), -- Whether missing prerequisites only warn or refuse registration
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+-- Create cohorts table (scheduled runs of a program; programs without cohorts are self-paced)
+create table if not exists cohorts (
+  id uuid default gen_random_uuid() primary key,
+  course_id text references courses(id) on delete cascade not null,
+  name text not null, -- e.g. "January 2027"
+  starts_on date not null,
+  ends_on date,
+  registration_deadline date, -- Last day to register; null means until the start date
+  capacity integer check (capacity is null or capacity > 0), -- Seats; null is unlimited
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  check (ends_on is null or ends_on >= starts_on)
+);
+
+create index if not exists cohorts_course_start on cohorts (course_id, starts_on);
+
 -- Create enrollments table
 create table if not exists enrollments (
   id bigint generated by default as identity primary key,
   user_id uuid references profiles(id) not null,
   course_id text references courses(id) not null,
-  status text default 'registered',
+  status text default 'registered', -- registered | pending | rejected | completed
   progress numeric default 0,
+  review_status text, -- Latest completion review: rejected | completed
+  review_note text, -- Reviewer feedback shown to the student
+  review_checklist jsonb not null default '[]'::jsonb, -- [{ "label": text, "met": boolean }]
+  reviewed_by uuid references profiles(id),
+  reviewed_at timestamp with time zone,
+  quiz_score numeric, -- Average of the best attempt on each of the program's quizzes (0-100); kept by a trigger
+  cohort_id uuid references cohorts(id) on delete set null, -- Run the student is enrolled in; null for self-paced programs
+  attendance_percent numeric, -- Present or late share of the live sessions marked for the student, excused ones aside; kept by a trigger
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
   unique(user_id, course_id)
 );
 
+-- Create cohort_waitlist table (students waiting for a seat in a full cohort, first come first served)
+create table if not exists cohort_waitlist (
+  id uuid default gen_random_uuid() primary key,
+  cohort_id uuid references cohorts(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null,
+  offered_at timestamp with time zone, -- A freed seat is held for the student (paid programs) for two days from here
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (cohort_id, user_id)
+);
+
 -- Create site_settings table
 create table if not exists site_settings (
   key text primary key,
@@ -53,32 +93,550 @@ create table if not exists videos (
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+-- Create course_modules table (curriculum: modules -> lessons)
+create table if not exists course_modules (
+  id uuid default gen_random_uuid() primary key,
+  course_id text references courses(id) on delete cascade not null,
+  title text not null,
+  position integer not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create course_lessons table
+create table if not exists course_lessons (
+  id uuid default gen_random_uuid() primary key,
+  module_id uuid references course_modules(id) on delete cascade not null,
+  title text not null,
+  type text not null default 'reading',
+  estimated_minutes integer default 0,
+  position integer not null default 0,
+  video_id uuid references videos(id) on delete set null,
+  resource_url text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create lesson_progress table (per-student lesson completion, drives enrollments.progress)
+create table if not exists lesson_progress (
+  id bigint generated by default as identity primary key,
+  user_id uuid references profiles(id) not null,
+  course_id text references courses(id) on delete cascade not null,
+  lesson_id uuid references course_lessons(id) on delete cascade not null,
+  completed_at timestamp with time zone,
+  watched_seconds integer default 0, -- Total of watched_ranges; kept by a trigger
+  watched_ranges jsonb not null default '[]'::jsonb, -- Spans of the video actually played: [[start, end], ...] in seconds, merged
+  last_viewed_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique(user_id, lesson_id)
+);
+
+-- Create coupons table (discount codes and scholarships; codes are stored uppercase)
+create table if not exists coupons (
+  code text primary key,
+  description text,
+  kind text not null default 'percent', -- percent | fixed | scholarship
+  value numeric not null default 0,
+  expires_at timestamp with time zone,
+  max_redemptions integer,
+  course_ids text[] not null default '{}',
+  levels text[] not null default '{}',
+  recipient_email text,
+  active boolean not null default true,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Invoice numbers: DMI-<year>-<sequence>
+create sequence if not exists invoice_number_seq;
+
+-- Create orders table (one per checkout attempt for a paid training program)
+create table if not exists orders (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) not null,
+  course_id text references courses(id) not null,
+  amount numeric not null,
+  currency text not null default 'GHS',
+  status text not null default 'pending', -- pending | paid | failed | cancelled | refund_due (paid, but the cohort filled before it was confirmed)
+  original_amount numeric,
+  discount_amount numeric not null default 0,
+  coupon_code text references coupons(code) on delete set null,
+  cohort_id uuid references cohorts(id) on delete set null, -- Run chosen at checkout; the paid enrollment joins it
+  invoice_number text unique not null default ('DMI-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('invoice_number_seq')::text, 6, '0')),
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create payments table (provider transactions; written only by edge functions)
+create table if not exists payments (
+  id uuid default gen_random_uuid() primary key,
+  order_id uuid references orders(id) on delete cascade not null,
+  provider text not null,
+  method text,
+  reference text unique not null,
+  amount numeric not null,
+  status text not null default 'initiated',
+  raw_event jsonb,
+  confirmed_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create coupon_redemptions table (one per discounted enrollment, for reporting)
+create table if not exists coupon_redemptions (
+  id bigint generated by default as identity primary key,
+  coupon_code text references coupons(code) not null, -- Coupons with redemptions are deactivated, not deleted
+  enrollment_id bigint references enrollments(id) on delete cascade not null unique,
+  order_id uuid references orders(id) on delete set null,
+  user_id uuid references profiles(id) not null,
+  course_id text references courses(id) not null,
+  original_price numeric not null,
+  discount_amount numeric not null,
+  final_price numeric not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create course_prerequisites table (programs a student completes before registering for another)
+create table if not exists course_prerequisites (
+  course_id text references courses(id) on delete cascade not null,
+  prerequisite_id text references courses(id) on delete cascade not null,
+  primary key (course_id, prerequisite_id),
+  check (course_id <> prerequisite_id)
+);
+
+-- Create learning_paths table (curated tracks of programs with a certificate of their own)
+create table if not exists learning_paths (
+  id text primary key,
+  title text not null,
+  description text,
+  certificate_template text, -- Built-in template id or certificate_templates.id; null uses the final program's
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create learning_path_courses table (a path's programs in study order)
+create table if not exists learning_path_courses (
+  path_id text references learning_paths(id) on delete cascade not null,
+  course_id text references courses(id) on delete cascade not null,
+  position integer not null default 0,
+  primary key (path_id, course_id)
+);
+
+-- Create certificates table (issued when a completion is approved or a learning path is finished; verifiable by serial)
+create table if not exists certificates (
+  id uuid default gen_random_uuid() primary key,
+  serial text unique not null default ('DMI-' || to_char(now(), 'YYYY') || '-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8))),
+  user_id uuid references profiles(id) not null,
+  course_id text references courses(id), -- Set for program certificates
+  path_id text references learning_paths(id), -- Set for learning path certificates
+  recipient_name text not null,
+  course_title text not null, -- Program or learning path title at issue time
+  issued_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  revoked_at timestamp with time zone,
+  revocation_reason text,
+  revoked_by uuid references profiles(id),
+  check (num_nonnulls(course_id, path_id) = 1)
+);
+
+-- One valid certificate per student and program (or path); revoked ones stay on record
+create unique index if not exists certificates_active_unique on certificates (user_id, course_id) where revoked_at is null;
+create unique index if not exists certificates_active_path_unique on certificates (user_id, path_id) where revoked_at is null and path_id is not null;
+
+-- Create certificate_templates table (admin-designed layouts; see services/certificateRenderer.ts)
+create table if not exists certificate_templates (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  definition jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create signatories table (reusable people who sign certificates)
+create table if not exists signatories (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  title text not null default '',
+  signature_image text, -- Storage path of a transparent PNG
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create course_signatories table (who signs each program's certificates, left to right)
+create table if not exists course_signatories (
+  course_id text references courses(id) on delete cascade not null,
+  signatory_id uuid references signatories(id) on delete cascade not null,
+  position integer not null default 0,
+  primary key (course_id, signatory_id)
+);
+
+-- Create email_templates table (admin overrides of the defaults in services/emailTemplates.ts)
+create table if not exists email_templates (
+  key text primary key,
+  subject text not null,
+  body text not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create email_outbox table (every transactional email; delivered by the process-email-outbox function)
+create table if not exists email_outbox (
+  id uuid default gen_random_uuid() primary key,
+  template text not null,
+  recipient text not null,
+  data jsonb not null default '{}'::jsonb,
+  status text not null default 'pending', -- pending | sending | sent | failed
+  attempts integer not null default 0,
+  next_attempt_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  subject text, -- As rendered on the latest attempt
+  body text,
+  transport text,
+  last_error text,
+  sent_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists email_outbox_due on email_outbox (status, next_attempt_at);
+
+-- Create notifications table (per-user in-app inbox, delivered live over Supabase Realtime)
+create table if not exists notifications (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  kind text not null, -- completion_approved | completion_rejected | comment | assignment_graded | path_completed | cohort_seat | live_session | rating_moderated | discussion
+  title text not null,
+  body text,
+  link text, -- In-app path opened from the inbox
+  read_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists notifications_user_created on notifications (user_id, created_at desc);
+
+-- Create enrollment_status_history table (every status change, written by a trigger)
+create table if not exists enrollment_status_history (
+  id bigint generated by default as identity primary key,
+  enrollment_id bigint references enrollments(id) on delete cascade not null,
+  from_status text,
+  to_status text not null,
+  actor_id uuid references profiles(id), -- Null for system changes (payments, backfills)
+  note text,
+  checklist jsonb not null default '[]'::jsonb,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists enrollment_status_history_enrollment on enrollment_status_history (enrollment_id, created_at);
+
+-- Create assignments table (graded work per training program, e.g. the capstone project)
+create table if not exists assignments (
+  id uuid default gen_random_uuid() primary key,
+  course_id text references courses(id) on delete cascade not null,
+  title text not null,
+  instructions text not null default '',
+  due_at timestamp with time zone,
+  submission_type text not null default 'either', -- file | link | either
+  rubric jsonb not null default '[]'::jsonb, -- [{ "id", "criterion", "description", "maxPoints" }]
+  pass_percent numeric not null default 50,
+  position integer not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create assignment_submissions table (one per student and assignment; resubmitting replaces it and clears the grade)
+create table if not exists assignment_submissions (
+  id uuid default gen_random_uuid() primary key,
+  assignment_id uuid references assignments(id) on delete cascade not null,
+  user_id uuid references profiles(id) not null,
+  course_id text references courses(id) on delete cascade not null,
+  file_path text, -- Storage path under <user>/submissions/<assignment>/
+  file_name text,
+  link_url text,
+  note text,
+  submitted_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  rubric_scores jsonb not null default '{}'::jsonb, -- { criterionId: points }
+  score numeric,
+  passed boolean,
+  feedback text,
+  graded_by uuid references profiles(id),
+  graded_at timestamp with time zone,
+  unique(assignment_id, user_id)
+);
+
+-- Create quizzes table (auto-graded assessments per training program, optionally placed after a lesson)
+create table if not exists quizzes (
+  id uuid default gen_random_uuid() primary key,
+  course_id text references courses(id) on delete cascade not null,
+  lesson_id uuid references course_lessons(id) on delete set null,
+  title text not null,
+  description text not null default '',
+  questions_per_attempt integer, -- Drawn at random from the bank; null asks every question
+  shuffle_questions boolean not null default true,
+  time_limit_minutes integer, -- Null is untimed
+  max_attempts integer, -- Null is unlimited
+  pass_percent numeric not null default 70,
+  position integer not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create quiz_questions table (the question bank; only admins can read the answers)
+create table if not exists quiz_questions (
+  id uuid default gen_random_uuid() primary key,
+  quiz_id uuid references quizzes(id) on delete cascade not null,
+  kind text not null default 'single', -- single | multiple | numeric | text
+  prompt text not null,
+  options jsonb not null default '[]'::jsonb, -- [{ "id", "text" }] for single and multiple choice
+  answer jsonb not null default '{}'::jsonb, -- { "optionIds": [] } | { "value", "tolerance" } | { "accepted": [] }
+  points numeric not null default 1,
+  position integer not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create quiz_attempts table (written only by start_quiz_attempt() and submit_quiz_attempt())
+create table if not exists quiz_attempts (
+  id uuid default gen_random_uuid() primary key,
+  quiz_id uuid references quizzes(id) on delete cascade not null,
+  user_id uuid references profiles(id) not null,
+  course_id text references courses(id) on delete cascade not null,
+  question_ids uuid[] not null, -- The questions drawn for this attempt, in the order shown
+  answers jsonb not null default '{}'::jsonb, -- { questionId: optionIds | number | text }
+  results jsonb not null default '{}'::jsonb, -- { questionId: points earned }
+  started_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  expires_at timestamp with time zone, -- Start plus the time limit
+  submitted_at timestamp with time zone,
+  score numeric,
+  max_score numeric,
+  percent numeric,
+  passed boolean
+);
+
+create index if not exists quiz_attempts_user_quiz on quiz_attempts (user_id, quiz_id);
+
+-- Create live_sessions table (scheduled instructor-led sessions; visible to enrolled students and staff)
+create table if not exists live_sessions (
+  id uuid default gen_random_uuid() primary key,
+  course_id text references courses(id) on delete cascade not null,
+  cohort_id uuid references cohorts(id) on delete cascade, -- Only this cohort attends; null is every student of the program
+  title text not null,
+  description text,
+  starts_at timestamp with time zone not null,
+  duration_minutes integer not null default 60 check (duration_minutes > 0),
+  timezone text not null default 'Africa/Accra', -- IANA zone the session was scheduled in, for display
+  meeting_url text,
+  day_reminder_sent_at timestamp with time zone, -- Reminders are sent a day and an hour ahead; cleared on reschedule
+  hour_reminder_sent_at timestamp with time zone,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists live_sessions_course_start on live_sessions (course_id, starts_at);
+
+-- Create session_attendance table (one record per student and live session, marked by staff)
+create table if not exists session_attendance (
+  id uuid default gen_random_uuid() primary key,
+  session_id uuid references live_sessions(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null,
+  status text not null check (status in ('present', 'late', 'absent', 'excused')),
+  note text,
+  marked_by uuid references profiles(id) on delete set null default auth.uid(),
+  marked_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (session_id, user_id)
+);
+
+-- Create course_ratings table (star rating and review by students who completed a program; moderated by admins)
+create table if not exists course_ratings (
+  id uuid default gen_random_uuid() primary key,
+  course_id text references courses(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null,
+  rating integer not null check (rating between 1 and 5),
+  body text,
+  status text not null default 'published' check (status in ('published', 'flagged', 'hidden')), -- Only published reviews are public and counted
+  moderation_note text, -- Shown to the author when a review is flagged or hidden
+  moderated_by uuid references profiles(id) on delete set null,
+  moderated_at timestamp with time zone,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (course_id, user_id)
+);
+
+create index if not exists course_ratings_course_status on course_ratings (course_id, status);
+
+-- Create discussion_threads table (per-program question board, optionally about one lesson; see is_discussion_participant)
+create table if not exists discussion_threads (
+  id uuid default gen_random_uuid() primary key,
+  course_id text references courses(id) on delete cascade not null,
+  lesson_id uuid references course_lessons(id) on delete set null, -- Null is a general discussion of the program
+  author_id uuid references profiles(id) on delete cascade not null default auth.uid(),
+  title text not null check (length(trim(title)) > 0),
+  body text not null,
+  mentions uuid[] not null default '{}', -- Users notified through @name
+  is_staff boolean not null default false, -- Started by the program's instructor or an admin
+  is_pinned boolean not null default false,
+  is_locked boolean not null default false, -- Only moderators can still reply
+  answer_post_id uuid, -- Reply an instructor or admin marked as the answer
+  hidden_at timestamp with time zone, -- Hidden by a moderator; its author still sees it
+  hidden_by uuid references profiles(id) on delete set null,
+  upvotes integer not null default 0, -- Counters are kept by triggers
+  reply_count integer not null default 0,
+  last_activity_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  edited_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists discussion_threads_course_activity on discussion_threads (course_id, last_activity_at desc);
+
+-- Create discussion_posts table (replies to a thread; parent_id nests a reply under another reply)
+create table if not exists discussion_posts (
+  id uuid default gen_random_uuid() primary key,
+  thread_id uuid references discussion_threads(id) on delete cascade not null,
+  parent_id uuid references discussion_posts(id) on delete cascade,
+  author_id uuid references profiles(id) on delete cascade not null default auth.uid(),
+  body text not null check (length(trim(body)) > 0),
+  mentions uuid[] not null default '{}',
+  is_staff boolean not null default false,
+  hidden_at timestamp with time zone,
+  hidden_by uuid references profiles(id) on delete set null,
+  upvotes integer not null default 0,
+  edited_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists discussion_posts_thread on discussion_posts (thread_id, created_at);
+
+alter table discussion_threads drop constraint if exists discussion_threads_answer_post_id_fkey;
+alter table discussion_threads add constraint discussion_threads_answer_post_id_fkey
+  foreign key (answer_post_id) references discussion_posts(id) on delete set null;
+
+-- Create discussion_votes table (one upvote per user on a thread or a reply)
+create table if not exists discussion_votes (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null default auth.uid(),
+  thread_id uuid references discussion_threads(id) on delete cascade,
+  post_id uuid references discussion_posts(id) on delete cascade,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  check (num_nonnulls(thread_id, post_id) = 1),
+  unique (user_id, thread_id),
+  unique (user_id, post_id)
+);
+
+-- Create calendar_feeds table (secret token per user for the subscribable .ics feed)
+create table if not exists calendar_feeds (
+  user_id uuid references profiles(id) on delete cascade primary key,
+  token text unique not null default replace(gen_random_uuid()::text, '-', ''),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create audit_log table (staff actions; append-only, written only by edge functions and triggers)
+create table if not exists audit_log (
+  id bigint generated by default as identity primary key,
+  actor_id uuid references profiles(id), -- Null when run from the SQL editor or the service role
+  action text not null, -- <target_type>.<insert|update|delete>, or e.g. user.enroll, enrollment.approve
+  target_type text not null, -- e.g. user, course, site_setting
+  target_id text,
+  summary text not null,
+  before jsonb, -- Changed columns before the change (the whole row for deletes)
+  after jsonb, -- Changed columns after the change (the whole row for inserts)
+  details jsonb not null default '{}'::jsonb, -- Extra context, e.g. the program of an enrollment action
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists audit_log_created on audit_log (created_at desc);
+create index if not exists audit_log_target on audit_log (target_type, target_id, created_at desc);
+create index if not exists audit_log_actor on audit_log (actor_id, created_at desc);
+
+-- Create course_views table (program detail page views, the top of the analytics funnel)
+create table if not exists course_views (
+  id bigint generated by default as identity primary key,
+  course_id text references courses(id) on delete cascade not null,
+  user_id uuid references profiles(id), -- Null for signed-out visitors
+  visitor_id text not null, -- Random id kept in the browser, so repeat views count one visitor
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists course_views_created on course_views (created_at);
+
 -- Enable RLS
 alter table profiles enable row level security;
 alter table courses enable row level security;
 alter table enrollments enable row level security;
+alter table cohorts enable row level security;
+alter table cohort_waitlist enable row level security;
 alter table site_settings enable row level security;
 alter table videos enable row level security;
+alter table course_modules enable row level security;
+alter table course_lessons enable row level security;
+alter table lesson_progress enable row level security;
+alter table orders enable row level security;
+alter table payments enable row level security;
+alter table coupons enable row level security;
+alter table coupon_redemptions enable row level security;
+alter table certificates enable row level security;
+alter table certificate_templates enable row level security;
+alter table signatories enable row level security;
+alter table course_signatories enable row level security;
+alter table course_prerequisites enable row level security;
+alter table learning_paths enable row level security;
+alter table learning_path_courses enable row level security;
+alter table email_templates enable row level security;
+alter table email_outbox enable row level security;
+alter table notifications enable row level security;
+alter table enrollment_status_history enable row level security;
+alter table assignments enable row level security;
+alter table assignment_submissions enable row level security;
+alter table quizzes enable row level security;
+alter table quiz_questions enable row level security;
+alter table quiz_attempts enable row level security;
+alter table live_sessions enable row level security;
+alter table session_attendance enable row level security;
+alter table course_ratings enable row level security;
+alter table discussion_threads enable row level security;
+alter table discussion_posts enable row level security;
+alter table discussion_votes enable row level security;
+alter table calendar_feeds enable row level security;
+alter table audit_log enable row level security;
+alter table course_views enable row level security;
 
 -- Policies
 
--- Profiles
+-- Instructors manage only the programs assigned to them, and only while they hold the instructor role
+create or replace function public.teaches_course(target_course text)
+returns boolean as $$
+  select exists (
+    select 1 from courses c join profiles p on p.id = c.instructor_id
+    where c.id = target_course and p.id = auth.uid() and p.role = 'instructor'
+  );
+$$ language sql stable security definer;
+
+-- Discussion boards are open to a program's students, its instructor and admins
+create or replace function public.is_discussion_participant(target_user uuid, target_course text)
+returns boolean as $$
+  select exists (select 1 from profiles where id = target_user and role = 'admin')
+    or exists (
+      select 1 from courses c join profiles p on p.id = c.instructor_id
+      where c.id = target_course and p.id = target_user and p.role = 'instructor'
+    )
+    or exists (select 1 from enrollments where user_id = target_user and course_id = target_course);
+$$ language sql stable security definer;
+
+create or replace function public.moderates_discussion(target_course text)
+returns boolean as $$
+  select public.teaches_course(target_course) or exists (select 1 from profiles where id = auth.uid() and role = 'admin');
+$$ language sql stable security definer;
+
+-- Profiles (roles are changed by admins only; see protect_profile_role below)
 create policy "Public profiles are viewable by everyone." on profiles for select using (true);
-create policy "Users can insert their own profile." on profiles for insert with check (auth.uid() = id);
+create policy "Users can insert their own profile." on profiles for insert with check (auth.uid() = id and coalesce(role, 'student') = 'student');
 create policy "Users can update own profile." on profiles for update using (auth.uid() = id);
+create policy "Admins can update profiles." on profiles for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
 
 -- Courses
 create policy "Courses are viewable by everyone." on courses for select using (true);
 create policy "Admins can insert courses." on courses for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
 create policy "Admins can update courses." on courses for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
 create policy "Admins can delete courses." on courses for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can update their courses." on courses for update using (public.teaches_course(id)) with check (instructor_id = auth.uid());
 
 -- Enrollments
 create policy "Users can view own enrollments." on enrollments for select using (auth.uid() = user_id);
 create policy "Admins can view all enrollments." on enrollments for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
-create policy "Users can insert own enrollments." on enrollments for insert with check (auth.uid() = user_id);
-create policy "Users can update own enrollments." on enrollments for update using (auth.uid() = user_id);
+-- Paid programs are enrolled by the payment webhook; students may only self-enroll in free ones
+create policy "Users can insert own enrollments." on enrollments for insert with check (auth.uid() = user_id and exists (select 1 from courses where id = enrollments.course_id and coalesce(price, 0) = 0));
+create policy "Users can update own enrollments." on enrollments for update using (auth.uid() = user_id) with check (auth.uid() = user_id); -- Columns are guarded by protect_enrollment
 create policy "Admins can update enrollments." on enrollments for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can view their students' enrollments." on enrollments for select using (public.teaches_course(course_id));
+create policy "Instructors can review their students." on enrollments for update using (public.teaches_course(course_id));
+create policy "Users can view own enrollment history." on enrollment_status_history for select using (exists (select 1 from enrollments where id = enrollment_status_history.enrollment_id and user_id = auth.uid()));
+create policy "Admins can view all enrollment history." on enrollment_status_history for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can view their students' enrollment history." on enrollment_status_history for select using (exists (select 1 from enrollments where id = enrollment_status_history.enrollment_id and public.teaches_course(course_id)));
 
 -- Site Settings
 create policy "Site settings are viewable by everyone." on site_settings for select using (true);
@@ -89,6 +647,1792 @@ create policy "Admins can insert site settings." on site_settings for insert wit
 create policy "Videos are viewable by everyone." on videos for select using (true);
 create policy "Admins can insert videos." on videos for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
 
+-- Curriculum
+create policy "Course modules are viewable by everyone." on course_modules for select using (true);
+create policy "Admins can insert course modules." on course_modules for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update course modules." on course_modules for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete course modules." on course_modules for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Course lessons are viewable by everyone." on course_lessons for select using (true);
+create policy "Admins can insert course lessons." on course_lessons for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update course lessons." on course_lessons for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete course lessons." on course_lessons for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can insert their course modules." on course_modules for insert with check (public.teaches_course(course_id));
+create policy "Instructors can update their course modules." on course_modules for update using (public.teaches_course(course_id));
+create policy "Instructors can delete their course modules." on course_modules for delete using (public.teaches_course(course_id));
+create policy "Instructors can insert their course lessons." on course_lessons for insert with check (exists (select 1 from course_modules where id = course_lessons.module_id and public.teaches_course(course_id)));
+create policy "Instructors can update their course lessons." on course_lessons for update using (exists (select 1 from course_modules where id = course_lessons.module_id and public.teaches_course(course_id)));
+create policy "Instructors can delete their course lessons." on course_lessons for delete using (exists (select 1 from course_modules where id = course_lessons.module_id and public.teaches_course(course_id)));
+
+-- Lesson Progress
+create policy "Users can view own lesson progress." on lesson_progress for select using (auth.uid() = user_id);
+create policy "Admins can view all lesson progress." on lesson_progress for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Users can insert own lesson progress." on lesson_progress for insert with check (auth.uid() = user_id and exists (select 1 from enrollments where user_id = auth.uid() and course_id = lesson_progress.course_id));
+create policy "Users can update own lesson progress." on lesson_progress for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Assignments (students submit through submit_assignment() so they cannot write their own grades)
+create policy "Assignments are viewable by everyone." on assignments for select using (true);
+create policy "Admins can insert assignments." on assignments for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update assignments." on assignments for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete assignments." on assignments for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Users can view own submissions." on assignment_submissions for select using (auth.uid() = user_id);
+create policy "Admins can view all submissions." on assignment_submissions for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can grade submissions." on assignment_submissions for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can insert their assignments." on assignments for insert with check (public.teaches_course(course_id));
+create policy "Instructors can update their assignments." on assignments for update using (public.teaches_course(course_id));
+create policy "Instructors can delete their assignments." on assignments for delete using (public.teaches_course(course_id));
+create policy "Instructors can view their students' submissions." on assignment_submissions for select using (public.teaches_course(course_id));
+create policy "Instructors can grade their students' submissions." on assignment_submissions for update using (public.teaches_course(course_id));
+
+-- Quizzes (students get questions without answers from start_quiz_attempt(); attempts are graded by submit_quiz_attempt())
+create policy "Quizzes are viewable by everyone." on quizzes for select using (true);
+create policy "Admins can insert quizzes." on quizzes for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update quizzes." on quizzes for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete quizzes." on quizzes for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can view quiz questions." on quiz_questions for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can insert quiz questions." on quiz_questions for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update quiz questions." on quiz_questions for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete quiz questions." on quiz_questions for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Users can view own quiz attempts." on quiz_attempts for select using (auth.uid() = user_id);
+create policy "Admins can view all quiz attempts." on quiz_attempts for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete quiz attempts." on quiz_attempts for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can insert their quizzes." on quizzes for insert with check (public.teaches_course(course_id));
+create policy "Instructors can update their quizzes." on quizzes for update using (public.teaches_course(course_id));
+create policy "Instructors can delete their quizzes." on quizzes for delete using (public.teaches_course(course_id));
+create policy "Instructors can view their quiz questions." on quiz_questions for select using (exists (select 1 from quizzes where id = quiz_questions.quiz_id and public.teaches_course(course_id)));
+create policy "Instructors can insert their quiz questions." on quiz_questions for insert with check (exists (select 1 from quizzes where id = quiz_questions.quiz_id and public.teaches_course(course_id)));
+create policy "Instructors can update their quiz questions." on quiz_questions for update using (exists (select 1 from quizzes where id = quiz_questions.quiz_id and public.teaches_course(course_id)));
+create policy "Instructors can delete their quiz questions." on quiz_questions for delete using (exists (select 1 from quizzes where id = quiz_questions.quiz_id and public.teaches_course(course_id)));
+create policy "Instructors can view their students' quiz attempts." on quiz_attempts for select using (public.teaches_course(course_id));
+create policy "Instructors can reset their students' quiz attempts." on quiz_attempts for delete using (public.teaches_course(course_id));
+
+-- Orders & Payments (no client writes; the edge functions use the service role)
+create policy "Users can view own orders." on orders for select using (auth.uid() = user_id);
+create policy "Admins and finance can view all orders." on orders for select using (exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'finance')));
+create policy "Users can view own payments." on payments for select using (exists (select 1 from orders where id = payments.order_id and user_id = auth.uid()));
+create policy "Admins and finance can view all payments." on payments for select using (exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'finance')));
+
+-- Coupons (codes are validated by the edge functions; students only see scholarships assigned to them)
+create policy "Users can view coupons assigned to them." on coupons for select using (lower(recipient_email) = lower(auth.jwt() ->> 'email'));
+create policy "Admins and finance can view all coupons." on coupons for select using (exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'finance')));
+create policy "Admins and finance can insert coupons." on coupons for insert with check (exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'finance')));
+create policy "Admins and finance can update coupons." on coupons for update using (exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'finance')));
+create policy "Admins and finance can delete coupons." on coupons for delete using (exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'finance')));
+create policy "Users can view own coupon redemptions." on coupon_redemptions for select using (auth.uid() = user_id);
+create policy "Admins and finance can view all coupon redemptions." on coupon_redemptions for select using (exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'finance')));
+
+-- Certificates (the public verifies through verify_certificate() instead of reading the table)
+create policy "Users can view own certificates." on certificates for select using (auth.uid() = user_id);
+create policy "Admins can view all certificates." on certificates for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can issue certificates." on certificates for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can revoke certificates." on certificates for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can view their programs' certificates." on certificates for select using (public.teaches_course(course_id));
+create policy "Instructors can issue certificates for their programs." on certificates for insert with check (public.teaches_course(course_id));
+
+-- Certificate Templates
+create policy "Certificate templates are viewable by signed-in users." on certificate_templates for select using (auth.role() = 'authenticated');
+create policy "Admins can insert certificate templates." on certificate_templates for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update certificate templates." on certificate_templates for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete certificate templates." on certificate_templates for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+
+-- Signatories
+create policy "Signatories are viewable by signed-in users." on signatories for select using (auth.role() = 'authenticated');
+create policy "Admins can insert signatories." on signatories for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update signatories." on signatories for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete signatories." on signatories for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Course signatories are viewable by everyone." on course_signatories for select using (true);
+create policy "Admins can insert course signatories." on course_signatories for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update course signatories." on course_signatories for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete course signatories." on course_signatories for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+
+-- Cohorts (public schedule; students join waitlists through join_cohort_waitlist())
+create policy "Cohorts are viewable by everyone." on cohorts for select using (true);
+create policy "Admins can insert cohorts." on cohorts for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update cohorts." on cohorts for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete cohorts." on cohorts for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can insert their cohorts." on cohorts for insert with check (public.teaches_course(course_id));
+create policy "Instructors can update their cohorts." on cohorts for update using (public.teaches_course(course_id)) with check (public.teaches_course(course_id));
+create policy "Instructors can delete their cohorts." on cohorts for delete using (public.teaches_course(course_id));
+create policy "Users can view own waitlist entries." on cohort_waitlist for select using (auth.uid() = user_id);
+create policy "Users can leave waitlists." on cohort_waitlist for delete using (auth.uid() = user_id);
+create policy "Admins can view waitlists." on cohort_waitlist for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can remove waitlist entries." on cohort_waitlist for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can view their waitlists." on cohort_waitlist for select using (exists (select 1 from cohorts where id = cohort_waitlist.cohort_id and public.teaches_course(course_id)));
+
+-- Live sessions (meeting links are for the program's students, or one cohort's)
+create policy "Students can view their live sessions." on live_sessions for select using (
+  exists (select 1 from enrollments e where e.user_id = auth.uid() and e.course_id = live_sessions.course_id and (live_sessions.cohort_id is null or e.cohort_id = live_sessions.cohort_id))
+);
+create policy "Admins can view live sessions." on live_sessions for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can insert live sessions." on live_sessions for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update live sessions." on live_sessions for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete live sessions." on live_sessions for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can view their live sessions." on live_sessions for select using (public.teaches_course(course_id));
+create policy "Instructors can insert their live sessions." on live_sessions for insert with check (public.teaches_course(course_id));
+create policy "Instructors can update their live sessions." on live_sessions for update using (public.teaches_course(course_id)) with check (public.teaches_course(course_id));
+create policy "Instructors can delete their live sessions." on live_sessions for delete using (public.teaches_course(course_id));
+create policy "Users can view own attendance." on session_attendance for select using (auth.uid() = user_id);
+create policy "Admins can view attendance." on session_attendance for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can insert attendance." on session_attendance for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update attendance." on session_attendance for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete attendance." on session_attendance for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can view their attendance." on session_attendance for select using (exists (select 1 from live_sessions s where s.id = session_id and public.teaches_course(s.course_id)));
+create policy "Instructors can insert their attendance." on session_attendance for insert with check (exists (select 1 from live_sessions s where s.id = session_id and public.teaches_course(s.course_id)));
+create policy "Instructors can update their attendance." on session_attendance for update using (exists (select 1 from live_sessions s where s.id = session_id and public.teaches_course(s.course_id)));
+create policy "Instructors can delete their attendance." on session_attendance for delete using (exists (select 1 from live_sessions s where s.id = session_id and public.teaches_course(s.course_id)));
+create policy "Users can view own calendar feed." on calendar_feeds for select using (auth.uid() = user_id);
+
+-- Ratings (students rate programs they completed; admins flag or hide reviews). Completion is recorded by staff only,
+-- see check_completion_requirements, so the enrollment status can be trusted here.
+create policy "Published ratings are viewable by everyone." on course_ratings for select using (status = 'published');
+create policy "Users can view own ratings." on course_ratings for select using (auth.uid() = user_id);
+create policy "Graduates can rate their programs." on course_ratings for insert with check (
+  auth.uid() = user_id and exists (select 1 from enrollments where user_id = auth.uid() and course_id = course_ratings.course_id and status = 'completed')
+);
+create policy "Users can update own ratings." on course_ratings for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+-- A hidden review stays on record, so it cannot be deleted and posted again
+create policy "Users can delete own ratings." on course_ratings for delete using (auth.uid() = user_id and status <> 'hidden');
+create policy "Admins can view ratings." on course_ratings for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can moderate ratings." on course_ratings for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete ratings." on course_ratings for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can view their ratings." on course_ratings for select using (public.teaches_course(course_id));
+
+-- Discussions (participants only; hidden threads and replies are left to their authors and moderators)
+create policy "Participants can view discussions." on discussion_threads for select using (
+  public.is_discussion_participant(auth.uid(), course_id) and (hidden_at is null or author_id = auth.uid() or public.moderates_discussion(course_id))
+);
+create policy "Participants can start discussions." on discussion_threads for insert with check (author_id = auth.uid() and public.is_discussion_participant(auth.uid(), course_id));
+create policy "Authors and moderators can update discussions." on discussion_threads for update using (author_id = auth.uid() or public.moderates_discussion(course_id));
+create policy "Authors can delete unanswered discussions." on discussion_threads for delete using (author_id = auth.uid() and reply_count = 0);
+create policy "Moderators can delete discussions." on discussion_threads for delete using (public.moderates_discussion(course_id));
+create policy "Participants can view replies." on discussion_posts for select using (
+  exists (
+    select 1 from discussion_threads t where t.id = discussion_posts.thread_id
+      and (discussion_posts.hidden_at is null or discussion_posts.author_id = auth.uid() or public.moderates_discussion(t.course_id))
+  )
+);
+create policy "Participants can reply." on discussion_posts for insert with check (
+  author_id = auth.uid() and exists (select 1 from discussion_threads t where t.id = discussion_posts.thread_id)
+);
+create policy "Authors and moderators can update replies." on discussion_posts for update using (
+  author_id = auth.uid() or exists (select 1 from discussion_threads t where t.id = discussion_posts.thread_id and public.moderates_discussion(t.course_id))
+);
+create policy "Authors can delete replies nobody answered." on discussion_posts for delete using (
+  author_id = auth.uid() and not exists (select 1 from discussion_posts r where r.parent_id = discussion_posts.id)
+);
+create policy "Moderators can delete replies." on discussion_posts for delete using (
+  exists (select 1 from discussion_threads t where t.id = discussion_posts.thread_id and public.moderates_discussion(t.course_id))
+);
+create policy "Users can view own votes." on discussion_votes for select using (auth.uid() = user_id);
+-- Votes go on posts the voter can see (so only participants vote), and not on their own
+create policy "Participants can upvote others' posts." on discussion_votes for insert with check (
+  auth.uid() = user_id and (
+    exists (select 1 from discussion_threads t where t.id = discussion_votes.thread_id and t.author_id <> auth.uid())
+    or exists (select 1 from discussion_posts p where p.id = discussion_votes.post_id and p.author_id <> auth.uid())
+  )
+);
+create policy "Users can remove own votes." on discussion_votes for delete using (auth.uid() = user_id);
+
+-- Prerequisites and learning paths (public, so visitors see them in the catalog)
+create policy "Prerequisites are viewable by everyone." on course_prerequisites for select using (true);
+create policy "Admins can insert prerequisites." on course_prerequisites for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete prerequisites." on course_prerequisites for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can insert their programs' prerequisites." on course_prerequisites for insert with check (public.teaches_course(course_id));
+create policy "Instructors can delete their programs' prerequisites." on course_prerequisites for delete using (public.teaches_course(course_id));
+create policy "Learning paths are viewable by everyone." on learning_paths for select using (true);
+create policy "Admins can insert learning paths." on learning_paths for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update learning paths." on learning_paths for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete learning paths." on learning_paths for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Learning path programs are viewable by everyone." on learning_path_courses for select using (true);
+create policy "Admins can insert learning path programs." on learning_path_courses for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update learning path programs." on learning_path_courses for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete learning path programs." on learning_path_courses for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+
+-- Email (messages are queued by triggers and edge functions; admins only read the log and requeue)
+create policy "Admins can view email templates." on email_templates for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can insert email templates." on email_templates for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can update email templates." on email_templates for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can delete email templates." on email_templates for delete using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can view the email outbox." on email_outbox for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Admins can requeue emails." on email_outbox for update using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+
+-- Notifications (approvals and rejections are written by triggers; admins and instructors add comments directly)
+create policy "Users can view own notifications." on notifications for select using (auth.uid() = user_id);
+create policy "Users can update own notifications." on notifications for update using (auth.uid() = user_id);
+create policy "Users can delete own notifications." on notifications for delete using (auth.uid() = user_id);
+create policy "Admins can send notifications." on notifications for insert with check (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+create policy "Instructors can comment to their students." on notifications for insert with check (kind = 'comment' and exists (select 1 from enrollments where user_id = notifications.user_id and public.teaches_course(course_id)));
+
+-- Audit Log (no client writes)
+create policy "Admins can view the audit log." on audit_log for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+
+-- Analytics (anyone can record a view, including signed-out visitors; only admins read them)
+create policy "Anyone can record a course view." on course_views for insert with check (user_id is null or user_id = auth.uid());
+create policy "Admins can view course views." on course_views for select using (exists (select 1 from profiles where id = auth.uid() and role = 'admin'));
+
+-- Merge newly played spans into the ones already recorded, so seeking ahead never counts and spans
+-- watched in separate sittings or reported out of order add up once
+create or replace function public.merge_watched_ranges()
+returns trigger as $$
+declare
+  recorded jsonb := '[]'::jsonb;
+begin
+  if tg_op = 'UPDATE' then recorded := old.watched_ranges; end if;
+  select coalesce(jsonb_agg(jsonb_build_array(span_start, span_end) order by span_start), '[]'::jsonb), coalesce(floor(sum(span_end - span_start)), 0)
+  into new.watched_ranges, new.watched_seconds
+  from (
+    select min(span_start) as span_start, max(span_end) as span_end
+    from (
+      -- A span starts a new group unless it overlaps one that came before it
+      select span_start, span_end, count(*) filter (where opens_group) over (order by span_start, span_end) as grp
+      from (
+        select span_start, span_end,
+          span_start > coalesce(max(span_end) over (order by span_start, span_end rows between unbounded preceding and 1 preceding), -1) as opens_group
+        from (
+          select (r ->> 0)::numeric as span_start, (r ->> 1)::numeric as span_end
+          from jsonb_array_elements(coalesce(recorded, '[]'::jsonb) || coalesce(new.watched_ranges, '[]'::jsonb)) r
+        ) spans
+        where span_end > span_start
+      ) flagged
+    ) grouped
+    group by grp
+  ) merged;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_lesson_progress_update on lesson_progress;
+drop trigger if exists on_lesson_progress_watch on lesson_progress;
+create trigger on_lesson_progress_watch
+  before insert or update on lesson_progress
+  for each row execute procedure public.merge_watched_ranges();
+
+-- Progress is recorded against the program the lesson belongs to
+create or replace function public.check_lesson_progress()
+returns trigger as $$
+begin
+  if not exists (
+    select 1 from course_lessons l join course_modules m on m.id = l.module_id where l.id = new.lesson_id and m.course_id = new.course_id
+  ) then
+    raise exception 'This lesson belongs to another training program';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_lesson_progress_write on lesson_progress;
+create trigger on_lesson_progress_write
+  before insert or update of lesson_id, course_id on lesson_progress
+  for each row execute procedure public.check_lesson_progress();
+
+-- Derive enrollments.progress from completed lessons
+create or replace function public.refresh_enrollment_progress()
+returns trigger as $$
+declare
+  target_user uuid := coalesce(new.user_id, old.user_id);
+  target_course text := coalesce(new.course_id, old.course_id);
+  total_lessons integer;
+  done_lessons integer;
+begin
+  select count(*) into total_lessons
+    from course_lessons l join course_modules m on m.id = l.module_id
+    where m.course_id = target_course;
+
+  select count(*) into done_lessons
+    from lesson_progress p
+    join course_lessons l on l.id = p.lesson_id
+    join course_modules m on m.id = l.module_id
+    where p.user_id = target_user and m.course_id = target_course and p.completed_at is not null;
+
+  if total_lessons > 0 then
+    update enrollments
+      set progress = round(done_lessons * 100.0 / total_lessons)
+      where user_id = target_user and course_id = target_course and status <> 'completed';
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_lesson_progress_change on lesson_progress;
+create trigger on_lesson_progress_change
+  after insert or update or delete on lesson_progress
+  for each row execute procedure public.refresh_enrollment_progress();
+
+-- Submit (or resubmit) an assignment. Replacing a submission clears its grade.
+create or replace function public.submit_assignment(target_assignment uuid, submitted_file_path text, submitted_file_name text, submitted_link text, submitted_note text)
+returns assignment_submissions as $$
+declare
+  target assignments;
+  result assignment_submissions;
+begin
+  select * into target from assignments where id = target_assignment;
+  if target.id is null then raise exception 'Assignment not found'; end if;
+  if not exists (select 1 from enrollments where user_id = auth.uid() and course_id = target.course_id) then
+    raise exception 'Register for this training program to submit work';
+  end if;
+  if submitted_file_path is not null and split_part(submitted_file_path, '/', 1) <> auth.uid()::text then
+    raise exception 'Upload the file before submitting it';
+  end if;
+  if coalesce(submitted_file_path, submitted_link) is null then
+    raise exception 'Attach a file or a link';
+  end if;
+
+  insert into assignment_submissions (assignment_id, user_id, course_id, file_path, file_name, link_url, note)
+  values (target.id, auth.uid(), target.course_id, submitted_file_path, submitted_file_name, submitted_link, submitted_note)
+  on conflict (assignment_id, user_id) do update set
+    file_path = excluded.file_path, file_name = excluded.file_name, link_url = excluded.link_url, note = excluded.note,
+    submitted_at = timezone('utc'::text, now()),
+    rubric_scores = '{}'::jsonb, score = null, passed = null, feedback = null, graded_by = null, graded_at = null
+  returning * into result;
+  return result;
+end;
+$$ language plpgsql security definer;
+
+grant execute on function public.submit_assignment(uuid, text, text, text, text) to authenticated;
+
+-- Start a quiz attempt: draws the questions and returns them without their answers.
+-- An unfinished attempt that is still within its time limit is resumed instead.
+create or replace function public.start_quiz_attempt(target_quiz uuid)
+returns jsonb as $$
+declare
+  target quizzes;
+  attempt quiz_attempts;
+  used integer;
+begin
+  select * into target from quizzes where id = target_quiz;
+  if target.id is null then raise exception 'Quiz not found'; end if;
+  if not exists (select 1 from enrollments where user_id = auth.uid() and course_id = target.course_id) then
+    raise exception 'Register for this training program to take the quiz';
+  end if;
+
+  -- Attempts abandoned past their time limit score zero
+  update quiz_attempts
+    set submitted_at = expires_at, score = 0, percent = 0, passed = false,
+        max_score = (select coalesce(sum(points), 0) from quiz_questions where id = any(quiz_attempts.question_ids))
+    where quiz_id = target.id and user_id = auth.uid() and submitted_at is null and expires_at < now() - interval '30 seconds';
+
+  select * into attempt from quiz_attempts
+    where quiz_id = target.id and user_id = auth.uid() and submitted_at is null
+    order by started_at desc limit 1;
+
+  if attempt.id is null then
+    select count(*) into used from quiz_attempts where quiz_id = target.id and user_id = auth.uid();
+    if target.max_attempts is not null and used >= target.max_attempts then
+      raise exception 'No attempts left for this quiz';
+    end if;
+    if not exists (select 1 from quiz_questions where quiz_id = target.id) then
+      raise exception 'This quiz has no questions yet';
+    end if;
+
+    insert into quiz_attempts (quiz_id, user_id, course_id, question_ids, expires_at)
+    values (
+      target.id, auth.uid(), target.course_id,
+      array(
+        select drawn.id from (
+          select id, position from quiz_questions where quiz_id = target.id order by random() limit target.questions_per_attempt
+        ) drawn
+        order by case when target.shuffle_questions then random() else drawn.position end
+      ),
+      case when target.time_limit_minutes is not null then now() + make_interval(mins => target.time_limit_minutes) end
+    )
+    returning * into attempt;
+  end if;
+
+  return jsonb_build_object(
+    'attempt', to_jsonb(attempt),
+    'questions', (
+      select coalesce(jsonb_agg(jsonb_build_object('id', q.id, 'kind', q.kind, 'prompt', q.prompt, 'options', q.options, 'points', q.points)
+        order by array_position(attempt.question_ids, q.id)), '[]'::jsonb)
+      from quiz_questions q where q.id = any(attempt.question_ids)
+    )
+  );
+end;
+$$ language plpgsql security definer;
+
+grant execute on function public.start_quiz_attempt(uuid) to authenticated;
+
+-- Grade a quiz attempt. Choice questions must match exactly, numeric answers may be off by the
+-- question's tolerance and short text answers are compared ignoring case and surrounding spaces.
+-- Submissions are accepted for 30 seconds past the limit to cover the client's automatic submit.
+create or replace function public.submit_quiz_attempt(target_attempt uuid, submitted_answers jsonb)
+returns quiz_attempts as $$
+declare
+  attempt quiz_attempts;
+  target quizzes;
+  question quiz_questions;
+  given jsonb;
+  earned numeric;
+  earned_by_question jsonb := '{}'::jsonb;
+  total numeric := 0;
+  possible numeric := 0;
+begin
+  select * into attempt from quiz_attempts where id = target_attempt and user_id = auth.uid() for update;
+  if attempt.id is null then raise exception 'Attempt not found'; end if;
+  if attempt.submitted_at is not null then raise exception 'This attempt has already been submitted'; end if;
+  if attempt.expires_at is not null and now() > attempt.expires_at + interval '30 seconds' then
+    raise exception 'Time is up for this attempt';
+  end if;
+  select * into target from quizzes where id = attempt.quiz_id;
+
+  for question in select * from quiz_questions where id = any(attempt.question_ids) loop
+    given := submitted_answers -> question.id::text;
+    earned := case
+      when question.kind in ('single', 'multiple') and jsonb_typeof(given) = 'array' then
+        case when (select coalesce(array_agg(v order by v), '{}') from jsonb_array_elements_text(given) v)
+                = (select coalesce(array_agg(v order by v), '{}') from jsonb_array_elements_text(question.answer -> 'optionIds') v)
+          then question.points else 0 end
+      when question.kind = 'numeric' and jsonb_typeof(given) = 'number' then
+        case when abs((given #>> '{}')::numeric - (question.answer ->> 'value')::numeric) <= coalesce((question.answer ->> 'tolerance')::numeric, 0)
+          then question.points else 0 end
+      when question.kind = 'text' and jsonb_typeof(given) = 'string' then
+        case when exists (select 1 from jsonb_array_elements_text(question.answer -> 'accepted') a where lower(trim(a)) = lower(trim(given #>> '{}')))
+          then question.points else 0 end
+      else 0
+    end;
+    earned_by_question := earned_by_question || jsonb_build_object(question.id::text, coalesce(earned, 0));
+    total := total + coalesce(earned, 0);
+    possible := possible + question.points;
+  end loop;
+
+  update quiz_attempts set
+    answers = coalesce(submitted_answers, '{}'::jsonb),
+    results = earned_by_question,
+    submitted_at = timezone('utc'::text, now()),
+    score = total,
+    max_score = possible,
+    percent = case when possible > 0 then round(total * 100 / possible, 1) else 0 end,
+    passed = possible > 0 and total * 100 / possible >= target.pass_percent
+  where id = attempt.id
+  returning * into attempt;
+  return attempt;
+end;
+$$ language plpgsql security definer;
+
+grant execute on function public.submit_quiz_attempt(uuid, jsonb) to authenticated;
+
+-- Derive enrollments.quiz_score from the best attempt on each quiz (quizzes not yet taken count as zero)
+create or replace function public.refresh_enrollment_quiz_score()
+returns trigger as $$
+declare
+  target_user uuid := coalesce(new.user_id, old.user_id);
+  target_course text := coalesce(new.course_id, old.course_id);
+begin
+  update enrollments
+    set quiz_score = (
+      select round(avg(coalesce(best.percent, 0)), 1)
+      from quizzes q
+      left join lateral (
+        select max(a.percent) as percent from quiz_attempts a
+        where a.quiz_id = q.id and a.user_id = target_user and a.submitted_at is not null
+      ) best on true
+      where q.course_id = target_course
+    )
+    where user_id = target_user and course_id = target_course;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_quiz_attempt_change on quiz_attempts;
+create trigger on_quiz_attempt_change
+  after update or delete on quiz_attempts
+  for each row execute procedure public.refresh_enrollment_quiz_score();
+
+-- Attendance rate: present or late over the sessions marked for the student, excused ones aside; null when none count
+create or replace function public.attendance_percent(target_user uuid, target_course text)
+returns numeric as $$
+  select round(100.0 * count(*) filter (where a.status in ('present', 'late')) / nullif(count(*) filter (where a.status <> 'excused'), 0), 1)
+  from session_attendance a join live_sessions s on s.id = a.session_id
+  where a.user_id = target_user and s.course_id = target_course;
+$$ language sql stable security definer;
+
+-- Only students of the session's program (and cohort) are marked
+create or replace function public.check_session_attendance()
+returns trigger as $$
+declare
+  target live_sessions;
+begin
+  select * into target from live_sessions where id = new.session_id;
+  if not exists (
+    select 1 from enrollments where user_id = new.user_id and course_id = target.course_id
+      and (target.cohort_id is null or cohort_id = target.cohort_id)
+  ) then
+    raise exception 'Only students attending this session can be marked';
+  end if;
+  if tg_op = 'UPDATE' then
+    new.marked_at := now();
+    new.marked_by := auth.uid();
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_attendance_mark on session_attendance;
+create trigger on_attendance_mark
+  before insert or update on session_attendance
+  for each row execute procedure public.check_session_attendance();
+
+-- Keep enrollments.attendance_percent in step with the records
+create or replace function public.refresh_enrollment_attendance()
+returns trigger as $$
+begin
+  if tg_table_name = 'live_sessions' then
+    -- The session's records were removed with it
+    update enrollments set attendance_percent = public.attendance_percent(user_id, course_id) where course_id = old.course_id;
+  else
+    update enrollments e set attendance_percent = public.attendance_percent(e.user_id, e.course_id)
+    from live_sessions s
+    where s.id = coalesce(new.session_id, old.session_id) and e.course_id = s.course_id and e.user_id = coalesce(new.user_id, old.user_id);
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_attendance_change on session_attendance;
+create trigger on_attendance_change
+  after insert or update or delete on session_attendance
+  for each row execute procedure public.refresh_enrollment_attendance();
+drop trigger if exists on_live_session_delete_attendance on live_sessions;
+create trigger on_live_session_delete_attendance
+  after delete on live_sessions
+  for each row execute procedure public.refresh_enrollment_attendance();
+
+-- Students only request completion, from registered or rejected; approving and rejecting is for the program's
+-- instructor, admins and the service role. Programs that require passing assignments or quizzes refuse
+-- completion requests until every one is passed.
+create or replace function public.check_completion_requirements()
+returns trigger as $$
+declare
+  target courses;
+begin
+  if new.status is distinct from old.status and auth.uid() is not null and not public.teaches_course(new.course_id)
+    and not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    if new.status in ('completed', 'rejected') then
+      raise exception 'Only the program''s instructor or an admin can decide a completion request';
+    end if;
+    if new.status is distinct from 'pending' or coalesce(old.status, 'registered') not in ('registered', 'rejected') then
+      raise exception 'This enrollment cannot be changed to %', new.status;
+    end if;
+  end if;
+  if new.status = 'pending' and old.status is distinct from 'pending' then
+    select * into target from courses where id = new.course_id;
+    if target.require_passing_assignments and exists (
+      select 1 from assignments a
+      where a.course_id = new.course_id
+        and not exists (select 1 from assignment_submissions s where s.assignment_id = a.id and s.user_id = new.user_id and s.passed)
+    ) then
+      raise exception 'Pass every assignment before requesting completion';
+    end if;
+    if target.require_passing_quizzes and exists (
+      select 1 from quizzes q
+      where q.course_id = new.course_id
+        and not exists (select 1 from quiz_attempts a where a.quiz_id = q.id and a.user_id = new.user_id and a.passed)
+    ) then
+      raise exception 'Pass every quiz before requesting completion';
+    end if;
+    if target.min_attendance_percent is not null
+      and coalesce(public.attendance_percent(new.user_id, new.course_id), 0) < target.min_attendance_percent then
+      raise exception '%', 'Attend at least ' || target.min_attendance_percent || '% of live sessions before requesting completion';
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_completion_request on enrollments;
+create trigger on_completion_request
+  before update of status on enrollments
+  for each row execute procedure public.check_completion_requirements();
+
+-- Programs set to block refuse registration until every prerequisite is completed.
+-- Staff and the service role (admin enrollments, confirmed payments) are not checked.
+create or replace function public.check_enrollment_prerequisites()
+returns trigger as $$
+begin
+  if auth.uid() is null or exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'instructor')) then
+    return new;
+  end if;
+  if exists (select 1 from courses where id = new.course_id and prerequisite_rule = 'block') and exists (
+    select 1 from course_prerequisites cp
+    where cp.course_id = new.course_id
+      and not exists (select 1 from enrollments e where e.user_id = new.user_id and e.course_id = cp.prerequisite_id and e.status = 'completed')
+  ) then
+    raise exception 'Complete the prerequisite programs before registering for this one';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_prerequisites on enrollments;
+create trigger on_enrollment_prerequisites
+  before insert on enrollments
+  for each row execute procedure public.check_enrollment_prerequisites();
+
+-- Students register and request completion (see check_completion_requirements); the rest of an enrollment,
+-- reviewer feedback included, is written by the program's instructor, admins, the service role (payments)
+-- and the triggers that keep progress, quiz scores and attendance.
+create or replace function public.protect_enrollment()
+returns trigger as $$
+begin
+  if auth.uid() is null or pg_trigger_depth() > 1 or public.teaches_course(coalesce(old.course_id, new.course_id))
+    or exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    new.status := 'registered';
+    new.progress := 0;
+    new.quiz_score := null;
+    new.attendance_percent := null;
+    new.review_status := null;
+    new.review_note := null;
+    new.review_checklist := '[]'::jsonb;
+    new.reviewed_by := null;
+    new.reviewed_at := null;
+  else
+    new.user_id := old.user_id;
+    new.course_id := old.course_id;
+    new.cohort_id := old.cohort_id;
+    new.progress := old.progress;
+    new.quiz_score := old.quiz_score;
+    new.attendance_percent := old.attendance_percent;
+    new.review_status := old.review_status;
+    new.review_note := old.review_note;
+    new.review_checklist := old.review_checklist;
+    new.reviewed_by := old.reviewed_by;
+    new.reviewed_at := old.reviewed_at;
+    new.created_at := old.created_at;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_write on enrollments;
+create trigger on_enrollment_write
+  before insert or update on enrollments
+  for each row execute procedure public.protect_enrollment();
+
+-- Cohort seats: enrollments, seats held for waitlisted students of paid programs (two days) and seats held
+-- by unpaid checkouts (one hour, one per student; see hold_checkout_seat)
+create or replace function public.cohort_seats_taken(target uuid)
+returns integer as $$
+  select (select count(*) from enrollments where cohort_id = target)::integer
+    + (select count(*) from cohort_waitlist where cohort_id = target and offered_at > now() - interval '2 days')::integer
+    + (
+      select count(distinct o.user_id) from orders o
+      where o.cohort_id = target and o.status = 'pending' and o.created_at > now() - interval '1 hour'
+        and not exists (select 1 from cohort_waitlist w where w.cohort_id = target and w.user_id = o.user_id and w.offered_at > now() - interval '2 days')
+    )::integer;
+$$ language sql stable security definer;
+
+-- Seats taken and waitlist length per cohort, for the public schedule
+create or replace function public.cohort_availability()
+returns table (cohort_id uuid, seats_taken integer, waitlisted integer)
+as $$
+  select c.id, public.cohort_seats_taken(c.id), (select count(*) from cohort_waitlist w where w.cohort_id = c.id and w.offered_at is null)::integer
+  from cohorts c;
+$$ language sql stable security definer;
+
+grant execute on function public.cohort_availability() to anon, authenticated;
+
+-- Students register into an open cohort with a free seat; programs with cohorts require one.
+-- Staff and the service role (admin enrollments, confirmed payments, promotions) may overbook.
+create or replace function public.check_enrollment_cohort()
+returns trigger as $$
+declare
+  target cohorts;
+  is_staff boolean := auth.uid() is null or exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'instructor'));
+begin
+  if new.cohort_id is null then
+    if tg_op = 'INSERT' and not is_staff and exists (select 1 from cohorts where course_id = new.course_id) then
+      raise exception 'Choose a cohort to register for this training program';
+    end if;
+    return new;
+  end if;
+  select * into target from cohorts where id = new.cohort_id for update; -- Serializes seat checks per cohort
+  if target.course_id is distinct from new.course_id then raise exception 'This cohort belongs to another training program'; end if;
+  if is_staff then return new; end if;
+  if coalesce(target.registration_deadline, target.starts_on) < current_date then
+    raise exception 'Registration for this cohort has closed';
+  end if;
+  if target.capacity is not null and public.cohort_seats_taken(target.id) >= target.capacity then
+    raise exception 'This cohort is full; join the waitlist instead';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_cohort on enrollments;
+create trigger on_enrollment_cohort
+  before insert or update of cohort_id on enrollments
+  for each row execute procedure public.check_enrollment_cohort();
+
+-- A checkout order holds a seat in its cohort while the student pays. Locking the cohort row queues
+-- concurrent checkouts for the last seat, so only one of them gets it; the others are turned away.
+create or replace function public.hold_checkout_seat()
+returns trigger as $$
+declare
+  target cohorts;
+begin
+  if new.cohort_id is null then return new; end if;
+  select * into target from cohorts where id = new.cohort_id for update;
+  if target.capacity is null
+    or exists (select 1 from cohort_waitlist where cohort_id = target.id and user_id = new.user_id and offered_at > now() - interval '2 days')
+    or exists (select 1 from orders where cohort_id = target.id and user_id = new.user_id and status = 'pending' and created_at > now() - interval '1 hour')
+  then
+    return new;
+  end if;
+  if public.cohort_seats_taken(target.id) >= target.capacity then
+    raise exception 'This cohort is full. Join the waitlist instead.';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_order_cohort_seat on orders;
+create trigger on_order_cohort_seat
+  before insert on orders
+  for each row execute procedure public.hold_checkout_seat();
+
+-- Enrolls the student of a paid order into its cohort, or returns false when the cohort has no seat left for
+-- them. A payment confirmed after its one-hour hold lapsed only gets a seat that is still free; the student's
+-- own holds are not counted against them, and the lock keeps two late payments from taking the last seat.
+create or replace function public.claim_paid_order_seat(target_order uuid)
+returns boolean as $$
+declare
+  paid orders;
+  target cohorts;
+  own_hold integer;
+begin
+  select * into paid from orders where id = target_order;
+  if paid.cohort_id is null then return true; end if;
+  select * into target from cohorts where id = paid.cohort_id for update;
+  if target.capacity is not null then
+    own_hold := case when
+      exists (select 1 from cohort_waitlist where cohort_id = target.id and user_id = paid.user_id and offered_at > now() - interval '2 days')
+      or exists (select 1 from orders where cohort_id = target.id and user_id = paid.user_id and status = 'pending' and created_at > now() - interval '1 hour')
+    then 1 else 0 end;
+    if public.cohort_seats_taken(target.id) - own_hold >= target.capacity then return false; end if;
+  end if;
+  insert into enrollments (user_id, course_id, cohort_id, status, progress)
+  values (paid.user_id, paid.course_id, paid.cohort_id, 'registered', 0)
+  on conflict (user_id, course_id) do nothing;
+  return true;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function public.claim_paid_order_seat(uuid) from public, anon, authenticated;
+
+-- Coupons with a redemption limit are claimed under a lock on the coupon, so concurrent checkouts cannot all
+-- take its last use. A checkout order holds a use for an hour while the student pays, and the redemption
+-- recorded once it is paid counts against that hold; scholarships claim their use when recorded.
+create or replace function public.claim_coupon_use()
+returns trigger as $$
+declare
+  max_uses integer;
+begin
+  if new.coupon_code is null then return new; end if;
+  if tg_table_name = 'coupon_redemptions' then
+    if new.order_id is not null or exists (select 1 from coupon_redemptions where enrollment_id = new.enrollment_id) then
+      return new;
+    end if;
+  end if;
+  select max_redemptions into max_uses from coupons where code = new.coupon_code for update;
+  if max_uses is not null and (
+    (select count(*) from coupon_redemptions where coupon_code = new.coupon_code)
+    + (
+      select count(*) from orders
+      where coupon_code = new.coupon_code and status = 'pending' and created_at > now() - interval '1 hour' and user_id <> new.user_id
+    )
+  ) >= max_uses then
+    raise exception 'This coupon code has been fully redeemed.';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_order_coupon on orders;
+create trigger on_order_coupon
+  before insert on orders
+  for each row execute procedure public.claim_coupon_use();
+drop trigger if exists on_coupon_redemption on coupon_redemptions;
+create trigger on_coupon_redemption
+  before insert on coupon_redemptions
+  for each row execute procedure public.claim_coupon_use();
+
+-- Fills freed seats from the waitlist in joining order. Free programs enroll the student;
+-- paid programs hold the seat for two days while the student completes checkout.
+create or replace function public.promote_cohort_waitlist(target uuid)
+returns void as $$
+declare
+  target_cohort cohorts;
+  target_course courses;
+  entry cohort_waitlist;
+begin
+  delete from cohort_waitlist where cohort_id = target and offered_at <= now() - interval '2 days'; -- Lapsed holds
+  loop
+    select * into target_cohort from cohorts where id = target for update;
+    exit when target_cohort.id is null or coalesce(target_cohort.registration_deadline, target_cohort.starts_on) < current_date;
+    exit when target_cohort.capacity is not null and public.cohort_seats_taken(target) >= target_cohort.capacity;
+    select * into entry from cohort_waitlist where cohort_id = target and offered_at is null order by created_at limit 1;
+    exit when entry.id is null;
+    select * into target_course from courses where id = target_cohort.course_id;
+
+    if exists (select 1 from enrollments where user_id = entry.user_id and course_id = target_course.id) then
+      delete from cohort_waitlist where id = entry.id; -- Registered for another run meanwhile
+    elsif coalesce(target_course.price, 0) = 0 then
+      begin
+        insert into enrollments (user_id, course_id, cohort_id, status, progress) values (entry.user_id, target_course.id, target, 'registered', 0);
+        insert into notifications (user_id, kind, title, body, link)
+        values (entry.user_id, 'cohort_seat', 'You are in', 'A seat opened in the ' || target_cohort.name || ' cohort of ' || target_course.title || ' and you are now registered.', '/dashboard');
+      exception when others then
+        delete from cohort_waitlist where id = entry.id; -- The student can no longer register, e.g. blocking prerequisites
+      end;
+    else
+      update cohort_waitlist set offered_at = now() where id = entry.id;
+      insert into notifications (user_id, kind, title, body, link)
+      values (entry.user_id, 'cohort_seat', 'A seat is waiting for you', 'A seat opened in the ' || target_cohort.name || ' cohort of ' || target_course.title || '. Complete checkout within two days to claim it.', '/courses/' || target_course.id || '/checkout?cohort=' || target);
+    end if;
+  end loop;
+end;
+$$ language plpgsql security definer;
+
+-- Releases lapsed holds (waitlist offers and unpaid checkouts) and fills the seats from the waitlist.
+-- Run every few minutes with pg_cron (see README); other promotions only happen when a seat changes hands.
+create or replace function public.sweep_cohort_waitlists()
+returns void as $$
+declare
+  target uuid;
+begin
+  for target in select distinct cohort_id from cohort_waitlist loop
+    perform public.promote_cohort_waitlist(target);
+  end loop;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function public.sweep_cohort_waitlists() from public, anon, authenticated;
+
+-- Joins a full cohort's waitlist; a seat that is free after all is filled straight away
+create or replace function public.join_cohort_waitlist(target uuid)
+returns void as $$
+begin
+  if auth.uid() is null then raise exception 'Sign in to join the waitlist'; end if;
+  if exists (select 1 from enrollments e join cohorts c on c.course_id = e.course_id where c.id = target and e.user_id = auth.uid()) then
+    raise exception 'You are already registered for this training program';
+  end if;
+  insert into cohort_waitlist (cohort_id, user_id) values (target, auth.uid()) on conflict (cohort_id, user_id) do nothing;
+  perform public.promote_cohort_waitlist(target);
+end;
+$$ language plpgsql security definer;
+
+create or replace function public.on_cohort_seat_change()
+returns trigger as $$
+begin
+  if tg_table_name = 'enrollments' then
+    if tg_op <> 'DELETE' and new.cohort_id is not null then
+      -- Registered: leave every waitlist for this program
+      delete from cohort_waitlist w using cohorts c
+      where w.cohort_id = c.id and c.course_id = new.course_id and w.user_id = new.user_id;
+    end if;
+    if tg_op <> 'INSERT' and old.cohort_id is not null and (tg_op = 'DELETE' or new.cohort_id is distinct from old.cohort_id) then
+      perform public.promote_cohort_waitlist(old.cohort_id);
+    end if;
+  elsif tg_table_name = 'cohorts' then
+    perform public.promote_cohort_waitlist(new.id);
+  elsif old.offered_at > now() - interval '2 days' then
+    perform public.promote_cohort_waitlist(old.cohort_id); -- A held seat was given up
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_cohort_seat on enrollments;
+create trigger on_enrollment_cohort_seat
+  after insert or update of cohort_id or delete on enrollments
+  for each row execute procedure public.on_cohort_seat_change();
+drop trigger if exists on_cohort_capacity_change on cohorts;
+create trigger on_cohort_capacity_change
+  after update of capacity, registration_deadline, starts_on on cohorts
+  for each row execute procedure public.on_cohort_seat_change();
+drop trigger if exists on_waitlist_leave on cohort_waitlist;
+create trigger on_waitlist_leave
+  after delete on cohort_waitlist
+  for each row execute procedure public.on_cohort_seat_change();
+
+-- A session's cohort must belong to its program; rescheduling re-arms the reminders
+create or replace function public.prepare_live_session()
+returns trigger as $$
+begin
+  if new.cohort_id is not null and not exists (select 1 from cohorts where id = new.cohort_id and course_id = new.course_id) then
+    raise exception 'This cohort belongs to another training program';
+  end if;
+  if tg_op = 'UPDATE' then
+    if (new.title, new.description, new.starts_at, new.duration_minutes, new.timezone, new.meeting_url, new.cohort_id)
+      is distinct from (old.title, old.description, old.starts_at, old.duration_minutes, old.timezone, old.meeting_url, old.cohort_id) then
+      new.updated_at := now();
+    end if;
+    if new.starts_at is distinct from old.starts_at then
+      new.day_reminder_sent_at := null;
+      new.hour_reminder_sent_at := null;
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_live_session_change on live_sessions;
+create trigger on_live_session_change
+  before insert or update on live_sessions
+  for each row execute procedure public.prepare_live_session();
+
+-- Notifies attendees a day and an hour before each session. Run every few minutes with pg_cron (see README).
+-- Completed students are not reminded.
+create or replace function public.send_live_session_reminders()
+returns integer as $$
+declare
+  upcoming live_sessions;
+  course_title text;
+  is_hour boolean;
+  sent integer := 0;
+begin
+  for upcoming in
+    select * from live_sessions
+    where starts_at > now()
+      and ((starts_at <= now() + interval '1 hour' and hour_reminder_sent_at is null)
+        or (starts_at <= now() + interval '1 day' and day_reminder_sent_at is null))
+    for update skip locked
+  loop
+    is_hour := upcoming.starts_at <= now() + interval '1 hour';
+    select title into course_title from courses where id = upcoming.course_id;
+    insert into notifications (user_id, kind, title, body, link)
+    select e.user_id, 'live_session',
+      case when is_hour then 'Starting within the hour: ' else 'Within a day: ' end || upcoming.title,
+      course_title || ' · ' || to_char(upcoming.starts_at at time zone upcoming.timezone, 'Dy DD Mon, HH24:MI') || ' (' || upcoming.timezone || ')',
+      '/dashboard'
+    from enrollments e
+    where e.course_id = upcoming.course_id
+      and e.status <> 'completed'
+      and (upcoming.cohort_id is null or e.cohort_id = upcoming.cohort_id);
+    -- An hour reminder covers the day reminder for sessions scheduled at short notice
+    update live_sessions set
+      hour_reminder_sent_at = case when is_hour then now() else hour_reminder_sent_at end,
+      day_reminder_sent_at = coalesce(day_reminder_sent_at, now())
+    where id = upcoming.id;
+    sent := sent + 1;
+  end loop;
+  return sent;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function public.send_live_session_reminders() from public, anon, authenticated;
+
+-- Returns the caller's calendar feed token, creating it on first use. Resetting invalidates the old feed URL.
+create or replace function public.get_calendar_feed_token(reset boolean default false)
+returns text as $$
+declare
+  feed_token text;
+begin
+  if auth.uid() is null then raise exception 'Sign in to subscribe to your calendar'; end if;
+  if reset then delete from calendar_feeds where user_id = auth.uid(); end if;
+  insert into calendar_feeds (user_id) values (auth.uid()) on conflict (user_id) do nothing;
+  select token into feed_token from calendar_feeds where user_id = auth.uid();
+  return feed_token;
+end;
+$$ language plpgsql security definer;
+
+-- Authors edit the rating and text only; moderation is for admins. Revising a flagged review republishes it,
+-- while hidden reviews stay hidden.
+create or replace function public.prepare_course_rating()
+returns trigger as $$
+begin
+  if auth.uid() is not null and not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    if tg_op = 'INSERT' then
+      new.status := 'published';
+      new.moderation_note := null;
+      new.moderated_by := null;
+      new.moderated_at := null;
+    else
+      new.course_id := old.course_id;
+      new.user_id := old.user_id;
+      new.moderated_by := old.moderated_by;
+      new.moderated_at := old.moderated_at;
+      if old.status = 'flagged' and (new.rating, new.body) is distinct from (old.rating, old.body) then
+        new.status := 'published';
+        new.moderation_note := null;
+      else
+        new.status := old.status;
+        new.moderation_note := old.moderation_note;
+      end if;
+    end if;
+  elsif tg_op = 'UPDATE' and (new.status, new.moderation_note) is distinct from (old.status, old.moderation_note) then
+    new.moderated_by := auth.uid();
+    new.moderated_at := now();
+  end if;
+  if tg_op = 'UPDATE' and (new.rating, new.body) is distinct from (old.rating, old.body) then
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_course_rating_change on course_ratings;
+create trigger on_course_rating_change
+  before insert or update on course_ratings
+  for each row execute procedure public.prepare_course_rating();
+
+-- Average and count of published ratings per program, for catalog cards and sorting
+create or replace function public.course_rating_summaries()
+returns table (course_id text, average_rating numeric, ratings bigint)
+as $$
+  select r.course_id, round(avg(r.rating), 2), count(*) from course_ratings r where r.status = 'published' group by r.course_id;
+$$ language sql stable security definer;
+
+grant execute on function public.course_rating_summaries() to anon, authenticated;
+
+-- Discussion authors edit the title, lesson and text only; pinning, locking, hiding and marking the answer are
+-- for moderators. Counters are written by the triggers below (nested, so they skip these checks).
+create or replace function public.prepare_discussion_thread()
+returns trigger as $$
+declare
+  moderator boolean := public.moderates_discussion(coalesce(old.course_id, new.course_id));
+begin
+  if auth.uid() is null or pg_trigger_depth() > 1 then return new; end if;
+  if tg_op = 'INSERT' then
+    new.author_id := auth.uid();
+    new.is_staff := moderator;
+    new.answer_post_id := null;
+    new.hidden_at := null;
+    new.hidden_by := null;
+    new.upvotes := 0;
+    new.reply_count := 0;
+    new.last_activity_at := now();
+    new.edited_at := null;
+    if not moderator then
+      new.is_pinned := false;
+      new.is_locked := false;
+    end if;
+  else
+    new.course_id := old.course_id;
+    new.author_id := old.author_id;
+    new.is_staff := old.is_staff;
+    new.upvotes := old.upvotes;
+    new.reply_count := old.reply_count;
+    new.last_activity_at := old.last_activity_at;
+    new.created_at := old.created_at;
+    if not moderator then
+      new.is_pinned := old.is_pinned;
+      new.is_locked := old.is_locked;
+      new.answer_post_id := old.answer_post_id;
+      new.hidden_at := old.hidden_at;
+      new.hidden_by := old.hidden_by;
+    elsif new.hidden_at is distinct from old.hidden_at then
+      new.hidden_by := case when new.hidden_at is null then null else auth.uid() end;
+    end if;
+    if new.answer_post_id is not null and not exists (select 1 from discussion_posts where id = new.answer_post_id and thread_id = new.id) then
+      raise exception 'The answer must be a reply in this discussion';
+    end if;
+    if (new.title, new.body, new.lesson_id) is distinct from (old.title, old.body, old.lesson_id) then
+      new.edited_at := now();
+    end if;
+  end if;
+  if new.lesson_id is not null and not exists (
+    select 1 from course_lessons l join course_modules m on m.id = l.module_id where l.id = new.lesson_id and m.course_id = new.course_id
+  ) then
+    raise exception 'This lesson belongs to another training program';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_discussion_thread_change on discussion_threads;
+create trigger on_discussion_thread_change
+  before insert or update on discussion_threads
+  for each row execute procedure public.prepare_discussion_thread();
+
+-- Replies stay in their thread, and locked threads take replies from moderators only
+create or replace function public.prepare_discussion_post()
+returns trigger as $$
+declare
+  thread discussion_threads;
+  moderator boolean;
+begin
+  if auth.uid() is null or pg_trigger_depth() > 1 then return new; end if;
+  select * into thread from discussion_threads where id = coalesce(old.thread_id, new.thread_id);
+  moderator := public.moderates_discussion(thread.course_id);
+  if tg_op = 'INSERT' then
+    if thread.is_locked and not moderator then
+      raise exception 'This discussion is locked';
+    end if;
+    if new.parent_id is not null and not exists (select 1 from discussion_posts where id = new.parent_id and thread_id = new.thread_id) then
+      raise exception 'Replies must stay in their discussion';
+    end if;
+    new.author_id := auth.uid();
+    new.is_staff := moderator;
+    new.hidden_at := null;
+    new.hidden_by := null;
+    new.upvotes := 0;
+    new.edited_at := null;
+  else
+    new.thread_id := old.thread_id;
+    new.parent_id := old.parent_id;
+    new.author_id := old.author_id;
+    new.is_staff := old.is_staff;
+    new.upvotes := old.upvotes;
+    new.created_at := old.created_at;
+    if not moderator then
+      new.hidden_at := old.hidden_at;
+      new.hidden_by := old.hidden_by;
+    elsif new.hidden_at is distinct from old.hidden_at then
+      new.hidden_by := case when new.hidden_at is null then null else auth.uid() end;
+    end if;
+    if new.body is distinct from old.body then
+      new.edited_at := now();
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_discussion_post_change on discussion_posts;
+create trigger on_discussion_post_change
+  before insert or update on discussion_posts
+  for each row execute procedure public.prepare_discussion_post();
+
+-- Keep discussion_threads.reply_count and last_activity_at in step with the replies
+create or replace function public.refresh_discussion_thread_counts()
+returns trigger as $$
+declare
+  target uuid := coalesce(new.thread_id, old.thread_id);
+begin
+  update discussion_threads
+  set reply_count = (select count(*) from discussion_posts where thread_id = target),
+      last_activity_at = case when tg_op = 'INSERT' then now() else last_activity_at end
+  where id = target;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_discussion_post_count on discussion_posts;
+create trigger on_discussion_post_count
+  after insert or delete on discussion_posts
+  for each row execute procedure public.refresh_discussion_thread_counts();
+
+-- Keep the upvote counters in step with the votes
+create or replace function public.refresh_discussion_upvotes()
+returns trigger as $$
+declare
+  target_thread uuid := coalesce(new.thread_id, old.thread_id);
+  target_post uuid := coalesce(new.post_id, old.post_id);
+begin
+  if target_thread is not null then
+    update discussion_threads set upvotes = (select count(*) from discussion_votes where thread_id = target_thread) where id = target_thread;
+  else
+    update discussion_posts set upvotes = (select count(*) from discussion_votes where post_id = target_post) where id = target_post;
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_discussion_vote_change on discussion_votes;
+create trigger on_discussion_vote_change
+  after insert or delete on discussion_votes
+  for each row execute procedure public.refresh_discussion_upvotes();
+
+-- People who can be @mentioned on a program's board: its students and instructor. Participants only.
+create or replace function public.discussion_participants(target_course text)
+returns table (user_id uuid, name text, is_staff boolean)
+as $$
+  select p.id, coalesce(p.name, split_part(p.email, '@', 1)), bool_or(p.id = c.instructor_id and p.role = 'instructor')
+  from courses c
+  join profiles p on p.id = c.instructor_id or p.id in (select e.user_id from enrollments e where e.course_id = c.id)
+  where c.id = target_course and public.is_discussion_participant(auth.uid(), target_course)
+  group by p.id, p.name, p.email;
+$$ language sql stable security definer;
+
+-- Learning path certificates: issued once every program on a path is completed.
+-- A path that was revoked for a student is not issued again automatically.
+create or replace function public.issue_path_certificates(target_user uuid default null)
+returns void as $$
+  insert into certificates (user_id, path_id, recipient_name, course_title)
+  select p.id, lp.id, coalesce(p.name, p.email), lp.title
+  from learning_paths lp
+  cross join profiles p
+  where (target_user is null or p.id = target_user)
+    and exists (select 1 from learning_path_courses lpc where lpc.path_id = lp.id)
+    and not exists (
+      select 1 from learning_path_courses lpc
+      where lpc.path_id = lp.id
+        and not exists (select 1 from enrollments e where e.user_id = p.id and e.course_id = lpc.course_id and e.status = 'completed')
+    )
+    and not exists (select 1 from certificates c where c.user_id = p.id and c.path_id = lp.id);
+$$ language sql security definer;
+
+revoke execute on function public.issue_path_certificates(uuid) from public, anon, authenticated;
+
+-- Only completions recorded by the program's instructor, an admin or the service role issue path certificates
+create or replace function public.on_path_progress()
+returns trigger as $$
+begin
+  if tg_table_name = 'enrollments' then
+    if new.status = 'completed' and (
+      auth.uid() is null or public.teaches_course(new.course_id) or exists (select 1 from profiles where id = auth.uid() and role = 'admin')
+    ) then
+      perform public.issue_path_certificates(new.user_id);
+    end if;
+  else
+    perform public.issue_path_certificates(); -- Students who already completed a newly added program
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_path_progress on enrollments;
+create trigger on_enrollment_path_progress
+  after insert or update of status on enrollments
+  for each row execute procedure public.on_path_progress();
+drop trigger if exists on_learning_path_courses_change on learning_path_courses;
+create trigger on_learning_path_courses_change
+  after insert or delete on learning_path_courses
+  for each statement execute procedure public.on_path_progress();
+
+-- Public certificate verification: returns only the looked-up certificate
+create or replace function public.verify_certificate(certificate_serial text)
+returns table (serial text, recipient_name text, course_title text, issued_at timestamp with time zone, revoked_at timestamp with time zone, revocation_reason text)
+as $$
+  select c.serial, c.recipient_name, c.course_title, c.issued_at, c.revoked_at, c.revocation_reason
+  from certificates c
+  where c.serial = upper(trim(certificate_serial));
+$$ language sql stable security definer;
+
+grant execute on function public.verify_certificate(text) to anon, authenticated;
+
+-- Registrations per program for sorting the catalog by popularity, without exposing enrollments
+create or replace function public.course_enrollment_counts()
+returns table (course_id text, enrollments bigint)
+as $$
+  select e.course_id, count(*) from enrollments e group by e.course_id;
+$$ language sql stable security definer;
+
+grant execute on function public.course_enrollment_counts() to anon, authenticated;
+
+-- Backfill certificates for completions approved before certificates were issued
+insert into certificates (user_id, course_id, recipient_name, course_title)
+select e.user_id, e.course_id, coalesce(p.name, p.email), c.title
+from enrollments e
+join profiles p on p.id = e.user_id
+join courses c on c.id = e.course_id
+where e.status = 'completed'
+  and not exists (select 1 from certificates x where x.user_id = e.user_id and x.course_id = e.course_id and x.revoked_at is null);
+
+-- Backfill signatories from course signatures uploaded before the registry existed
+do $$
+declare
+  legacy record;
+  new_signatory uuid;
+begin
+  for legacy in
+    select c.id, c.instructor, c.signature_image from courses c
+    where c.signature_image is not null
+      and not exists (select 1 from course_signatories s where s.course_id = c.id)
+  loop
+    insert into signatories (name, title, signature_image)
+      values (coalesce(nullif(legacy.instructor, ''), 'Instructor'), 'Lead Instructor', legacy.signature_image)
+      returning id into new_signatory;
+    insert into course_signatories (course_id, signatory_id, position) values (legacy.id, new_signatory, 0);
+  end loop;
+end $$;
+
+-- Queue a transactional email; process-email-outbox renders and delivers it
+create or replace function public.enqueue_email(template_key text, recipient text, payload jsonb)
+returns void as $$
+begin
+  if coalesce(recipient, '') = '' then return; end if;
+  insert into email_outbox (template, recipient, data) values (template_key, recipient, payload);
+end;
+$$ language plpgsql security definer;
+
+-- Claim due messages for one delivery run. Claimed rows are held for 10 minutes,
+-- so a run that dies mid-send is retried; skip locked keeps overlapping runs apart.
+create or replace function public.claim_email_outbox(batch_size integer)
+returns setof email_outbox as $$
+  update email_outbox
+    set status = 'sending', attempts = attempts + 1, next_attempt_at = now() + interval '10 minutes'
+    where id in (
+      select id from email_outbox
+      where status in ('pending', 'sending') and next_attempt_at <= now()
+      order by next_attempt_at
+      limit batch_size
+      for update skip locked
+    )
+    returning *;
+$$ language sql security definer;
+
+revoke execute on function public.enqueue_email(text, text, jsonb) from public, anon, authenticated;
+revoke execute on function public.claim_email_outbox(integer) from public, anon, authenticated;
+
+-- Registration confirmations and completion rejections
+create or replace function public.queue_enrollment_email()
+returns trigger as $$
+declare
+  student record;
+  payload jsonb;
+begin
+  select p.name, p.email into student from profiles p where p.id = new.user_id;
+  payload := jsonb_build_object(
+    'name', coalesce(student.name, student.email),
+    'courseTitle', (select c.title from courses c where c.id = new.course_id)
+  );
+  if tg_op = 'INSERT' then
+    perform public.enqueue_email('registration_confirmation', student.email, payload);
+  elsif old.status = 'pending' and new.status = 'rejected' then
+    perform public.enqueue_email('completion_rejected', student.email, payload || jsonb_build_object('reason', coalesce(new.review_note, '')));
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_email on enrollments;
+create trigger on_enrollment_email
+  after insert or update of status on enrollments
+  for each row execute procedure public.queue_enrollment_email();
+
+-- Completion emails carry the certificate serial (created after the backfill above, so it sends nothing for old completions)
+create or replace function public.queue_certificate_email()
+returns trigger as $$
+begin
+  perform public.enqueue_email(
+    'completion_approved',
+    (select p.email from profiles p where p.id = new.user_id),
+    jsonb_build_object('name', new.recipient_name, 'courseTitle', new.course_title, 'serial', new.serial)
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_certificate_email on certificates;
+create trigger on_certificate_email
+  after insert on certificates
+  for each row execute procedure public.queue_certificate_email();
+
+-- Payment receipts
+create or replace function public.queue_receipt_email()
+returns trigger as $$
+declare
+  student record;
+begin
+  if new.status = 'paid' and old.status is distinct from 'paid' then
+    select p.name, p.email into student from profiles p where p.id = new.user_id;
+    perform public.enqueue_email('payment_receipt', student.email, jsonb_build_object(
+      'name', coalesce(student.name, student.email),
+      'courseTitle', (select c.title from courses c where c.id = new.course_id),
+      'invoiceNumber', new.invoice_number,
+      'amount', to_char(new.amount, 'FM999,999,990.00'),
+      'currency', new.currency,
+      'orderId', new.id
+    ));
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_order_paid_email on orders;
+create trigger on_order_paid_email
+  after update of status on orders
+  for each row execute procedure public.queue_receipt_email();
+
+-- Record every enrollment status change with the acting user and, for review decisions, the reviewer's feedback
+create or replace function public.record_enrollment_status()
+returns trigger as $$
+declare
+  is_review boolean := new.status in ('rejected', 'completed');
+begin
+  if tg_op = 'UPDATE' and old.status is not distinct from new.status then return null; end if;
+  insert into enrollment_status_history (enrollment_id, from_status, to_status, actor_id, note, checklist)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    auth.uid(),
+    case when is_review then new.review_note end,
+    case when is_review then new.review_checklist else '[]'::jsonb end
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_status_change on enrollments;
+create trigger on_enrollment_status_change
+  after insert or update of status on enrollments
+  for each row execute procedure public.record_enrollment_status();
+
+-- Backfill a starting history entry for enrollments created before history was recorded
+insert into enrollment_status_history (enrollment_id, to_status, created_at)
+select e.id, e.status, e.created_at
+from enrollments e
+where not exists (select 1 from enrollment_status_history h where h.enrollment_id = e.id);
+
+-- In-app notifications for completion decisions
+create or replace function public.notify_completion_decision()
+returns trigger as $$
+declare
+  course_title text;
+begin
+  if old.status is distinct from 'pending' then return null; end if;
+  select c.title into course_title from courses c where c.id = new.course_id;
+  if new.status = 'completed' then
+    insert into notifications (user_id, kind, title, body, link)
+    values (new.user_id, 'completion_approved', 'Completion approved', 'Congratulations! Your completion of ' || course_title || ' was approved and your certificate is ready.', '/certificates/' || new.course_id);
+  elsif new.status = 'rejected' then
+    insert into notifications (user_id, kind, title, body, link)
+    values (new.user_id, 'completion_rejected', 'Completion request not approved', coalesce(
+      'Feedback on ' || course_title || ': ' || nullif(new.review_note, ''),
+      'Your completion request for ' || course_title || ' was not approved yet. Review the remaining lessons and try again.'
+    ), '/dashboard');
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_enrollment_decision_notify on enrollments;
+create trigger on_enrollment_decision_notify
+  after update of status on enrollments
+  for each row execute procedure public.notify_completion_decision();
+
+-- Notify students when they finish a learning path
+create or replace function public.notify_path_certificate()
+returns trigger as $$
+begin
+  if new.path_id is null then return null; end if;
+  insert into notifications (user_id, kind, title, body, link)
+  values (new.user_id, 'path_completed', 'Learning path completed', 'Congratulations! You completed every program on ' || new.course_title || ' and your path certificate is ready.', '/paths/' || new.path_id || '/certificate');
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_path_certificate_notify on certificates;
+create trigger on_path_certificate_notify
+  after insert on certificates
+  for each row execute procedure public.notify_path_certificate();
+
+-- Notify students when a submission is graded
+create or replace function public.notify_assignment_graded()
+returns trigger as $$
+begin
+  if new.graded_at is not null and old.graded_at is distinct from new.graded_at then
+    insert into notifications (user_id, kind, title, body, link)
+    select new.user_id, 'assignment_graded', 'Assignment graded: ' || a.title,
+      case when new.passed then 'You passed with ' else 'You did not pass yet, scoring ' end || new.score || ' points.' || coalesce(' ' || nullif(new.feedback, ''), ''),
+      '/courses/' || new.course_id || '/assignments'
+    from assignments a where a.id = new.assignment_id;
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_assignment_graded on assignment_submissions;
+create trigger on_assignment_graded
+  after update of graded_at on assignment_submissions
+  for each row execute procedure public.notify_assignment_graded();
+
+-- Tell authors when their review is flagged or hidden, with the moderator's note
+create or replace function public.notify_rating_moderated()
+returns trigger as $$
+begin
+  if new.status in ('flagged', 'hidden') and old.status is distinct from new.status then
+    insert into notifications (user_id, kind, title, body, link)
+    select new.user_id, 'rating_moderated',
+      case new.status when 'flagged' then 'Please revise your review of ' else 'Your review was hidden: ' end || c.title,
+      coalesce(nullif(new.moderation_note, ''), case new.status
+        when 'flagged' then 'Your review is off the catalog until you edit it.'
+        else 'Your review no longer appears in the catalog.' end),
+      '/courses/' || new.course_id
+    from courses c where c.id = new.course_id;
+  end if;
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_rating_moderated on course_ratings;
+create trigger on_rating_moderated
+  after update of status on course_ratings
+  for each row execute procedure public.notify_rating_moderated();
+
+-- Notify @mentioned participants of a new thread or reply (authors are never notified of their own posts)
+create or replace function public.notify_discussion_mentions(mentioned uuid[], author uuid, thread discussion_threads, post_body text)
+returns void as $$
+  insert into notifications (user_id, kind, title, body, link)
+  select distinct m.id, 'discussion',
+    coalesce((select name from profiles where id = author), 'Someone') || ' mentioned you in "' || left(thread.title, 80) || '"',
+    left(post_body, 200),
+    '/courses/' || thread.course_id || '/discussions/' || thread.id
+  from unnest(mentioned) as m(id)
+  where m.id <> author and public.is_discussion_participant(m.id, thread.course_id);
+$$ language sql security definer;
+
+revoke execute on function public.notify_discussion_mentions(uuid[], uuid, discussion_threads, text) from public, anon, authenticated;
+
+-- New threads notify the program's instructor and anyone mentioned
+create or replace function public.notify_discussion_thread()
+returns trigger as $$
+begin
+  insert into notifications (user_id, kind, title, body, link)
+  select c.instructor_id, 'discussion', 'New question in ' || c.title || ': ' || left(new.title, 80), left(new.body, 200),
+    '/courses/' || c.id || '/discussions/' || new.id
+  from courses c
+  where c.id = new.course_id and c.instructor_id is not null and c.instructor_id <> new.author_id
+    and not c.instructor_id = any(new.mentions);
+  perform public.notify_discussion_mentions(new.mentions, new.author_id, new, new.body);
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_discussion_thread_notify on discussion_threads;
+create trigger on_discussion_thread_notify
+  after insert on discussion_threads
+  for each row execute procedure public.notify_discussion_thread();
+
+-- Replies notify the thread's author and the author of the reply answered, unless they wrote it or were mentioned
+create or replace function public.notify_discussion_reply()
+returns trigger as $$
+declare
+  thread discussion_threads;
+begin
+  select * into thread from discussion_threads where id = new.thread_id;
+  insert into notifications (user_id, kind, title, body, link)
+  select distinct recipient, 'discussion',
+    coalesce((select name from profiles where id = new.author_id), 'Someone') || ' replied in "' || left(thread.title, 80) || '"',
+    left(new.body, 200),
+    '/courses/' || thread.course_id || '/discussions/' || thread.id
+  from unnest(array[thread.author_id, (select author_id from discussion_posts where id = new.parent_id)]) as recipient
+  where recipient is not null and recipient <> new.author_id and not recipient = any(new.mentions);
+  perform public.notify_discussion_mentions(new.mentions, new.author_id, thread, new.body);
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_discussion_post_notify on discussion_posts;
+create trigger on_discussion_post_notify
+  after insert on discussion_posts
+  for each row execute procedure public.notify_discussion_reply();
+
+-- Stream inbox inserts to signed-in clients (Realtime applies the select policies above)
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'notifications') then
+    alter publication supabase_realtime add table notifications;
+  end if;
+end $$;
+
+-- Only admins change roles or deactivation (the update policy above would otherwise let users promote themselves).
+-- The SQL editor and the service role have no auth.uid(), which is how the first admin is made.
+-- Role changes are recorded in the audit log.
+create or replace function public.protect_profile_role()
+returns trigger as $$
+begin
+  if (new.role is distinct from old.role or new.deactivated_at is distinct from old.deactivated_at)
+     and auth.uid() is not null and not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only admins can change roles';
+  end if;
+  if new.role is distinct from old.role then
+    if old.role = 'admin' and not exists (select 1 from profiles where role = 'admin' and id <> old.id) then
+      raise exception 'Keep at least one admin';
+    end if;
+    insert into audit_log (actor_id, action, target_type, target_id, summary, before, after)
+    values (auth.uid(), 'user.role_change', 'user', new.id::text,
+            'Changed ' || coalesce(new.name, new.email) || ' from ' || coalesce(old.role, 'student') || ' to ' || new.role,
+            jsonb_build_object('role', old.role), jsonb_build_object('role', new.role));
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_profile_role_change on profiles;
+create trigger on_profile_role_change
+  before update of role, deactivated_at on profiles
+  for each row execute procedure public.protect_profile_role();
+
+-- Instructors edit content; pricing and certificates stay with admins.
+create or replace function public.protect_course_admin_fields()
+returns trigger as $$
+begin
+  if auth.uid() is not null and not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    new.price := old.price;
+    new.certificate_template := old.certificate_template;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_course_update_protect on courses;
+create trigger on_course_update_protect
+  before update on courses
+  for each row execute procedure public.protect_course_admin_fields();
+
+-- Audit trail: staff writes to the tables below are recorded with a before/after diff.
+-- Students' own writes and service-role writes (edge functions log their own) are skipped.
+-- Arguments: target type, key column, optional label column for the summary.
+create or replace function public.audit_row_change()
+returns trigger as $$
+declare
+  old_row jsonb := case when TG_OP <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when TG_OP <> 'DELETE' then to_jsonb(new) end;
+  row_data jsonb := coalesce(new_row, old_row);
+  before_values jsonb := old_row;
+  after_values jsonb := new_row;
+  label text := coalesce(row_data->>TG_ARGV[2], row_data->>TG_ARGV[1]);
+begin
+  if auth.uid() is null or not exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'instructor', 'finance')) then
+    return null;
+  end if;
+
+  if TG_OP = 'UPDATE' then
+    select jsonb_object_agg(n.key, n.value), jsonb_object_agg(n.key, old_row->n.key)
+      into after_values, before_values
+      from jsonb_each(new_row) n
+      where n.value is distinct from old_row->n.key;
+    if after_values is null then return null; end if; -- Saved without changes
+  end if;
+
+  insert into audit_log (actor_id, action, target_type, target_id, summary, before, after)
+  values (
+    auth.uid(),
+    TG_ARGV[0] || '.' || lower(TG_OP),
+    TG_ARGV[0],
+    row_data->>TG_ARGV[1],
+    case TG_OP when 'INSERT' then 'Created ' when 'UPDATE' then 'Updated ' else 'Deleted ' end
+      || replace(TG_ARGV[0], '_', ' ') || ' "' || left(coalesce(label, ''), 80) || '"',
+    before_values,
+    after_values
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists audit_courses on courses;
+create trigger audit_courses after insert or update or delete on courses
+  for each row execute procedure public.audit_row_change('course', 'id', 'title');
+drop trigger if exists audit_course_modules on course_modules;
+create trigger audit_course_modules after insert or update or delete on course_modules
+  for each row execute procedure public.audit_row_change('course_module', 'id', 'title');
+drop trigger if exists audit_course_lessons on course_lessons;
+create trigger audit_course_lessons after insert or update or delete on course_lessons
+  for each row execute procedure public.audit_row_change('course_lesson', 'id', 'title');
+drop trigger if exists audit_course_signatories on course_signatories;
+create trigger audit_course_signatories after insert or update or delete on course_signatories
+  for each row execute procedure public.audit_row_change('course_signatory', 'course_id', 'signatory_id');
+drop trigger if exists audit_cohorts on cohorts;
+create trigger audit_cohorts after insert or update or delete on cohorts
+  for each row execute procedure public.audit_row_change('cohort', 'id', 'name');
+drop trigger if exists audit_live_sessions on live_sessions;
+create trigger audit_live_sessions after insert or update or delete on live_sessions
+  for each row execute procedure public.audit_row_change('live_session', 'id', 'title');
+drop trigger if exists audit_course_prerequisites on course_prerequisites;
+create trigger audit_course_prerequisites after insert or update or delete on course_prerequisites
+  for each row execute procedure public.audit_row_change('course_prerequisite', 'course_id', 'prerequisite_id');
+drop trigger if exists audit_learning_paths on learning_paths;
+create trigger audit_learning_paths after insert or update or delete on learning_paths
+  for each row execute procedure public.audit_row_change('learning_path', 'id', 'title');
+drop trigger if exists audit_learning_path_courses on learning_path_courses;
+create trigger audit_learning_path_courses after insert or update or delete on learning_path_courses
+  for each row execute procedure public.audit_row_change('learning_path_course', 'path_id', 'course_id');
+drop trigger if exists audit_site_settings on site_settings;
+create trigger audit_site_settings after insert or update or delete on site_settings
+  for each row execute procedure public.audit_row_change('site_setting', 'key');
+drop trigger if exists audit_videos on videos;
+create trigger audit_videos after insert or update or delete on videos
+  for each row execute procedure public.audit_row_change('video', 'id', 'title');
+drop trigger if exists audit_coupons on coupons;
+create trigger audit_coupons after insert or update or delete on coupons
+  for each row execute procedure public.audit_row_change('coupon', 'code');
+drop trigger if exists audit_certificates on certificates;
+create trigger audit_certificates after insert or update or delete on certificates
+  for each row execute procedure public.audit_row_change('certificate', 'id', 'serial');
+drop trigger if exists audit_certificate_templates on certificate_templates;
+create trigger audit_certificate_templates after insert or update or delete on certificate_templates
+  for each row execute procedure public.audit_row_change('certificate_template', 'id', 'name');
+drop trigger if exists audit_signatories on signatories;
+create trigger audit_signatories after insert or update or delete on signatories
+  for each row execute procedure public.audit_row_change('signatory', 'id', 'name');
+drop trigger if exists audit_email_templates on email_templates;
+create trigger audit_email_templates after insert or update or delete on email_templates
+  for each row execute procedure public.audit_row_change('email_template', 'key');
+drop trigger if exists audit_assignments on assignments;
+create trigger audit_assignments after insert or update or delete on assignments
+  for each row execute procedure public.audit_row_change('assignment', 'id', 'title');
+drop trigger if exists audit_assignment_submissions on assignment_submissions;
+create trigger audit_assignment_submissions after update or delete on assignment_submissions
+  for each row execute procedure public.audit_row_change('assignment_submission', 'id');
+drop trigger if exists audit_quizzes on quizzes;
+create trigger audit_quizzes after insert or update or delete on quizzes
+  for each row execute procedure public.audit_row_change('quiz', 'id', 'title');
+drop trigger if exists audit_quiz_questions on quiz_questions;
+create trigger audit_quiz_questions after insert or update or delete on quiz_questions
+  for each row execute procedure public.audit_row_change('quiz_question', 'id', 'prompt');
+drop trigger if exists audit_session_attendance on session_attendance;
+create trigger audit_session_attendance after update or delete on session_attendance
+  for each row execute procedure public.audit_row_change('session_attendance', 'id', 'status');
+drop trigger if exists audit_course_ratings on course_ratings;
+create trigger audit_course_ratings after update or delete on course_ratings
+  for each row execute procedure public.audit_row_change('course_rating', 'id', 'course_id');
+-- Discussions are audited for moderation only (the counters change on every vote and reply)
+drop trigger if exists audit_discussion_threads on discussion_threads;
+create trigger audit_discussion_threads after update of is_pinned, is_locked, answer_post_id, hidden_at or delete on discussion_threads
+  for each row execute procedure public.audit_row_change('discussion_thread', 'id', 'title');
+drop trigger if exists audit_discussion_posts on discussion_posts;
+create trigger audit_discussion_posts after update of hidden_at or delete on discussion_posts
+  for each row execute procedure public.audit_row_change('discussion_post', 'id');
+drop trigger if exists audit_quiz_attempts on quiz_attempts;
+create trigger audit_quiz_attempts after delete on quiz_attempts
+  for each row execute procedure public.audit_row_change('quiz_attempt', 'id');
+
+-- Completion decisions get a readable summary naming the student and program
+create or replace function public.audit_enrollment_review()
+returns trigger as $$
+declare
+  student text;
+  program text;
+begin
+  if auth.uid() is null or new.status is not distinct from old.status
+     or not exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'instructor')) then
+    return null;
+  end if;
+  select coalesce(name, email) into student from profiles where id = new.user_id;
+  select title into program from courses where id = new.course_id;
+
+  insert into audit_log (actor_id, action, target_type, target_id, summary, before, after, details)
+  values (
+    auth.uid(),
+    case new.status when 'completed' then 'enrollment.approve' when 'rejected' then 'enrollment.reject' else 'enrollment.status_change' end,
+    'enrollment',
+    new.id::text,
+    case new.status when 'completed' then 'Approved completion of ' when 'rejected' then 'Rejected completion of ' else 'Set ' || new.status || ' for ' end
+      || coalesce(student, 'a student') || ' in ' || coalesce(program, new.course_id),
+    jsonb_build_object('status', old.status),
+    jsonb_build_object('status', new.status, 'review_note', new.review_note),
+    jsonb_build_object('userId', new.user_id, 'courseId', new.course_id)
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists audit_enrollment_review on enrollments;
+create trigger audit_enrollment_review after update of status on enrollments
+  for each row execute procedure public.audit_enrollment_review();
+
+-- The audit log is append-only, for the service role and the SQL editor too
+create or replace function public.prevent_audit_log_changes()
+returns trigger as $$
+begin
+  raise exception 'The audit log is append-only';
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_audit_log_change on audit_log;
+create trigger on_audit_log_change
+  before update or delete on audit_log
+  for each row execute procedure public.prevent_audit_log_changes();
+drop trigger if exists on_audit_log_truncate on audit_log;
+create trigger on_audit_log_truncate
+  before truncate on audit_log
+  for each statement execute procedure public.prevent_audit_log_changes();
+
 -- Trigger for new users
 create or replace function public.handle_new_user() 
 returns trigger as $$
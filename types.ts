@@ -9,6 +9,36 @@ export enum View {
   EDIT_COURSE = 'EDIT_COURSE',
   CREATE_COURSE = 'CREATE_COURSE',
   VIDEO_GENERATOR = 'VIDEO_GENERATOR',
+  CHECKOUT = 'CHECKOUT',
+  ORDER_STATUS = 'ORDER_STATUS',
+  ADMIN_REVENUE = 'ADMIN_REVENUE',
+  ADMIN_COUPONS = 'ADMIN_COUPONS',
+  ADMIN_CERTIFICATE_TEMPLATES = 'ADMIN_CERTIFICATE_TEMPLATES',
+  ADMIN_SIGNATORIES = 'ADMIN_SIGNATORIES',
+  ADMIN_CERTIFICATES = 'ADMIN_CERTIFICATES',
+  ADMIN_EMAILS = 'ADMIN_EMAILS',
+  ADMIN_EMAIL_TEMPLATES = 'ADMIN_EMAIL_TEMPLATES',
+  VERIFY_CERTIFICATE = 'VERIFY_CERTIFICATE',
+  NOTIFICATIONS = 'NOTIFICATIONS',
+  ADMIN_ROLES = 'ADMIN_ROLES',
+  ADMIN_USERS = 'ADMIN_USERS',
+  ADMIN_AUDIT = 'ADMIN_AUDIT',
+  ADMIN_ANALYTICS = 'ADMIN_ANALYTICS',
+  LEARNING_PATHS = 'LEARNING_PATHS',
+  PATH_CERTIFICATE = 'PATH_CERTIFICATE',
+  ADMIN_PATHS = 'ADMIN_PATHS',
+  ADMIN_COHORTS = 'ADMIN_COHORTS',
+  ADMIN_SESSIONS = 'ADMIN_SESSIONS',
+  SESSION_ATTENDANCE = 'SESSION_ATTENDANCE',
+  ADMIN_RATINGS = 'ADMIN_RATINGS',
+  COURSE_ASSIGNMENTS = 'COURSE_ASSIGNMENTS',
+  ADMIN_ASSIGNMENTS = 'ADMIN_ASSIGNMENTS',
+  COURSE_QUIZZES = 'COURSE_QUIZZES',
+  COURSE_DISCUSSIONS = 'COURSE_DISCUSSIONS',
+  DISCUSSION_THREAD = 'DISCUSSION_THREAD',
+  ADMIN_QUIZZES = 'ADMIN_QUIZZES',
+  FORGOT_PASSWORD = 'FORGOT_PASSWORD',
+  RESET_PASSWORD = 'RESET_PASSWORD',
 }
 
 export enum CourseLevel {
@@ -17,21 +47,276 @@ export enum CourseLevel {
   ADVANCED = 'Advanced',
 }
 
+export type LessonType = 'video' | 'reading' | 'exercise' | 'project' | 'live';
+
+export interface Lesson {
+  id: string;
+  moduleId: string;
+  title: string;
+  type: LessonType;
+  estimatedMinutes: number;
+  position: number;
+  videoId?: string; // References videos.id in the gallery
+  resourceUrl?: string; // External link or storage path
+}
+
+export interface CourseModule {
+  id: string;
+  courseId: string;
+  title: string;
+  position: number;
+  lessons: Lesson[];
+}
+
+export type SubmissionType = 'file' | 'link' | 'either';
+
+export interface RubricCriterion {
+  id: string;
+  criterion: string;
+  description?: string;
+  maxPoints: number;
+}
+
+export interface Assignment {
+  id: string;
+  courseId: string;
+  title: string;
+  instructions: string;
+  dueAt?: string;
+  submissionType: SubmissionType;
+  rubric: RubricCriterion[];
+  passPercent: number; // Share of the rubric total needed to pass (0-100)
+  position: number;
+}
+
+export interface AssignmentSubmission {
+  id: string;
+  assignmentId: string;
+  userId: string;
+  studentName?: string; // Loaded for graders
+  courseId: string;
+  filePath?: string; // Internal Storage Path
+  fileName?: string;
+  linkUrl?: string;
+  note?: string;
+  submittedAt: string;
+  rubricScores: { [criterionId: string]: number };
+  score?: number; // Unset until graded
+  passed?: boolean;
+  feedback?: string;
+  gradedAt?: string;
+}
+
+export type QuestionKind = 'single' | 'multiple' | 'numeric' | 'text';
+
+export interface QuizOption {
+  id: string;
+  text: string;
+}
+
+// Correct answer for each kind; only admins can read it
+export interface QuizAnswerKey {
+  optionIds?: string[]; // single and multiple choice
+  value?: number; // numeric
+  tolerance?: number; // numeric; accepted distance from value
+  accepted?: string[]; // short text; compared ignoring case
+}
+
+export interface QuizQuestion {
+  id: string;
+  quizId: string;
+  kind: QuestionKind;
+  prompt: string;
+  options: QuizOption[];
+  answer?: QuizAnswerKey; // Unset when loaded for a student attempt
+  points: number;
+  position: number;
+}
+
+export interface Quiz {
+  id: string;
+  courseId: string;
+  lessonId?: string; // Shown after this lesson in the curriculum
+  title: string;
+  description: string;
+  questionsPerAttempt?: number; // Drawn at random from the bank; unset asks every question
+  shuffleQuestions: boolean;
+  timeLimitMinutes?: number;
+  maxAttempts?: number;
+  passPercent: number; // Share of the points needed to pass (0-100)
+  position: number;
+}
+
+export type QuizResponse = string[] | number | string; // Option ids, a number or a short text
+
+export interface QuizAttempt {
+  id: string;
+  quizId: string;
+  userId: string;
+  studentName?: string; // Loaded for admins
+  questionIds: string[];
+  answers: { [questionId: string]: QuizResponse };
+  results: { [questionId: string]: number }; // Points earned per question
+  startedAt: string;
+  expiresAt?: string;
+  submittedAt?: string; // Unset while in progress
+  score?: number;
+  maxScore?: number;
+  percent?: number;
+  passed?: boolean;
+}
+
+export interface Signatory {
+  id: string;
+  name: string;
+  title: string; // e.g. "Director"
+  signatureImage?: string; // Signed URL for display
+  signaturePath?: string;  // Internal Storage Path
+}
+
 export interface Course {
   id: string;
   title: string;
   description: string;
-  outline?: string; // HTML string for course outline
+  outline?: string; // Legacy HTML outline, importable into the curriculum
+  curriculum?: CourseModule[]; // Ordered modules -> lessons
   instructor: string;
   instructorBio?: string; // HTML string for instructor bio
+  instructorId?: string; // Instructor account that can edit the program and review its students
   duration: string;
   level: CourseLevel;
   price: number; // In GHC
   tags: string[];
   image: string; // Display URL (Signed or Public)
   imagePath?: string; // Internal Storage Path
-  signatureImage?: string; // Signed URL for display
-  signaturePath?: string;  // Internal Storage Path
+  signatoryIds?: string[]; // Ordered; who signs this program's certificates
+  certificateTemplateId?: string; // Built-in or custom template; unset uses the default
+  requirePassingAssignments?: boolean; // Completion requests wait until every assignment is passed
+  requirePassingQuizzes?: boolean; // Completion requests wait until every quiz is passed
+  minAttendancePercent?: number; // Completion requests wait until live session attendance reaches this
+  createdAt?: string;
+  enrollmentCount?: number; // Registrations across all students, for sorting by popularity
+  averageRating?: number; // Published ratings only; unset until the first one
+  ratingCount?: number;
+  prerequisiteIds?: string[]; // Programs to complete before registering
+  prerequisiteRule?: PrerequisiteRule;
+  cohorts?: Cohort[]; // Scheduled runs by start date; none means self-paced
+}
+
+// A scheduled run of a program. Dates are calendar days (YYYY-MM-DD).
+export interface Cohort {
+  id: string;
+  courseId: string;
+  name: string;
+  startsOn: string;
+  endsOn?: string;
+  registrationDeadline?: string; // Last day to register; unset means until the start date
+  capacity?: number; // Unset is unlimited
+  seatsTaken: number; // Enrollments plus seats held for waitlisted students
+  waitlisted: number; // Students still waiting for a seat
+}
+
+// A scheduled instructor-led session. Stored as an instant; the zone it was scheduled in is kept for display.
+export interface LiveSession {
+  id: string;
+  courseId: string;
+  cohortId?: string; // Only this cohort attends; unset is every student of the program
+  title: string;
+  description?: string;
+  startsAt: string; // ISO timestamp
+  durationMinutes: number;
+  timeZone: string; // IANA zone, e.g. Africa/Accra
+  meetingUrl?: string;
+  updatedAt: string;
+}
+
+export type AttendanceStatus = 'present' | 'late' | 'absent' | 'excused';
+
+export interface AttendanceRecord {
+  id: string;
+  sessionId: string;
+  userId: string;
+  status: AttendanceStatus;
+  note?: string;
+  markedAt: string;
+}
+
+export type RatingStatus = 'published' | 'flagged' | 'hidden';
+
+// A graduate's star rating and review of a program. Flagged and hidden reviews are seen only by their author and admins.
+export interface CourseRating {
+  id: string;
+  courseId: string;
+  userId: string;
+  reviewerName: string;
+  rating: number; // 1 to 5 stars
+  body?: string;
+  status: RatingStatus;
+  moderationNote?: string;
+  moderatedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A question or topic on a program's discussion board. Counters are kept by the database.
+export interface DiscussionThread {
+  id: string;
+  courseId: string;
+  lessonId?: string; // Unset for general discussions of the program
+  authorId: string;
+  authorName: string;
+  isStaff: boolean; // Started by the program's instructor or an admin
+  title: string;
+  body: string;
+  isPinned: boolean;
+  isLocked: boolean;
+  answerPostId?: string; // Reply marked as the answer by an instructor or admin
+  isHidden: boolean; // Hidden by a moderator; only its author and moderators see it
+  upvotes: number;
+  replyCount: number;
+  lastActivityAt: string;
+  editedAt?: string;
+  createdAt: string;
+}
+
+export interface DiscussionPost {
+  id: string;
+  threadId: string;
+  parentId?: string; // Set when replying to another reply
+  authorId: string;
+  authorName: string;
+  isStaff: boolean;
+  body: string;
+  isHidden: boolean;
+  upvotes: number;
+  editedAt?: string;
+  createdAt: string;
+}
+
+// Someone who can be @mentioned on a program's board.
+export interface DiscussionParticipant {
+  id: string;
+  name: string;
+  isStaff: boolean;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  cohortId: string;
+  offeredAt?: string; // A seat is held for two days from here (paid programs)
+  createdAt: string;
+}
+
+// 'warn' lets students register after a confirmation; 'block' refuses until prerequisites are completed
+export type PrerequisiteRule = 'warn' | 'block';
+
+// A curated track of programs studied in order, with its own certificate once all are completed.
+export interface LearningPath {
+  id: string;
+  title: string;
+  description: string;
+  courseIds: string[]; // In study order
+  certificateTemplateId?: string; // Unset uses the final program's template
 }
 
 export interface User {
@@ -41,8 +326,194 @@ export interface User {
   registeredCourseIds: string[];
   completedCourseIds: string[];
   pendingCourseIds: string[];
-  courseProgress: { [courseId: string]: number }; // Mapping of courseId to percentage (0-100)
-  role: 'student' | 'admin';
+  courseReviews?: { [courseId: string]: CompletionReview }; // Latest reviewer decision per course
+  courseProgress: { [courseId: string]: number }; // Percentage (0-100), derived from completed lessons
+  courseQuizScores?: { [courseId: string]: number }; // Average best quiz percentage, for programs with quizzes
+  courseAttendance?: { [courseId: string]: number }; // Live session attendance percentage, once any is marked
+  completedLessonIds: { [courseId: string]: string[] };
+  resumeLesson?: { courseId: string; lessonId: string }; // Most recently viewed lesson
+  courseCohorts?: { [courseId: string]: string }; // Cohort id per enrollment, for programs with cohorts
+  waitlist?: WaitlistEntry[];
+  role: UserRole;
+}
+
+export type UserRole = 'student' | 'instructor' | 'admin' | 'finance';
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  deactivatedAt?: string; // Deactivated accounts cannot sign in
+  createdAt: string;
+}
+
+export type EnrollmentStatus = 'registered' | 'pending' | 'rejected' | 'completed';
+
+export interface UserEnrollment {
+  courseId: string;
+  status: EnrollmentStatus;
+  progress: number;
+  quizScore?: number;
+  enrolledAt: string;
+}
+
+// A profile with its enrollments, as listed in the admin Users console.
+export interface ManagedUser extends UserProfile {
+  enrollments: UserEnrollment[];
+}
+
+export type UserAction = 'enroll' | 'unenroll' | 'reset_progress' | 'deactivate' | 'reactivate';
+
+// One entry in the append-only audit log of staff actions.
+export interface AuditEntry {
+  id: string;
+  actorId?: string;
+  actorName?: string; // Missing for changes made from the SQL editor
+  action: string; // e.g. course.update, user.enroll
+  targetType: string;
+  targetId?: string;
+  summary: string;
+  before?: { [column: string]: any }; // Changed columns only, or the whole row for deletes
+  after?: { [column: string]: any }; // Changed columns only, or the whole row for inserts
+  details: { [key: string]: any };
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  targetType?: string;
+  actorId?: string;
+  userId?: string; // Actions on the user's account or their enrollments
+  search?: string;
+  from?: string; // ISO timestamps
+  to?: string;
+}
+
+export interface ReviewChecklistItem {
+  label: string;
+  met: boolean;
+}
+
+// An admin's decision on a completion request. Kept after a resubmission so the student still sees the feedback.
+export interface CompletionReview {
+  status: 'rejected' | 'completed';
+  note?: string;
+  checklist: ReviewChecklistItem[];
+  reviewedAt: string;
+}
+
+export interface EnrollmentStatusChange {
+  id: string;
+  fromStatus?: EnrollmentStatus;
+  toStatus: EnrollmentStatus;
+  actorName?: string; // Missing for system changes
+  note?: string;
+  checklist: ReviewChecklistItem[];
+  createdAt: string;
+}
+
+export type PaymentMethod = 'mobile_money' | 'card' | 'mock';
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'cancelled' | 'refund_due'; // refund_due: paid, but could not be honoured
+
+export interface Order {
+  id: string;
+  userId: string;
+  courseId: string;
+  amount: number; // In GHC
+  currency: string;
+  status: OrderStatus;
+  invoiceNumber: string;
+  method?: PaymentMethod;
+  reference?: string; // Provider transaction reference
+  originalAmount?: number; // List price before any coupon
+  discountAmount?: number;
+  couponCode?: string;
+  createdAt: string;
+  paidAt?: string;
+}
+
+// 'scholarship' zeroes the price; its value is ignored.
+export type DiscountKind = 'percent' | 'fixed' | 'scholarship';
+
+export interface Coupon {
+  code: string;
+  description?: string;
+  kind: DiscountKind;
+  value: number; // Percent (0-100) or GHC amount
+  expiresAt?: string;
+  maxRedemptions?: number;
+  courseIds: string[]; // Empty means every training program
+  levels: CourseLevel[]; // Empty means every level
+  recipientEmail?: string; // Restricts redemption to one student
+  active: boolean;
+  redemptionCount?: number;
+  createdAt?: string;
+}
+
+export interface PriceQuote {
+  originalPrice: number;
+  discount: number;
+  finalPrice: number;
+  couponCode?: string;
+}
+
+export interface CouponRedemption {
+  id: string;
+  couponCode: string;
+  userId: string;
+  courseId: string;
+  orderId?: string;
+  originalPrice: number;
+  discountAmount: number;
+  finalPrice: number;
+  createdAt: string;
+}
+
+// An issued credential. Name and title are snapshotted at issue time so later edits
+// to the profile or course do not change what the certificate attests.
+export interface IssuedCertificate {
+  id: string;
+  serial: string;
+  userId: string;
+  courseId?: string; // Program certificates
+  pathId?: string; // Learning path certificates
+  recipientName: string;
+  courseTitle: string; // Program or learning path title
+  issuedAt: string;
+  revokedAt?: string;
+  revocationReason?: string;
+}
+
+export type EmailStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// One transactional email in the outbox. Subject and body are filled in when a delivery is attempted.
+export interface OutboxEmail {
+  id: string;
+  template: string;
+  recipient: string;
+  status: EmailStatus;
+  attempts: number;
+  subject?: string;
+  body?: string;
+  transport?: string;
+  lastError?: string;
+  nextAttemptAt: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+export type InboxNotificationKind = 'completion_approved' | 'completion_rejected' | 'comment' | 'assignment_graded' | 'path_completed' | 'cohort_seat' | 'live_session' | 'rating_moderated' | 'discussion';
+
+// A persisted message in the user's inbox (toasts are transient and live in App state).
+export interface InboxNotification {
+  id: string;
+  userId: string;
+  kind: InboxNotificationKind;
+  title: string;
+  body?: string;
+  link?: string; // In-app path
+  readAt?: string;
+  createdAt: string;
 }
 
 export interface ChatMessage {
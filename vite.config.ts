@@ -11,7 +11,8 @@ export default defineConfig(({ mode }) => {
       // Polyfill process.env variables for the browser
       'process.env.API_KEY': JSON.stringify(env.API_KEY),
       'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL || env.VITE_SUPABASE_URL),
-      'process.env.SUPABASE_KEY': JSON.stringify(env.SUPABASE_KEY || env.SUPABASE_ANON_KEY || env.VITE_SUPABASE_KEY || env.VITE_SUPABASE_ANON_KEY)
+      'process.env.SUPABASE_KEY': JSON.stringify(env.SUPABASE_KEY || env.SUPABASE_ANON_KEY || env.VITE_SUPABASE_KEY || env.VITE_SUPABASE_ANON_KEY),
+      'process.env.ENABLE_MOCK_PAYMENTS': JSON.stringify(env.ENABLE_MOCK_PAYMENTS)
     },
     build: {
       rollupOptions: {